@@ -0,0 +1,73 @@
+/**
+ * Unit tests for lib/valuation/betaRegression.ts
+ *
+ * Coverage:
+ *   periodReturns — date matching across stock and index series
+ *   regressBeta   — OLS slope, standard error, R², degenerate inputs
+ *   blumeAdjust   — 0.67 × raw + 0.33
+ *   windowStart   — look-back start date
+ */
+
+import { describe, it, expect } from "vitest"
+import {
+  periodReturns, regressBeta, blumeAdjust, windowStart, type ReturnPair,
+} from "@/lib/valuation/betaRegression"
+
+const pair = (market: number, stock: number): ReturnPair => ({ date: "", market, stock })
+
+// ── periodReturns ─────────────────────────────────────────────────────────────
+
+describe("periodReturns", () => {
+  it("pairs returns over dates both series share", () => {
+    const stock  = [{ date: "2024-01-03", close: 50 }, { date: "2024-01-01", close: 40 }, { date: "2024-01-02", close: 44 }]
+    const market = [{ date: "2024-01-01", close: 100 }, { date: "2024-01-03", close: 110 }]
+    const pairs = periodReturns(stock, market)
+    expect(pairs).toHaveLength(1)
+    expect(pairs[0].date).toBe("2024-01-03")
+    expect(pairs[0].stock).toBeCloseTo(0.25, 10)
+    expect(pairs[0].market).toBeCloseTo(0.10, 10)
+  })
+})
+
+// ── regressBeta ───────────────────────────────────────────────────────────────
+
+describe("regressBeta", () => {
+  it("recovers an exact linear relationship with zero error", () => {
+    const r = regressBeta([-0.02, 0.01, 0.03, -0.01, 0.04].map((m) => pair(m, 0.001 + 1.5 * m)))!
+    expect(r.raw).toBeCloseTo(1.5, 10)
+    expect(r.alpha).toBeCloseTo(0.001, 10)
+    expect(r.std_error).toBeCloseTo(0, 10)
+    expect(r.r_squared).toBeCloseTo(1, 10)
+    expect(r.adjusted).toBeCloseTo(0.67 * 1.5 + 0.33, 10)
+  })
+
+  it("reports the OLS standard error and R² on noisy data", () => {
+    // x = −1, 0, 1; y = −1, 1, 1 → slope 1, SSR 2/3, Sxx 2, Syy 8/3
+    const r = regressBeta([pair(-1, -1), pair(0, 1), pair(1, 1)])!
+    expect(r.raw).toBeCloseTo(1, 10)
+    expect(r.std_error).toBeCloseTo(Math.sqrt((2 / 3) / 1 / 2), 10)
+    expect(r.r_squared).toBeCloseTo(0.75, 10)
+    expect(r.n).toBe(3)
+  })
+
+  it("returns null for too few points or a flat market", () => {
+    expect(regressBeta([pair(0.01, 0.02), pair(0.02, 0.03)])).toBeNull()
+    expect(regressBeta([pair(0.01, 0.02), pair(0.01, 0.03), pair(0.01, -0.01)])).toBeNull()
+  })
+})
+
+// ── blumeAdjust / windowStart ─────────────────────────────────────────────────
+
+describe("blumeAdjust", () => {
+  it("leaves a market beta of 1 unchanged and shrinks others toward it", () => {
+    expect(blumeAdjust(1)).toBeCloseTo(1, 10)
+    expect(blumeAdjust(2)).toBeCloseTo(1.67, 10)
+    expect(blumeAdjust(0.4)).toBeCloseTo(0.598, 10)
+  })
+})
+
+describe("windowStart", () => {
+  it("steps back whole years from the as-of date", () => {
+    expect(windowStart(5, new Date("2025-06-30T12:00:00Z"))).toBe("2020-06-30")
+  })
+})
@@ -0,0 +1,171 @@
+/**
+ * Unit tests for lib/valuation/cache.ts (+ cachedProviders in providers.ts)
+ *
+ * Coverage:
+ *   cached        — fresh hit, miss, stale refresh, stale-while-revalidate,
+ *                   version invalidation, stale fallback on error, null results
+ *   diskStore     — round trip, list without payloads, delete, clear by source
+ *   cachedProviders — companyfacts keyed by latest periodic accession,
+ *                   cached facts served when submissions cannot be read
+ */
+
+import { describe, it, expect, vi } from "vitest"
+import os from "os"
+import path from "path"
+import { promises as fs } from "fs"
+import { cached, diskStore, memoryStore, CACHE_TTL_MS, type CacheEntry } from "@/lib/valuation/cache"
+import {
+  cachedProviders,
+  fixtureProviders,
+  latestPeriodicAccession,
+  type DataProviders,
+} from "@/lib/valuation/providers"
+
+const LATER = () => Date.now() + CACHE_TTL_MS.quoteSummary + 1
+
+// ── cached ────────────────────────────────────────────────────────────────────
+
+describe("cached", () => {
+  it("loads on a miss and serves the stored value while fresh", async () => {
+    const store = memoryStore()
+    const load = vi.fn(async () => ({ price: 1 }))
+    expect(await cached(store, "q", "quoteSummary", load)).toEqual({ price: 1 })
+    expect(await cached(store, "q", "quoteSummary", load)).toEqual({ price: 1 })
+    expect(load).toHaveBeenCalledTimes(1)
+  })
+
+  it("refetches once the TTL has passed", async () => {
+    const store = memoryStore()
+    await cached(store, "q", "quoteSummary", async () => 1)
+    const value = await cached(store, "q", "quoteSummary", async () => 2, { now: LATER() })
+    expect(value).toBe(2)
+  })
+
+  it("serves stale values immediately in swr mode and refreshes in the background", async () => {
+    const store = memoryStore()
+    await cached(store, "q", "quoteSummary", async () => 1)
+    const value = await cached(store, "q", "quoteSummary", async () => 2, { now: LATER(), swr: true })
+    expect(value).toBe(1)
+    await vi.waitFor(async () => expect((await store.get("q"))?.value).toBe(2))
+  })
+
+  it("treats a different version as a miss regardless of age", async () => {
+    const store = memoryStore()
+    await cached(store, "f", "companyFacts", async () => "old", { version: "acc-1" })
+    expect(await cached(store, "f", "companyFacts", async () => "new", { version: "acc-1" })).toBe("old")
+    expect(await cached(store, "f", "companyFacts", async () => "new", { version: "acc-2", swr: true })).toBe("new")
+  })
+
+  it("falls back to the stale value when the refresh throws", async () => {
+    const store = memoryStore()
+    await cached(store, "q", "quoteSummary", async () => 1)
+    const failing = async (): Promise<number> => { throw new Error("offline") }
+    expect(await cached(store, "q", "quoteSummary", failing, { now: LATER() })).toBe(1)
+  })
+
+  it("does not store null results", async () => {
+    const store = memoryStore()
+    expect(await cached(store, "n", "newsRss", async () => null)).toBeNull()
+    expect(await store.list()).toEqual([])
+  })
+})
+
+// ── diskStore ─────────────────────────────────────────────────────────────────
+
+describe("diskStore", () => {
+  const entry = (key: string, source: CacheEntry["source"]): CacheEntry<{ n: number }> => ({
+    key, source, value: { n: 1 }, storedAt: 0, expiresAt: 1, bytes: 7,
+  })
+
+  it("round-trips entries and lists metadata only", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "cache-"))
+    try {
+      const store = diskStore(dir)
+      await store.set(entry("quoteSummary:ACME:price", "quoteSummary"))
+      await store.set(entry("companyFacts:0001234567", "companyFacts"))
+
+      expect((await store.get<{ n: number }>("quoteSummary:ACME:price"))?.value).toEqual({ n: 1 })
+      const listed = await store.list()
+      expect(listed.map((m) => m.key).sort()).toEqual(["companyFacts:0001234567", "quoteSummary:ACME:price"])
+      expect(listed.every((m) => !("value" in m))).toBe(true)
+
+      expect(await store.clear("quoteSummary")).toBe(1)
+      expect(await store.get("quoteSummary:ACME:price")).toBeNull()
+      expect(await store.delete("companyFacts:0001234567")).toBe(true)
+      expect(await store.delete("companyFacts:0001234567")).toBe(false)
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  it("returns null for a missing cache directory", async () => {
+    const store = diskStore(path.join(os.tmpdir(), "cache-does-not-exist"))
+    expect(await store.get("x")).toBeNull()
+    expect(await store.list()).toEqual([])
+  })
+})
+
+// ── cachedProviders ───────────────────────────────────────────────────────────
+
+describe("latestPeriodicAccession", () => {
+  it("skips current reports and returns the newest 10-K/10-Q", () => {
+    const sub = { filings: { recent: { form: ["8-K", "10-Q", "10-K"], accessionNumber: ["a", "b", "c"] } } }
+    expect(latestPeriodicAccession(sub)).toBe("b")
+  })
+
+  it("returns undefined without periodic filings", () => {
+    expect(latestPeriodicAccession(null)).toBeUndefined()
+  })
+})
+
+describe("cachedProviders", () => {
+  const FIXTURES = path.join(__dirname, "fixtures")
+
+  it("refetches companyfacts when a new periodic filing appears", async () => {
+    const base = fixtureProviders(FIXTURES)
+    let accession = "acc-1"
+    const companyFacts = vi.fn(base.fundamentals.companyFacts)
+    const inner: DataProviders = {
+      market: base.market,
+      fundamentals: {
+        ...base.fundamentals,
+        companyFacts,
+        submissions: async () => ({ filings: { recent: { form: ["10-Q"], accessionNumber: [accession] } } }),
+      },
+    }
+    const store = memoryStore()
+
+    await cachedProviders(inner, store).fundamentals.companyFacts("1234567")
+    await cachedProviders(inner, store).fundamentals.companyFacts("1234567")
+    expect(companyFacts).toHaveBeenCalledTimes(1)
+
+    accession = "acc-2"
+    await store.clear("submissions")
+    await cachedProviders(inner, store).fundamentals.companyFacts("1234567")
+    expect(companyFacts).toHaveBeenCalledTimes(2)
+  })
+
+  it("serves cached companyfacts when submissions cannot be read", async () => {
+    const base = fixtureProviders(FIXTURES)
+    let edgarUp = true
+    const companyFacts = vi.fn(base.fundamentals.companyFacts)
+    const inner: DataProviders = {
+      market: base.market,
+      fundamentals: {
+        ...base.fundamentals,
+        companyFacts,
+        submissions: async () => {
+          if (!edgarUp) throw new Error("EDGAR unreachable")
+          return { filings: { recent: { form: ["10-K"], accessionNumber: ["acc-1"] } } }
+        },
+      },
+    }
+    const store = memoryStore()
+
+    const first = await cachedProviders(inner, store).fundamentals.companyFacts("1234567")
+    edgarUp = false
+    await store.clear("submissions")
+    expect(await cachedProviders(inner, store).fundamentals.companyFacts("1234567")).toEqual(first)
+    expect(companyFacts).toHaveBeenCalledTimes(1)
+  })
+})
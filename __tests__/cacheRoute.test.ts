@@ -0,0 +1,51 @@
+/**
+ * Unit tests for app/api/cache/route.ts
+ *
+ * Coverage:
+ *   authorization — refused in production without CACHE_ADMIN_TOKEN, bearer token check
+ *   DELETE        — source validation (own keys of CACHE_TTL_MS only)
+ */
+
+import { describe, it, expect, afterEach, vi } from "vitest"
+import os from "os"
+import path from "path"
+import { NextRequest } from "next/server"
+import { GET, DELETE } from "@/app/api/cache/route"
+
+const url = (query = "") => `http://localhost/api/cache${query}`
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+describe("cache admin route", () => {
+  it("refuses every request in production when no admin token is configured", async () => {
+    vi.stubEnv("NODE_ENV", "production")
+    vi.stubEnv("CACHE_ADMIN_TOKEN", "")
+
+    const get = await GET(new NextRequest(url()))
+    const del = await DELETE(new NextRequest(url("?all=1"), { method: "DELETE" }))
+    expect(get.status).toBe(403)
+    expect(del.status).toBe(403)
+  })
+
+  it("requires the bearer token when one is configured", async () => {
+    vi.stubEnv("NODE_ENV", "production")
+    vi.stubEnv("CACHE_ADMIN_TOKEN", "secret")
+
+    const res = await DELETE(new NextRequest(url("?all=1"), {
+      method: "DELETE",
+      headers: { authorization: "Bearer wrong" },
+    }))
+    expect(res.status).toBe(401)
+  })
+
+  it("rejects inherited object keys as a cache source", async () => {
+    vi.stubEnv("NODE_ENV", "development")
+    vi.stubEnv("CACHE_ADMIN_TOKEN", "")
+    vi.stubEnv("DATA_CACHE_DIR", path.join(os.tmpdir(), "cache-route-test"))
+
+    const res = await DELETE(new NextRequest(url("?source=toString"), { method: "DELETE" }))
+    expect(res.status).toBe(400)
+  })
+})
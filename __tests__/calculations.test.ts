@@ -6,7 +6,19 @@
  *   computePCF        — CFO/share, implied price, zero-guard
  *   computeJustifiedPE — CFA L2 formula validation
  *   computeJustifiedPB — CFA L2 formula validation
+ *   selectModelSet    — sector → standard / financial
+ *   computeExcessReturn — tangible-book excess return model
+ *   fitLine / computePTBVRegression — P/TBV vs ROTE regression and fallback
+ *   computeAll (financial) — bank model set in the signal table
+ *   computeFFOMultiples / computeNAV — REIT P/FFO, P/AFFO and cap-rate NAV
+ *   workingCapitalDays / buildThreeStatement — days-driven ΔNWC, balancing roll-forward
+ *   discountSchedule  — valuation date stub (default: start of today, UTC), mid-year convention,
+ *                       dcfPrice / DDM wiring
+ *   computeTerminalValue — perpetuity / exit multiple / blend, implied cross-checks
+ *   tsmShares / equityPerShare — treasury stock method, iterated at the intrinsic price; SBC toggle
+ *                       (FCFF, debt schedule and CFO add-back)
  *   assignSignal      — BUY/HOLD/SELL thresholds
+ *   consensusBlend    — headline blend over live models only; N/A anchor; REIT P/FFO fallback
  *   fmtUsd / fmtPct   — formatting helpers
  *
  * Mirrors the build_baseline derived-field tests from
@@ -19,11 +31,32 @@ import {
   computePCF,
   computeJustifiedPE,
   computeJustifiedPB,
+  selectModelSet,
+  computeExcessReturn,
+  fitLine,
+  computePTBVRegression,
+  computeFFOMultiples,
+  computeNAV,
+  workingCapitalDays,
+  buildProforma,
+  buildGrowthSchedule,
+  buildThreeStatement,
+  computeFCFE,
+  discountSchedule,
+  dcfPrice,
+  yearsElapsed,
+  presentValue,
+  projectionStartYear,
+  computeTerminalValue,
+  tsmShares,
+  equityPerShare,
+  computeAll,
   assignSignal,
+  consensusBlend,
   fmtUsd,
   fmtPct,
 } from "@/lib/valuation/calculations"
-import type { Baseline, Assumptions } from "@/types/valuation"
+import type { Baseline, Assumptions, SignalRow } from "@/types/valuation"
 
 // ── Fixtures ──────────────────────────────────────────────────────────────────
 
@@ -179,6 +212,15 @@ describe("computePCF", () => {
     const { pps_pcf: high } = computePCF(B, 18.0)
     expect(high).toBeGreaterThan(low)
   })
+
+  it("keeps SBC in OCF to match the peer multiples' basis", () => {
+    const B = makeBaseline({ ocf: 650.0, shares_diluted: 88.0, sbc: 50.0 })
+    expect(computePCF(B, 15.0).cfoPerShare).toBeCloseTo(650.0 / 88.0, 6)
+    const a = makeAssumptions()
+    const comps = { Peer: { ev_ebitda: 12, ev_rev: 3, pe: 20, peg: 1.5, pb: 3, pcf: 15 } }
+    expect(computeAll(B, comps, {}, {}, [5, 5.5, 5.85], a).pps_pcf)
+      .toBeCloseTo(computeAll(B, comps, {}, {}, [5, 5.5, 5.85], { ...a, sbc_as_cash: false }).pps_pcf, 10)
+  })
 })
 
 // ── computeJustifiedPE ────────────────────────────────────────────────────────
@@ -263,6 +305,404 @@ describe("computeJustifiedPB", () => {
   })
 })
 
+// ── Financial institutions ────────────────────────────────────────────────────
+
+describe("selectModelSet", () => {
+  it("selects the financial set for Financial Services", () => {
+    expect(selectModelSet("Financial Services")).toBe("financial")
+  })
+
+  it("selects the REIT set for Real Estate", () => {
+    expect(selectModelSet("Real Estate")).toBe("reit")
+  })
+
+  it("defaults to the standard set", () => {
+    expect(selectModelSet("Technology")).toBe("standard")
+    expect(selectModelSet(undefined)).toBe("standard")
+  })
+})
+
+describe("computeExcessReturn", () => {
+  const bank = makeBaseline({ tbvps: 40, rote: 0.15, plowback_ratio: 0.60, payout_ratio: 0.40 })
+
+  it("first-year excess return = (ROTE − ke) × TBVPS", () => {
+    const { excessRows } = computeExcessReturn(bank, makeAssumptions(), 0.10)
+    expect(excessRows).toHaveLength(5)
+    expect(excessRows[0].excess_return).toBeCloseTo((0.15 - 0.10) * 40, 6)
+    expect(excessRows[1].tbvps_start).toBeCloseTo(40 * (1 + 0.15 * 0.60), 6)
+  })
+
+  it("values above tangible book when ROTE > ke, below when ROTE < ke", () => {
+    expect(computeExcessReturn(bank, makeAssumptions(), 0.10).pps_excess).toBeGreaterThan(40)
+    expect(computeExcessReturn(bank, makeAssumptions(), 0.18).pps_excess).toBeLessThan(40)
+  })
+
+  it("returns zero without tangible book", () => {
+    const { pps_excess, excessRows } = computeExcessReturn(makeBaseline(), makeAssumptions(), 0.10)
+    expect(pps_excess).toBe(0)
+    expect(excessRows).toEqual([])
+  })
+})
+
+describe("fitLine", () => {
+  it("recovers an exact line", () => {
+    const fit = fitLine([0.1, 0.15, 0.2], [1.0, 1.5, 2.0])!
+    expect(fit.slope).toBeCloseTo(10, 6)
+    expect(fit.intercept).toBeCloseTo(0, 6)
+    expect(fit.r2).toBeCloseTo(1, 6)
+    expect(fit.n).toBe(3)
+  })
+
+  it("needs three points with spread in x", () => {
+    expect(fitLine([0.1, 0.2], [1, 2])).toBeNull()
+    expect(fitLine([0.1, 0.1, 0.1], [1, 2, 3])).toBeNull()
+  })
+})
+
+describe("computePTBVRegression", () => {
+  const bank = makeBaseline({ tbvps: 40, rote: 0.14, plowback_ratio: 0.60, payout_ratio: 0.40 })
+  const peers = {
+    A: { ptbv: 1.0, rote: 0.10 },
+    B: { ptbv: 1.5, rote: 0.15 },
+    C: { ptbv: 2.0, rote: 0.20 },
+  }
+
+  it("prices off the peer regression line", () => {
+    const { impliedPTBV, pps_ptbv, ptbvFit } = computePTBVRegression(bank, peers, makeAssumptions(), 0.10)
+    expect(ptbvFit).not.toBeNull()
+    expect(impliedPTBV).toBeCloseTo(1.4, 6)
+    expect(pps_ptbv).toBeCloseTo(1.4 * 40, 6)
+  })
+
+  it("falls back to justified P/TBV with too few peers", () => {
+    const a = makeAssumptions()
+    const { impliedPTBV, ptbvFit } = computePTBVRegression(bank, { A: peers.A }, a, 0.10)
+    const g = Math.min(0.14 * 0.60, a.terminal_g)
+    expect(ptbvFit).toBeNull()
+    expect(impliedPTBV).toBeCloseTo((0.14 - g) / (0.10 - g), 6)
+  })
+
+  it("ignores a downward-sloping fit", () => {
+    const inverted = { A: { ptbv: 2.0, rote: 0.10 }, B: { ptbv: 1.5, rote: 0.15 }, C: { ptbv: 1.0, rote: 0.20 } }
+    expect(computePTBVRegression(bank, inverted, makeAssumptions(), 0.10).ptbvFit).toBeNull()
+  })
+})
+
+describe("computeAll (financial model set)", () => {
+  const bank = makeBaseline({ tbvps: 40, rote: 0.14 })
+  const comps = { A: { ev_ebitda: 10, ev_rev: 2, pe: 12, peg: 1.2, pb: 1.4, ptbv: 1.6, rote: 0.14 } }
+
+  it("swaps cash-flow and EV models for excess return and P/TBV", () => {
+    const out = computeAll(bank, comps, {}, {}, [5, 5.5, 5.85], makeAssumptions(), [], "financial")
+    const methods = out.signalRows.map((r) => r.method)
+    expect(out.modelSet).toBe("financial")
+    expect(methods).toContain("Excess Return")
+    expect(methods).toContain("P/TBV vs ROTE")
+    expect(methods).not.toContain("FCFF (DCF)")
+    expect(methods).not.toContain("EBITDA Multiple")
+  })
+
+  it("leaves the standard set untouched", () => {
+    const methods = computeAll(bank, comps, {}, {}, [5, 5.5, 5.85], makeAssumptions()).signalRows.map((r) => r.method)
+    expect(methods).toContain("FCFF (DCF)")
+    expect(methods).not.toContain("Excess Return")
+  })
+})
+
+// ── REITs ─────────────────────────────────────────────────────────────────────
+
+describe("computeFFOMultiples", () => {
+  const reit = makeBaseline({ ffo_ps: 4.0, affo_ps: 3.5 })
+
+  it("applies the peer median P/FFO", () => {
+    const { pps_pffo, medianPffo } = computeFFOMultiples(reit, { A: { pffo: 14 }, B: { pffo: 18 } })
+    expect(medianPffo).toBe(16)
+    expect(pps_pffo).toBeCloseTo(64, 6)
+  })
+
+  it("falls back to sector defaults without peer FFO", () => {
+    const { medianPffo, medianPaffo, pps_paffo } = computeFFOMultiples(reit, {})
+    expect(medianPffo).toBeGreaterThan(0)
+    expect(pps_paffo).toBeCloseTo(medianPaffo * 3.5, 6)
+  })
+
+  it("returns zero without FFO", () => {
+    expect(computeFFOMultiples(makeBaseline(), {}).pps_pffo).toBe(0)
+  })
+})
+
+describe("computeNAV", () => {
+  it("NAV = forward NOI / cap rate − net debt, per share", () => {
+    const B = makeBaseline({ noi: 500, net_debt: 3_000, shares_diluted: 100 })
+    const a = makeAssumptions({ yr1_g: 0.02, cap_rate: 0.05 })
+    const { pps_nav, navBridge } = computeNAV(B, a)
+    expect(navBridge!.property_value).toBeCloseTo(500 * 1.02 / 0.05, 6)
+    expect(pps_nav).toBeCloseTo((10_200 - 3_000) / 100, 6)
+  })
+
+  it("a higher cap rate lowers NAV", () => {
+    const B = makeBaseline({ noi: 500 })
+    expect(computeNAV(B, makeAssumptions({ cap_rate: 0.07 })).pps_nav)
+      .toBeLessThan(computeNAV(B, makeAssumptions({ cap_rate: 0.05 })).pps_nav)
+  })
+
+  it("returns null bridge without NOI", () => {
+    expect(computeNAV(makeBaseline(), makeAssumptions()).navBridge).toBeNull()
+  })
+})
+
+describe("computeAll (REIT model set)", () => {
+  it("swaps EPS multiples for P/FFO, P/AFFO and NAV", () => {
+    const reit = makeBaseline({ ffo_ps: 8, affo_ps: 7, noi: 900 })
+    const comps = { A: { ev_ebitda: 18, ev_rev: 9, pe: 35, peg: 2, pb: 2, pffo: 17 } }
+    const out = computeAll(reit, comps, {}, {}, [5, 5.5, 5.85], makeAssumptions(), [], "reit")
+    const methods = out.signalRows.map((r) => r.method)
+    expect(methods).toEqual(expect.arrayContaining(["P/FFO", "P/AFFO", "NAV (Cap Rate)"]))
+    expect(methods).not.toContain("P/E Multiple")
+    expect(methods).not.toContain("PEG")
+    expect(out.pps_pffo).toBeCloseTo(17 * 8, 6)
+  })
+})
+
+// ── Three-statement projection ────────────────────────────────────────────────
+
+describe("workingCapitalDays", () => {
+  it("DSO on revenue, DIO and DPO on COGS", () => {
+    const B = makeBaseline({ receivables: 365, inventory: 170, payables: 85 })
+    const days = workingCapitalDays(B)!
+    expect(days.dso).toBeCloseTo(365 / 3_623.7 * 365, 6)
+    expect(days.dio).toBeCloseTo(170 / 1_700 * 365, 6)
+    expect(days.dpo).toBeCloseTo(85 / 1_700 * 365, 6)
+  })
+
+  it("returns null when no working capital balances are reported", () => {
+    expect(workingCapitalDays(makeBaseline())).toBeNull()
+  })
+})
+
+describe("buildThreeStatement", () => {
+  const a = makeAssumptions()
+  const withWc = makeBaseline({ receivables: 400, inventory: 250, payables: 180, ppe: 900 })
+
+  it("balance sheet balances in every year", () => {
+    for (const B of [withWc, makeBaseline()]) {
+      const { opening, balance } = buildThreeStatement(B, buildProforma(B, buildGrowthSchedule(a), a))
+      for (const r of [opening, ...balance]) expect(Math.abs(r.balance_check)).toBeLessThan(1e-6)
+    }
+  })
+
+  it("opening balance sheet ties to reported totals", () => {
+    const { opening } = buildThreeStatement(withWc, buildProforma(withWc, buildGrowthSchedule(a), a))
+    expect(opening.total_assets).toBeCloseTo(5_000, 6)
+    expect(opening.cash).toBeCloseTo(400, 6)
+    expect(opening.equity).toBe(2_000)
+  })
+
+  it("rolls PP&E, equity and cash forward", () => {
+    const proforma = buildProforma(withWc, buildGrowthSchedule(a), a)
+    const { opening, balance, cashflow } = buildThreeStatement(withWc, proforma)
+    const r = proforma[0]
+    expect(balance[0].ppe).toBeCloseTo(900 + r.capex - r.da, 6)
+    expect(balance[0].equity).toBeCloseTo(2_000 + r.net_income - r.dividends, 6)
+    expect(balance[0].debt).toBeCloseTo(r.debt.closing_debt, 6)
+    expect(balance[0].cash).toBeCloseTo(opening.cash + cashflow[0].net_change_cash, 6)
+  })
+
+  it("ΔNWC follows working capital days when reported", () => {
+    const proforma = buildProforma(withWc, buildGrowthSchedule(a), a)
+    const { opening, balance } = buildThreeStatement(withWc, proforma)
+    const nwc = (r: typeof opening) => r.receivables + r.inventory - r.payables
+    expect(proforma[0].delta_nwc).toBeCloseTo(nwc(balance[0]) - nwc(opening), 6)
+    expect(proforma[1].delta_nwc).toBeCloseTo(nwc(balance[1]) - nwc(balance[0]), 6)
+  })
+
+  it("falls back to NWC % of incremental revenue without days", () => {
+    const B = makeBaseline()
+    const proforma = buildProforma(B, buildGrowthSchedule(a), a)
+    expect(proforma[0].delta_nwc).toBeCloseTo((proforma[0].revenue - B.revenue) * 0.03, 6)
+  })
+
+  it("FCFE from the cash flow statement = CFO − capex + net borrowing", () => {
+    const proforma = buildProforma(withWc, buildGrowthSchedule(a), a)
+    const statements = buildThreeStatement(withWc, proforma)
+    const { fcfes } = computeFCFE(proforma, withWc, a, 0.09, statements)
+    const c = statements.cashflow[0]
+    expect(fcfes[0]).toBeCloseTo(c.cfo - c.capex + c.net_borrowing, 6)
+  })
+})
+
+// ── Discounting convention ────────────────────────────────────────────────────
+
+describe("discountSchedule", () => {
+  it("uses whole years when the baseline period end is unknown", () => {
+    const s = discountSchedule(makeBaseline(), makeAssumptions(), 3)
+    expect(s).toEqual({ elapsed: 0, stub: 1, periods: [1, 2, 3], tvPeriod: 3, horizon: 3 })
+  })
+
+  it("measures a stub from the fiscal year end to the valuation date", () => {
+    const B = makeBaseline({ period_end: "2024-12-31" })
+    const s = discountSchedule(B, makeAssumptions({ valuation_date: "2025-07-01" }), 3)
+    expect(s.elapsed).toBeCloseTo(182 / 365.25, 6)
+    expect(s.periods[0]).toBeCloseTo(s.stub, 10)
+    expect(s.periods[2]).toBeCloseTo(3 - s.elapsed, 10)
+    expect(s.tvPeriod).toBeCloseTo(3 - s.elapsed, 10)
+  })
+
+  it("defaults the valuation date to the start of today (UTC)", () => {
+    const now = new Date()
+    const today = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+    const periodEnd = new Date(today.getTime() - 100 * 24 * 3600 * 1000).toISOString().slice(0, 10)
+    expect(yearsElapsed(periodEnd)).toBe(yearsElapsed(periodEnd, today.toISOString().slice(0, 10)))
+    expect(yearsElapsed(periodEnd)).toBeCloseTo(100 / 365.25, 10)
+  })
+
+  it("mid-year convention discounts flows at period midpoints", () => {
+    const B = makeBaseline({ period_end: "2024-12-31" })
+    const a = makeAssumptions({ valuation_date: "2024-12-31", mid_year_convention: true })
+    const s = discountSchedule(B, a, 3)
+    expect(s.periods).toEqual([0.5, 1.5, 2.5])
+    expect(s.tvPeriod).toBe(2.5)
+  })
+
+  it("scales year-1 flows to the stub", () => {
+    const s = { elapsed: 0.25, stub: 0.75, periods: [0.75, 1.75], tvPeriod: 1.75, horizon: 1.75 }
+    expect(presentValue([100, 100], 0.1, s)).toBeCloseTo(75 / 1.1 ** 0.75 + 100 / 1.1 ** 1.75, 10)
+  })
+
+  it("projection years follow the baseline fiscal year end", () => {
+    expect(projectionStartYear(makeBaseline({ period_end: "2024-09-28" }))).toBe(2025)
+  })
+})
+
+describe("mid-year convention in computeAll", () => {
+  it("raises FCFF, FCFE and DDM values by discounting flows half a year earlier", () => {
+    const B = makeBaseline({ period_end: "2024-12-31" })
+    const a = makeAssumptions({ valuation_date: "2024-12-31" })
+    const end = computeAll(B, {}, {}, {}, [5, 5.5, 5.85], a)
+    const mid = computeAll(B, {}, {}, {}, [5, 5.5, 5.85], { ...a, mid_year_convention: true })
+    expect(mid.pps_fcff).toBeGreaterThan(end.pps_fcff)
+    expect(mid.pps_fcfe).toBeGreaterThan(end.pps_fcfe)
+    expect(mid.pps_ddm).toBeGreaterThan(end.pps_ddm)
+    expect(mid.pps_ri).not.toBeCloseTo(end.pps_ri, 6)
+  })
+
+  it("dcfPrice defaults to end-of-year discounting", () => {
+    const { ev } = dcfPrice([100, 100], 1_000, 0.1, 0, 1)
+    expect(ev).toBeCloseTo(100 / 1.1 + 100 / 1.21 + 1_000 / 1.21, 10)
+  })
+})
+
+// ── computeTerminalValue ──────────────────────────────────────────────────────
+
+describe("computeTerminalValue", () => {
+  const sched = { elapsed: 0, stub: 1, periods: [1, 2, 3, 4, 5], tvPeriod: 5, horizon: 5 }
+  const a = makeAssumptions({ terminal_g: 0.025, exit_mult: 12 })
+
+  it("blends perpetuity and exit-multiple TVs by weight", () => {
+    const t = computeTerminalValue(100, 200, 0.085, { ...a, tv_method: "blend", tv_blend_weight: 0.25 }, sched)
+    const gordon = 100 * 1.025 / 0.06
+    expect(t.gordon).toBeCloseTo(gordon, 6)
+    expect(t.exit).toBe(2_400)
+    expect(t.tv).toBeCloseTo(0.25 * gordon + 0.75 * 2_400, 6)
+  })
+
+  it("selects a single method", () => {
+    expect(computeTerminalValue(100, 200, 0.085, { ...a, tv_method: "perpetuity" }, sched).weight).toBe(1)
+    expect(computeTerminalValue(100, 200, 0.085, { ...a, tv_method: "exit_multiple" }, sched).tv).toBe(2_400)
+  })
+
+  it("falls back to the exit multiple when WACC ≤ g", () => {
+    const t = computeTerminalValue(100, 200, 0.02, { ...a, tv_method: "perpetuity" }, sched)
+    expect(t.method).toBe("exit_multiple")
+    expect(t.tv).toBe(2_400)
+    expect(t.impliedExitMultiple).toBe(0)
+  })
+
+  it("implied cross-checks invert each method", () => {
+    const t = computeTerminalValue(100, 200, 0.085, a, sched)
+    expect(t.impliedExitMultiple).toBeCloseTo(t.gordon / 200, 10)
+    // Gordon TV at the implied growth reproduces the exit-multiple TV
+    const g = t.impliedGrowth
+    expect(100 * (1 + g) / (0.085 - g)).toBeCloseTo(2_400, 6)
+  })
+
+  it("restates the exit TV to the mid-year discount period", () => {
+    const mid = { ...sched, periods: [0.5, 1.5, 2.5, 3.5, 4.5], tvPeriod: 4.5 }
+    const t = computeTerminalValue(100, 200, 0.085, { ...a, tv_method: "exit_multiple" }, mid)
+    expect(t.tv / 1.085 ** 4.5).toBeCloseTo(2_400 / 1.085 ** 5, 6)
+  })
+})
+
+// ── Treasury stock method & SBC ───────────────────────────────────────────────
+
+describe("tsmShares / equityPerShare", () => {
+  const dilutive = { shares_basic: 85.0, shares_diluted: 88.0, rsus_outstanding: 1.5, options_outstanding: 4.0, options_strike: 40 }
+
+  it("adds RSUs and in-the-money options net of the buyback", () => {
+    const B = makeBaseline(dilutive)
+    const c = tsmShares(B, 50)
+    expect(c.options_itm).toBeCloseTo(4.0 * (1 - 40 / 50), 10)
+    expect(c.shares).toBeCloseTo(85.0 + 1.5 + 0.8, 10)
+    expect(tsmShares(B, 30).options_itm).toBe(0)
+  })
+
+  it("leaves out options without a reported strike", () => {
+    const c = tsmShares(makeBaseline({ ...dilutive, options_strike: undefined }), 50)
+    expect(c.options_itm).toBe(0)
+    expect(c.shares).toBeCloseTo(85.0 + 1.5, 10)
+  })
+
+  it("solves the share count at its own per-share value", () => {
+    const B = makeBaseline(dilutive)
+    const { pps, count } = equityPerShare(6_000, B, makeAssumptions())
+    expect(count.tsm).toBe(true)
+    expect(pps * tsmShares(B, pps).shares).toBeCloseTo(6_000, 6)
+    expect(count.iterations).toBeGreaterThan(1)
+  })
+
+  it("falls back to reported diluted shares without options / RSUs or when switched off", () => {
+    const a = makeAssumptions()
+    expect(equityPerShare(6_000, makeBaseline(), a).pps).toBeCloseTo(6_000 / 88.0, 10)
+    const off = equityPerShare(6_000, makeBaseline(dilutive), { ...a, tsm_dilution: false })
+    expect(off.count.tsm).toBe(false)
+    expect(off.pps).toBeCloseTo(6_000 / 88.0, 10)
+  })
+
+  it("computeAll reports the TSM share count behind the FCFF price", () => {
+    const B = makeBaseline(dilutive)
+    const r = computeAll(B, {}, {}, {}, [5, 5.5, 5.85], makeAssumptions())
+    expect(r.shareCount.tsm).toBe(true)
+    expect(r.pps_fcff).toBeCloseTo((r.ev_fcff - B.net_debt) / r.shareCount.shares, 6)
+  })
+
+  it("adds projected SBC back to FCFF only when it is not a cash cost", () => {
+    const B = makeBaseline({ sbc: 72.474 })   // 2% of revenue
+    const a = makeAssumptions()
+    const cash = buildProforma(B, buildGrowthSchedule(a), a)
+    const nonCash = buildProforma(B, buildGrowthSchedule(a), { ...a, sbc_as_cash: false })
+    expect(cash[0].sbc).toBeCloseTo(cash[0].revenue * 0.02, 6)
+    expect(nonCash[0].fcff - cash[0].fcff).toBeCloseTo(cash[0].sbc, 6)
+    const valued = computeAll(B, {}, {}, {}, [5, 5.5, 5.85], { ...a, sbc_as_cash: false })
+    expect(valued.pps_fcff).toBeGreaterThan(computeAll(B, {}, {}, {}, [5, 5.5, 5.85], a).pps_fcff)
+  })
+
+  it("adds non-cash SBC back in the debt schedule and the cash flow statement", () => {
+    const B = makeBaseline({ sbc: 72.474, receivables: 400, inventory: 250, payables: 180, ppe: 900 })
+    const a = makeAssumptions()
+    const cash = buildProforma(B, buildGrowthSchedule(a), a)
+    const nonCash = buildProforma(B, buildGrowthSchedule(a), { ...a, sbc_as_cash: false })
+    const netDebt = (r: (typeof cash)[number]) => r.debt.closing_debt - r.debt.cash_closing
+    expect(netDebt(nonCash[0])).toBeLessThan(netDebt(cash[0]))
+
+    const { balance, cashflow } = buildThreeStatement(B, nonCash, false)
+    const c = cashflow[0]
+    expect(c.sbc).toBeCloseTo(nonCash[0].sbc, 6)
+    expect(c.cfo).toBeCloseTo(c.net_income + c.da + c.sbc - c.delta_nwc, 6)
+    for (const r of balance) expect(Math.abs(r.balance_check)).toBeLessThan(1e-6)
+    expect(buildThreeStatement(B, cash).cashflow[0].sbc).toBe(0)
+  })
+})
+
 // ── assignSignal ──────────────────────────────────────────────────────────────
 
 describe("assignSignal", () => {
@@ -290,6 +730,50 @@ describe("assignSignal", () => {
   })
 })
 
+// ── consensusBlend ────────────────────────────────────────────────────────────
+
+describe("consensusBlend", () => {
+  const row = (method: string, v: number, blocked = false): SignalRow => blocked
+    ? { method, intrinsicValue: v, vsMarket: "N/A", signal: "N/A", blockedBy: ["bad input"] }
+    : { method, intrinsicValue: v, vsMarket: "", signal: "HOLD" }
+
+  it("weights anchor, multiples average and tail 35 / 45 / 20", () => {
+    const b = consensusBlend([row("FCFF (DCF)", 100), row("P/E Multiple", 80), row("P/B", 120), row("SOTP", 90)], "standard")
+    expect(b.multiplesAvg).toBe(100)
+    expect(b.intrinsic).toBeCloseTo(100 * 0.35 + 100 * 0.45 + 90 * 0.20, 10)
+    expect(b.methods).toEqual(["FCFF (DCF)", "P/E Multiple", "P/B", "SOTP"])
+  })
+
+  it("averages only the multiples that are live and reweights a missing tail", () => {
+    const b = consensusBlend([row("FCFF (DCF)", 100), row("EBITDA Multiple", 500, true), row("P/E Multiple", 80)], "standard")
+    expect(b.multiplesAvg).toBe(80)
+    expect(b.intrinsic).toBeCloseTo((100 * 0.35 + 80 * 0.45) / 0.80, 10)
+  })
+
+  it("is N/A when the anchor is blocked or missing", () => {
+    const blocked = consensusBlend([row("FCFF (DCF)", 100, true), row("P/E Multiple", 80)], "standard")
+    expect(blocked.intrinsic).toBeNull()
+    expect(blocked.anchor).toBeNull()
+    expect(consensusBlend([row("P/E Multiple", 80)], "standard").intrinsic).toBeNull()
+  })
+
+  it("anchors a REIT without NAV on P/FFO and keeps the zero NAV / P/AFFO out", () => {
+    const rows = [row("NAV (Cap Rate)", 0, true), row("P/AFFO", 0, true), row("P/FFO", 60), row("P/B", 40), row("DDM (2-Stage)", 50)]
+    const b = consensusBlend(rows, "reit")
+    expect(b.anchorMethod).toBe("P/FFO")
+    expect(b.multiplesAvg).toBe(40)
+    expect(b.intrinsic).toBeCloseTo(60 * 0.35 + 40 * 0.45 + 50 * 0.20, 10)
+    expect(consensusBlend([row("NAV (Cap Rate)", 70), ...rows.slice(2)], "reit").anchorMethod).toBe("NAV (Cap Rate)")
+  })
+
+  it("gives no headline for a config whose EBITDA margin failed validation", () => {
+    const B = makeBaseline({ ebitda: 5_000, ebitda_margin: 5_000 / 3_621.7 })
+    const issues = [{ code: "ebitda_margin_range", severity: "error" as const, message: "x", fields: ["ebitda"], models: ["FCFF (DCF)", "EBITDA Multiple"] }]
+    const out = computeAll(B, {}, {}, {}, [5, 5.5, 5.85], makeAssumptions(), issues)
+    expect(consensusBlend(out.signalRows, out.modelSet).intrinsic).toBeNull()
+  })
+})
+
 // ── fmtUsd / fmtPct ───────────────────────────────────────────────────────────
 
 describe("fmtUsd", () => {
@@ -0,0 +1,57 @@
+/**
+ * Unit tests for lib/valuation/costOfCapital.ts
+ *
+ * Coverage:
+ *   unleverBeta / releverBeta — Hamada round trip
+ *   bottomUpBeta              — peer averaging, relevering, peers without beta
+ *   waccAtTargetDE            — target capital structure weights
+ */
+
+import { describe, it, expect } from "vitest"
+import { unleverBeta, releverBeta, bottomUpBeta, waccAtTargetDE } from "@/lib/valuation/costOfCapital"
+import type { Comp } from "@/types/valuation"
+
+const base: Comp = { ev_ebitda: 12, ev_rev: 3, pe: 20, peg: 1.5, pb: 3, pcf: 15 }
+
+// ── Hamada ────────────────────────────────────────────────────────────────────
+
+describe("unleverBeta / releverBeta", () => {
+  it("unlevers with βu = βL / (1 + (1 − t) D/E)", () => {
+    expect(unleverBeta(1.2, 0.5, 0.2)).toBeCloseTo(1.2 / 1.4, 10)
+  })
+
+  it("relevering at the same D/E recovers the levered beta", () => {
+    expect(releverBeta(unleverBeta(1.35, 0.8, 0.25), 0.8, 0.25)).toBeCloseTo(1.35, 10)
+  })
+})
+
+// ── bottomUpBeta ──────────────────────────────────────────────────────────────
+
+describe("bottomUpBeta", () => {
+  const comps: Record<string, Comp> = {
+    A: { ...base, beta: 1.2, de_ratio: 0.5 },
+    B: { ...base, beta: 0.9, de_ratio: 0 },
+    C: { ...base },  // no beta reported
+  }
+
+  it("averages unlevered betas of peers that report one", () => {
+    const bu = bottomUpBeta(comps, 0.2, 0.3)!
+    expect(bu.peers.map((p) => p.name)).toEqual(["A", "B"])
+    expect(bu.unlevered).toBeCloseTo((1.2 / 1.4 + 0.9) / 2, 10)
+    expect(bu.relevered).toBeCloseTo(bu.unlevered * (1 + 0.8 * 0.3), 10)
+  })
+
+  it("returns null without peer betas", () => {
+    expect(bottomUpBeta({ C: base }, 0.2, 0.3)).toBeNull()
+  })
+})
+
+// ── waccAtTargetDE ────────────────────────────────────────────────────────────
+
+describe("waccAtTargetDE", () => {
+  it("weights by D/V = D/E ÷ (1 + D/E)", () => {
+    // D/E 0.25 → D/V 0.2
+    expect(waccAtTargetDE(0.10, 0.05, 0.2, 0.25)).toBeCloseTo(0.8 * 0.10 + 0.2 * 0.05 * 0.8, 10)
+    expect(waccAtTargetDE(0.10, 0.05, 0.2, 0)).toBeCloseTo(0.10, 10)
+  })
+})
@@ -0,0 +1,72 @@
+/**
+ * Unit tests for lib/valuation/countryRisk.ts (+ computeAll / computeWACC wiring)
+ *
+ * Coverage:
+ *   countryRiskPremium — revenue weighting, λ scaling, overrides, unlisted countries
+ *   localRiskFree      — inflation-differential restatement, unknown currencies
+ *   computeAll         — CRP and local rf flow into ke_calc
+ */
+
+import { describe, it, expect } from "vitest"
+import { countryRiskPremium, localRiskFree, COUNTRY_RISK_PREMIUMS } from "@/lib/valuation/countryRisk"
+import { computeAll, computeWACC } from "@/lib/valuation/calculations"
+import { DEFAULT_ASSUMPTIONS } from "@/lib/valuation/presets"
+import { makeBaseline } from "./fixtures/baseline"
+
+const a = DEFAULT_ASSUMPTIONS
+const BRAZIL = COUNTRY_RISK_PREMIUMS["Brazil"]
+
+// ── countryRiskPremium ────────────────────────────────────────────────────────
+
+describe("countryRiskPremium", () => {
+  it("weights CRPs by normalised revenue share", () => {
+    const cr = countryRiskPremium([{ country: "United States", weight: 60 }, { country: "Brazil", weight: 40 }])
+    expect(cr.lines.map((l) => l.weight)).toEqual([0.6, 0.4])
+    expect(cr.weighted).toBeCloseTo(0.4 * BRAZIL, 10)
+    expect(cr.crp).toBeCloseTo(cr.weighted, 10)
+  })
+
+  it("scales by λ and applies per-country overrides", () => {
+    const cr = countryRiskPremium([{ country: "Brazil", weight: 1 }], 0.5, { Brazil: 0.05 })
+    expect(cr.weighted).toBeCloseTo(0.05, 10)
+    expect(cr.crp).toBeCloseTo(0.025, 10)
+  })
+
+  it("is zero without exposure or for unlisted countries", () => {
+    expect(countryRiskPremium([]).crp).toBe(0)
+    expect(countryRiskPremium([{ country: "Atlantis", weight: 1 }]).crp).toBe(0)
+  })
+})
+
+// ── localRiskFree ─────────────────────────────────────────────────────────────
+
+describe("localRiskFree", () => {
+  it("restates the USD rate by the inflation differential", () => {
+    // INR 4.5% vs USD 2.5%
+    expect(localRiskFree(0.043, "INR")).toBeCloseTo(1.043 * 1.045 / 1.025 - 1, 10)
+    expect(localRiskFree(0.043, "usd")).toBeCloseTo(0.043, 10)
+  })
+
+  it("keeps the USD rate for unlisted currencies", () => {
+    expect(localRiskFree(0.043, "XYZ")).toBe(0.043)
+  })
+})
+
+// ── Wiring ────────────────────────────────────────────────────────────────────
+
+describe("CAPM with country risk", () => {
+  it("computeWACC adds the CRP to ke", () => {
+    const { ke } = computeWACC(0.043, 1.2, 0.055, 0.05, 0.21, 10_000, 0, 0.02)
+    expect(ke).toBeCloseTo(0.043 + 1.2 * 0.055 + 0.02, 10)
+  })
+
+  it("computeAll uses local rf and the scaled CRP in ke_calc", () => {
+    const base = computeAll(makeBaseline(), {}, {}, {}, [5, 5.5], a)
+    const em = computeAll(makeBaseline(), {}, {}, {}, [5, 5.5], {
+      ...a, currency: "BRL", country_exposure: [{ country: "Brazil", weight: 1 }],
+    })
+    expect(base.countryRisk.crp).toBe(0)
+    expect(em.rf_local).toBeCloseTo(localRiskFree(a.rf, "BRL"), 10)
+    expect(em.ke_calc - base.ke_calc).toBeCloseTo(em.rf_local - a.rf + BRAZIL, 10)
+  })
+})
@@ -0,0 +1,102 @@
+/**
+ * Unit tests for lib/valuation/credit.ts (+ buildProforma / computeAll wiring)
+ *
+ * Coverage:
+ *   creditMetrics    — coverage, leverage, FFO/debt, no-debt and net-cash edge cases
+ *   syntheticRating  — per-metric notches, median rating, custom spread table
+ *   costOfDebt       — rf + spread by default, manual rate when switched off
+ *   buildProforma    — revolver reprices as projected leverage changes
+ */
+
+import { describe, it, expect } from "vitest"
+import {
+  creditMetrics, syntheticRating, costOfDebt, baselineCreditInputs, DEFAULT_SPREAD_TABLE,
+} from "@/lib/valuation/credit"
+import { buildProforma, buildGrowthSchedule, computeAll } from "@/lib/valuation/calculations"
+import { DEFAULT_ASSUMPTIONS } from "@/lib/valuation/presets"
+import { makeBaseline } from "./fixtures/baseline"
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const a = DEFAULT_ASSUMPTIONS
+
+// ── creditMetrics ─────────────────────────────────────────────────────────────
+
+describe("creditMetrics", () => {
+  it("computes coverage, net debt / EBITDA and FFO / debt", () => {
+    const m = creditMetrics(baselineCreditInputs(makeBaseline()))
+    expect(m.interest_coverage).toBeCloseTo(690 / 80, 10)
+    expect(m.net_debt_ebitda).toBeCloseTo(1_200 / 810, 10)
+    expect(m.ffo_debt).toBeCloseTo((810 - 80 - 130) / 1_600, 10)
+  })
+
+  it("treats no interest, net cash and no debt as the strongest case", () => {
+    const m = creditMetrics({ ebit: 100, ebitda: 120, interest: 0, tax: 20, net_debt: -50, total_debt: 0 })
+    expect(m.interest_coverage).toBe(Infinity)
+    expect(m.net_debt_ebitda).toBe(-Infinity)
+    expect(m.ffo_debt).toBe(Infinity)
+  })
+})
+
+// ── syntheticRating ───────────────────────────────────────────────────────────
+
+describe("syntheticRating", () => {
+  it("takes the median of the three notches", () => {
+    // coverage 8.6× → AAA, leverage 1.48× → AA, FFO/debt 37.5% → BBB
+    const r = syntheticRating(creditMetrics(baselineCreditInputs(makeBaseline())), 0.04)
+    expect(r.notches).toEqual({ coverage: "AAA", leverage: "AA", ffo: "BBB" })
+    expect(r.rating).toBe("AA")
+    expect(r.cost_of_debt).toBeCloseTo(0.04 + 0.0070, 10)
+  })
+
+  it("falls to the last band when no threshold is met", () => {
+    const r = syntheticRating({ interest_coverage: -1, net_debt_ebitda: Infinity, ffo_debt: -0.1 }, 0.04)
+    expect(r.rating).toBe("D")
+  })
+
+  it("uses a custom spread table", () => {
+    const table = DEFAULT_SPREAD_TABLE.map((b) => ({ ...b, spread: b.spread * 2 }))
+    const r = syntheticRating(creditMetrics(baselineCreditInputs(makeBaseline())), 0.04, table)
+    expect(r.spread).toBeCloseTo(0.0140, 10)
+  })
+})
+
+// ── costOfDebt ────────────────────────────────────────────────────────────────
+
+describe("costOfDebt", () => {
+  it("defaults to rf + synthetic spread, else the manual rate", () => {
+    const B = makeBaseline()
+    expect(costOfDebt(B, a)).toBeCloseTo(a.rf + 0.0070, 10)
+    expect(costOfDebt(B, { ...a, synthetic_kd: false, cost_of_debt: 0.09 })).toBe(0.09)
+  })
+
+  it("feeds the CAPM WACC in computeAll", () => {
+    const c = computeAll(makeBaseline(), {}, {}, {}, [5, 5.5], a)
+    expect(c.credit.rating).toBe("AA")
+    expect(c.kd).toBeCloseTo(a.rf + 0.0070, 10)
+    expect(c.kd_after_tax).toBeCloseTo(c.kd * (1 - a.tax_rate), 10)
+  })
+})
+
+// ── buildProforma wiring ──────────────────────────────────────────────────────
+
+describe("buildProforma credit re-rating", () => {
+  it("rates year one on the baseline and later years on projected figures", () => {
+    const rows = buildProforma(makeBaseline(), buildGrowthSchedule(a), a)
+    expect(rows[0].rating).toBe("AA")
+    expect(rows[0].kd).toBeCloseTo(a.rf + 0.0070, 10)
+    // Cash builds against flat debt → net cash → upgrade
+    expect(rows[1].rating).toBe("AAA")
+    expect(rows[1].kd).toBeCloseTo(a.rf + 0.0059, 10)
+  })
+
+  it("charges a weaker credit more on its revolver", () => {
+    // Thin margins and heavy debt: cash shortfalls draw the revolver
+    const weak = makeBaseline({ ebitda: 200, ebitda_margin: 0.055, ebit: 80, interest_expense: 120, net_debt: 1_550, tax: 0 })
+    const aWeak = { ...a, target_ebitda_m: 0.055 }
+    const rows = buildProforma(weak, buildGrowthSchedule(aWeak), aWeak)
+    expect(rows[0].kd).toBeGreaterThan(a.rf + 0.04)
+    const manual = buildProforma(weak, buildGrowthSchedule(aWeak), { ...aWeak, synthetic_kd: false })
+    expect(manual.every((r) => r.kd === aWeak.cost_of_debt)).toBe(true)
+  })
+})
@@ -0,0 +1,162 @@
+/**
+ * Unit tests for lib/valuation/debtSchedule.ts (+ buildProforma wiring in calculations.ts)
+ *
+ * Coverage:
+ *   debtPolicy      — default single tranche, configured tranches, policy defaults
+ *   maturityTranches — dated buckets from a maturity ladder, remainder, face-value scaling
+ *   solveDebtYear   — amortization, maturities, revolver draw / repayment, cash sweep,
+ *                     circular average-balance interest
+ *   buildProforma   — interest and net borrowing flow from the schedule
+ */
+
+import { describe, it, expect } from "vitest"
+import { debtPolicy, maturityTranches, openingDebtState, solveDebtYear } from "@/lib/valuation/debtSchedule"
+import { buildProforma, buildGrowthSchedule, buildThreeStatement } from "@/lib/valuation/calculations"
+import { DEFAULT_ASSUMPTIONS } from "@/lib/valuation/presets"
+import { makeBaseline } from "./fixtures/baseline"
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const a = DEFAULT_ASSUMPTIONS
+const TERM = { name: "Term loan", balance: 1_000, rate: 0.06, amortization: 100 }
+const NOTE = { name: "2027 notes", balance: 600, rate: 0.05, maturity_year: 2027 }
+
+// ── debtPolicy ────────────────────────────────────────────────────────────────
+
+describe("debtPolicy", () => {
+  it("treats existing debt as one tranche at the implied rate", () => {
+    const p = debtPolicy(makeBaseline(), a)
+    expect(p.tranches).toHaveLength(1)
+    expect(p.tranches[0].balance).toBe(1_600)
+    expect(p.tranches[0].rate).toBeCloseTo(80 / 1_600, 10)
+    expect(p.revolver_limit).toBe(Infinity)
+  })
+
+  it("uses configured tranches and revolver limit", () => {
+    const p = debtPolicy(makeBaseline({ debt_tranches: [TERM, NOTE], revolver_limit: 250 }), a)
+    expect(p.tranches.map((t) => t.name)).toEqual(["Term loan", "2027 notes"])
+    expect(p.revolver_limit).toBe(250)
+  })
+
+  it("has no tranches for a debt-free company", () => {
+    expect(debtPolicy(makeBaseline({ total_debt: 0, net_debt: -400 }), a).tranches).toEqual([])
+  })
+})
+
+// ── maturityTranches ──────────────────────────────────────────────────────────
+
+describe("maturityTranches", () => {
+  it("dates each year's bucket and keeps later and unscheduled debt outstanding", () => {
+    const t = maturityTranches(1_600, [200, 0, 300, 0, 0, 900], 0.05, 2025)
+    expect(t.map((x) => x.name)).toEqual(["Due 2025", "Due 2027", "Due after 2029", "Other debt"])
+    expect(t.map((x) => x.maturity_year)).toEqual([2025, 2027, undefined, undefined])
+    expect(t[3].balance).toBeCloseTo(200, 10)
+    expect(t.every((x) => x.rate === 0.05)).toBe(true)
+  })
+
+  it("scales a face-value ladder down to carrying debt", () => {
+    const t = maturityTranches(1_500, [500, 500, 0, 0, 0, 1_000], 0.05, 2025)
+    expect(t.map((x) => x.balance)).toEqual([375, 375, 750])
+  })
+
+  it("returns no tranches without a ladder or debt", () => {
+    expect(maturityTranches(1_600, [0, 0, 0, 0, 0, 0], 0.05, 2025)).toEqual([])
+    expect(maturityTranches(0, [100, 0, 0, 0, 0, 0], 0.05, 2025)).toEqual([])
+  })
+
+  it("repays the first bucket in the first projection year", () => {
+    const B = makeBaseline({ debt_tranches: maturityTranches(1_600, [400, 0, 0, 0, 0, 1_200], 0.05, 2025) })
+    const policy = debtPolicy(B, a)
+    const { state } = solveDebtYear(policy, openingDebtState(B, policy), 2025, 3_600, () => 500)
+    expect(state.balances).toEqual([0, 1_200])
+  })
+})
+
+// ── solveDebtYear ─────────────────────────────────────────────────────────────
+
+describe("solveDebtYear", () => {
+  const B = makeBaseline({ debt_tranches: [TERM, NOTE] })
+
+  it("applies amortization and repays tranches at maturity", () => {
+    const policy = debtPolicy(B, a)
+    const y1 = solveDebtYear(policy, openingDebtState(B, policy), 2026, 3_600, () => 300)
+    expect(y1.row.tranches[0].repayment).toBe(100)
+    expect(y1.row.tranches[1].repayment).toBe(0)
+    const y2 = solveDebtYear(policy, y1.state, 2027, 3_600, () => 300)
+    expect(y2.row.tranches[1].repayment).toBe(600)
+    expect(y2.row.tranches[1].closing).toBe(0)
+  })
+
+  it("draws the revolver to restore minimum cash, then repays it from excess", () => {
+    const policy = debtPolicy(B, { ...a, min_cash_pct_rev: 0.05 })   // minimum 180
+    const y1 = solveDebtYear(policy, openingDebtState(B, policy), 2026, 3_600, () => -500)
+    expect(y1.row.revolver_draw).toBeGreaterThan(0)
+    expect(y1.row.cash_closing).toBeCloseTo(180, 6)
+    const y2 = solveDebtYear(policy, y1.state, 2026, 3_600, () => 2_000)
+    expect(y2.row.revolver_closing).toBe(0)
+    expect(y2.row.revolver_draw).toBeCloseTo(-y1.row.revolver_closing, 6)
+  })
+
+  it("caps revolver draws at the committed limit", () => {
+    const capped = makeBaseline({ debt_tranches: [TERM], revolver_limit: 50 })
+    const policy = debtPolicy(capped, a)
+    const { row } = solveDebtYear(policy, openingDebtState(capped, policy), 2026, 3_600, () => -1_000)
+    expect(row.revolver_closing).toBe(50)
+    expect(row.cash_closing).toBeLessThan(row.min_cash)
+  })
+
+  it("sweeps excess cash into term debt in tranche order", () => {
+    const policy = debtPolicy(B, { ...a, cash_sweep_pct: 1 })
+    const { row } = solveDebtYear(policy, openingDebtState(B, policy), 2026, 3_600, () => 300)
+    // Opening cash 400 + 300 − 100 amortization, minimum 72 → 528 swept
+    expect(row.tranches[0].sweep).toBeCloseTo(528, 6)
+    expect(row.tranches[1].sweep).toBe(0)
+    expect(row.cash_closing).toBeCloseTo(72, 6)
+  })
+
+  it("resolves interest on average balances", () => {
+    const policy = debtPolicy(B, { ...a, cash_sweep_pct: 1 })
+    // Cash flow falls as interest rises — the circular reference
+    const { row } = solveDebtYear(policy, openingDebtState(B, policy), 2026, 3_600, (i) => 600 - i * 0.79)
+    const expected = row.tranches.reduce((s, t, i) => s + policy.tranches[i].rate * (t.opening + t.closing) / 2, 0)
+    expect(row.interest).toBeCloseTo(expected, 9)
+    expect(row.iterations).toBeGreaterThan(1)
+    expect(row.iterations).toBeLessThan(50)
+    const swept = 400 + (600 - row.interest * 0.79) - 100 - 72
+    expect(row.tranches[0].sweep).toBeCloseTo(swept, 6)
+  })
+})
+
+// ── buildProforma wiring ──────────────────────────────────────────────────────
+
+describe("buildProforma debt schedule", () => {
+  it("matches constant-balance interest with default terms and ample cash", () => {
+    const B = makeBaseline()
+    const rows = buildProforma(B, buildGrowthSchedule(a), a)
+    for (const r of rows) {
+      expect(r.interest).toBeCloseTo(80, 6)
+      expect(r.net_borrowing).toBeCloseTo(0, 6)
+    }
+  })
+
+  it("deleveraging lowers interest and flows net borrowing into FCFE", () => {
+    const B = makeBaseline({ debt_tranches: [TERM, NOTE] })
+    const rows = buildProforma(B, buildGrowthSchedule(a), { ...a, cash_sweep_pct: 0.5 })
+    expect(rows[1].interest).toBeLessThan(rows[0].interest)
+    for (const r of rows) {
+      expect(r.net_borrowing).toBeCloseTo(r.debt.closing_debt - r.debt.opening_debt, 9)
+      expect(r.fcfe).toBeCloseTo(r.fcff - r.interest * (1 - B.tax_rate) + r.net_borrowing, 9)
+    }
+  })
+
+  it("three-statement debt and cash tie to the schedule", () => {
+    const B = makeBaseline({ debt_tranches: [TERM, NOTE] })
+    const rows = buildProforma(B, buildGrowthSchedule(a), { ...a, cash_sweep_pct: 0.5 })
+    const { balance } = buildThreeStatement(B, rows)
+    balance.forEach((bs, i) => {
+      expect(bs.debt).toBeCloseTo(rows[i].debt.closing_debt, 6)
+      expect(bs.cash).toBeCloseTo(rows[i].debt.cash_closing, 6)
+      expect(Math.abs(bs.balance_check)).toBeLessThan(1e-6)
+    })
+  })
+})
@@ -0,0 +1,143 @@
+/**
+ * Unit tests for lib/valuation/edgarClient.ts
+ *
+ * Coverage:
+ *   createTokenBucket — burst capacity, refill wait
+ *   createEdgarClient — User-Agent, retry/backoff on 429/403/5xx, Retry-After,
+ *                       404 → null, surfaced EdgarError reasons
+ *   fetchLiveConfig   — EDGAR failures become data_warnings, not empty silence
+ */
+
+import { describe, it, expect, vi } from "vitest"
+import path from "path"
+import { createTokenBucket, createEdgarClient, EdgarError } from "@/lib/valuation/edgarClient"
+import { fixtureProviders, type DataProviders } from "@/lib/valuation/providers"
+import { fetchLiveConfig } from "@/lib/valuation/yahooFetcher"
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+function response(status: number, body: unknown = {}, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), { status, headers })
+}
+
+/** fetch stub returning the given responses in order. */
+function fetchSequence(...responses: Array<Response | Error>) {
+  const fn = vi.fn(async () => {
+    const next = responses.shift()
+    if (!next) throw new Error("unexpected request")
+    if (next instanceof Error) throw next
+    return next
+  })
+  return fn as unknown as typeof fetch & typeof fn
+}
+
+const noSleep = vi.fn(async () => {})
+
+/** The EdgarError a request rejects with. */
+async function failure(p: Promise<unknown>): Promise<EdgarError> {
+  try {
+    await p
+  } catch (err) {
+    return err as EdgarError
+  }
+  throw new Error("expected the request to fail")
+}
+
+// ── createTokenBucket ─────────────────────────────────────────────────────────
+
+describe("createTokenBucket", () => {
+  it("grants the burst capacity without waiting, then waits for refill", async () => {
+    let t = 0
+    const sleeps: number[] = []
+    const bucket = createTokenBucket(10, 2, () => t, async (ms) => { sleeps.push(ms); t += ms })
+
+    await bucket.take()
+    await bucket.take()
+    expect(sleeps).toEqual([])
+
+    await bucket.take()
+    expect(sleeps).toEqual([100])   // one token at 10/s
+  })
+})
+
+// ── createEdgarClient ─────────────────────────────────────────────────────────
+
+describe("createEdgarClient", () => {
+  it("sends the configured User-Agent", async () => {
+    const fetchImpl = fetchSequence(response(200, { ok: true }))
+    const client = createEdgarClient({ userAgent: "Acme Research ops@acme.test", fetchImpl, sleep: noSleep })
+    await client.getJson("https://data.sec.gov/x.json")
+    const init = fetchImpl.mock.calls[0] as unknown as [string, RequestInit]
+    expect((init[1].headers as Record<string, string>)["User-Agent"]).toBe("Acme Research ops@acme.test")
+  })
+
+  it("retries 429 and 5xx with backoff, then succeeds", async () => {
+    const sleep = vi.fn(async () => {})
+    const fetchImpl = fetchSequence(response(429), response(503), response(200, { n: 1 }))
+    const client = createEdgarClient({ fetchImpl, sleep, baseDelayMs: 100 })
+    expect(await client.getJson("u")).toEqual({ n: 1 })
+    expect(fetchImpl).toHaveBeenCalledTimes(3)
+    const delays = sleep.mock.calls.map((c) => (c as unknown as [number])[0])
+    expect(delays[1]).toBeGreaterThan(delays[0])   // exponential
+  })
+
+  it("honours Retry-After", async () => {
+    const sleep = vi.fn(async () => {})
+    const fetchImpl = fetchSequence(response(429, {}, { "Retry-After": "2" }), response(200, {}))
+    await createEdgarClient({ fetchImpl, sleep }).getJson("u")
+    expect(sleep).toHaveBeenCalledWith(2000)
+  })
+
+  it("resolves null on 404", async () => {
+    const client = createEdgarClient({ fetchImpl: fetchSequence(response(404)), sleep: noSleep })
+    expect(await client.getJson("u")).toBeNull()
+  })
+
+  it("throws a rate_limited EdgarError once retries are exhausted on 403", async () => {
+    const fetchImpl = fetchSequence(response(403), response(403), response(403))
+    const client = createEdgarClient({ fetchImpl, sleep: noSleep, maxRetries: 2 })
+    const err = await failure(client.getJson("u"))
+    expect(err).toBeInstanceOf(EdgarError)
+    expect(err.reason).toBe("rate_limited")
+    expect(err.attempts).toBe(3)
+    expect(err.message).toMatch(/EDGAR_USER_AGENT/)
+  })
+
+  it("does not retry other 4xx statuses", async () => {
+    const fetchImpl = fetchSequence(response(400))
+    const err = await failure(createEdgarClient({ fetchImpl, sleep: noSleep }).getJson("u"))
+    expect(err.reason).toBe("http_error")
+    expect(fetchImpl).toHaveBeenCalledTimes(1)
+  })
+
+  it("reports network failures after retrying", async () => {
+    const fetchImpl = fetchSequence(new Error("ECONNRESET"), new Error("ECONNRESET"))
+    const err = await failure(createEdgarClient({ fetchImpl, sleep: noSleep, maxRetries: 1 }).getJson("u"))
+    expect(err.reason).toBe("network")
+    expect(err.message).toContain("ECONNRESET")
+  })
+})
+
+// ── fetchLiveConfig: surfaced EDGAR failures ──────────────────────────────────
+
+describe("fetchLiveConfig with EDGAR failures", () => {
+  const base = fixtureProviders(path.join(__dirname, "fixtures"))
+
+  it("records the reason in data_warnings when companyfacts cannot be fetched", async () => {
+    const providers: DataProviders = {
+      market: base.market,
+      fundamentals: {
+        ...base.fundamentals,
+        companyFacts: async () => { throw new EdgarError("EDGAR HTTP 403", "rate_limited", "https://data.sec.gov/x", 403) },
+      },
+    }
+    const { config } = await fetchLiveConfig("ACME", providers)
+    expect(config.data_warnings?.[0]).toMatch(/XBRL.*403.*rate_limited/)
+    expect(config.baseline.current_price).toBe(60)
+  })
+
+  it("has no warnings when every source succeeds", async () => {
+    const { config } = await fetchLiveConfig("ACME", base)
+    expect(config.data_warnings).toBeUndefined()
+  })
+})
@@ -4,13 +4,25 @@
  * Coverage:
  *   pickAnnual   — form filtering, duration filtering, deduplication, sorting
  *   firstConcept — primary concept, fallback, missing concepts, empty gaap
+ *   pickQuarterly — direct 3-month facts, YTD differencing, Q4 from annual
+ *   lastFourQuarters — TTM window contiguity
+ *   resolveTaxonomy / reportingCurrency — us-gaap vs ifrs-full 20-F filers
+ *   resolveUnitKey — per-concept currency and per-share unit fallback
  *
  * Mirrors the _extract_fact / _get_available_fiscal_years tests
  * from valuation_platform/tests/test_data_pipeline.py
  */
 
 import { describe, it, expect } from "vitest"
-import { pickAnnual, firstConcept, XbrlUnit } from "@/lib/valuation/edgarXbrl"
+import {
+  pickAnnual,
+  firstConcept,
+  pickQuarterly,
+  lastFourQuarters,
+  resolveUnitKey,
+  XbrlUnit,
+} from "@/lib/valuation/edgarXbrl"
+import { CONCEPT_MAP, resolveTaxonomy, reportingCurrency } from "@/lib/valuation/xbrlConcepts"
 
 // ── Fixtures ──────────────────────────────────────────────────────────────────
 
@@ -53,6 +65,21 @@ function quarterlyEntry(val: number, year: number, quarter: 1 | 2 | 3): XbrlUnit
   }
 }
 
+/** Build a year-to-date entry starting Jan 1 (10-Q for H1/9M, 10-K for the full year). */
+function ytdEntry(val: number, year: number, endMonthDay: string): XbrlUnit {
+  return {
+    val,
+    start: `${year}-01-01`,
+    end:   `${year}-${endMonthDay}`,
+    form:  endMonthDay === "12-31" ? "10-K" : "10-Q",
+    filed: `${year}-${endMonthDay}`,
+    accn: `000123456Y${year}`,
+    cik: 12345,
+    entityName: "Test Corp",
+    loc: "US-DE",
+  }
+}
+
 /** Build a minimal XbrlConcept with annual entries. */
 function makeConcept(entries: XbrlUnit[], unit = "USD") {
   return { label: "Test", description: "Test", units: { [unit]: entries } }
@@ -233,3 +260,205 @@ describe("firstConcept", () => {
     expect(result[0].val).toBe(3_200_000)
   })
 })
+
+// ── pickQuarterly ──────────────────────────────────────────────────────────────
+
+describe("pickQuarterly", () => {
+  it("returns direct 3-month 10-Q entries", () => {
+    const result = pickQuarterly([quarterlyEntry(250, 2023, 1), quarterlyEntry(260, 2023, 2)])
+    expect(result.map((r) => r.val)).toEqual([250, 260])
+  })
+
+  it("backs Q4 out of the annual figure using the 9-month YTD", () => {
+    const entries = [
+      quarterlyEntry(250, 2023, 1),
+      quarterlyEntry(260, 2023, 2),
+      quarterlyEntry(270, 2023, 3),
+      ytdEntry(780, 2023, "09-30"),
+      annualEntry(1_080, 2023),
+    ]
+    const result = pickQuarterly(entries)
+    expect(result).toHaveLength(4)
+    expect(result[3].end).toBe("2023-12-31")
+    expect(result[3].start).toBe("2023-10-01")
+    expect(result[3].val).toBe(300)
+  })
+
+  it("derives discrete quarters from YTD-only cash flow facts", () => {
+    const entries = [
+      quarterlyEntry(100, 2023, 1),       // Q1 is both 3-month and YTD
+      ytdEntry(220, 2023, "06-30"),
+      ytdEntry(350, 2023, "09-30"),
+      annualEntry(500, 2023),
+    ]
+    expect(pickQuarterly(entries).map((r) => r.val)).toEqual([100, 120, 130, 150])
+  })
+
+  it("prefers a direct 3-month fact over a YTD difference", () => {
+    const entries = [
+      quarterlyEntry(100, 2023, 1),
+      quarterlyEntry(125, 2023, 2),
+      ytdEntry(220, 2023, "06-30"),
+    ]
+    expect(pickQuarterly(entries)[1].val).toBe(125)
+  })
+
+  it("does not difference non-additive facts", () => {
+    const entries = [
+      quarterlyEntry(88, 2023, 1),
+      ytdEntry(89, 2023, "06-30"),
+      annualEntry(90, 2023),
+    ]
+    expect(pickQuarterly(entries, false).map((r) => r.val)).toEqual([88])
+  })
+
+  it("skips a gap that does not span a quarter (missing 9M YTD)", () => {
+    const entries = [ytdEntry(220, 2023, "06-30"), annualEntry(500, 2023)]
+    expect(pickQuarterly(entries)).toHaveLength(0)
+  })
+
+  it("deduplicates restated quarters keeping latest filed", () => {
+    const original = quarterlyEntry(250, 2023, 1)
+    const restated = { ...quarterlyEntry(255, 2023, 1), filed: "2024-05-01" }
+    const result = pickQuarterly([original, restated])
+    expect(result).toHaveLength(1)
+    expect(result[0].val).toBe(255)
+  })
+
+  it("ignores 8-K and other non-periodic forms", () => {
+    const entry = { ...quarterlyEntry(250, 2023, 1), form: "8-K" }
+    expect(pickQuarterly([entry])).toHaveLength(0)
+  })
+})
+
+// ── lastFourQuarters ───────────────────────────────────────────────────────────
+
+describe("lastFourQuarters", () => {
+  const q = (end: string) => ({ end })
+
+  it("returns the last four contiguous quarters", () => {
+    const quarters = [q("2023-03-31"), q("2023-06-30"), q("2023-09-30"), q("2023-12-31"), q("2024-03-31")]
+    expect(lastFourQuarters(quarters)?.map((v) => v.end)).toEqual([
+      "2023-06-30", "2023-09-30", "2023-12-31", "2024-03-31",
+    ])
+  })
+
+  it("returns null with fewer than four quarters", () => {
+    expect(lastFourQuarters([q("2023-03-31"), q("2023-06-30"), q("2023-09-30")])).toBeNull()
+  })
+
+  it("returns null when a quarter is missing from the window", () => {
+    const quarters = [q("2023-03-31"), q("2023-06-30"), q("2023-12-31"), q("2024-03-31")]
+    expect(lastFourQuarters(quarters)).toBeNull()
+  })
+})
+
+// ── IFRS taxonomy (20-F filers) ─────────────────────────────────────────────────
+
+describe("resolveTaxonomy", () => {
+  it("selects us-gaap for a 10-K filer", () => {
+    const facts = { "us-gaap": { Revenues: makeConcept([annualEntry(1_000_000, 2023)]) } }
+    expect(resolveTaxonomy({ facts })?.taxonomy).toBe("us-gaap")
+  })
+
+  it("selects ifrs-full when us-gaap is absent", () => {
+    const facts = {
+      "ifrs-full": { Revenue: makeConcept([{ ...annualEntry(27_559_000_000, 2023), form: "20-F" }], "EUR") },
+    }
+    expect(resolveTaxonomy({ facts })?.taxonomy).toBe("ifrs-full")
+  })
+
+  it("falls through to ifrs-full when us-gaap carries no revenue", () => {
+    const facts = {
+      "us-gaap": { Assets: makeConcept([annualEntry(5_000_000, 2023)]) },
+      "ifrs-full": { Revenue: makeConcept([annualEntry(1_000_000, 2023)], "EUR") },
+    }
+    expect(resolveTaxonomy({ facts })?.taxonomy).toBe("ifrs-full")
+  })
+
+  it("prefers us-gaap when both taxonomies carry revenue", () => {
+    const facts = {
+      "us-gaap": { Revenues: makeConcept([annualEntry(1_000_000, 2023)]) },
+      "ifrs-full": { Revenue: makeConcept([annualEntry(1_000_000, 2023)]) },
+    }
+    expect(resolveTaxonomy({ facts })?.taxonomy).toBe("us-gaap")
+  })
+
+  it("returns null when no taxonomy has revenue", () => {
+    expect(resolveTaxonomy({ facts: {} })).toBeNull()
+  })
+})
+
+describe("reportingCurrency", () => {
+  it("detects the monetary unit key of the revenue concept", () => {
+    const concepts = { Revenue: makeConcept([annualEntry(2_161_736_000_000, 2023)], "TWD") }
+    expect(reportingCurrency(concepts, "ifrs-full")).toBe("TWD")
+  })
+
+  it("defaults to USD when no revenue concept is present", () => {
+    expect(reportingCurrency({}, "ifrs-full")).toBe("USD")
+  })
+})
+
+describe("firstConcept with IFRS concept chains", () => {
+  it("resolves ifrs-full operating cash flow in EUR", () => {
+    const concepts = {
+      CashFlowsFromUsedInOperatingActivities: makeConcept(
+        [{ ...annualEntry(5_443_000_000, 2023), form: "20-F" }],
+        "EUR",
+      ),
+    }
+    const result = firstConcept(concepts, CONCEPT_MAP["ifrs-full"].ocf, "EUR")
+    expect(result[0].val).toBe(5_443_000_000)
+  })
+
+  it("falls back from owners-of-parent profit to ProfitLoss", () => {
+    const concepts = { ProfitLoss: makeConcept([{ ...annualEntry(7_839_000_000, 2023), form: "20-F" }], "EUR") }
+    const result = firstConcept(concepts, CONCEPT_MAP["ifrs-full"].net_income, "EUR")
+    expect(result[0].val).toBe(7_839_000_000)
+  })
+
+  it("reads diluted EPS from the currency/shares unit key", () => {
+    const concepts = {
+      DilutedEarningsLossPerShare: makeConcept([{ ...annualEntry(19.91, 2023), form: "20-F" }], "EUR/shares"),
+    }
+    const result = firstConcept(concepts, CONCEPT_MAP["ifrs-full"].eps_diluted, "EUR/shares")
+    expect(result[0].val).toBeCloseTo(19.91)
+  })
+
+  it("maps every us-gaap field to at least one ifrs-full concept", () => {
+    for (const [field, names] of Object.entries(CONCEPT_MAP["ifrs-full"])) {
+      expect(names.length, field).toBeGreaterThan(0)
+    }
+  })
+})
+
+// ── resolveUnitKey ────────────────────────────────────────────────────────────
+
+describe("resolveUnitKey", () => {
+  it("returns the requested key when populated", () => {
+    expect(resolveUnitKey(makeConcept([annualEntry(1, 2023)], "EUR"), "EUR")).toBe("EUR")
+  })
+
+  it("falls back to another currency key for a monetary concept", () => {
+    expect(resolveUnitKey(makeConcept([annualEntry(1, 2023)], "USD"), "TWD")).toBe("USD")
+  })
+
+  it("falls back to another currency-per-share key for per-share concepts", () => {
+    expect(resolveUnitKey(makeConcept([annualEntry(1, 2023)], "USD/shares"), "TWD/shares")).toBe("USD/shares")
+  })
+
+  it("does not substitute a per-share key for a monetary request", () => {
+    expect(resolveUnitKey(makeConcept([annualEntry(1, 2023)], "USD/shares"), "TWD")).toBeUndefined()
+  })
+
+  it("never substitutes share counts", () => {
+    expect(resolveUnitKey(makeConcept([annualEntry(1, 2023)], "pure"), "shares")).toBeUndefined()
+  })
+
+  it("tags firstConcept results with the unit key read", () => {
+    const concepts = { Revenue: makeConcept([{ ...annualEntry(100, 2023), form: "20-F" }], "USD") }
+    const result = firstConcept(concepts, CONCEPT_MAP["ifrs-full"].revenue, "TWD")
+    expect(result[0].unit).toBe("USD")
+  })
+})
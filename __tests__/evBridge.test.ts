@@ -0,0 +1,84 @@
+/**
+ * Unit tests for lib/valuation/evBridge.ts (+ computeAll wiring in calculations.ts)
+ *
+ * Coverage:
+ *   evBridge      — debt / cash only, reported non-operating items, lease default by standard, toggles
+ *   equityFromEV  — EV − net claims
+ *   computeAll    — FCFF, EV/EBITDA and NAV use the bridge; US GAAP leases leave FCFF unchanged
+ */
+
+import { describe, it, expect } from "vitest"
+import { evBridge, equityFromEV } from "@/lib/valuation/evBridge"
+import { computeAll, computeNAV } from "@/lib/valuation/calculations"
+import { DEFAULT_ASSUMPTIONS } from "@/lib/valuation/presets"
+import { makeBaseline } from "./fixtures/baseline"
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const a = DEFAULT_ASSUMPTIONS
+const CLAIMS = {
+  operating_leases: 300, minority_interest: 50, preferred_stock: 25, pension_deficit: 75, equity_investments: 150,
+}
+const comps = { Peer: { ev_ebitda: 12, ev_rev: 3, pe: 20, peg: 1.5, pb: 3, pcf: 15 } }
+
+// ── evBridge ──────────────────────────────────────────────────────────────────
+
+describe("evBridge", () => {
+  it("reduces to net debt with only debt and cash reported", () => {
+    const bridge = evBridge(makeBaseline(), a)
+    expect(bridge.lines.map((l) => l.key)).toEqual(["total_debt", "cash"])
+    expect(bridge.net_claims).toBeCloseTo(1_200, 10)
+    expect(equityFromEV(10_000, bridge)).toBeCloseTo(8_800, 10)
+  })
+
+  it("deducts claims and adds back equity investments", () => {
+    const bridge = evBridge(makeBaseline({ ...CLAIMS, reporting_standard: "ifrs" }), a)
+    expect(bridge.lines).toHaveLength(7)
+    expect(bridge.lines.find((l) => l.key === "equity_investments")!.amount).toBe(150)
+    expect(bridge.lines.find((l) => l.key === "operating_leases")!.amount).toBe(-300)
+    expect(bridge.net_claims).toBeCloseTo(1_200 + 300 + 50 + 25 + 75 - 150, 10)
+  })
+
+  it("leaves out items switched off, keeping them as lines", () => {
+    const ifrs = makeBaseline({ ...CLAIMS, reporting_standard: "ifrs" })
+    const bridge = evBridge(ifrs, { ...a, ev_bridge: { operating_leases: false } })
+    expect(bridge.lines.find((l) => l.key === "operating_leases")!.included).toBe(false)
+    expect(bridge.net_claims).toBeCloseTo(1_200 + 50 + 25 + 75 - 150, 10)
+  })
+
+  it("excludes operating leases by default under US GAAP, where rent is already in opex", () => {
+    for (const B of [makeBaseline(CLAIMS), makeBaseline({ ...CLAIMS, reporting_standard: "us-gaap" })]) {
+      const bridge = evBridge(B, a)
+      expect(bridge.lines.find((l) => l.key === "operating_leases")!.included).toBe(false)
+      expect(bridge.net_claims).toBeCloseTo(1_200 + 50 + 25 + 75 - 150, 10)
+    }
+    const opted = evBridge(makeBaseline(CLAIMS), { ...a, ev_bridge: { operating_leases: true } })
+    expect(opted.net_claims).toBeCloseTo(1_200 + 300 + 50 + 25 + 75 - 150, 10)
+  })
+})
+
+// ── computeAll wiring ─────────────────────────────────────────────────────────
+
+describe("EV-based models use the bridge", () => {
+  it("lowers FCFF and EV/EBITDA values by the extra net claims", () => {
+    const plain = computeAll(makeBaseline({ reporting_standard: "ifrs" }), comps, {}, {}, [5, 5.5], a)
+    const bridged = computeAll(makeBaseline({ ...CLAIMS, reporting_standard: "ifrs" }), comps, {}, {}, [5, 5.5], a)
+    expect(bridged.bridge.net_claims - plain.bridge.net_claims).toBeCloseTo(300, 10)
+    expect(bridged.ev_fcff).toBeCloseTo(plain.ev_fcff, 6)
+    expect(plain.pps_fcff - bridged.pps_fcff).toBeCloseTo(300 / 89, 6)
+    expect(plain.pps_ebitda - bridged.pps_ebitda).toBeCloseTo(300 / 89, 6)
+  })
+
+  it("keeps the FCFF price of a US GAAP filer with a lease liability", () => {
+    const plain = computeAll(makeBaseline(), comps, {}, {}, [5, 5.5], a)
+    const leased = computeAll(makeBaseline({ operating_leases: 300, reporting_standard: "us-gaap" }), comps, {}, {}, [5, 5.5], a)
+    expect(leased.pps_fcff).toBeCloseTo(plain.pps_fcff, 10)
+    expect(leased.pps_ebitda).toBeCloseTo(plain.pps_ebitda, 10)
+  })
+
+  it("NAV deducts net claims", () => {
+    const { navBridge } = computeNAV(makeBaseline({ ...CLAIMS, noi: 500, reporting_standard: "ifrs" }), { ...a, cap_rate: 0.05 })
+    expect(navBridge!.net_claims).toBeCloseTo(1_500, 10)
+    expect(navBridge!.nav).toBeCloseTo(navBridge!.property_value - 1_500, 10)
+  })
+})
@@ -0,0 +1,19 @@
+/**
+ * Shared Baseline fixture for the valuation unit tests: a mid-cap industrial
+ * with debt, dividends and goodwill. Override fields per test.
+ */
+
+import type { Baseline } from "@/types/valuation"
+
+export function makeBaseline(overrides: Partial<Baseline> = {}): Baseline {
+  return {
+    revenue: 3_600, ebitda: 810, adj_ebitda: 810, adj_ebitda_margin: 0.225, ebitda_margin: 0.225,
+    net_income: 490, adj_net_income: 490, fcf: 520, adj_eps: 5.5, eps: 5.5, dps: 1.7,
+    current_price: 140, shares_diluted: 89, shares_basic: 88, net_debt: 1_200, bvps: 22.5,
+    roe: 0.245, total_debt: 1_600, total_equity: 2_000, total_assets: 5_000, goodwill: 2_100,
+    tax_rate: 0.21, payout_ratio: 0.3, plowback_ratio: 0.7, gross_margin: 0.53, cogs: 1_690,
+    gross_profit: 1_910, sga: 800, da_total: 120, operating_income: 690, interest_expense: 80,
+    pretax_income: 620, tax: 130, ocf: 650, ebit: 690, capex: 90, net_borrowing: 0,
+    ...overrides,
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Unit tests for lib/valuation/fx.ts
+ *
+ * Coverage:
+ *   staticRateSource     — identity, cross rates through USD, unknown currency
+ *   adrRatio             — listed ADR, 1:1 default
+ *   resolveConversion    — per-concept currencies, missing rates
+ *   convertFundamentals  — monetary, per-share and share-count scaling; derived fields
+ */
+
+import { describe, it, expect } from "vitest"
+import {
+  staticRateSource,
+  adrRatio,
+  resolveConversion,
+  convertFundamentals,
+  isIdentityConversion,
+  type FxConversion,
+  type FxRateSource,
+} from "@/lib/valuation/fx"
+import type { XbrlFundamentals } from "@/lib/valuation/edgarXbrl"
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+/** TSM-like filer: TWD reporting currency, millions / per ordinary share. */
+function twdFundamentals(overrides: Partial<XbrlFundamentals> = {}): XbrlFundamentals {
+  return {
+    revenue: 2_000_000, ebit: 900_000, net_income: 800_000,
+    interest_expense: 10_000, tax_expense: 130_000, da_total: 500_000,
+    eps_diluted: 32, dps: 12, gross_profit: 1_100_000,
+    total_assets: 5_000_000, total_debt: 900_000, cash: 1_500_000,
+    total_equity: 3_500_000, goodwill: 5_000, intangibles: 20_000,
+    shares_diluted: 25_000, shares_basic: 25_000, bvps: 140,
+    ocf: 1_200_000, capex: 900_000, net_borrowing: 50_000,
+    ebitda: 1_400_000, net_debt: -600_000, tax_rate: 0.15, payout_ratio: 0.375,
+    net_interest_income: 0, credit_loss_provision: 0, deposits: 0, cet1_ratio: 0,
+    re_depreciation: 0, gain_on_property_sales: 0, rental_revenue: 0, property_opex: 0, investment_property: 0,
+    receivables: 0, inventory: 0, payables: 0, ppe: 0,
+    sbc: 0, options_outstanding: 0, options_strike: 0, rsus_outstanding: 0,
+    operating_leases: 0, minority_interest: 0, preferred_stock: 0, pension_deficit: 0, equity_investments: 0,
+    debt_due_1: 0, debt_due_2: 0, debt_due_3: 0, debt_due_4: 0, debt_due_5: 0, debt_due_later: 0,
+    revolver_capacity: 0, revolver_drawn: 0,
+    hist: {
+      year: [2022, 2023], revenue: [2_200_000, 2_000_000], ebit: [1_100_000, 900_000],
+      net_income: [1_000_000, 800_000], eps_diluted: [39, 32], dps: [11, 12],
+      ocf: [1_600_000, 1_200_000], capex: [1_100_000, 900_000], bvps: [120, 140], da: [430_000, 500_000],
+    },
+    quarterly: {
+      end: ["2024-03-31"], revenue: [590_000], ebit: [250_000], net_income: [225_000],
+      eps_diluted: [8.7], ocf: [436_000], capex: [181_000], da: [130_000],
+    },
+    ttm: null,
+    cik: "0001046179",
+    filedDate: "2024-04-18",
+    fiscalYearEnd: "2023-12-31",
+    taxonomy: "ifrs-full",
+    reportingCurrency: "TWD",
+    unitKeys: { revenue: "TWD", eps_diluted: "TWD/shares", shares_diluted: "shares" },
+    sources: {},
+    ...overrides,
+  }
+}
+
+function conversion(overrides: Partial<FxConversion> = {}): FxConversion {
+  return { from: "TWD", to: "USD", rates: { TWD: 0.031 }, missing: [], adrRatio: 5, source: "test", ...overrides }
+}
+
+// ── staticRateSource ──────────────────────────────────────────────────────────
+
+describe("staticRateSource", () => {
+  it("returns 1 for the same currency", async () => {
+    expect(await staticRateSource.getRate("JPY", "JPY")).toBe(1)
+  })
+
+  it("crosses non-USD pairs through USD", async () => {
+    const eurGbp = await staticRateSource.getRate("EUR", "GBP")
+    const gbpEur = await staticRateSource.getRate("GBP", "EUR")
+    expect(eurGbp! * gbpEur!).toBeCloseTo(1)
+  })
+
+  it("returns null for an unknown currency", async () => {
+    expect(await staticRateSource.getRate("XXX", "USD")).toBeNull()
+  })
+})
+
+// ── adrRatio ──────────────────────────────────────────────────────────────────
+
+describe("adrRatio", () => {
+  it("returns the ordinary shares per ADR for listed tickers", () => {
+    expect(adrRatio("tsm")).toBe(5)
+  })
+
+  it("defaults to 1:1", () => {
+    expect(adrRatio("AAPL")).toBe(1)
+  })
+})
+
+// ── resolveConversion ─────────────────────────────────────────────────────────
+
+describe("resolveConversion", () => {
+  it("collects a rate for every currency read, ignoring share counts", async () => {
+    const x = twdFundamentals({ unitKeys: { revenue: "TWD", capex: "USD", shares_diluted: "shares" } })
+    const conv = await resolveConversion(x, "USD", "TSM")
+    expect(Object.keys(conv.rates).sort()).toEqual(["TWD", "USD"])
+    expect(conv.adrRatio).toBe(5)
+    expect(conv.missing).toEqual([])
+  })
+
+  it("reports currencies the source cannot price", async () => {
+    const none: FxRateSource = { name: "none", getRate: async (f, t) => (f === t ? 1 : null) }
+    const conv = await resolveConversion(twdFundamentals(), "USD", "TSM", none)
+    expect(conv.missing).toEqual(["TWD"])
+  })
+
+  it("is an identity for a USD filer trading in USD", async () => {
+    const x = twdFundamentals({ reportingCurrency: "USD", unitKeys: { revenue: "USD" } })
+    expect(isIdentityConversion(await resolveConversion(x, "USD", "AAPL"))).toBe(true)
+  })
+})
+
+// ── convertFundamentals ───────────────────────────────────────────────────────
+
+describe("convertFundamentals", () => {
+  const out = convertFundamentals(twdFundamentals(), conversion())
+
+  it("converts monetary figures at the reporting rate", () => {
+    expect(out.revenue).toBeCloseTo(2_000_000 * 0.031)
+    expect(out.hist.revenue[0]).toBeCloseTo(2_200_000 * 0.031)
+    expect(out.quarterly.revenue[0]).toBeCloseTo(590_000 * 0.031)
+  })
+
+  it("restates per-share figures per ADR", () => {
+    expect(out.eps_diluted).toBeCloseTo(32 * 0.031 * 5)
+    expect(out.hist.bvps[1]).toBeCloseTo(140 * 0.031 * 5)
+  })
+
+  it("divides share counts by the ADR ratio", () => {
+    expect(out.shares_diluted).toBeCloseTo(5_000)
+  })
+
+  it("keeps market cap consistent: EPS × shares = net income", () => {
+    expect(out.eps_diluted * out.shares_diluted).toBeCloseTo(32 * 25_000 * 0.031)
+  })
+
+  it("recomputes derived fields in the new currency", () => {
+    expect(out.ebitda).toBeCloseTo(out.ebit + out.da_total)
+    expect(out.net_debt).toBeCloseTo(out.total_debt - out.cash)
+    expect(out.tax_rate).toBeCloseTo(130_000 / (900_000 - 10_000))
+  })
+
+  it("uses the unit actually read for each concept", () => {
+    const x = twdFundamentals({ unitKeys: { revenue: "TWD", capex: "USD" } })
+    const mixed = convertFundamentals(x, conversion({ rates: { TWD: 0.031, USD: 1 } }))
+    expect(mixed.capex).toBe(900_000)
+    expect(mixed.revenue).toBeCloseTo(2_000_000 * 0.031)
+  })
+
+  it("converts the TTM block when present", () => {
+    const { hist: _h, quarterly: _q, ttm: _t, cik: _c, fiscalYearEnd: _f, taxonomy: _x,
+      reportingCurrency: _r, unitKeys: _u, ...period } = twdFundamentals()
+    const x = twdFundamentals({ ttm: { ...period, periodEnd: "2024-03-31", filedDate: "2024-04-18" } })
+    const conv = convertFundamentals(x, conversion())
+    expect(conv.ttm?.revenue).toBeCloseTo(2_000_000 * 0.031)
+    expect(conv.ttm?.periodEnd).toBe("2024-03-31")
+  })
+})
@@ -0,0 +1,66 @@
+/**
+ * Unit tests for lib/valuation/peerFetcher.ts
+ *
+ * Coverage:
+ *   fetchPeerComps — financial peers' P/TBV and ROTE from XBRL tangible book,
+ *                    currency mismatch, peers without a filing, non-financial sectors
+ *
+ * Every peer replays the ACME fixtures (no network).
+ */
+
+import { describe, it, expect } from "vitest"
+import path from "path"
+import { fixtureProviders, type FundamentalsProvider, type MarketDataProvider } from "@/lib/valuation/providers"
+import { fetchXbrlFundamentals } from "@/lib/valuation/edgarXbrl"
+import { fetchPeerComps } from "@/lib/valuation/peerFetcher"
+
+const fixtures = fixtureProviders(path.join(__dirname, "fixtures"))
+
+/** Quotes every peer as ACME, optionally in another currency. */
+function acmeMarket(currency?: string): MarketDataProvider {
+  return {
+    ...fixtures.market,
+    async quoteSummary(_ticker, modules) {
+      const data = await fixtures.market.quoteSummary("ACME", modules)
+      return currency ? { ...data, price: { ...(data.price as object), currency } } : data
+    },
+  }
+}
+
+/** SEC ticker table listing `tickers` under ACME's CIK. */
+function acmeFilings(tickers: string[]): FundamentalsProvider {
+  return {
+    ...fixtures.fundamentals,
+    async companyTickers() {
+      return Object.fromEntries(tickers.map((ticker, i) => [String(i), { cik_str: 1234567, ticker, title: "Acme Corp" }]))
+    },
+  }
+}
+
+describe("fetchPeerComps — tangible book", () => {
+  it("reads financial peers' P/TBV and ROTE from their XBRL balance sheet", async () => {
+    const comps = await fetchPeerComps("ACME", "Financial Services", acmeMarket(), acmeFilings(["JPM", "BAC"]))
+    const x = (await fetchXbrlFundamentals("0001234567", fixtures.fundamentals))!
+    const tangible = x.total_equity - x.goodwill - x.intangibles
+
+    expect(comps.JPM.ptbv).toBeCloseTo(60 / (tangible / x.shares_diluted), 6)
+    expect(comps.JPM.rote).toBeCloseTo(x.net_income / tangible, 6)
+    expect(comps.BAC.ptbv).toBeCloseTo(comps.JPM.ptbv!, 6)
+    // No SEC filing: the peer stays in the comps but out of the P/TBV fit
+    expect(comps.WFC).toBeDefined()
+    expect(comps.WFC.ptbv).toBeUndefined()
+    expect(comps.WFC.rote).toBeUndefined()
+  })
+
+  it("leaves P/TBV unset when the filing is not in the quote currency", async () => {
+    const comps = await fetchPeerComps("ACME", "Financial Services", acmeMarket("EUR"), acmeFilings(["JPM", "BAC"]))
+    expect(comps.JPM.ptbv).toBeUndefined()
+    expect(comps.JPM.rote).toBeUndefined()
+  })
+
+  it("does not look up tangible book outside the financial model set", async () => {
+    const comps = await fetchPeerComps("ACME", "Technology", acmeMarket(), acmeFilings(["AAPL", "MSFT"]))
+    expect(comps.AAPL.ptbv).toBeUndefined()
+    expect(comps.MSFT.rote).toBeUndefined()
+  })
+})
@@ -0,0 +1,160 @@
+/**
+ * Unit tests for lib/valuation/providers.ts
+ *
+ * Coverage:
+ *   getProviders        — DATA_PROVIDER / FIXTURE_TICKERS selection
+ *   fixtureProviders    — replay, module filtering, price-history windows, missing fixtures
+ *   recordingProviders  — round trip through the fixture layout
+ *   fetchLiveConfig     — end to end against __tests__/fixtures (no network),
+ *                         including per-field provenance
+ */
+
+import { describe, it, expect } from "vitest"
+import os from "os"
+import path from "path"
+import { promises as fs } from "fs"
+import {
+  getProviders,
+  fixtureProviders,
+  recordingProviders,
+  liveMarketData,
+  type DataProviders,
+} from "@/lib/valuation/providers"
+import { fetchLiveConfig } from "@/lib/valuation/yahooFetcher"
+
+const FIXTURES = path.join(__dirname, "fixtures")
+
+// ── getProviders ──────────────────────────────────────────────────────────────
+
+describe("getProviders", () => {
+  it("defaults to the cached live providers", () => {
+    const p = getProviders("ACME", {})
+    expect(p.market).not.toBe(liveMarketData)
+    expect(p.market.name).toBe(liveMarketData.name)
+  })
+
+  it("uses the live providers directly with DATA_CACHE=off", () => {
+    expect(getProviders("ACME", { DATA_CACHE: "off" }).market).toBe(liveMarketData)
+  })
+
+  it("selects fixtures with DATA_PROVIDER=fixture", () => {
+    const p = getProviders("ACME", { DATA_PROVIDER: "fixture", FIXTURE_DIR: FIXTURES })
+    expect(p.market.name).toContain("fixtures")
+  })
+
+  it("falls through to live for tickers outside FIXTURE_TICKERS", () => {
+    const env = { DATA_PROVIDER: "fixture", FIXTURE_DIR: FIXTURES, FIXTURE_TICKERS: "ACME, XYZ" }
+    expect(getProviders("xyz", env).market.name).toContain("fixtures")
+    expect(getProviders("MSFT", { ...env, DATA_CACHE: "off" }).market).toBe(liveMarketData)
+  })
+})
+
+// ── fixtureProviders ──────────────────────────────────────────────────────────
+
+describe("fixtureProviders", () => {
+  const { market, fundamentals } = fixtureProviders(FIXTURES)
+
+  it("returns only the requested quoteSummary modules", async () => {
+    const q = await market.quoteSummary("acme", ["price"])
+    expect(Object.keys(q)).toEqual(["price"])
+  })
+
+  it("throws for a ticker with no recorded quote", async () => {
+    await expect(market.quoteSummary("NOPE", ["price"])).rejects.toThrow(/NOPE/)
+  })
+
+  it("resolves empty for missing headlines, RSS and filings", async () => {
+    expect(await market.headlines("NOPE", 10)).toEqual([])
+    expect(await market.newsRss("nope stock")).toBeNull()
+    expect(await fundamentals.companyFacts("999")).toBeNull()
+    expect(await market.priceHistory("NOPE", "1mo", "2020-01-01")).toEqual([])
+  })
+
+  it("replays price history from the start date on", async () => {
+    const points = await market.priceHistory("acme", "1mo", "2024-02-01")
+    expect(points.map((p) => p.date)).toEqual(["2024-02-01", "2024-03-01", "2024-04-01"])
+  })
+
+  it("pads the CIK when locating EDGAR fixtures", async () => {
+    const facts = await fundamentals.companyFacts("1234567")
+    expect(facts?.entityName).toBe("Acme Corp")
+  })
+})
+
+// ── recordingProviders ────────────────────────────────────────────────────────
+
+describe("recordingProviders", () => {
+  it("writes payloads that fixtureProviders replays", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "providers-"))
+    try {
+      const recorder = recordingProviders(fixtureProviders(FIXTURES), dir)
+      await recorder.market.quoteSummary("ACME", ["price"])
+      await recorder.market.quoteSummary("ACME", ["summaryDetail"])
+      await recorder.fundamentals.companyTickers()
+
+      const replay = fixtureProviders(dir)
+      const q = await replay.market.quoteSummary("ACME", ["price", "summaryDetail"])
+      expect(Object.keys(q).sort()).toEqual(["price", "summaryDetail"])
+      expect(await replay.fundamentals.companyTickers()).not.toBeNull()
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+})
+
+// ── fetchLiveConfig (offline) ─────────────────────────────────────────────────
+
+describe("fetchLiveConfig with fixture providers", () => {
+  const providers: DataProviders = fixtureProviders(FIXTURES)
+
+  it("builds a config from recorded Yahoo and EDGAR payloads", async () => {
+    const { config, sec, news } = await fetchLiveConfig("acme", providers)
+    expect(config.ticker).toBe("ACME")
+    expect(config.fiscal_year).toBe("FY2023")
+    expect(config.baseline.revenue).toBe(10_000)
+    expect(config.baseline.current_price).toBe(60)
+    expect(config.historical_is.year).toEqual([2021, 2022, 2023])
+    expect(sec?.form).toBe("10-K")
+    expect(news[0].title).toContain("Acme")
+  })
+
+  it("falls back to placeholder peers when peer quotes are not recorded", async () => {
+    const { config } = await fetchLiveConfig("ACME", providers)
+    expect(Object.keys(config.comps)).toContain("Peer A")
+  })
+
+  it("records the filing behind each XBRL figure", async () => {
+    const { config } = await fetchLiveConfig("ACME", providers)
+    const revenue = config.provenance?.baseline.revenue
+    expect(revenue).toMatchObject({
+      kind: "xbrl",
+      concept: "us-gaap:Revenues",
+      accession: "0001234567-24-000010",
+      filed: "2024-02-15",
+      form: "10-K",
+    })
+    expect(config.provenance?.historical_is.revenue?.concept).toBe("us-gaap:Revenues")
+  })
+
+  it("marks market data, derived fields, heuristics and gaps", async () => {
+    const { config } = await fetchLiveConfig("ACME", providers)
+    const p = config.provenance!.baseline
+    expect(p.current_price).toMatchObject({ kind: "yahoo", module: "price.regularMarketPrice" })
+    expect(p.fcf?.kind).toBe("derived")
+    expect(p.goodwill?.kind).toBe("missing")        // no Goodwill concept in the fixture
+    expect(p.dps?.kind).toBe("missing")
+  })
+
+  it("cites Yahoo modules when no XBRL period is available", async () => {
+    const base = fixtureProviders(FIXTURES)
+    const yahooOnly: DataProviders = {
+      market: base.market,
+      fundamentals: { ...base.fundamentals, companyFacts: async () => null },
+    }
+    const { config } = await fetchLiveConfig("ACME", yahooOnly)
+    const p = config.provenance!.baseline
+    expect(p.eps).toMatchObject({ kind: "yahoo", module: "defaultKeyStatistics.trailingEps" })
+    expect(p.tax_rate?.kind).toBe("heuristic")
+    expect(p.capex?.kind).toBe("heuristic")
+  })
+})
@@ -0,0 +1,72 @@
+/**
+ * Unit tests for lib/valuation/sampling.ts
+ *
+ * Covers:
+ *   createRng     — determinism, range
+ *   uniformPoints — index addressing, Latin hypercube strata, Sobol stratification
+ */
+
+import { describe, it, expect } from "vitest"
+import { createRng, uniformPoints, SOBOL_MAX_DIMS } from "@/lib/valuation/sampling"
+
+/** Stratum index of each coordinate in dimension d for n equal strata. */
+const strata = (pts: number[][], d: number, n: number) =>
+  pts.map((p) => Math.floor(p[d] * n)).sort((x, y) => x - y)
+const range = (n: number) => Array.from({ length: n }, (_, k) => k)
+
+describe("createRng", () => {
+  it("replays the same stream for the same seed", () => {
+    const x = createRng(5), y = createRng(5), z = createRng(6)
+    const xs = Array.from({ length: 10 }, x)
+    expect(Array.from({ length: 10 }, y)).toEqual(xs)
+    expect(Array.from({ length: 10 }, z)).not.toEqual(xs)
+  })
+
+  it("stays strictly inside (0, 1) with mean ≈ ½", () => {
+    const rng = createRng(1)
+    const xs = Array.from({ length: 10_000 }, rng)
+    expect(Math.min(...xs)).toBeGreaterThan(0)
+    expect(Math.max(...xs)).toBeLessThan(1)
+    expect(xs.reduce((s, x) => s + x, 0) / xs.length).toBeCloseTo(0.5, 2)
+  })
+})
+
+describe("uniformPoints", () => {
+  it("gives the same point for an index regardless of evaluation order", () => {
+    for (const method of ["random", "lhs", "sobol"] as const) {
+      const src = uniformPoints(method, 3, 64, 9)
+      const forward = range(64).map(src)
+      const backward = range(64).reverse().map(src).reverse()
+      expect(backward).toEqual(forward)
+      expect(forward[0]).toHaveLength(3)
+    }
+  })
+
+  it("puts exactly one Latin hypercube point in each stratum of every dimension", () => {
+    const n = 50
+    const pts = range(n).map(uniformPoints("lhs", 4, n, 3))
+    for (let d = 0; d < 4; d++) expect(strata(pts, d, n)).toEqual(range(n))
+  })
+
+  it("fills every dyadic interval once per 2^k Sobol points, shift included", () => {
+    const dims = SOBOL_MAX_DIMS
+    const pts = range(32).map(uniformPoints("sobol", dims, 32, 17))
+    for (let d = 0; d < dims; d++) expect(strata(pts, d, 32)).toEqual(range(32))
+  })
+
+  it("matches the unshifted Sobol sequence up to the digital shift", () => {
+    // Points 0–3 of the first two dimensions are (0, 0), (½, ½), (¾, ¼), (¼, ¾); a
+    // digital shift XORs every point by the same constant, so p₀ ⊕ pᵢ is unshifted.
+    const src = uniformPoints("sobol", 2, 4, 1)
+    const bits = (u: number) => Math.floor(u * 2 ** 32) >>> 0
+    const p = range(4).map(src).map((pt) => pt.map(bits))
+    const unshifted = [1, 2, 3].map((i) => p[i].map((x, d) => ((x ^ p[0][d]) >>> 0) / 2 ** 32))
+    expect(unshifted).toEqual([[0.5, 0.5], [0.75, 0.25], [0.25, 0.75]])
+  })
+
+  it("falls back to random coordinates beyond the Sobol table", () => {
+    const pts = range(8).map(uniformPoints("sobol", SOBOL_MAX_DIMS + 2, 8, 1))
+    expect(pts[0]).toHaveLength(SOBOL_MAX_DIMS + 2)
+    for (const p of pts) for (const u of p) expect(u > 0 && u < 1).toBe(true)
+  })
+})
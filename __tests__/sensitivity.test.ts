@@ -0,0 +1,119 @@
+/**
+ * Unit tests for lib/valuation/sensitivity.ts
+ *
+ * Coverage:
+ *   sensitivityPlan      — base first, symmetric flexes, field filter, fallbacks, zero fields, valid perpetuity
+ *   runSensitivity       — base and points match computeAll, ranking, direction, cost-of-equity shift
+ *   assembleSensitivity  — spider ordering around the base
+ */
+
+import { describe, it, expect } from "vitest"
+import { computeAll, type ComputeAllArgs } from "@/lib/valuation/calculations"
+import { DEFAULT_ASSUMPTIONS } from "@/lib/valuation/presets"
+import {
+  SENSITIVITY_FIELDS, assembleSensitivity, runSensitivity, sensitivityPlan,
+} from "@/lib/valuation/sensitivity"
+import type { Assumptions } from "@/types/valuation"
+import { makeBaseline } from "./fixtures/baseline"
+
+const a = DEFAULT_ASSUMPTIONS
+const args: ComputeAllArgs = {
+  B: makeBaseline(),
+  comps: { Peer: { ev_ebitda: 12, ev_rev: 3, pe: 20, peg: 1.5, pb: 3, pcf: 15 } },
+  segments: {},
+  acquisitions: {},
+  histEPS: [5, 5.5],
+  a,
+}
+const priceWith = (o: Partial<Assumptions>, keShift = 0) =>
+  computeAll(args.B, args.comps, {}, {}, args.histEPS, { ...a, ...o }, undefined, "standard", keShift)
+
+describe("sensitivityPlan", () => {
+  it("puts the base first, then 2 × steps symmetric flexes per field", () => {
+    const plan = sensitivityPlan(a, { range: 0.2, steps: 2 })
+    expect(plan.overrides[0]).toEqual({})
+    expect(plan.overrides.length).toBe(1 + plan.fields.length * 4)
+    expect(plan.keShifts.length).toBe(plan.overrides.length)
+    const wacc = plan.fields.find((f) => f.field === "wacc")!
+    expect(wacc.flexes.map((f) => +f.toFixed(10))).toEqual([-0.2, -0.1, 0.1, 0.2])
+    expect(wacc.inputs[0]).toBeCloseTo(a.wacc * 0.8, 12)
+    expect(wacc.inputs[3]).toBeCloseTo(a.wacc * 1.2, 12)
+  })
+
+  it("flexes only the requested fields, using defaults for unset optional ones", () => {
+    const plan = sensitivityPlan({ ...a, cap_rate: undefined }, { fields: ["cap_rate", "exit_mult"] })
+    expect(plan.fields.map((f) => f.field)).toEqual(["exit_mult", "cap_rate"])
+    expect(plan.fields[1].value).toBe(0.055)
+  })
+
+  it("skips fields at zero, which have nothing to flex relative to", () => {
+    const plan = sensitivityPlan({ ...a, ddm_g: 0 })
+    expect(plan.fields.some((f) => f.field === "ddm_g")).toBe(false)
+    expect(plan.fields.length).toBeLessThanOrEqual(SENSITIVITY_FIELDS.length)
+  })
+
+  it("keeps terminal growth below WACC when either is flexed", () => {
+    const tight = { ...a, wacc: 0.05, terminal_g: 0.045 }
+    const plan = sensitivityPlan(tight, { range: 0.3, fields: ["wacc", "terminal_g"] })
+    for (const o of plan.overrides.slice(1)) {
+      expect(o.terminal_g!).toBeLessThanOrEqual((o.wacc ?? tight.wacc) - 0.005 + 1e-12)
+    }
+  })
+
+  it("shifts the cost of equity only for its own flexes", () => {
+    const plan = sensitivityPlan(a, { range: 0.1, steps: 1, fields: ["cost_of_equity", "wacc"] })
+    // order follows SENSITIVITY_FIELDS: wacc, then cost_of_equity
+    expect(plan.keShifts.slice(1, 3)).toEqual([0, 0])
+    expect(plan.keShifts[3]).toBeCloseTo(-a.cost_of_equity * 0.1, 12)
+    expect(plan.keShifts[4]).toBeCloseTo(a.cost_of_equity * 0.1, 12)
+  })
+})
+
+describe("runSensitivity", () => {
+  const r = runSensitivity(args, "pps_fcff", { range: 0.1, steps: 2 })
+
+  it("starts from the unflexed computeAll value", () => {
+    expect(r.base).toBeCloseTo(priceWith({}).pps_fcff, 8)
+    expect(r.output).toBe("pps_fcff")
+    expect(r.range).toBe(0.1)
+  })
+
+  it("recomputes each flex with only that field moved", () => {
+    const bar = r.tornado.find((b) => b.field === "exit_mult")!
+    expect(bar.high).toBeCloseTo(priceWith({ exit_mult: a.exit_mult * 1.1 }).pps_fcff, 8)
+    expect(bar.low).toBeCloseTo(priceWith({ exit_mult: a.exit_mult * 0.9 }).pps_fcff, 8)
+  })
+
+  it("ranks the tornado by swing, widest first", () => {
+    const swings = r.tornado.map((b) => b.swing)
+    expect(swings).toEqual([...swings].sort((x, y) => y - x))
+    expect(r.tornado[0].swing).toBeGreaterThan(0)
+    expect(r.spider.map((l) => l.field)).toEqual(r.tornado.map((b) => b.field))
+  })
+
+  it("lowers the FCFF price as WACC rises and leaves REIT-only inputs inert", () => {
+    const wacc = r.tornado.find((b) => b.field === "wacc")!
+    expect(wacc.high).toBeLessThan(r.base)
+    expect(wacc.low).toBeGreaterThan(r.base)
+    expect(r.tornado.find((b) => b.field === "cap_rate")!.swing).toBe(0)
+  })
+
+  it("moves equity models, not FCFF, when the cost of equity is flexed", () => {
+    const ri = runSensitivity(args, "pps_ri", { fields: ["cost_of_equity"] }).tornado[0]
+    expect(ri.swing).toBeGreaterThan(0)
+    expect(ri.high).toBeCloseTo(priceWith({ cost_of_equity: a.cost_of_equity * 1.1 }, a.cost_of_equity * 0.1).pps_ri, 8)
+    expect(runSensitivity(args, "pps_fcff", { fields: ["cost_of_equity"] }).tornado[0].swing).toBe(0)
+  })
+})
+
+describe("assembleSensitivity", () => {
+  it("orders spider points by flex with the base at zero", () => {
+    const plan = sensitivityPlan(a, { range: 0.2, steps: 2, fields: ["wacc"] })
+    const rows = [10, 1, 2, 3, 4].map((pps_fcff) => ({ pps_fcff }))
+    const s = assembleSensitivity(plan, "pps_fcff", rows)
+    expect(s.base).toBe(10)
+    expect(s.spider[0].points.map((p) => p.value)).toEqual([1, 2, 10, 3, 4])
+    expect(s.spider[0].points[2].flex).toBe(0)
+    expect(s.tornado[0]).toMatchObject({ low: 1, high: 4, swing: 3 })
+  })
+})
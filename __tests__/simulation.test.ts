@@ -0,0 +1,246 @@
+/**
+ * Unit tests for lib/valuation/simulation.ts (+ runMonteCarlo wiring in calculations.ts)
+ *
+ * Coverage:
+ *   normalCdf / normalInv — round trip and known quantiles
+ *   fromNormalScore       — each marginal's location and bounds
+ *   cholesky              — factorisation, non-positive-definite matrices
+ *   validateSpec          — parameter, correlation and matrix checks
+ *   createSampler         — moments and correlation of draws, invalid specs
+ *   applyDraw             — growth path follows a sampled year-1 growth
+ *   runMonteCarlo         — every signal-table model, peer bootstrap, seeded reproducibility, auto-stop
+ */
+
+import { describe, it, expect } from "vitest"
+import {
+  normalCdf, normalInv, fromNormalScore, cholesky, correlationMatrix, validateSpec, createSampler,
+  applyDraw, SimulationSpecError, DEFAULT_SIM_SPEC,
+} from "@/lib/valuation/simulation"
+import { uniformPoints } from "@/lib/valuation/sampling"
+import { computeAll, runMonteCarlo } from "@/lib/valuation/calculations"
+import { DEFAULT_ASSUMPTIONS } from "@/lib/valuation/presets"
+import type { SimulationSpec } from "@/types/valuation"
+import { makeBaseline } from "./fixtures/baseline"
+
+const a = DEFAULT_ASSUMPTIONS
+
+const mean = (xs: number[]) => xs.reduce((s, x) => s + x, 0) / xs.length
+const sd = (xs: number[]) => {
+  const m = mean(xs)
+  return Math.sqrt(mean(xs.map((x) => (x - m) ** 2)))
+}
+const corr = (xs: number[], ys: number[]) => {
+  const mx = mean(xs), my = mean(ys)
+  return mean(xs.map((x, i) => (x - mx) * (ys[i] - my))) / (sd(xs) * sd(ys))
+}
+
+// ── Normal distribution ───────────────────────────────────────────────────────
+
+describe("normalCdf / normalInv", () => {
+  it("hits known quantiles and round-trips", () => {
+    expect(normalCdf(0)).toBeCloseTo(0.5, 7)
+    expect(normalCdf(1.959964)).toBeCloseTo(0.975, 6)
+    expect(normalInv(0.975)).toBeCloseTo(1.959964, 5)
+    for (const p of [0.001, 0.1, 0.5, 0.8, 0.999]) expect(normalCdf(normalInv(p))).toBeCloseTo(p, 6)
+  })
+})
+
+// ── Marginals ─────────────────────────────────────────────────────────────────
+
+describe("fromNormalScore", () => {
+  it("centres omitted means and modes on the current value", () => {
+    expect(fromNormalScore({ kind: "normal", sd: 0.02 }, 0.08, 1)).toBeCloseTo(0.10, 10)
+    expect(fromNormalScore({ kind: "triangular", min: 0, max: 0.2 }, 0.1, 0)).toBeCloseTo(0.1, 6)
+  })
+
+  it("maps the median score to the middle of uniform and the lognormal median", () => {
+    expect(fromNormalScore({ kind: "uniform", min: 0.02, max: 0.06 }, 0, 0)).toBeCloseTo(0.04, 6)
+    // median = m / √(1 + (s/m)²)
+    expect(fromNormalScore({ kind: "lognormal", mean: 10, sd: 3 }, 0, 0)).toBeCloseTo(10 / Math.sqrt(1.09), 8)
+  })
+
+  it("keeps truncated draws inside their bounds", () => {
+    const d = { kind: "truncated" as const, mean: 0.08, sd: 0.05, min: 0.05, max: 0.12 }
+    for (const z of [-8, -1, 0, 1, 8]) {
+      const x = fromNormalScore(d, 0, z)
+      expect(x).toBeGreaterThanOrEqual(0.05)
+      expect(x).toBeLessThanOrEqual(0.12)
+    }
+  })
+})
+
+// ── Correlation ───────────────────────────────────────────────────────────────
+
+describe("cholesky", () => {
+  it("factors a correlation matrix so L Lᵀ reproduces it", () => {
+    const m = [[1, 0.5, 0.2], [0.5, 1, 0.3], [0.2, 0.3, 1]]
+    const L = cholesky(m)!
+    for (let i = 0; i < 3; i++) {
+      for (let j = 0; j < 3; j++) {
+        expect(L[i].reduce((s, v, k) => s + v * L[j][k], 0)).toBeCloseTo(m[i][j], 10)
+      }
+    }
+  })
+
+  it("returns null for a matrix that is not positive definite", () => {
+    expect(cholesky([[1, 0.9, -0.9], [0.9, 1, 0.9], [-0.9, 0.9, 1]])).toBeNull()
+  })
+})
+
+// ── validateSpec ──────────────────────────────────────────────────────────────
+
+describe("validateSpec", () => {
+  it("accepts the default spec", () => {
+    expect(validateSpec(DEFAULT_SIM_SPEC, a)).toEqual([])
+  })
+
+  it("flags bad parameters, stray correlations and inconsistent matrices", () => {
+    const bad: SimulationSpec = {
+      name: "bad",
+      variables: [
+        { field: "wacc", dist: { kind: "normal", sd: 0 } },
+        { field: "yr1_g", dist: { kind: "uniform", min: 0.05, max: 0.01 } },
+      ],
+      correlations: [{ a: "wacc", b: "beta", rho: 0.5 }],
+    }
+    const problems = validateSpec(bad, a)
+    expect(problems).toHaveLength(3)
+
+    const inconsistent: SimulationSpec = {
+      name: "npd",
+      variables: (["wacc", "yr1_g", "beta"] as const).map((field) => ({ field, dist: { kind: "normal", sd: 0.01 } })),
+      correlations: [
+        { a: "wacc", b: "yr1_g", rho: 0.9 }, { a: "yr1_g", b: "beta", rho: 0.9 }, { a: "wacc", b: "beta", rho: -0.9 },
+      ],
+    }
+    expect(validateSpec(inconsistent, a)).toEqual(["Correlation matrix is not positive definite"])
+  })
+})
+
+// ── createSampler / applyDraw ─────────────────────────────────────────────────
+
+describe("createSampler", () => {
+  it("reproduces the marginal moments and the target correlation", () => {
+    const spec: SimulationSpec = {
+      name: "t",
+      variables: [
+        { field: "yr1_g", dist: { kind: "normal", sd: 0.02 } },
+        { field: "target_ebitda_m", dist: { kind: "normal", mean: 0.25, sd: 0.03 } },
+      ],
+      correlations: [{ a: "yr1_g", b: "target_ebitda_m", rho: 0.6 }],
+    }
+    const sample = createSampler(spec, a, uniformPoints("random", 2, 0, 42))
+    const draws = Array.from({ length: 20_000 }, (_, i) => sample(i))
+    const g = draws.map((d) => d.yr1_g!), m = draws.map((d) => d.target_ebitda_m!)
+    expect(mean(g)).toBeCloseTo(a.yr1_g, 3)
+    expect(sd(g)).toBeCloseTo(0.02, 3)
+    expect(mean(m)).toBeCloseTo(0.25, 3)
+    expect(corr(g, m)).toBeCloseTo(0.6, 1)
+  })
+
+  it("throws SimulationSpecError for an invalid spec", () => {
+    const spec: SimulationSpec = { name: "x", variables: [{ field: "wacc", dist: { kind: "normal", sd: -1 } }], correlations: [] }
+    expect(() => createSampler(spec, a)).toThrow(SimulationSpecError)
+  })
+})
+
+describe("applyDraw", () => {
+  it("moves unsampled years 2–3 with a sampled year-1 growth", () => {
+    const next = applyDraw(a, { yr1_g: a.yr1_g + 0.01, yr3_g: 0.5 })
+    expect(next.yr2_g).toBeCloseTo(a.yr2_g + 0.01, 10)
+    expect(next.yr3_g).toBe(0.5)
+  })
+})
+
+// ── runMonteCarlo ─────────────────────────────────────────────────────────────
+
+describe("runMonteCarlo", () => {
+  const B = makeBaseline()
+  const comps = { Peer: { ev_ebitda: 12, ev_rev: 3, pe: 20, peg: 1.5, pb: 3, pcf: 15 } }
+  const c = computeAll(B, comps, {}, {}, [5, 5.5], a)
+  const inputs = { B, comps, segments: {}, acquisitions: {}, histEPS: [5, 5.5], a }
+  const none: SimulationSpec = { name: "none", variables: [], correlations: [] }
+
+  it("collapses to the point estimate when nothing is sampled", () => {
+    const r = runMonteCarlo(inputs, 20, none)
+    expect(r.results["FCFF (DCF)"]).toHaveLength(20)
+    for (const p of r.results["FCFF (DCF)"]) expect(p).toBeCloseTo(c.pps_fcff, 6)
+  })
+
+  it("simulates every model in the signal table", () => {
+    const r = runMonteCarlo(inputs, 5, none)
+    // Prices beyond 15× the market price are rejected as blow-ups (Justified P/B here)
+    const rows = c.signalRows.filter((row) => !row.blockedBy && row.intrinsicValue < B.current_price * 15)
+    expect(rows.length).toBeGreaterThanOrEqual(11)
+    expect(Object.keys(r.results).sort()).toEqual(rows.map((row) => row.method).sort())
+    for (const row of rows) {
+      for (const p of r.results[row.method]) expect(p).toBeCloseTo(row.intrinsicValue, 6)
+    }
+  })
+
+  it("bootstraps peer multiples from the comp set", () => {
+    const peers = {
+      Low:  { ev_ebitda: 8,  ev_rev: 2, pe: 14, peg: 1.2, pb: 2, pcf: 10 },
+      Mid:  { ev_ebitda: 12, ev_rev: 3, pe: 20, peg: 1.5, pb: 3, pcf: 15 },
+      High: { ev_ebitda: 16, ev_rev: 4, pe: 26, peg: 1.8, pb: 4, pcf: 20 },
+    }
+    const low  = computeAll(B, { Low: peers.Low }, {}, {}, [5, 5.5], a).pps_ebitda
+    const high = computeAll(B, { High: peers.High }, {}, {}, [5, 5.5], a).pps_ebitda
+    const r = runMonteCarlo({ ...inputs, comps: peers }, 200, none, { seed: 5 })
+    const ev = r.results["EBITDA Multiple"]
+    expect(sd(ev)).toBeGreaterThan(0)
+    expect(Math.min(...ev)).toBeCloseTo(low, 6)
+    expect(Math.max(...ev)).toBeCloseTo(high, 6)
+    expect(sd(r.results["FCFF (DCF)"])).toBeCloseTo(0, 9)
+
+    const fixed = runMonteCarlo({ ...inputs, comps: peers }, 20, none, { peers: false })
+    expect(sd(fixed.results["EBITDA Multiple"])).toBeCloseTo(0, 9)
+  })
+
+  it("moves the ke-based models with a sampled cost of equity", () => {
+    const spec: SimulationSpec = {
+      name: "ke", variables: [{ field: "cost_of_equity", dist: { kind: "normal", sd: 0.01 } }], correlations: [],
+    }
+    const r = runMonteCarlo(inputs, 100, spec)
+    expect(sd(r.results["Residual Income"])).toBeGreaterThan(0)
+    expect(sd(r.results["DDM (2-Stage)"])).toBeGreaterThan(0)
+    expect(sd(r.results["FCFF (DCF)"])).toBeCloseTo(0, 9)
+  })
+
+  it("spreads outcomes under the default spec", () => {
+    const r = runMonteCarlo(inputs, 200, DEFAULT_SIM_SPEC, { seed: 7 })
+    expect(sd(r.results["FCFF (DCF)"])).toBeGreaterThan(0)
+  })
+
+  it("reproduces a run from its seed and method", () => {
+    for (const method of ["random", "lhs", "sobol"] as const) {
+      const x = runMonteCarlo(inputs, 100, DEFAULT_SIM_SPEC, { seed: 11, method })
+      const y = runMonteCarlo(inputs, 100, DEFAULT_SIM_SPEC, { seed: 11, method })
+      expect(y.results).toEqual(x.results)
+    }
+    const z = runMonteCarlo(inputs, 100, DEFAULT_SIM_SPEC, { seed: 12 })
+    const x = runMonteCarlo(inputs, 100, DEFAULT_SIM_SPEC, { seed: 11 })
+    expect(z.results["FCFF (DCF)"]).not.toEqual(x.results["FCFF (DCF)"])
+  })
+
+  it("records running statistics at each checkpoint", () => {
+    const r = runMonteCarlo(inputs, 100, DEFAULT_SIM_SPEC, { check_every: 25 })
+    const pts = r.convergence["FCFF (DCF)"]
+    expect(pts.map((p) => p.draws)).toEqual([25, 50, 75, 100])
+    const last = pts[pts.length - 1], xs = r.results["FCFF (DCF)"]
+    expect(last.n).toBe(xs.length)
+    expect(last.mean).toBeCloseTo(mean(xs), 8)
+    expect(last.se).toBeCloseTo(sd(xs) / Math.sqrt(xs.length - 1), 8)   // sample SD / √n
+    expect(r.draws).toBe(100)
+    expect(r.converged).toBe(false)
+  })
+
+  it("stops early once the medians stabilise", () => {
+    const r = runMonteCarlo(inputs, 1000, none, { tolerance: 0.001, check_every: 10 })
+    expect(r.converged).toBe(true)
+    expect(r.draws).toBe(30)
+    const loose = runMonteCarlo(inputs, 2000, DEFAULT_SIM_SPEC, { tolerance: 0.01, check_every: 100 })
+    expect(loose.converged).toBe(true)
+    expect(loose.draws).toBeLessThan(2000)
+  })
+})
@@ -0,0 +1,140 @@
+/**
+ * Unit tests for lib/valuation/validation.ts (+ computeAll blocking in calculations.ts)
+ *
+ * Coverage:
+ *   validateConfig — clean baseline, share count, margins, balance-sheet identity,
+ *                    EPS consistency, REIT NOI, option strikes, YoY jumps, stale baseline,
+ *                    severity ordering
+ *   blockedModels  — only error-level issues block
+ *   computeAll     — blocked models become N/A with the reason; no BUY/SELL on bad inputs
+ */
+
+import { describe, it, expect } from "vitest"
+import { validateConfig, blockedModels, ALL_MODELS } from "@/lib/valuation/validation"
+import { computeAll } from "@/lib/valuation/calculations"
+import { DEFAULT_ASSUMPTIONS } from "@/lib/valuation/presets"
+import type { Baseline, HistoricalIS } from "@/types/valuation"
+import { makeBaseline } from "./fixtures/baseline"
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+function makeHistory(overrides: Partial<HistoricalIS> = {}): HistoricalIS {
+  return {
+    year: [2021, 2022, 2023], revenue: [3_200, 3_400, 3_600], ebitda: [700, 760, 810],
+    net_income: [420, 460, 490], eps: [4.7, 5.2, 5.5], dps: [1.5, 1.6, 1.7],
+    ocf: [580, 610, 650], capex: [80, 85, 90], bvps: [20, 21, 22.5],
+    ...overrides,
+  }
+}
+
+const validate = (b: Partial<Baseline> = {}, h: Partial<HistoricalIS> = {}) =>
+  validateConfig({ baseline: makeBaseline(b), historical_is: makeHistory(h) })
+
+const codes = (b: Partial<Baseline> = {}, h: Partial<HistoricalIS> = {}) => validate(b, h).map((i) => i.code)
+
+// ── validateConfig ────────────────────────────────────────────────────────────
+
+describe("validateConfig", () => {
+  it("finds nothing wrong with a consistent baseline", () => {
+    expect(validate()).toEqual([])
+  })
+
+  it("blocks every model on a zero share count", () => {
+    const [issue] = validate({ shares_diluted: 0 })
+    expect(issue.code).toBe("shares_nonpositive")
+    expect(issue.severity).toBe("error")
+    expect(issue.models).toEqual(ALL_MODELS)
+  })
+
+  it("flags an EBITDA margin above 100%", () => {
+    expect(codes({ ebitda_margin: 1.4 })).toContain("ebitda_margin_range")
+  })
+
+  it("checks assets ≈ liabilities + equity", () => {
+    expect(codes({ total_assets: 3_000, total_equity: 2_000, total_debt: 1_600 })).toContain("balance_sheet_identity")
+    expect(codes({ total_assets: 3_610, total_equity: 2_000, total_debt: 1_600 })).not.toContain("balance_sheet_identity")
+  })
+
+  it("blocks book-value models on negative equity", () => {
+    const issue = validate({ total_equity: -50 }).find((i) => i.code === "equity_nonpositive")
+    expect(issue?.models).toEqual(["Residual Income", "Justified P/B", "P/B", "Excess Return", "P/TBV vs ROTE"])
+  })
+
+  it("warns when EPS × shares does not reconcile to net income", () => {
+    const issue = validate({ eps: 27.5 }).find((i) => i.code === "eps_inconsistent")
+    expect(issue?.severity).toBe("warning")
+  })
+
+  it("marks NAV and P/AFFO N/A when a REIT reports no property opex", () => {
+    const issue = validate({ ffo: 600, ffo_ps: 6.7 }).find((i) => i.code === "noi_missing")
+    expect(issue?.severity).toBe("error")
+    expect(issue?.models).toEqual(["NAV (Cap Rate)", "P/AFFO"])
+    expect(codes({ ffo: 600, ffo_ps: 6.7, noi: 900, affo: 510, affo_ps: 5.7 })).not.toContain("noi_missing")
+  })
+
+  it("warns when options are reported without an exercise price", () => {
+    const issue = validate({ options_outstanding: 4 }).find((i) => i.code === "options_strike_missing")
+    expect(issue?.severity).toBe("warning")
+    expect(codes({ options_outstanding: 4, options_strike: 40 })).not.toContain("options_strike_missing")
+  })
+
+  it("flags YoY jumps in the history", () => {
+    const issue = validate({}, { revenue: [1_000, 3_400, 3_600] }).find((i) => i.code === "yoy_jump_revenue")
+    expect(issue?.message).toContain("2022")
+    expect(issue?.severity).toBe("warning")
+  })
+
+  it("warns when the baseline ended more than a year before the valuation date", () => {
+    const config = { baseline: makeBaseline({ period_end: "2023-12-31" }), historical_is: makeHistory() }
+    const [issue] = validateConfig(config, "2025-06-30")
+    expect(issue.code).toBe("baseline_stale")
+    expect(issue.severity).toBe("warning")
+    expect(issue.models).toContain("FCFF (DCF)")
+    expect(validateConfig(config, "2024-06-30")).toEqual([])
+  })
+
+  it("returns errors before warnings", () => {
+    const severities = validate({ shares_diluted: 0, tax_rate: 0.9 }).map((i) => i.severity)
+    expect(severities.indexOf("error")).toBeLessThan(severities.indexOf("warning"))
+  })
+})
+
+// ── blockedModels ─────────────────────────────────────────────────────────────
+
+describe("blockedModels", () => {
+  it("maps error-level issues to their models and ignores warnings", () => {
+    const blocked = blockedModels(validate({ total_equity: -50, tax_rate: 0.9 }))
+    expect([...blocked.keys()].sort()).toEqual(["Excess Return", "Justified P/B", "P/B", "P/TBV vs ROTE", "Residual Income"])
+    expect(blocked.get("P/B")).toEqual(["Book equity is zero or negative"])
+  })
+})
+
+// ── computeAll with validation issues ─────────────────────────────────────────
+
+describe("computeAll with validation issues", () => {
+  const run = (b: Baseline) =>
+    computeAll(b, { Peer: { ev_ebitda: 12, ev_rev: 2.5, pe: 20, peg: 1.5, pb: 3, pcf: 14 } }, {}, {},
+      [4.7, 5.2, 5.5], DEFAULT_ASSUMPTIONS, validateConfig({ baseline: b, historical_is: makeHistory() }))
+
+  it("marks blocked models N/A with the reason", () => {
+    const out = run(makeBaseline({ total_equity: -50 }))
+    const pb = out.signalRows.find((r) => r.method === "P/B")
+    expect(pb?.signal).toBe("N/A")
+    expect(pb?.blockedBy).toEqual(["Book equity is zero or negative"])
+    expect(out.signalRows.find((r) => r.method === "P/E Multiple")?.signal).not.toBe("N/A")
+  })
+
+  it("emits no BUY/SELL when every model is blocked", () => {
+    const out = run(makeBaseline({ shares_diluted: 0 }))
+    expect(out.signalRows.every((r) => r.signal === "N/A")).toBe(true)
+    expect(out.finalSignal).toBe("N/A")
+    expect(out.dataIssues[0].code).toBe("shares_nonpositive")
+  })
+
+  it("is unchanged without issues", () => {
+    const b = makeBaseline()
+    const out = computeAll(b, { Peer: { ev_ebitda: 12, ev_rev: 2.5, pe: 20, peg: 1.5, pb: 3 } }, {}, {}, [5.5], DEFAULT_ASSUMPTIONS)
+    expect(out.signalRows.every((r) => !r.blockedBy)).toBe(true)
+    expect(out.dataIssues).toEqual([])
+  })
+})
@@ -0,0 +1,174 @@
+/**
+ * Unit tests for lib/valuation/workerPool.ts and workerProtocol.ts
+ *
+ * Coverage:
+ *   handleValuationRequest — computeAll, grid field picking, Monte Carlo chunks
+ *   createValuationPool    — results, progress, concurrency, abort, worker errors, inline mode
+ *   runMonteCarloInPool    — identical to runMonteCarlo (incl. auto-stop), spec errors, abort
+ */
+
+import { describe, it, expect } from "vitest"
+import { computeAll, runMonteCarlo, type ComputeAllArgs } from "@/lib/valuation/calculations"
+import { DEFAULT_SIM_SPEC, SimulationSpecError } from "@/lib/valuation/simulation"
+import { DEFAULT_ASSUMPTIONS } from "@/lib/valuation/presets"
+import { chunkDraws, handleValuationRequest, respondTo } from "@/lib/valuation/workerProtocol"
+import { createValuationPool, runMonteCarloInPool, type WorkerLike } from "@/lib/valuation/workerPool"
+import { makeBaseline } from "./fixtures/baseline"
+
+const B = makeBaseline()
+const a = DEFAULT_ASSUMPTIONS
+const args: ComputeAllArgs = {
+  B,
+  comps: { Peer: { ev_ebitda: 12, ev_rev: 3, pe: 20, peg: 1.5, pb: 3, pcf: 15 } },
+  segments: {},
+  acquisitions: {},
+  histEPS: [5, 5.5],
+  a,
+}
+const c = computeAll(B, args.comps, {}, {}, args.histEPS, a)
+const mcArgs = { inputs: args, spec: DEFAULT_SIM_SPEC }
+
+/** In-process stand-in for a Worker: answers via respondTo on a later macrotask. */
+function fakeWorkers() {
+  const stats = { created: 0, terminated: 0, busy: 0, maxBusy: 0 }
+  const create = (): WorkerLike => {
+    stats.created++
+    let onMessage: Parameters<WorkerLike["listen"]>[0] = () => {}
+    let dead = false
+    return {
+      postMessage(message) {
+        stats.busy++
+        stats.maxBusy = Math.max(stats.maxBusy, stats.busy)
+        setTimeout(() => {
+          stats.busy--
+          if (!dead) respondTo(structuredClone(message), (m) => onMessage(m))
+        }, 1)
+      },
+      terminate() {
+        dead = true
+        stats.terminated++
+      },
+      listen(m) {
+        onMessage = m
+      },
+    }
+  }
+  return { create, stats }
+}
+
+describe("handleValuationRequest", () => {
+  it("runs computeAll", () => {
+    const r = handleValuationRequest({ kind: "computeAll", args })
+    expect(r.pps_fcff).toBeCloseTo(c.pps_fcff, 8)
+  })
+
+  it("returns only the picked fields for each grid override", () => {
+    const r = handleValuationRequest({
+      kind: "grid", args, overrides: [{}, { wacc: a.wacc + 0.01 }], pick: ["pps_fcff", "wacc_calc"],
+    })
+    expect(r).toHaveLength(2)
+    expect(Object.keys(r[0]).sort()).toEqual(["pps_fcff", "wacc_calc"])
+    expect(r[0].pps_fcff).toBeCloseTo(c.pps_fcff, 8)
+    expect(r[1].pps_fcff!).toBeLessThan(r[0].pps_fcff!)
+  })
+
+  it("prices a Monte Carlo chunk exactly as the same draws of a full run", () => {
+    const full = runMonteCarlo(args, 40, DEFAULT_SIM_SPEC, { seed: 3 })
+    const head = handleValuationRequest({ kind: "monteCarlo", args: { ...mcArgs, n_sims: 40, options: { seed: 3 }, from: 0, to: 15 } })
+    const tail = handleValuationRequest({ kind: "monteCarlo", args: { ...mcArgs, n_sims: 40, options: { seed: 3 }, from: 15, to: 40 } })
+    const draws = [...chunkDraws(head), ...chunkDraws(tail)]
+    expect(draws).toHaveLength(40)
+    expect(draws.flatMap((d) => (d["FCFF (DCF)"] === undefined ? [] : [d["FCFF (DCF)"]]))).toEqual(full.results["FCFF (DCF)"])
+  })
+})
+
+describe("createValuationPool", () => {
+  it("resolves results, streams progress and caps concurrency at the pool size", async () => {
+    const { create, stats } = fakeWorkers()
+    const pool = createValuationPool(create, 2)
+    const progress: number[] = []
+    const runs = [0, 1, 2, 3].map((k) =>
+      pool.run(
+        { kind: "grid", args, overrides: [{ wacc: a.wacc + k / 100 }, {}], pick: ["pps_fcff"] },
+        { onProgress: (done) => progress.push(done) },
+      ),
+    )
+    const results = await Promise.all(runs)
+    expect(results[0][1].pps_fcff).toBeCloseTo(c.pps_fcff, 8)
+    expect(stats.created).toBe(2)
+    expect(stats.maxBusy).toBe(2)
+    expect(progress).toContain(2)
+    pool.destroy()
+  })
+
+  it("rejects an aborted task with AbortError and replaces its worker", async () => {
+    const { create, stats } = fakeWorkers()
+    const pool = createValuationPool(create, 1)
+    const ctrl = new AbortController()
+    const running = pool.run({ kind: "computeAll", args }, { signal: ctrl.signal })
+    const queued = pool.run({ kind: "computeAll", args })
+    ctrl.abort()
+    await expect(running).rejects.toMatchObject({ name: "AbortError" })
+    expect(stats.terminated).toBe(1)
+    expect((await queued).pps_fcff).toBeCloseTo(c.pps_fcff, 8)
+    expect(stats.created).toBe(2)
+    pool.destroy()
+  })
+
+  it("rebuilds SimulationSpecError from a worker error message", async () => {
+    const { create } = fakeWorkers()
+    const pool = createValuationPool(create, 1)
+    const spec = { name: "bad", variables: [{ field: "wacc" as const, dist: { kind: "normal" as const, sd: -1 } }], correlations: [] }
+    const run = pool.run({ kind: "monteCarlo", args: { ...mcArgs, spec, n_sims: 10, options: {}, from: 0, to: 10 } })
+    await expect(run).rejects.toBeInstanceOf(SimulationSpecError)
+    await expect(run).rejects.toMatchObject({ problems: ["wacc: standard deviation must be positive"] })
+    pool.destroy()
+  })
+
+  it("runs inline without workers", async () => {
+    const pool = createValuationPool(() => { throw new Error("no workers") }, 0)
+    expect(pool.size).toBe(0)
+    expect((await pool.run({ kind: "computeAll", args })).pps_fcff).toBeCloseTo(c.pps_fcff, 8)
+  })
+})
+
+describe("runMonteCarloInPool", () => {
+  it("matches runMonteCarlo draw for draw", async () => {
+    const { create } = fakeWorkers()
+    const pool = createValuationPool(create, 3)
+    const options = { seed: 9, method: "lhs" as const }
+    const expected = runMonteCarlo(args, 600, DEFAULT_SIM_SPEC, options)
+    const progress: number[] = []
+    const r = await runMonteCarloInPool(pool, { ...mcArgs, n_sims: 600, options }, { onProgress: (d) => progress.push(d) })
+    expect(r).toEqual(expected)
+    expect(Math.max(...progress)).toBe(600)
+    pool.destroy()
+  })
+
+  it("stops at the same draw as runMonteCarlo and cancels the remaining chunks", async () => {
+    const { create, stats } = fakeWorkers()
+    const pool = createValuationPool(create, 2)
+    const options = { tolerance: 0.01, check_every: 100 }
+    const expected = runMonteCarlo(args, 3000, DEFAULT_SIM_SPEC, options)
+    expect(expected.converged).toBe(true)
+    const r = await runMonteCarloInPool(pool, { ...mcArgs, n_sims: 3000, options })
+    expect(r.draws).toBe(expected.draws)
+    expect(r.results).toEqual(expected.results)
+    expect(stats.terminated).toBeGreaterThan(0)
+    pool.destroy()
+  })
+
+  it("rejects an invalid spec before dispatching and honours abort", async () => {
+    const { create, stats } = fakeWorkers()
+    const pool = createValuationPool(create, 2)
+    const spec = { name: "bad", variables: [{ field: "wacc" as const, dist: { kind: "uniform" as const, min: 1, max: 0 } }], correlations: [] }
+    await expect(runMonteCarloInPool(pool, { ...mcArgs, spec, n_sims: 100, options: {} })).rejects.toBeInstanceOf(SimulationSpecError)
+    expect(stats.created).toBe(0)
+
+    const ctrl = new AbortController()
+    const run = runMonteCarloInPool(pool, { ...mcArgs, n_sims: 1000, options: {} }, { signal: ctrl.signal })
+    ctrl.abort()
+    await expect(run).rejects.toMatchObject({ name: "AbortError" })
+    pool.destroy()
+  })
+})
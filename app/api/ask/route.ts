@@ -17,7 +17,10 @@ then runs 14 institutional-grade valuation methods to produce a consensus Buy /
 
 ### 1. FCFF (DCF) — Free Cash Flow to Firm
 - Projects free cash flows using the pro-forma income statement, then discounts at WACC.
-- Terminal value = blend of (a) perpetuity growth model and (b) exit EV/EBITDA multiple.
+- Terminal value method is selectable: (a) perpetuity growth, (b) exit EV/EBITDA multiple, or (c) a weighted blend
+  (default: 50/50 blend). Perpetuity falls back to the exit multiple when WACC ≤ g.
+- Cross-checks: implied exit multiple of the perpetuity TV (TV ÷ final-year EBITDA) and implied perpetual growth
+  of the exit-multiple TV, g = (TV × WACC − FCFF) / (TV + FCFF). TV above ~75% of EV is flagged.
 - FCFF = EBIT × (1 − Tax Rate) + D&A − CapEx
 - Key inputs: WACC, terminal growth rate, projection period, CapEx % Revenue.
 - Intrinsic value formula: PV(FCFFs) + PV(Terminal Value) − Net Debt, divided by shares.
@@ -107,7 +110,7 @@ then runs 14 institutional-grade valuation methods to produce a consensus Buy /
 | Terminal Growth Rate | Perpetuity growth in DCF terminal value | 1–4% | Must be < WACC |
 | Target EBITDA Margin | Margin level at end of projection period | 10–45% | Profitability trajectory |
 | CapEx % Revenue | Capital expenditure intensity | 0.5–8% | Free cash flow headroom |
-| Exit EV/EBITDA | Multiple for DCF exit-multiple terminal value | 6–30× | Blends with perpetuity TV |
+| Exit EV/EBITDA | Multiple for DCF exit-multiple terminal value | 6–30× | Used by the exit-multiple and blend TV methods |
 | Projection Period | Years of explicit forecasting | 3–10 yrs | Terminal value weighting |
 
 ---
@@ -194,6 +197,7 @@ ${compsText ? `### Peer Comparables\n${compsText}` : ""}
 | Target EBITDA Margin | ${((a.target_ebitda_m as number ?? 0) * 100).toFixed(1)}% |
 | CapEx % Revenue | ${((a.capex_pct as number ?? 0) * 100).toFixed(2)}% |
 | Exit EV/EBITDA Multiple | ${(a.exit_mult as number ?? 0).toFixed(1)}× |
+| Terminal Value Method | ${a.tv_method ?? "blend"}${(a.tv_method ?? "blend") === "blend" ? ` (${Math.round((a.tv_blend_weight as number ?? 0.5) * 100)}% perpetuity)` : ""} |
 | Projection Period | ${a.proj_years_n} years |
 ---`
 }
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getProviders, type PriceInterval } from "@/lib/valuation/providers"
+import { periodReturns, regressBeta, windowStart } from "@/lib/valuation/betaRegression"
+
+const INTERVALS: PriceInterval[] = ["1d", "1wk", "1mo"]
+
+/** GET /api/beta/:ticker?interval=1wk&years=2&index=^GSPC — regression beta vs the index. */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ ticker: string }> }
+) {
+  const { ticker } = await params
+  const q = req.nextUrl.searchParams
+  const interval = (q.get("interval") ?? "1wk") as PriceInterval
+  const years = Number(q.get("years") ?? 2)
+  const index = q.get("index") || "^GSPC"
+
+  if (!INTERVALS.includes(interval) || !(years > 0 && years <= 10)) {
+    return NextResponse.json({ error: "interval must be 1d, 1wk or 1mo and years 1–10" }, { status: 400 })
+  }
+
+  try {
+    const since = windowStart(years)
+    const [stock, market] = await Promise.all([
+      getProviders(ticker).market.priceHistory(ticker, interval, since),
+      getProviders(index).market.priceHistory(index, interval, since),
+    ])
+    const regression = regressBeta(periodReturns(stock, market))
+    if (!regression) {
+      return NextResponse.json(
+        { error: `Not enough price history for ${ticker.toUpperCase()} vs ${index}` },
+        { status: 404 }
+      )
+    }
+    return NextResponse.json({ index, interval, years, ...regression }, {
+      headers: { "Cache-Control": "public, max-age=3600, stale-while-revalidate=600" },
+    })
+  } catch (err) {
+    console.error(`[/api/beta/${ticker}]`, err)
+    return NextResponse.json(
+      { error: `Could not compute beta for ${ticker.toUpperCase()}` },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server"
+import { CACHE_TTL_MS, getCacheStore, type CacheSource } from "@/lib/valuation/cache"
+
+/**
+ * Cache admin.
+ *   GET    /api/cache                 → entries (newest first) + per-source totals
+ *   DELETE /api/cache?key=<key>       → purge one entry
+ *   DELETE /api/cache?source=<source> → purge one source (e.g. quoteSummary)
+ *   DELETE /api/cache?all=1           → purge everything
+ * When CACHE_ADMIN_TOKEN is set, requests need `Authorization: Bearer <token>`.
+ * Without it the route is open in development and refused in production.
+ */
+
+function unauthorized(req: NextRequest): NextResponse | null {
+  const token = process.env.CACHE_ADMIN_TOKEN
+  if (!token) {
+    if (process.env.NODE_ENV !== "production") return null
+    return NextResponse.json({ error: "Cache admin is disabled: set CACHE_ADMIN_TOKEN" }, { status: 403 })
+  }
+  if (req.headers.get("authorization") === `Bearer ${token}`) return null
+  return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+}
+
+function isSource(s: string | null): s is CacheSource {
+  return s !== null && Object.hasOwn(CACHE_TTL_MS, s)
+}
+
+export async function GET(req: NextRequest) {
+  const denied = unauthorized(req)
+  if (denied) return denied
+
+  const now     = Date.now()
+  const entries = (await getCacheStore().list())
+    .sort((a, b) => b.storedAt - a.storedAt)
+    .map((m) => ({
+      ...m,
+      storedAt:  new Date(m.storedAt).toISOString(),
+      expiresAt: new Date(m.expiresAt).toISOString(),
+      stale:     m.expiresAt <= now,
+    }))
+
+  const sources: Record<string, { entries: number; bytes: number; ttl_ms: number }> = {}
+  for (const e of entries) {
+    const s = (sources[e.source] ??= { entries: 0, bytes: 0, ttl_ms: CACHE_TTL_MS[e.source] })
+    s.entries++
+    s.bytes += e.bytes
+  }
+
+  return NextResponse.json({ sources, entries }, { headers: { "Cache-Control": "no-store" } })
+}
+
+export async function DELETE(req: NextRequest) {
+  const denied = unauthorized(req)
+  if (denied) return denied
+
+  const store  = getCacheStore()
+  const params = req.nextUrl.searchParams
+  const key    = params.get("key")
+  const source = params.get("source")
+
+  if (key) {
+    return NextResponse.json({ deleted: (await store.delete(key)) ? 1 : 0 })
+  }
+  if (source) {
+    if (!isSource(source)) {
+      return NextResponse.json(
+        { error: `Unknown source "${source}". Expected one of: ${Object.keys(CACHE_TTL_MS).join(", ")}` },
+        { status: 400 },
+      )
+    }
+    return NextResponse.json({ deleted: await store.clear(source) })
+  }
+  if (params.get("all") === "1") {
+    return NextResponse.json({ deleted: await store.clear() })
+  }
+  return NextResponse.json({ error: "Specify ?key=, ?source= or ?all=1" }, { status: 400 })
+}
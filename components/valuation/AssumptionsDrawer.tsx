@@ -1,11 +1,20 @@
 "use client"
 
+import { useEffect, useState } from "react"
+import {
+  ScatterChart, Scatter, XAxis, YAxis, ZAxis, CartesianGrid, ReferenceLine, ResponsiveContainer,
+} from "recharts"
 import {
   Sheet, SheetContent, SheetHeader, SheetTitle,
   SheetDescription, SheetFooter, SheetClose,
 } from "@/components/ui/sheet"
 import { useScenario, ScenarioToggle } from "@/context/ScenarioContext"
-import { computeWACC } from "@/lib/valuation/calculations"
+import { computeWACC, yearsElapsed } from "@/lib/valuation/calculations"
+import { bottomUpBeta, waccAtTargetDE } from "@/lib/valuation/costOfCapital"
+import { BETA_WINDOWS, type BetaRegression } from "@/lib/valuation/betaRegression"
+import { DEFAULT_SPREAD_TABLE, baselineCreditInputs, costOfDebt, rateCredit } from "@/lib/valuation/credit"
+import { COUNTRY_RISK_PREMIUMS, capmInputs, countryCRP } from "@/lib/valuation/countryRisk"
+import type { Baseline, Comp, CountryExposure } from "@/types/valuation"
 import { cn } from "@/lib/utils"
 
 // ── Field config ─────────────────────────────────────────────────────────────
@@ -25,9 +34,9 @@ interface FieldDef {
 
 const FIELDS: FieldDef[] = [
   // CAPM inputs (editable)
-  { key: "rf",           label: "Risk-Free Rate",    unit: "%", min: 0,    max: 8,    step: 0.05, decimals: 2, group: "CAPM Inputs", hint: "10-yr Treasury yield" },
+  { key: "rf",           label: "Risk-Free Rate",    unit: "%", min: 0,    max: 8,    step: 0.05, decimals: 2, group: "CAPM Inputs", hint: "10-yr Treasury yield (USD)" },
   { key: "erp",          label: "Equity Risk Prem",  unit: "%", min: 3,    max: 10,   step: 0.25, decimals: 2, group: "CAPM Inputs", hint: "Expected market return over rf" },
-  { key: "cost_of_debt", label: "Pre-Tax Cost of Debt", unit: "%", min: 1, max: 12, step: 0.25, decimals: 2, group: "CAPM Inputs" },
+  { key: "cost_of_debt", label: "Pre-Tax Cost of Debt", unit: "%", min: 1, max: 12, step: 0.25, decimals: 2, group: "CAPM Inputs", hint: "Used when the synthetic rating is off" },
   { key: "hl",           label: "H-Model Half-Life", unit: "yr", min: 1,   max: 10,   step: 0.5,  decimals: 1, group: "CAPM Inputs", hint: "Years until growth fades to terminal" },
   { key: "beta",         label: "Beta",              unit: "×",  min: 0.1,  max: 3.0,  step: 0.05, decimals: 2, group: "CAPM Inputs", hint: "Market sensitivity; overrides live beta" },
   // Discount rates (manual override)
@@ -41,11 +50,16 @@ const FIELDS: FieldDef[] = [
   // Terminal
   { key: "terminal_g",    label: "Terminal Growth",  unit: "%", min: 0.5, max: 5,    step: 0.25, decimals: 2, group: "Terminal Value", hint: "Must be < WACC" },
   { key: "exit_mult",     label: "Exit EV/EBITDA",   unit: "×", min: 4,   max: 35,   step: 0.5,  decimals: 1, group: "Terminal Value" },
+  { key: "tv_blend_weight", label: "Perpetuity Weight", unit: "%", min: 0, max: 100,  step: 5,    decimals: 0, group: "Terminal Value", hint: "Blend: share of TV from perpetuity growth" },
+  { key: "cap_rate",      label: "REIT Cap Rate",    unit: "%", min: 3,   max: 10,   step: 0.25, decimals: 2, group: "Terminal Value", hint: "Forward NOI capitalisation rate for NAV" },
   // Margins
   { key: "target_ebitda_m", label: "Target EBITDA Margin", unit: "%", min: 5, max: 60, step: 0.5, decimals: 1, group: "Margins & Tax" },
   { key: "tax_rate",      label: "Tax Rate",         unit: "%", min: 0,   max: 40,   step: 0.5,  decimals: 1, group: "Margins & Tax", hint: "Affects NOPAT in DCF" },
   { key: "capex_pct",     label: "CapEx % Revenue",  unit: "%", min: 0.5, max: 15,   step: 0.25, decimals: 2, group: "Margins & Tax" },
-  { key: "nwc_pct_rev",   label: "NWC % Incremental Rev", unit: "%", min: -5, max: 15, step: 0.25, decimals: 2, group: "Margins & Tax", hint: "NWC investment per $1 of new revenue" },
+  { key: "nwc_pct_rev",   label: "NWC % Incremental Rev", unit: "%", min: -5, max: 15, step: 0.25, decimals: 2, group: "Margins & Tax", hint: "NWC investment per $1 of new revenue (used when receivable / inventory / payable days are unavailable)" },
+  // Debt schedule
+  { key: "min_cash_pct_rev", label: "Minimum Cash % Revenue", unit: "%", min: 0, max: 20, step: 0.5, decimals: 1, group: "Debt Schedule", hint: "Shortfalls below this draw the revolver" },
+  { key: "cash_sweep_pct",   label: "Cash Sweep",             unit: "%", min: 0, max: 100, step: 5, decimals: 0, group: "Debt Schedule", hint: "Share of excess cash used to prepay term debt" },
 ]
 
 const GROUPS = [...new Set(FIELDS.map((f) => f.group))]
@@ -126,6 +140,466 @@ function ComputedRow({ label, value }: { label: string; value: string }) {
   )
 }
 
+// ── Valuation date & discounting convention ──────────────────────────────────
+
+function TimingSection({ periodEnd }: { periodEnd?: string }) {
+  const { assumptions, setAssumption } = useScenario()
+  const today = new Date().toISOString().slice(0, 10)
+  const valuationDate = assumptions.valuation_date ?? today
+  const stub = 1 - yearsElapsed(periodEnd, valuationDate)
+
+  return (
+    <section className="space-y-3">
+      <p className="text-[10px] font-bold uppercase tracking-widest text-muted-foreground/60">
+        Valuation Timing
+      </p>
+      <div className="flex items-center justify-between gap-2">
+        <label className="text-xs font-medium text-foreground">Valuation Date</label>
+        <input
+          type="date"
+          value={valuationDate}
+          onChange={(e) => setAssumption("valuation_date", e.target.value || undefined)}
+          className="rounded-md border border-border bg-muted/50 px-2 py-0.5 font-mono text-xs text-foreground focus:outline-none focus:ring-1 focus:ring-ring"
+        />
+      </div>
+      <label className="flex items-center justify-between gap-2 cursor-pointer">
+        <span className="text-xs font-medium text-foreground">Mid-Year Convention</span>
+        <input
+          type="checkbox"
+          checked={assumptions.mid_year_convention ?? false}
+          onChange={(e) => setAssumption("mid_year_convention", e.target.checked)}
+          className="h-3.5 w-3.5 accent-blue-500"
+        />
+      </label>
+      <p className="text-[10px] text-muted-foreground/60">
+        {periodEnd
+          ? `Baseline period ends ${periodEnd}; ${(stub * 100).toFixed(0)}% of projection year 1 remains (stub).`
+          : "Baseline period end unknown; discounting uses whole years."}
+        {" "}Applies to FCFF, FCFE, DDM and Residual Income.
+      </p>
+    </section>
+  )
+}
+
+// ── Share count & stock-based compensation ───────────────────────────────────
+
+function DilutionSection() {
+  const { assumptions, setAssumption } = useScenario()
+
+  return (
+    <section className="space-y-3">
+      <p className="text-[10px] font-bold uppercase tracking-widest text-muted-foreground/60">
+        Share Count &amp; SBC
+      </p>
+      <label className="flex items-center justify-between gap-2 cursor-pointer">
+        <span className="text-xs font-medium text-foreground">Treasury Stock Method</span>
+        <input
+          type="checkbox"
+          checked={assumptions.tsm_dilution ?? true}
+          onChange={(e) => setAssumption("tsm_dilution", e.target.checked)}
+          className="h-3.5 w-3.5 accent-blue-500"
+        />
+      </label>
+      <label className="flex items-center justify-between gap-2 cursor-pointer">
+        <span className="text-xs font-medium text-foreground">SBC as a Cash Cost</span>
+        <input
+          type="checkbox"
+          checked={assumptions.sbc_as_cash ?? true}
+          onChange={(e) => setAssumption("sbc_as_cash", e.target.checked)}
+          className="h-3.5 w-3.5 accent-blue-500"
+        />
+      </label>
+      <p className="text-[10px] text-muted-foreground/60">
+        TSM: per-share values divide by basic shares + RSUs + in-the-money options at the model&apos;s own price,
+        when options or RSUs are reported. SBC off: added back to FCFF. P/CF always uses reported OCF, the basis of the peer multiples.
+      </p>
+    </section>
+  )
+}
+
+// ── Country risk ─────────────────────────────────────────────────────────────
+
+const COUNTRIES = Object.keys(COUNTRY_RISK_PREMIUMS).sort()
+
+function CountryRiskPanel() {
+  const { assumptions: a, setAssumption } = useScenario()
+  const exposure = a.country_exposure ?? []
+  const { rf, countryRisk } = capmInputs(a)
+  const currency = a.currency ?? "USD"
+  const pct = (v: number) => `${(v * 100).toFixed(2)}%`
+
+  const setExposure = (next: CountryExposure[]) => setAssumption("country_exposure", next)
+  const update = (i: number, patch: Partial<CountryExposure>) =>
+    setExposure(exposure.map((e, j) => (j === i ? { ...e, ...patch } : e)))
+  const unused = COUNTRIES.find((c) => !exposure.some((e) => e.country === c)) ?? COUNTRIES[0]
+  const inputCls = "rounded border border-border bg-muted/50 px-1 text-right font-mono text-[10px] text-foreground focus:outline-none focus:ring-1 focus:ring-ring"
+
+  return (
+    <div className="rounded-lg border border-border bg-muted/20 px-3 py-2 space-y-1">
+      <p className="text-[10px] font-bold uppercase tracking-widest text-muted-foreground/60 mb-2">
+        Country Risk
+      </p>
+      {exposure.length > 0 && (
+        <table className="w-full text-[10px]">
+          <thead>
+            <tr className="text-muted-foreground">
+              <th className="py-0.5 text-left font-normal">Country</th>
+              <th className="py-0.5 text-right font-normal">Revenue %</th>
+              <th className="py-0.5 text-right font-normal">CRP %</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {exposure.map((e, i) => (
+              <tr key={i}>
+                <td className="py-0.5">
+                  <select
+                    value={e.country}
+                    onChange={(ev) => update(i, { country: ev.target.value })}
+                    className="w-28 rounded border border-border bg-muted/50 px-1 text-[10px] text-foreground focus:outline-none"
+                  >
+                    {(COUNTRIES.includes(e.country) ? COUNTRIES : [e.country, ...COUNTRIES]).map((c) => (
+                      <option key={c} value={c}>{c}</option>
+                    ))}
+                  </select>
+                </td>
+                <td className="py-0.5 text-right">
+                  <input
+                    type="number"
+                    step={5}
+                    min={0}
+                    value={(e.weight * 100).toFixed(0)}
+                    onChange={(ev) => {
+                      const v = parseFloat(ev.target.value)
+                      if (!isNaN(v)) update(i, { weight: Math.max(0, v) / 100 })
+                    }}
+                    className={cn("w-12", inputCls)}
+                  />
+                </td>
+                <td className="py-0.5 text-right">
+                  <input
+                    type="number"
+                    step={0.1}
+                    min={0}
+                    value={(countryCRP(e.country, a.crp_table) * 100).toFixed(2)}
+                    onChange={(ev) => {
+                      const v = parseFloat(ev.target.value)
+                      if (!isNaN(v)) setAssumption("crp_table", { ...a.crp_table, [e.country]: Math.max(0, v) / 100 })
+                    }}
+                    className={cn("w-12", inputCls)}
+                  />
+                </td>
+                <td className="py-0.5 text-right">
+                  <button
+                    onClick={() => setExposure(exposure.filter((_, j) => j !== i))}
+                    className="px-1 text-muted-foreground hover:text-foreground"
+                    aria-label={`Remove ${e.country}`}
+                  >
+                    ×
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      <button
+        onClick={() => setExposure([...exposure, { country: unused, weight: 0 }])}
+        className="text-[10px] text-muted-foreground hover:text-foreground"
+      >
+        + Add country
+      </button>
+      <div className="flex items-center justify-between gap-2 py-1">
+        <label className="text-xs text-muted-foreground">Lambda (λ)</label>
+        <input
+          type="number"
+          step={0.1}
+          min={0}
+          value={(a.crp_lambda ?? 1).toFixed(2)}
+          onChange={(e) => {
+            const v = parseFloat(e.target.value)
+            if (!isNaN(v)) setAssumption("crp_lambda", Math.max(0, v))
+          }}
+          className="w-16 rounded-md border border-border bg-muted/50 px-2 py-0.5 text-right font-mono text-xs text-foreground focus:outline-none focus:ring-1 focus:ring-ring"
+        />
+      </div>
+      <ComputedRow label="Revenue-weighted CRP" value={pct(countryRisk.weighted)} />
+      <ComputedRow label="CRP in ke (λ × weighted)" value={pct(countryRisk.crp)} />
+      <ComputedRow label={`rf in ${currency} (from USD ${pct(a.rf ?? 0.043)})`} value={pct(rf)} />
+      <p className="text-[10px] text-muted-foreground/50">
+        λ = exposure relative to the average company in those markets. rf is restated by the
+        {" "}{currency}/USD inflation differential; weights are normalised.
+      </p>
+    </div>
+  )
+}
+
+// ── Synthetic rating ─────────────────────────────────────────────────────────
+
+function SyntheticRatingPanel({ baseline }: { baseline: Baseline }) {
+  const { assumptions: a, setAssumption } = useScenario()
+  const synthetic = a.synthetic_kd ?? true
+  const table = a.spread_table?.length ? a.spread_table : DEFAULT_SPREAD_TABLE
+  const credit = rateCredit(baselineCreditInputs(baseline), a)
+  const { interest_coverage: cov, net_debt_ebitda: lev, ffo_debt: ffo } = credit.metrics
+
+  const ratio = (v: number, digits = 1) =>
+    v === Infinity ? "n/m" : v === -Infinity ? "net cash" : `${v.toFixed(digits)}×`
+  const pct = (v: number) => (v === Infinity ? "n/m" : `${(v * 100).toFixed(0)}%`)
+  const setSpread = (i: number, spread: number) =>
+    setAssumption("spread_table", table.map((b, j) => (j === i ? { ...b, spread } : b)))
+
+  return (
+    <div className="rounded-lg border border-border bg-muted/20 px-3 py-2 space-y-1">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-[10px] font-bold uppercase tracking-widest text-muted-foreground/60">
+          Synthetic Rating
+        </p>
+        <label className="flex items-center gap-1.5 text-[10px] text-muted-foreground cursor-pointer">
+          Use rf + spread
+          <input
+            type="checkbox"
+            checked={synthetic}
+            onChange={(e) => setAssumption("synthetic_kd", e.target.checked)}
+            className="h-3.5 w-3.5 accent-blue-500"
+          />
+        </label>
+      </div>
+      <ComputedRow label={`Interest coverage → ${credit.notches.coverage}`} value={ratio(cov)} />
+      <ComputedRow label={`Net debt / EBITDA → ${credit.notches.leverage}`} value={ratio(lev)} />
+      <ComputedRow label={`FFO / debt → ${credit.notches.ffo}`} value={pct(ffo)} />
+      <ComputedRow label={`Rating ${credit.rating} (spread ${(credit.spread * 100).toFixed(2)}%)`} value={`${(credit.cost_of_debt * 100).toFixed(2)}%`} />
+      <p className="text-[10px] text-muted-foreground/50">
+        Median of the three notches. {synthetic
+          ? "Drives the cost of debt; projection years re-rate as leverage changes."
+          : "Off — the manual pre-tax cost of debt applies."}
+      </p>
+      <details className="text-xs">
+        <summary className="cursor-pointer text-[10px] text-muted-foreground">Spread table</summary>
+        <table className="mt-1 w-full font-mono text-[10px]">
+          <thead>
+            <tr className="text-muted-foreground">
+              <th className="py-0.5 text-left font-normal">Rating</th>
+              <th className="py-0.5 text-right font-normal">Cov ≥</th>
+              <th className="py-0.5 text-right font-normal">ND/EBITDA ≤</th>
+              <th className="py-0.5 text-right font-normal">FFO/D ≥</th>
+              <th className="py-0.5 text-right font-normal">Spread %</th>
+            </tr>
+          </thead>
+          <tbody className="text-foreground">
+            {table.map((b, i) => (
+              <tr key={b.rating} className={cn(b.rating === credit.rating && "font-semibold text-blue-500")}>
+                <td className="py-0.5">{b.rating}</td>
+                <td className="py-0.5 text-right">{i < table.length - 1 ? b.min_coverage.toFixed(2) : "—"}</td>
+                <td className="py-0.5 text-right">{i < table.length - 1 ? b.max_net_debt_ebitda.toFixed(2) : "—"}</td>
+                <td className="py-0.5 text-right">{i < table.length - 1 ? pct(b.min_ffo_debt) : "—"}</td>
+                <td className="py-0.5 text-right">
+                  <input
+                    type="number"
+                    step={0.05}
+                    min={0}
+                    value={(b.spread * 100).toFixed(2)}
+                    onChange={(e) => {
+                      const v = parseFloat(e.target.value)
+                      if (!isNaN(v)) setSpread(i, Math.max(0, v) / 100)
+                    }}
+                    className="w-14 rounded border border-border bg-muted/50 px-1 text-right text-[10px] focus:outline-none focus:ring-1 focus:ring-ring"
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </details>
+    </div>
+  )
+}
+
+// ── Regression beta ──────────────────────────────────────────────────────────
+
+type RegressionResult = BetaRegression & { index: string }
+
+function RegressionBetaPanel({ ticker }: { ticker: string }) {
+  const { setAssumption } = useScenario()
+  const [windowKey, setWindowKey] = useState("2y_weekly")
+  const [result, setResult] = useState<RegressionResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const win = BETA_WINDOWS.find((w) => w.key === windowKey) ?? BETA_WINDOWS[0]
+
+  useEffect(() => {
+    const ctrl = new AbortController()
+    setLoading(true)
+    setError(null)
+    fetch(`/api/beta/${encodeURIComponent(ticker)}?interval=${win.interval}&years=${win.years}`, { signal: ctrl.signal })
+      .then(async (res) => {
+        const body = await res.json()
+        if (!res.ok) throw new Error(body.error ?? `HTTP ${res.status}`)
+        setResult(body)
+      })
+      .catch((err: Error) => {
+        if (err.name === "AbortError") return
+        setResult(null)
+        setError(err.message)
+      })
+      .finally(() => { if (!ctrl.signal.aborted) setLoading(false) })
+    return () => ctrl.abort()
+  }, [ticker, win.interval, win.years])
+
+  const pct = (v: number) => `${(v * 100).toFixed(0)}%`
+  const xs = result?.pairs.map((p) => p.market) ?? []
+  const xMin = Math.min(...xs), xMax = Math.max(...xs)
+
+  return (
+    <div className="rounded-lg border border-border bg-muted/20 px-3 py-2 space-y-1">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-[10px] font-bold uppercase tracking-widest text-muted-foreground/60">
+          Regression Beta
+        </p>
+        <select
+          value={windowKey}
+          onChange={(e) => setWindowKey(e.target.value)}
+          className="rounded-md border border-border bg-muted/50 px-1.5 py-0.5 text-xs text-foreground focus:outline-none focus:ring-1 focus:ring-ring"
+        >
+          {BETA_WINDOWS.map((w) => <option key={w.key} value={w.key}>{w.label}</option>)}
+        </select>
+      </div>
+      {loading && <p className="text-[10px] text-muted-foreground/50">Loading price history…</p>}
+      {!loading && error && <p className="text-[10px] text-muted-foreground/50">{error}</p>}
+      {!loading && result && (
+        <>
+          <ResponsiveContainer width="100%" height={160}>
+            <ScatterChart margin={{ top: 4, right: 4, bottom: 0, left: -16 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+              <XAxis type="number" dataKey="market" tickFormatter={pct} tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 9 }} domain={["auto", "auto"]} />
+              <YAxis type="number" dataKey="stock" tickFormatter={pct} tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 9 }} domain={["auto", "auto"]} />
+              <ZAxis range={[8, 8]} />
+              <Scatter data={result.pairs} fill="#3b82f6" fillOpacity={0.5} isAnimationActive={false} />
+              <ReferenceLine
+                segment={[
+                  { x: xMin, y: result.alpha + result.raw * xMin },
+                  { x: xMax, y: result.alpha + result.raw * xMax },
+                ]}
+                stroke="#f59e0b"
+                strokeWidth={1.5}
+                ifOverflow="extendDomain"
+              />
+            </ScatterChart>
+          </ResponsiveContainer>
+          <ComputedRow label="Raw β (± s.e.)" value={`${result.raw.toFixed(2)} ± ${result.std_error.toFixed(2)}`} />
+          <ComputedRow label="Blume-adjusted β" value={result.adjusted.toFixed(2)} />
+          <ComputedRow label={`R² (n = ${result.n})`} value={result.r_squared.toFixed(2)} />
+          <p className="text-[10px] text-muted-foreground/50">
+            {win.label} returns vs {result.index}. Adjusted β = 0.67 × raw + 0.33.
+          </p>
+          <div className="flex gap-2 mt-1">
+            {([["Use raw β", result.raw], ["Use adjusted β", result.adjusted]] as const).map(([label, beta]) => (
+              <button
+                key={label}
+                onClick={() => setAssumption("beta", beta)}
+                className="flex-1 rounded-md border border-border px-2 py-1 text-xs font-semibold text-muted-foreground hover:text-foreground hover:border-foreground/40 transition-colors"
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+// ── Bottom-up beta ───────────────────────────────────────────────────────────
+
+function BottomUpBetaPanel({ comps, regressionBeta, totalDebt, marketCap, kd }: {
+  comps: Record<string, Comp>
+  regressionBeta?: number
+  totalDebt: number
+  marketCap: number
+  kd: number
+}) {
+  const { assumptions: a, setAssumption } = useScenario()
+  const { rf, countryRisk } = capmInputs(a)
+  const erp = a.erp ?? 0.055
+  const tax = a.tax_rate ?? 0.21
+  const currentDE = marketCap > 0 ? totalDebt / marketCap : 0
+  const targetDE = a.target_de ?? currentDE
+  const bu = bottomUpBeta(comps, tax, targetDE)
+
+  const fmt = (v: number) => `${(v * 100).toFixed(2)}%`
+  const regBeta = regressionBeta ?? a.beta ?? 1.0
+  const regression = computeWACC(rf, regBeta, erp, kd, tax, marketCap, totalDebt, countryRisk.crp)
+  const keBu = bu ? rf + bu.relevered * erp + countryRisk.crp : 0
+  const waccBu = bu ? waccAtTargetDE(keBu, kd, tax, targetDE) : 0
+
+  return (
+    <div className="rounded-lg border border-border bg-muted/20 px-3 py-2 space-y-1">
+      <p className="text-[10px] font-bold uppercase tracking-widest text-muted-foreground/60 mb-2">
+        Bottom-Up Beta
+      </p>
+      <div className="flex items-center justify-between gap-2 py-1">
+        <label className="text-xs text-muted-foreground">Target D/E</label>
+        <input
+          type="number"
+          step={0.05}
+          min={0}
+          value={targetDE.toFixed(2)}
+          onChange={(e) => {
+            const v = parseFloat(e.target.value)
+            if (!isNaN(v)) setAssumption("target_de", Math.max(0, v))
+          }}
+          className="w-16 rounded-md border border-border bg-muted/50 px-2 py-0.5 text-right font-mono text-xs text-foreground focus:outline-none focus:ring-1 focus:ring-ring"
+        />
+      </div>
+      {bu ? (
+        <>
+          <table className="w-full text-xs font-mono">
+            <thead>
+              <tr className="text-[10px] text-muted-foreground">
+                <th className="py-1 text-left font-normal" />
+                <th className="py-1 text-right font-normal">Regression</th>
+                <th className="py-1 text-right font-normal">Bottom-up</th>
+              </tr>
+            </thead>
+            <tbody className="text-foreground">
+              <tr>
+                <td className="py-0.5 text-muted-foreground font-sans">Beta</td>
+                <td className="py-0.5 text-right">{regBeta.toFixed(2)}</td>
+                <td className="py-0.5 text-right font-semibold">{bu.relevered.toFixed(2)}</td>
+              </tr>
+              <tr>
+                <td className="py-0.5 text-muted-foreground font-sans">Cost of equity</td>
+                <td className="py-0.5 text-right">{fmt(regression.ke)}</td>
+                <td className="py-0.5 text-right font-semibold">{fmt(keBu)}</td>
+              </tr>
+              <tr>
+                <td className="py-0.5 text-muted-foreground font-sans">WACC</td>
+                <td className="py-0.5 text-right">{fmt(regression.wacc)}</td>
+                <td className="py-0.5 text-right font-semibold">{fmt(waccBu)}</td>
+              </tr>
+            </tbody>
+          </table>
+          <p className="text-[10px] text-muted-foreground/50">
+            Unlevered β {bu.unlevered.toFixed(2)} = mean of {bu.peers.map((p) => `${p.name} ${p.unlevered.toFixed(2)}`).join(", ")}.
+            Regression WACC at market weights (D/E {currentDE.toFixed(2)}); bottom-up at the target D/E.
+          </p>
+          <button
+            onClick={() => {
+              setAssumption("beta", bu.relevered)
+              setAssumption("wacc", waccBu)
+            }}
+            className="mt-1 w-full rounded-md border border-border px-2 py-1 text-xs font-semibold text-muted-foreground hover:text-foreground hover:border-foreground/40 transition-colors"
+          >
+            Use bottom-up β and WACC
+          </button>
+        </>
+      ) : (
+        <p className="text-[10px] text-muted-foreground/50">No peer betas available for this peer set.</p>
+      )}
+    </div>
+  )
+}
+
 // ── Main component ────────────────────────────────────────────────────────────
 
 interface Props {
@@ -134,22 +608,31 @@ interface Props {
   ticker: string
   totalDebt?: number    // $M — for WACC calculation display
   marketCap?: number    // $M — for WACC calculation display
+  periodEnd?: string    // baseline period end — anchors the stub period
+  comps?: Record<string, Comp>   // peer set for the bottom-up beta
+  regressionBeta?: number        // company's own regression beta (Yahoo)
+  baseline?: Baseline            // selected basis — credit metrics for the synthetic rating
 }
 
-export function AssumptionsDrawer({ open, onOpenChange, ticker, totalDebt = 0, marketCap = 0 }: Props) {
+export function AssumptionsDrawer({
+  open, onOpenChange, ticker, totalDebt = 0, marketCap = 0, periodEnd, comps = {}, regressionBeta, baseline,
+}: Props) {
   const { assumptions, setAssumption, applyScenario, scenario } = useScenario()
 
   const reset = () => applyScenario(scenario)
 
   // Live CAPM computation for display
+  const kd = baseline ? costOfDebt(baseline, assumptions) : assumptions.cost_of_debt ?? 0.045
+  const { rf, countryRisk } = capmInputs(assumptions)
   const { wacc: waccCalc, ke: keCalc, kd_after_tax: kdAt } = computeWACC(
-    assumptions.rf ?? 0.043,
+    rf,
     assumptions.beta ?? 1.0,
     assumptions.erp ?? 0.055,
-    assumptions.cost_of_debt ?? 0.045,
+    kd,
     assumptions.tax_rate ?? 0.21,
     marketCap,
     totalDebt,
+    countryRisk.crp,
   )
 
   const fmt = (v: number) => `${(v * 100).toFixed(2)}%`
@@ -167,6 +650,9 @@ export function AssumptionsDrawer({ open, onOpenChange, ticker, totalDebt = 0, m
 
         {/* Fields grouped by category */}
         <div className="flex-1 overflow-y-auto px-6 py-4 space-y-6">
+          <TimingSection periodEnd={periodEnd} />
+          <DilutionSection />
+
           {GROUPS.map((group) => (
             <section key={group} className="space-y-4">
               <p className="text-[10px] font-bold uppercase tracking-widest text-muted-foreground/60">
@@ -190,7 +676,7 @@ export function AssumptionsDrawer({ open, onOpenChange, ticker, totalDebt = 0, m
                   <p className="text-[10px] font-bold uppercase tracking-widest text-muted-foreground/60 mb-2">
                     Computed CAPM Outputs
                   </p>
-                  <ComputedRow label="Cost of Equity (ke = rf + β×ERP)" value={fmt(keCalc)} />
+                  <ComputedRow label="Cost of Equity (ke = rf + β×ERP + CRP)" value={fmt(keCalc)} />
                   <ComputedRow label="After-tax Cost of Debt" value={fmt(kdAt)} />
                   <ComputedRow label={`WACC (E=${marketCap.toFixed(0)}M, D=${totalDebt.toFixed(0)}M)`} value={fmt(waccCalc)} />
                   <p className="text-[10px] text-muted-foreground/50 mt-1">
@@ -198,6 +684,12 @@ export function AssumptionsDrawer({ open, onOpenChange, ticker, totalDebt = 0, m
                   </p>
                 </div>
               )}
+              {group === "CAPM Inputs" && <CountryRiskPanel />}
+              {group === "CAPM Inputs" && baseline && <SyntheticRatingPanel baseline={baseline} />}
+              {group === "CAPM Inputs" && <RegressionBetaPanel ticker={ticker} />}
+              {group === "CAPM Inputs" && (
+                <BottomUpBetaPanel comps={comps} regressionBeta={regressionBeta} totalDebt={totalDebt} marketCap={marketCap} kd={kd} />
+              )}
             </section>
           ))}
         </div>
@@ -9,8 +9,9 @@ import { QualityScoresTab } from "./tabs/QualityScoresTab"
 import { NewsTab } from "./tabs/NewsTab"
 import { AskAITab } from "./tabs/AskAITab"
 import { ExportTab } from "./tabs/ExportTab"
-import { computeAll } from "@/lib/valuation/calculations"
-import type { ValuationConfig, NewsArticle } from "@/types/valuation"
+import { computeAll, consensusBlend } from "@/lib/valuation/calculations"
+import { validateConfig } from "@/lib/valuation/validation"
+import type { ValuationConfig, ValuationBasis, NewsArticle } from "@/types/valuation"
 import { cn } from "@/lib/utils"
 import { SignalBadge } from "./shared/SignalBadge"
 import {
@@ -22,7 +23,7 @@ import { useValuationConfidence } from "@/hooks/useValuationConfidence"
 import { ScenarioProvider, ScenarioToggle, useScenario } from "@/context/ScenarioContext"
 import { AssumptionsDrawer } from "./AssumptionsDrawer"
 import { useAssumptionsDrawer } from "@/hooks/useAssumptionsDrawer"
-import { ArrowLeft, Settings2, FileText } from "lucide-react"
+import { ArrowLeft, Settings2, FileText, AlertTriangle } from "lucide-react"
 import Link from "next/link"
 
 type TopTab = "Overview" | "Financials" | "Valuation Models" | "Quality Scores" | "News" | "Export" | "Ask AI"
@@ -33,6 +34,7 @@ interface SecFiling {
   url: string
   accessionNumber: string
   companyName: string
+  form?: string
 }
 
 interface Props {
@@ -51,13 +53,38 @@ export function ValuationDashboard({ config, news = [], sec = null }: Props) {
 }
 
 /** Inner component — consumes ScenarioContext */
-function DashboardInner({ config, news, sec }: Required<Props>) {
+function DashboardInner({ config: reportedConfig, news, sec }: Required<Props>) {
+  const [basis, setBasis] = useState<ValuationBasis>("FY")
+  const hasTtm = !!reportedConfig.baseline_ttm
+
+  // Swap in the TTM baseline so every tab and computeAll run on the selected basis
+  const config = useMemo<ValuationConfig>(
+    () =>
+      basis === "TTM" && reportedConfig.baseline_ttm
+        ? {
+            ...reportedConfig,
+            baseline: reportedConfig.baseline_ttm,
+            provenance: reportedConfig.provenance && {
+              ...reportedConfig.provenance,
+              baseline: reportedConfig.provenance.baseline_ttm ?? {},
+            },
+          }
+        : reportedConfig,
+    [basis, reportedConfig],
+  )
   const B = config.baseline
   const { assumptions, setAssumption } = useScenario()
   const [activeTab, setActiveTab] = useState<TopTab>("Overview")
   const [mcResults, setMcResults] = useState<Record<string, number[]>>({})
   const drawer = useAssumptionsDrawer()
 
+  // Validate the selected basis; error-level issues mark the affected models N/A
+  const dataIssues = useMemo(
+    () => validateConfig(config, assumptions.valuation_date),
+    [config, assumptions.valuation_date],
+  )
+  const dataErrors = dataIssues.filter((i) => i.severity === "error")
+
   const computed = useMemo(
     () =>
       computeAll(
@@ -67,8 +94,10 @@ function DashboardInner({ config, news, sec }: Required<Props>) {
         config.acquisitions,
         config.historical_is.eps,
         assumptions,
+        dataIssues,
+        config.model_set,
       ),
-    [B, config.comps, config.segments, config.acquisitions, config.historical_is.eps, assumptions],
+    [B, config.comps, config.segments, config.acquisitions, config.historical_is.eps, assumptions, dataIssues, config.model_set],
   )
 
   const confidence = useValuationConfidence({
@@ -78,11 +107,11 @@ function DashboardInner({ config, news, sec }: Required<Props>) {
   })
 
   const summaryData = useMemo<ValuationSummaryData>(() => {
-    const { pps_fcff, pps_ebitda, pps_rev, pps_pe, pps_peg, pps_pb, pps_sotp } = computed
-    const multiplesAvg =
-      [pps_ebitda, pps_rev, pps_pe, pps_peg, pps_pb].reduce((a, b) => a + b, 0) / 5
-    const intrinsic = pps_fcff * 0.35 + multiplesAvg * 0.45 + pps_sotp * 0.20
-    const upsidePct = B.current_price > 0 ? ((intrinsic / B.current_price) - 1) * 100 : 0
+    // Financials anchor on excess return over tangible book, REITs on NAV (P/FFO without NAV), instead of FCFF/SOTP.
+    // Models that are N/A in the signal table (missing or blocked by data issues) stay out.
+    const blend = consensusBlend(computed.signalRows, computed.modelSet)
+    const intrinsic = blend.intrinsic
+    const upsidePct = intrinsic !== null && B.current_price > 0 ? ((intrinsic / B.current_price) - 1) * 100 : null
     const mcArr = mcResults["FCFF (DCF)"]
     const mcMedian = mcArr?.length
       ? mcArr.slice().sort((a, b) => a - b)[Math.floor(mcArr.length / 2)]
@@ -91,10 +120,15 @@ function DashboardInner({ config, news, sec }: Required<Props>) {
       intrinsicValue: intrinsic,
       marketPrice: B.current_price,
       upsidePercent: upsidePct,
-      signal: deriveSummarySignal(upsidePct),
+      signal: upsidePct !== null ? deriveSummarySignal(upsidePct) : "N/A",
       confidenceScore: confidence.score,
       confidenceFactors: confidence.factors,
-      breakdown: { dcf: pps_fcff, multiplesAvg, mcMedian },
+      breakdown: {
+        dcf: blend.anchor,
+        dcfLabel: computed.modelSet === "standard" ? undefined : blend.anchorMethod,
+        multiplesAvg: blend.multiplesAvg,
+        mcMedian,
+      },
     }
   }, [computed, B.current_price, mcResults, confidence])
 
@@ -119,8 +153,38 @@ function DashboardInner({ config, news, sec }: Required<Props>) {
             </p>
             <div className="flex items-center gap-2">
               <p className="text-xs text-muted-foreground">
-                {config.fiscal_year} · {config.currency} {config.units}
+                {basis === "TTM" ? `TTM to ${config.ttm_period_end}` : config.fiscal_year} · {config.currency} {config.units}
               </p>
+              {hasTtm ? (
+                <div className="inline-flex rounded border border-border bg-muted/30 p-px gap-px">
+                  {(["FY", "TTM"] as ValuationBasis[]).map((b) => (
+                    <button
+                      key={b}
+                      onClick={() => setBasis(b)}
+                      className={cn(
+                        "px-1.5 py-0.5 rounded-sm text-[10px] font-semibold transition-colors",
+                        basis === b ? "bg-foreground text-background" : "text-muted-foreground hover:text-foreground",
+                      )}
+                    >
+                      {b}
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <span className="text-[10px] font-semibold px-1.5 py-0.5 rounded border border-border text-muted-foreground">
+                  FY
+                </span>
+              )}
+              {computed.modelSet !== "standard" && (
+                <span
+                  title={computed.modelSet === "financial"
+                    ? `${config.sector ?? "Financial"} sector — FCFF, FCFE, EV and revenue models replaced by excess return and P/TBV vs ROTE`
+                    : `${config.sector ?? "Real Estate"} sector — EPS and revenue multiples replaced by P/FFO, P/AFFO and cap-rate NAV`}
+                  className="text-[10px] font-semibold px-1.5 py-0.5 rounded bg-indigo-500/10 text-indigo-400 cursor-help"
+                >
+                  {computed.modelSet === "financial" ? "Financials mode" : "REIT mode"}
+                </span>
+              )}
               {sec && (
                 <a
                   href={sec.url}
@@ -129,9 +193,27 @@ function DashboardInner({ config, news, sec }: Required<Props>) {
                   className="inline-flex items-center gap-1 text-[10px] font-medium px-1.5 py-0.5 rounded bg-blue-500/10 text-blue-400 hover:bg-blue-500/20 transition-colors"
                 >
                   <FileText className="w-2.5 h-2.5" />
-                  10-K {sec.date}
+                  {sec.form ?? "10-K"} {sec.date}
                 </a>
               )}
+              {config.data_warnings && config.data_warnings.length > 0 && (
+                <span
+                  title={config.data_warnings.join("\n")}
+                  className="inline-flex items-center gap-1 text-[10px] font-medium px-1.5 py-0.5 rounded bg-amber-500/10 text-amber-400 cursor-help"
+                >
+                  <AlertTriangle className="w-2.5 h-2.5" />
+                  {config.data_warnings.length === 1 ? "Data warning" : `${config.data_warnings.length} data warnings`}
+                </span>
+              )}
+              {dataErrors.length > 0 && (
+                <span
+                  title={dataErrors.map((i) => `${i.message} → ${i.models.length} model(s) N/A`).join("\n")}
+                  className="inline-flex items-center gap-1 text-[10px] font-medium px-1.5 py-0.5 rounded bg-red-500/10 text-red-400 cursor-help"
+                >
+                  <AlertTriangle className="w-2.5 h-2.5" />
+                  {dataErrors.length === 1 ? "Data error" : `${dataErrors.length} data errors`}
+                </span>
+              )}
             </div>
           </div>
         </div>
@@ -180,6 +262,10 @@ function DashboardInner({ config, news, sec }: Required<Props>) {
         ticker={config.ticker}
         totalDebt={config.baseline.total_debt}
         marketCap={config.baseline.current_price * config.baseline.shares_diluted}
+        periodEnd={config.baseline.period_end}
+        comps={config.comps}
+        regressionBeta={config.capm.beta}
+        baseline={B}
       />
 
       {/* Body */}
@@ -205,7 +291,7 @@ function DashboardInner({ config, news, sec }: Required<Props>) {
                 </>
               )}
               {activeTab === "Financials" && (
-                <FinancialStatementsTab config={config} />
+                <FinancialStatementsTab config={config} computed={computed} />
               )}
               {activeTab === "Valuation Models" && (
                 <ValuationModelsTab
@@ -7,19 +7,20 @@ import type { ConfidenceFactors } from "@/hooks/useValuationConfidence"
 
 // ── Types ────────────────────────────────────────────────────────────────────
 
-export type SummarySignal = "BUY" | "HOLD" | "SELL"
+export type SummarySignal = "BUY" | "HOLD" | "SELL" | "N/A"
 
 export interface ValuationSummaryData {
-  intrinsicValue: number    // blended consensus price
+  intrinsicValue: number | null  // blended consensus price; null when the anchor model is N/A
   marketPrice: number
-  upsidePercent: number     // (intrinsic / market - 1) * 100
+  upsidePercent: number | null   // (intrinsic / market - 1) * 100
   signal: SummarySignal
   confidenceScore: number   // 0–100
   confidenceFactors?: ConfidenceFactors
   breakdown: {
-    dcf: number
-    multiplesAvg: number
-    mcMedian: number | null // null = not yet run
+    dcf: number | null          // null = N/A
+    dcfLabel?: string           // defaults to "DCF (FCFF)"
+    multiplesAvg: number | null // null = N/A
+    mcMedian: number | null     // null = not yet run
   }
 }
 
@@ -56,6 +57,7 @@ const SIGNAL_CONFIG: Record<SummarySignal, {
   BUY:  { label: "BUY",  bg: "bg-buy/10",  text: "text-buy",  border: "border-buy/25",  Icon: TrendingUp },
   HOLD: { label: "HOLD", bg: "bg-hold/10", text: "text-hold", border: "border-hold/25", Icon: Minus },
   SELL: { label: "SELL", bg: "bg-sell/10", text: "text-sell", border: "border-sell/25", Icon: TrendingDown },
+  "N/A": { label: "N/A", bg: "bg-muted/30", text: "text-muted-foreground", border: "border-border", Icon: Minus },
 }
 
 function SignalPill({ signal }: { signal: SummarySignal }) {
@@ -73,17 +75,19 @@ function BreakdownRow({
   value,
   market,
   muted,
+  empty = "not run",
 }: {
   label: string
   value: number | null
   market: number
   muted?: boolean
+  empty?: string
 }) {
   if (value === null) {
     return (
       <div className="flex items-center justify-between py-1.5">
         <span className="text-xs text-muted-foreground">{label}</span>
-        <span className="text-xs text-muted-foreground/50 italic">not run</span>
+        <span className="text-xs text-muted-foreground/50 italic">{empty}</span>
       </div>
     )
   }
@@ -167,7 +171,7 @@ interface Props {
 
 export function ValuationSummaryCard({ data, ticker, className }: Props) {
   const { intrinsicValue, marketPrice, upsidePercent, signal, confidenceScore, confidenceFactors, breakdown } = data
-  const positive = upsidePercent >= 0
+  const positive = (upsidePercent ?? 0) >= 0
   const { bg, text, border } = SIGNAL_CONFIG[signal]
 
   return (
@@ -187,15 +191,17 @@ export function ValuationSummaryCard({ data, ticker, className }: Props) {
         <div className="space-y-0.5">
           <p className="text-xs font-semibold uppercase tracking-widest text-muted-foreground">{ticker} — Consensus</p>
           <p className={cn("text-4xl font-bold font-mono tracking-tight", text)}>
-            ${intrinsicValue.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+            {intrinsicValue !== null ? `$${intrinsicValue.toLocaleString(undefined, { maximumFractionDigits: 0 })}` : "N/A"}
           </p>
           <div className="flex items-center gap-2 pt-0.5">
             <span className="text-xs text-muted-foreground font-mono">
               Market ${marketPrice.toLocaleString(undefined, { maximumFractionDigits: 0 })}
             </span>
-            <span className={cn("text-sm font-bold font-mono tabular-nums", positive ? "text-buy" : "text-sell")}>
-              {positive ? "+" : ""}{upsidePercent.toFixed(1)}%
-            </span>
+            {upsidePercent !== null && (
+              <span className={cn("text-sm font-bold font-mono tabular-nums", positive ? "text-buy" : "text-sell")}>
+                {positive ? "+" : ""}{upsidePercent.toFixed(1)}%
+              </span>
+            )}
           </div>
         </div>
         <SignalPill signal={signal} />
@@ -209,8 +215,8 @@ export function ValuationSummaryCard({ data, ticker, className }: Props) {
       <div className="flex-1 min-w-[200px]">
         <p className="text-xs font-semibold uppercase tracking-widest text-muted-foreground mb-1">Model Breakdown</p>
         <div className="divide-y divide-border/50">
-          <BreakdownRow label="DCF (FCFF)" value={breakdown.dcf} market={marketPrice} />
-          <BreakdownRow label="Multiples Avg" value={breakdown.multiplesAvg} market={marketPrice} />
+          <BreakdownRow label={breakdown.dcfLabel ?? "DCF (FCFF)"} value={breakdown.dcf} market={marketPrice} empty="N/A" />
+          <BreakdownRow label="Multiples Avg" value={breakdown.multiplesAvg} market={marketPrice} empty="N/A" />
           <BreakdownRow label="Monte Carlo Median" value={breakdown.mcMedian} market={marketPrice} muted />
         </div>
       </div>
@@ -1,4 +1,6 @@
+import type { Provenance } from "@/types/valuation"
 import { cn } from "@/lib/utils"
+import { ProvenanceBadge } from "./ProvenanceBadge"
 
 interface Props {
   label: string
@@ -6,12 +8,16 @@ interface Props {
   delta?: string
   deltaPositive?: boolean
   className?: string
+  provenance?: Provenance   // source of the underlying input, shown as a hover badge
 }
 
-export function MetricCard({ label, value, delta, deltaPositive, className }: Props) {
+export function MetricCard({ label, value, delta, deltaPositive, className, provenance }: Props) {
   return (
     <div className={cn("rounded-lg border border-border bg-card p-4", className)}>
-      <p className="text-xs font-medium uppercase tracking-wider text-muted-foreground">{label}</p>
+      <p className="flex items-center gap-1.5 text-xs font-medium uppercase tracking-wider text-muted-foreground">
+        {label}
+        <ProvenanceBadge provenance={provenance} />
+      </p>
       <p className="mt-1 font-mono text-xl font-semibold text-foreground">{value}</p>
       {delta && (
         <p className={cn("mt-0.5 text-xs font-medium", deltaPositive ? "text-buy" : "text-sell")}>
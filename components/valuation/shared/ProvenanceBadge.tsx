@@ -0,0 +1,34 @@
+import type { Provenance, ProvenanceKind } from "@/types/valuation"
+import { cn } from "@/lib/utils"
+
+const CONFIG: Record<ProvenanceKind, { label: string; title: string; className: string }> = {
+  xbrl:      { label: "X", title: "SEC XBRL",      className: "bg-blue-500/15 text-blue-300 border-blue-500/30" },
+  yahoo:     { label: "Y", title: "Yahoo Finance", className: "bg-purple-500/15 text-purple-300 border-purple-500/30" },
+  derived:   { label: "D", title: "Derived",       className: "bg-muted text-muted-foreground border-border" },
+  heuristic: { label: "H", title: "Heuristic",     className: "bg-amber-500/15 text-amber-400 border-amber-500/30" },
+  missing:   { label: "∅", title: "Missing",       className: "bg-sell/15 text-sell border-sell/30" },
+}
+
+interface Props {
+  provenance?: Provenance
+  className?: string
+}
+
+/** One-letter source marker; hover shows the concept / filing / module behind the value. */
+export function ProvenanceBadge({ provenance, className }: Props) {
+  if (!provenance) return null
+  const { label, title, className: kindClass } = CONFIG[provenance.kind]
+  return (
+    <span
+      title={`${title}: ${provenance.detail}`}
+      aria-label={`${title}: ${provenance.detail}`}
+      className={cn(
+        "inline-flex h-4 min-w-4 cursor-help items-center justify-center rounded border px-1 font-mono text-[9px] font-semibold normal-case tracking-normal",
+        kindClass,
+        className,
+      )}
+    >
+      {label}
+    </span>
+  )
+}
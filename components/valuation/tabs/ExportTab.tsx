@@ -87,9 +87,12 @@ export function ExportTab({ config, assumptions: a, computed }: Props) {
         ["WACC", (a.wacc * 100).toFixed(2) + "%"],
         ["Cost of Equity (Ke — CAPM)", (a.cost_of_equity * 100).toFixed(2) + "%"],
         ["Risk-Free Rate (Rf)", (a.rf * 100).toFixed(2) + "%"],
+        [`Risk-Free Rate (${a.currency ?? "USD"})`, (computed.rf_local * 100).toFixed(2) + "%"],
+        ["Country Risk Premium (λ-scaled)", (computed.countryRisk.crp * 100).toFixed(2) + "%"],
         ["Equity Risk Premium (ERP)", (a.erp * 100).toFixed(2) + "%"],
         ["Beta (β)", a.beta.toFixed(2)],
-        ["Cost of Debt (pre-tax)", (a.cost_of_debt * 100).toFixed(2) + "%"],
+        ["Cost of Debt (pre-tax)", (computed.kd * 100).toFixed(2) + "%"],
+        ["Synthetic Rating", `${computed.credit.rating} (spread ${(computed.credit.spread * 100).toFixed(2)}%)`],
         ["Tax Rate", (a.tax_rate * 100).toFixed(1) + "%"],
         ["Year 1 Revenue Growth", (a.yr1_g * 100).toFixed(1) + "%"],
         ["Year 2 Revenue Growth", (a.yr2_g * 100).toFixed(1) + "%"],
@@ -464,7 +467,7 @@ export function ExportTab({ config, assumptions: a, computed }: Props) {
                 <td className="px-4 py-2 font-sans font-medium text-foreground">{r.method}</td>
                 <td className="px-4 py-2 text-right">{fmtUsd(r.intrinsicValue, 2)}</td>
                 <td className={`px-4 py-2 text-right ${parseFloat(r.vsMarket) >= 0 ? "text-green-400" : "text-red-400"}`}>
-                  {r.vsMarket.startsWith("-") ? "" : "+"}{r.vsMarket}
+                  {r.vsMarket.startsWith("-") || r.blockedBy ? "" : "+"}{r.vsMarket}
                 </td>
                 <td className={`px-4 py-2 text-right font-bold ${r.signal === "BUY" ? "text-green-400" : r.signal === "SELL" ? "text-red-400" : "text-yellow-400"}`}>
                   {r.signal}
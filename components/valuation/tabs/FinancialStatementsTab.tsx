@@ -7,7 +7,9 @@ import {
   BarChart,
 } from "recharts"
 import { MetricCard } from "../shared/MetricCard"
-import type { ValuationConfig } from "@/types/valuation"
+import { ProvenanceBadge } from "../shared/ProvenanceBadge"
+import type { Provenance, ValuationConfig } from "@/types/valuation"
+import type { ComputedValuations } from "@/lib/valuation/calculations"
 import { cn } from "@/lib/utils"
 
 // ── Types ─────────────────────────────────────────────────────────────────────
@@ -15,7 +17,10 @@ import { cn } from "@/lib/utils"
 type Sub = "Income Statement" | "Cash Flow" | "Balance Sheet"
 const SUBS: Sub[] = ["Income Statement", "Cash Flow", "Balance Sheet"]
 
-interface Props { config: ValuationConfig }
+interface Props {
+  config: ValuationConfig
+  computed: ComputedValuations
+}
 
 // ── Format helpers ─────────────────────────────────────────────────────────────
 
@@ -41,7 +46,7 @@ function Th({ children, right }: { children: React.ReactNode; right?: boolean })
 }
 
 function MetricRow({
-  label, values, fmt, highlight, subdued, indent,
+  label, values, fmt, highlight, subdued, indent, provenance,
 }: {
   label: string
   values: (number | null)[]
@@ -49,6 +54,7 @@ function MetricRow({
   highlight?: boolean
   subdued?: boolean
   indent?: boolean
+  provenance?: Provenance
 }) {
   return (
     <tr className={cn("border-b border-border/40 hover:bg-muted/20", highlight && "bg-muted/20")}>
@@ -58,7 +64,10 @@ function MetricRow({
         subdued ? "text-muted-foreground" : "text-foreground",
         highlight && "font-semibold",
       )}>
-        {label}
+        <span className="inline-flex items-center gap-1.5">
+          {label}
+          <ProvenanceBadge provenance={provenance} />
+        </span>
       </td>
       {values.map((v, i) => (
         <td key={i} className={cn(
@@ -124,7 +133,7 @@ function SectionCard({ title, children }: { title: string; children: React.React
 
 // ── Main component ─────────────────────────────────────────────────────────────
 
-export function FinancialStatementsTab({ config }: Props) {
+export function FinancialStatementsTab({ config, computed }: Props) {
   const [sub, setSub] = useState<Sub>("Income Statement")
   return (
     <div>
@@ -147,7 +156,7 @@ export function FinancialStatementsTab({ config }: Props) {
       <div className="p-4 space-y-6">
         {sub === "Income Statement" && <IncomeStatementSection config={config} />}
         {sub === "Cash Flow"        && <CashFlowSection        config={config} />}
-        {sub === "Balance Sheet"    && <BalanceSheetSection    config={config} />}
+        {sub === "Balance Sheet"    && <BalanceSheetSection    config={config} computed={computed} />}
       </div>
     </div>
   )
@@ -158,6 +167,8 @@ export function FinancialStatementsTab({ config }: Props) {
 function IncomeStatementSection({ config }: { config: ValuationConfig }) {
   const H = config.historical_is
   const B = config.baseline
+  const HP = config.provenance?.historical_is ?? {}
+  const BP = config.provenance?.baseline ?? {}
   const years = H.year.map(String)
   const n = years.length
 
@@ -185,24 +196,28 @@ function IncomeStatementSection({ config }: { config: ValuationConfig }) {
         <MetricCard
           label="Revenue"
           value={n0(B.revenue)}
+          provenance={BP.revenue}
           delta={revGrowth !== null ? `${revGrowth >= 0 ? "+" : ""}${revGrowth.toFixed(1)}% YoY` : undefined}
           deltaPositive={(revGrowth ?? 0) >= 0}
         />
         <MetricCard
           label="EBITDA"
           value={n0(B.ebitda)}
+          provenance={BP.ebitda}
           delta={pct(B.ebitda_margin) + " margin"}
           deltaPositive={B.ebitda_margin > 0.15}
         />
         <MetricCard
           label="Net Income"
           value={n0(B.net_income)}
+          provenance={BP.net_income}
           delta={B.revenue > 0 ? pct(B.net_income / B.revenue) + " NM" : undefined}
           deltaPositive={B.net_income > 0}
         />
         <MetricCard
           label="EPS (Diluted)"
           value={`$${n2(B.eps)}`}
+          provenance={BP.eps}
           delta={epsGrowth !== null ? `${epsGrowth >= 0 ? "+" : ""}${epsGrowth.toFixed(1)}% YoY` : undefined}
           deltaPositive={(epsGrowth ?? 0) >= 0}
         />
@@ -250,17 +265,17 @@ function IncomeStatementSection({ config }: { config: ValuationConfig }) {
               </tr>
             </thead>
             <tbody>
-              <MetricRow label="Revenue"           values={H.revenue}     fmt={(v) => n0(v)} highlight />
+              <MetricRow label="Revenue"           values={H.revenue}     fmt={(v) => n0(v)} highlight provenance={HP.revenue} />
               <GrowthRow  label="  YoY Growth"     values={H.revenue} />
-              <MetricRow label="EBITDA"            values={H.ebitda}      fmt={(v) => n0(v)} />
+              <MetricRow label="EBITDA"            values={H.ebitda}      fmt={(v) => n0(v)} provenance={HP.ebitda} />
               <MarginRow  label="  EBITDA Margin"  nums={H.ebitda}        denoms={H.revenue} />
               <MetricRow label="EBIT (est.)"       values={histEbit}      fmt={(v) => n0(v)} subdued />
               <MarginRow  label="  EBIT Margin"    nums={histEbit}        denoms={H.revenue} colorClass="text-muted-foreground" />
-              <MetricRow label="Net Income"        values={H.net_income}  fmt={(v) => n0(v)} highlight />
+              <MetricRow label="Net Income"        values={H.net_income}  fmt={(v) => n0(v)} highlight provenance={HP.net_income} />
               <MarginRow  label="  Net Margin"     nums={H.net_income}    denoms={H.revenue} colorClass="text-purple-300" />
-              <MetricRow label="EPS Diluted ($)"   values={H.eps}         fmt={(v) => `$${v.toFixed(2)}`} />
+              <MetricRow label="EPS Diluted ($)"   values={H.eps}         fmt={(v) => `$${v.toFixed(2)}`} provenance={HP.eps} />
               <GrowthRow  label="  EPS Growth"     values={H.eps} />
-              <MetricRow label="DPS ($)"           values={H.dps}         fmt={(v) => v > 0 ? `$${v.toFixed(2)}` : "—"} subdued />
+              <MetricRow label="DPS ($)"           values={H.dps}         fmt={(v) => v > 0 ? `$${v.toFixed(2)}` : "—"} subdued provenance={HP.dps} />
             </tbody>
           </table>
         </div>
@@ -329,6 +344,8 @@ function IncomeStatementSection({ config }: { config: ValuationConfig }) {
 function CashFlowSection({ config }: { config: ValuationConfig }) {
   const H = config.historical_is
   const B = config.baseline
+  const HP = config.provenance?.historical_is ?? {}
+  const BP = config.provenance?.baseline ?? {}
   const years = H.year.map(String)
   const n = years.length
 
@@ -354,8 +371,8 @@ function CashFlowSection({ config }: { config: ValuationConfig }) {
     <div className="space-y-6">
       {/* KPIs */}
       <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
-        <MetricCard label="Operating CF" value={n0(B.ocf)} deltaPositive={B.ocf > 0} />
-        <MetricCard label="CapEx" value={n0(B.capex)} delta={B.revenue > 0 ? pct(B.capex / B.revenue) + " of rev" : undefined} deltaPositive={false} />
+        <MetricCard label="Operating CF" value={n0(B.ocf)} provenance={BP.ocf} deltaPositive={B.ocf > 0} />
+        <MetricCard label="CapEx" value={n0(B.capex)} provenance={BP.capex} delta={B.revenue > 0 ? pct(B.capex / B.revenue) + " of rev" : undefined} deltaPositive={false} />
         <MetricCard
           label="Free Cash Flow"
           value={n0(currentFCF)}
@@ -401,11 +418,11 @@ function CashFlowSection({ config }: { config: ValuationConfig }) {
               </tr>
             </thead>
             <tbody>
-              <MetricRow label="Operating Cash Flow (OCF)" values={H.ocf}   fmt={(v) => n0(v)} highlight />
-              <MetricRow label="Capital Expenditures"       values={H.capex} fmt={(v) => `($${Math.abs(v).toLocaleString("en-US", { maximumFractionDigits: 0 })})`} subdued />
+              <MetricRow label="Operating Cash Flow (OCF)" values={H.ocf}   fmt={(v) => n0(v)} highlight provenance={HP.ocf} />
+              <MetricRow label="Capital Expenditures"       values={H.capex} fmt={(v) => `($${Math.abs(v).toLocaleString("en-US", { maximumFractionDigits: 0 })})`} subdued provenance={HP.capex} />
               <MetricRow label="Free Cash Flow (FCF)"       values={fcf}     fmt={(v) => n0(v)} highlight />
               <MarginRow  label="  FCF Margin"              nums={fcf}       denoms={H.revenue} colorClass="text-amber-300" />
-              <MetricRow label="BVPS ($)"                   values={H.bvps}  fmt={(v) => `$${v.toFixed(2)}`} subdued />
+              <MetricRow label="BVPS ($)"                   values={H.bvps}  fmt={(v) => `$${v.toFixed(2)}`} subdued provenance={HP.bvps} />
             </tbody>
           </table>
         </div>
@@ -493,9 +510,10 @@ function CashFlowSection({ config }: { config: ValuationConfig }) {
 
 // ── Balance Sheet ─────────────────────────────────────────────────────────────
 
-function BalanceSheetSection({ config }: { config: ValuationConfig }) {
+function BalanceSheetSection({ config, computed }: Props) {
   const H = config.historical_is
   const B = config.baseline
+  const BP = config.provenance?.baseline ?? {}
   const years = H.year.map(String)
 
   const marketCap = B.current_price * B.shares_diluted
@@ -511,16 +529,18 @@ function BalanceSheetSection({ config }: { config: ValuationConfig }) {
     <div className="space-y-6">
       {/* KPI cards */}
       <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
-        <MetricCard label="Total Assets"  value={n0(B.total_assets)} />
+        <MetricCard label="Total Assets"  value={n0(B.total_assets)} provenance={BP.total_assets} />
         <MetricCard
           label="Net Debt"
           value={n0(B.net_debt)}
+          provenance={BP.net_debt}
           delta={netDebtEbitda > 0 ? `${netDebtEbitda.toFixed(1)}× EBITDA` : "Net cash"}
           deltaPositive={B.net_debt < 0}
         />
         <MetricCard
           label="Total Equity"
           value={n0(B.total_equity)}
+          provenance={BP.total_equity}
           delta={`BVPS $${B.bvps.toFixed(2)}`}
           deltaPositive={B.total_equity > 0}
         />
@@ -589,6 +609,9 @@ function BalanceSheetSection({ config }: { config: ValuationConfig }) {
         </SectionCard>
       </div>
 
+      <ProjectedStatements computed={computed} />
+      <DebtScheduleTable computed={computed} />
+
       {/* BVPS trend */}
       <div className="rounded-lg border border-border bg-card p-4">
         <p className="mb-3 text-sm font-semibold text-foreground">Book Value Per Share — Historical Trend</p>
@@ -675,3 +698,128 @@ function BalanceSheetSection({ config }: { config: ValuationConfig }) {
     </div>
   )
 }
+
+// ── Projected balance sheet & cash flow ──────────────────────────────────────
+
+function ProjectedStatements({ computed }: { computed: ComputedValuations }) {
+  const { days, opening, balance, cashflow } = computed.statements
+  const rows = [opening, ...balance]
+  const years = rows.map((r, i) => (i === 0 ? `${r.year}A` : `${r.year}E`))
+  const col = <K extends keyof typeof opening>(k: K) => rows.map((r) => r[k] as number)
+  const cf = <K extends keyof (typeof cashflow)[number]>(k: K) => [null, ...cashflow.map((c) => c[k] as number)]
+  const money = (v: number) => v < 0 ? `(${n0(v)})` : n0(v)
+  const balances = rows.every((r) => Math.abs(r.balance_check) < 0.5)
+
+  return (
+    <SectionCard title="Projected Balance Sheet & Cash Flow ($M)">
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-border bg-muted/50">
+              <Th>Line Item</Th>
+              {years.map((y) => <Th key={y} right>{y}</Th>)}
+            </tr>
+          </thead>
+          <tbody>
+            <MetricRow label="Cash"                       values={col("cash")}              fmt={money} indent />
+            <MetricRow label="Receivables"                values={col("receivables")}       fmt={money} indent />
+            <MetricRow label="Inventory"                  values={col("inventory")}         fmt={money} indent />
+            <MetricRow label="PP&E, net"                  values={col("ppe")}               fmt={money} indent />
+            <MetricRow label="Other Assets"               values={col("other_assets")}      fmt={money} indent subdued />
+            <MetricRow label="Total Assets"               values={col("total_assets")}      fmt={money} highlight />
+            <MetricRow label="Payables"                   values={col("payables")}          fmt={money} indent />
+            <MetricRow label="Debt"                       values={col("debt")}              fmt={money} indent />
+            <MetricRow label="Other Liabilities"          values={col("other_liabilities")} fmt={money} indent subdued />
+            <MetricRow label="Total Liabilities"          values={col("total_liabilities")} fmt={money} />
+            <MetricRow label="Shareholders' Equity"       values={col("equity")}            fmt={money} highlight />
+            <MetricRow label="Balance Check (A − L − E)"  values={col("balance_check")}     fmt={(v) => v.toFixed(2)} subdued />
+            <tr className="border-b border-border bg-muted/30">
+              <td colSpan={years.length + 1} className="px-3 py-1.5 text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                Cash Flow Roll-Forward
+              </td>
+            </tr>
+            <MetricRow label="Net Income"                 values={cf("net_income")}         fmt={money} indent />
+            <MetricRow label="(+) D&A"                    values={cf("da")}                 fmt={money} indent />
+            {cashflow.some((c) => c.sbc > 0) && (
+              <MetricRow label="(+) Stock-Based Comp"     values={cf("sbc")}                fmt={money} indent />
+            )}
+            <MetricRow label="(–) Increase in NWC"        values={cf("delta_nwc")}          fmt={money} indent />
+            <MetricRow label="Cash from Operations"       values={cf("cfo")}                fmt={money} highlight />
+            <MetricRow label="Cash from Investing"        values={cf("cfi")}                fmt={money} />
+            <MetricRow label="Cash from Financing"        values={cf("cff")}                fmt={money} />
+            <MetricRow label="Net Change in Cash"         values={cf("net_change_cash")}    fmt={money} highlight />
+          </tbody>
+        </table>
+      </div>
+      <p className="px-4 py-2 text-[10px] text-muted-foreground border-t border-border bg-muted/10">
+        {days
+          ? `Working capital driven by base-year days: DSO ${days.dso.toFixed(0)}, DIO ${days.dio.toFixed(0)}, DPO ${days.dpo.toFixed(0)}.`
+          : "No receivables, inventory or payables reported — working capital investment uses the NWC % of revenue assumption and accumulates in other assets."}
+        {" "}PP&E rolls forward with capex less D&A; equity with net income less dividends (plus SBC when it is not a cash cost); cash is the cash flow plug.
+        {balances ? " Balance sheet balances in every year." : " Balance sheet does not balance — check inputs."}
+      </p>
+    </SectionCard>
+  )
+}
+
+// ── Debt schedule ────────────────────────────────────────────────────────────
+
+function DebtScheduleTable({ computed }: { computed: ComputedValuations }) {
+  const rows = computed.proforma.map((r) => r.debt)
+  if (rows.length === 0) return null
+  const years = rows.map((r) => `${r.year}E`)
+  const money = (v: number) => v < 0 ? `(${n0(v)})` : n0(v)
+  const names = rows[0].tranches.map((t) => t.name)
+  const hasRevolver = rows.some((r) => r.revolver_opening > 0 || r.revolver_closing > 0)
+  const maxIterations = Math.max(...rows.map((r) => r.iterations))
+
+  return (
+    <SectionCard title="Debt Schedule ($M)">
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-border bg-muted/50">
+              <Th>Line Item</Th>
+              {years.map((y) => <Th key={y} right>{y}</Th>)}
+            </tr>
+          </thead>
+          <tbody>
+            <MetricRow label="Opening Debt" values={rows.map((r) => r.opening_debt)} fmt={money} />
+            {names.map((name, i) => (
+              <MetricRow
+                key={name}
+                label={`${name} — repayment`}
+                values={rows.map((r) => -(r.tranches[i].repayment + r.tranches[i].sweep))}
+                fmt={money}
+                indent
+                subdued
+              />
+            ))}
+            {hasRevolver && (
+              <MetricRow label="Revolver draw / (repayment)" values={rows.map((r) => r.revolver_draw)} fmt={money} indent />
+            )}
+            <MetricRow label="Closing Debt"        values={rows.map((r) => r.closing_debt)}  fmt={money} highlight />
+            <MetricRow label="Net Borrowing"       values={rows.map((r) => r.net_borrowing)} fmt={money} />
+            <MetricRow label="Interest Expense"    values={rows.map((r) => r.interest)}      fmt={money} />
+            <MetricRow label="Closing Cash"        values={rows.map((r) => r.cash_closing)}  fmt={money} />
+            <MetricRow label="  Minimum Cash"      values={rows.map((r) => r.min_cash)}     fmt={money} indent subdued />
+            <tr className="border-b border-border/40 hover:bg-muted/20">
+              <td className="px-3 py-2 text-xs text-muted-foreground">Synthetic Rating</td>
+              {computed.proforma.map((r) => (
+                <td key={r.year} className="px-3 py-2 text-right font-mono text-xs text-muted-foreground">{r.rating}</td>
+              ))}
+            </tr>
+            <MetricRow label="Cost of New Debt" values={computed.proforma.map((r) => r.kd)} fmt={(v) => pct(v, 2)} subdued />
+          </tbody>
+        </table>
+      </div>
+      <p className="px-4 py-2 text-[10px] text-muted-foreground border-t border-border bg-muted/10">
+        Interest on average balances; the interest ↔ cash flow circularity is solved by iteration
+        ({maxIterations} iteration{maxIterations === 1 ? "" : "s"} at most). Repayments include scheduled amortization,
+        maturities and any cash sweep; the revolver funds shortfalls below minimum cash. Revolver borrowing
+        is priced at rf + the synthetic-rating spread for the prior year&apos;s coverage and leverage, unless a manual
+        cost of debt is set.
+      </p>
+    </SectionCard>
+  )
+}
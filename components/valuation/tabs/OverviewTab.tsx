@@ -6,11 +6,17 @@ import {
 } from "recharts"
 import { MetricCard } from "../shared/MetricCard"
 import { ConsensusSignal, SignalBadge } from "../shared/SignalBadge"
-import type { ValuationConfig } from "@/types/valuation"
+import type { IssueSeverity, ValuationConfig } from "@/types/valuation"
 import type { ComputedValuations } from "@/lib/valuation/calculations"
 
 const SEG_COLORS = ["#2563EB", "#16A34A", "#DC2626", "#9333EA", "#EA580C", "#0891B2", "#CA8A04", "#BE185D"]
 
+const ISSUE_STYLE: Record<IssueSeverity, string> = {
+  error:   "bg-sell/15 text-sell",
+  warning: "bg-hold/15 text-hold",
+  info:    "bg-muted text-muted-foreground",
+}
+
 interface Props {
   config: ValuationConfig
   computed: ComputedValuations
@@ -23,7 +29,7 @@ export function OverviewTab({ config, computed }: Props) {
     segments: config.segments,
     overview_metrics: config.overview_metrics,
   }
-  const { signalRows, finalSignal, buys, holds, sells } = computed
+  const { signalRows, finalSignal, buys, holds, sells, dataIssues } = computed
 
   const histData = H.year.map((y, i) => ({
     year: String(y),
@@ -48,6 +54,26 @@ export function OverviewTab({ config, computed }: Props) {
       {/* Consensus signal */}
       <ConsensusSignal signal={finalSignal} buys={buys} holds={holds} sells={sells} currentPrice={B.current_price} />
 
+      {/* Data quality */}
+      {dataIssues.length > 0 && (
+        <div className="rounded-lg border border-border bg-card p-4">
+          <p className="mb-2 text-sm font-semibold text-foreground">Data Quality</p>
+          <ul className="space-y-1">
+            {dataIssues.map((issue, i) => (
+              <li key={`${issue.code}-${i}`} className="flex items-start gap-2 text-xs">
+                <span className={`shrink-0 rounded px-1.5 py-0.5 font-semibold uppercase ${ISSUE_STYLE[issue.severity]}`}>
+                  {issue.severity}
+                </span>
+                <span className="text-foreground">{issue.message}</span>
+                {issue.severity === "error" && issue.models.length > 0 && (
+                  <span className="text-muted-foreground">— {issue.models.join(", ")} marked N/A</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Signal table */}
       <div className="rounded-lg border border-border overflow-hidden">
         <table className="w-full text-sm">
@@ -60,7 +86,16 @@ export function OverviewTab({ config, computed }: Props) {
             </tr>
           </thead>
           <tbody className="divide-y divide-border">
-            {signalRows.map((row) => (
+            {signalRows.map((row) => row.blockedBy ? (
+              <tr key={row.method} title={row.blockedBy.join("\n")} className="cursor-help text-muted-foreground">
+                <td className="px-4 py-2 font-medium">{row.method}</td>
+                <td className="px-4 py-2 text-right font-mono">—</td>
+                <td className="px-4 py-2 text-right text-xs">{row.blockedBy[0]}</td>
+                <td className="px-4 py-2 text-center">
+                  <SignalBadge signal={row.signal} size="sm" />
+                </td>
+              </tr>
+            ) : (
               <tr key={row.method} className="hover:bg-muted/30 transition-colors">
                 <td className="px-4 py-2 font-medium text-foreground">{row.method}</td>
                 <td className="px-4 py-2 text-right font-mono text-foreground">${row.intrinsicValue.toLocaleString(undefined, { maximumFractionDigits: 2 })}</td>
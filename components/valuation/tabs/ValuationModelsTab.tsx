@@ -14,8 +14,13 @@ import { PCFTab } from "./models/PCFTab"
 import { MonteCarloTab } from "./models/MonteCarloTab"
 import { ReverseDCFTab } from "./models/ReverseDCFTab"
 import { ScenarioTab } from "./models/ScenarioTab"
+import { SensitivityTab } from "./models/SensitivityTab"
 import { SOTPTab } from "./models/SOTPTab"
-import type { ValuationConfig, Assumptions } from "@/types/valuation"
+import { ExcessReturnTab } from "./models/ExcessReturnTab"
+import { PTBVTab } from "./models/PTBVTab"
+import { FFOTab } from "./models/FFOTab"
+import { NAVTab } from "./models/NAVTab"
+import type { ValuationConfig, Assumptions, ModelSet } from "@/types/valuation"
 import type { ComputedValuations, MonteCarloResults } from "@/lib/valuation/calculations"
 import { cn } from "@/lib/utils"
 import { useState } from "react"
@@ -27,10 +32,11 @@ function TabGroup({
   stickyTop = "top-[41px]",
 }: {
   tabs: string[]
-  children: (activeIdx: number) => React.ReactNode
+  children: (active: string) => React.ReactNode
   stickyTop?: string
 }) {
   const [active, setActive] = useState(0)
+  const idx = active < tabs.length ? active : 0
   return (
     <div>
       <div className={cn("sticky z-10 flex gap-1 border-b border-border px-4 pt-3 pb-0 overflow-x-auto bg-background", stickyTop)}>
@@ -40,7 +46,7 @@ function TabGroup({
             onClick={() => setActive(i)}
             className={cn(
               "whitespace-nowrap px-4 py-2 text-sm font-medium rounded-t-md border-b-2 transition-colors",
-              active === i
+              idx === i
                 ? "border-blue-500 text-blue-400 bg-blue-500/5"
                 : "border-transparent text-muted-foreground hover:text-foreground hover:bg-muted/50",
             )}
@@ -49,7 +55,7 @@ function TabGroup({
           </button>
         ))}
       </div>
-      <div>{children(active)}</div>
+      <div>{children(tabs[idx])}</div>
     </div>
   )
 }
@@ -69,7 +75,23 @@ type Category = (typeof CATEGORY_TABS)[number]
 
 const CORE_TABS      = ["DCF (FCFF)", "FCFE", "Residual Income", "DDM", "Reverse DCF"]
 const MULTIPLES_TABS = ["P/E", "EV/EBITDA", "PEG", "P/B", "Revenue", "P/CF"]
-const ADVANCED_TABS  = ["Monte Carlo", "SOTP", "Football Field", "Scenario"]
+const ADVANCED_TABS  = ["Monte Carlo", "SOTP", "Football Field", "Scenario", "Sensitivity"]
+
+// Banks and insurers: cash-flow and EV models don't apply (debt is raw material, not financing)
+const FINANCIAL_CORE_TABS      = ["Excess Return", "Residual Income", "DDM"]
+const FINANCIAL_MULTIPLES_TABS = ["P/E", "P/TBV vs ROTE", "PEG", "P/B"]
+const FINANCIAL_ADVANCED_TABS  = ["Monte Carlo", "Football Field", "Scenario", "Sensitivity"]
+
+// REITs: FFO/AFFO replace EPS multiples; NAV leads the intrinsic models
+const REIT_CORE_TABS      = ["NAV", "DCF (FCFF)", "FCFE", "DDM", "Reverse DCF"]
+const REIT_MULTIPLES_TABS = ["P/FFO & P/AFFO", "EV/EBITDA", "P/B", "P/CF"]
+const REIT_ADVANCED_TABS  = ["Monte Carlo", "Football Field", "Scenario", "Sensitivity"]
+
+const TABS_BY_SET: Record<ModelSet, Record<Category, string[]>> = {
+  standard:  { Core: CORE_TABS, Multiples: MULTIPLES_TABS, Advanced: ADVANCED_TABS },
+  financial: { Core: FINANCIAL_CORE_TABS, Multiples: FINANCIAL_MULTIPLES_TABS, Advanced: FINANCIAL_ADVANCED_TABS },
+  reit:      { Core: REIT_CORE_TABS, Multiples: REIT_MULTIPLES_TABS, Advanced: REIT_ADVANCED_TABS },
+}
 
 interface Props {
   config: ValuationConfig
@@ -81,6 +103,7 @@ interface Props {
 
 export function ValuationModelsTab({ config, computed, assumptions, mcResults, onMcComplete }: Props) {
   const [category, setCategory] = useState<Category>("Core")
+  const tabs = TABS_BY_SET[computed.modelSet]
 
   return (
     <div>
@@ -104,14 +127,16 @@ export function ValuationModelsTab({ config, computed, assumptions, mcResults, o
 
       {/* Core */}
       {category === "Core" && (
-        <TabGroup tabs={CORE_TABS} stickyTop="top-[41px]">
-          {(i) => (
+        <TabGroup tabs={tabs.Core} stickyTop="top-[41px]">
+          {(t) => (
             <>
-              {i === 0 && <DCFTab config={config} computed={computed} />}
-              {i === 1 && <FCFETab config={config} computed={computed} />}
-              {i === 2 && <ResidualIncomeTab config={config} computed={computed} />}
-              {i === 3 && <DDMTab config={config} computed={computed} />}
-              {i === 4 && <ReverseDCFTab config={config} computed={computed} />}
+              {t === "DCF (FCFF)" && <DCFTab config={config} computed={computed} />}
+              {t === "FCFE" && <FCFETab config={config} computed={computed} />}
+              {t === "Excess Return" && <ExcessReturnTab config={config} computed={computed} />}
+              {t === "NAV" && <NAVTab config={config} computed={computed} />}
+              {t === "Residual Income" && <ResidualIncomeTab config={config} computed={computed} />}
+              {t === "DDM" && <DDMTab config={config} computed={computed} />}
+              {t === "Reverse DCF" && <ReverseDCFTab config={config} computed={computed} />}
             </>
           )}
         </TabGroup>
@@ -119,15 +144,17 @@ export function ValuationModelsTab({ config, computed, assumptions, mcResults, o
 
       {/* Multiples */}
       {category === "Multiples" && (
-        <TabGroup tabs={MULTIPLES_TABS} stickyTop="top-[41px]">
-          {(i) => (
+        <TabGroup tabs={tabs.Multiples} stickyTop="top-[41px]">
+          {(t) => (
             <>
-              {i === 0 && <PETab config={config} computed={computed} />}
-              {i === 1 && <EVEBITDATab config={config} computed={computed} />}
-              {i === 2 && <PEGTab config={config} computed={computed} />}
-              {i === 3 && <PBTab config={config} computed={computed} />}
-              {i === 4 && <RevenueTab config={config} computed={computed} />}
-              {i === 5 && <PCFTab config={config} computed={computed} />}
+              {t === "P/E" && <PETab config={config} computed={computed} />}
+              {t === "EV/EBITDA" && <EVEBITDATab config={config} computed={computed} />}
+              {t === "P/TBV vs ROTE" && <PTBVTab config={config} computed={computed} />}
+              {t === "P/FFO & P/AFFO" && <FFOTab config={config} computed={computed} />}
+              {t === "PEG" && <PEGTab config={config} computed={computed} />}
+              {t === "P/B" && <PBTab config={config} computed={computed} />}
+              {t === "Revenue" && <RevenueTab config={config} computed={computed} />}
+              {t === "P/CF" && <PCFTab config={config} computed={computed} />}
             </>
           )}
         </TabGroup>
@@ -135,13 +162,14 @@ export function ValuationModelsTab({ config, computed, assumptions, mcResults, o
 
       {/* Advanced */}
       {category === "Advanced" && (
-        <TabGroup tabs={ADVANCED_TABS} stickyTop="top-[41px]">
-          {(i) => (
+        <TabGroup tabs={tabs.Advanced} stickyTop="top-[41px]">
+          {(t) => (
             <>
-              {i === 0 && <MonteCarloTab config={config} computed={computed} onComplete={onMcComplete} />}
-              {i === 1 && <SOTPTab config={config} computed={computed} />}
-              {i === 2 && <FootballFieldTab config={config} computed={computed} mcResults={mcResults} />}
-              {i === 3 && <ScenarioTab config={config} computed={computed} />}
+              {t === "Monte Carlo" && <MonteCarloTab config={config} computed={computed} onComplete={onMcComplete} />}
+              {t === "SOTP" && <SOTPTab config={config} computed={computed} />}
+              {t === "Football Field" && <FootballFieldTab config={config} computed={computed} mcResults={mcResults} />}
+              {t === "Scenario" && <ScenarioTab config={config} computed={computed} />}
+              {t === "Sensitivity" && <SensitivityTab config={config} computed={computed} />}
             </>
           )}
         </TabGroup>
@@ -1,15 +1,103 @@
 "use client"
 
-import { useState } from "react"
-import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts"
+import {
+  AreaChart, Area, BarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer,
+} from "recharts"
 import { MetricCard } from "../../shared/MetricCard"
 import { SensitivityTable } from "../../shared/SensitivityTable"
-import { dcfPrice, fmtUsd, fmtPct, buildProforma, buildGrowthSchedule } from "@/lib/valuation/calculations"
+import {
+  dcfPrice, discountSchedule, computeTerminalValue, equityPerShare, fmtUsd, fmtPct, buildProforma, buildGrowthSchedule,
+} from "@/lib/valuation/calculations"
+import { evBridge, equityFromEV } from "@/lib/valuation/evBridge"
 import { useScenario } from "@/context/ScenarioContext"
-import type { ValuationConfig } from "@/types/valuation"
+import type { EVBridge, EVBridgeItem, TerminalValueMethod, ValuationConfig } from "@/types/valuation"
 import type { ComputedValuations } from "@/lib/valuation/calculations"
 
-type TVMethod = "Perpetuity Growth" | "Exit Multiple" | "Average"
+const TV_METHODS: { key: TerminalValueMethod; label: string }[] = [
+  { key: "perpetuity",    label: "Perpetuity Growth" },
+  { key: "exit_multiple", label: "Exit Multiple" },
+  { key: "blend",         label: "Blend" },
+]
+
+// TV share of EV above these levels makes the DCF mostly a terminal-value bet
+const TV_SHARE_CAUTION = 0.75
+const TV_SHARE_HIGH    = 0.85
+
+// ── EV → equity waterfall ────────────────────────────────────────────────────
+
+interface WaterfallStep {
+  label: string
+  base: number     // invisible offset the visible bar floats on
+  value: number    // visible bar height
+  color: string
+}
+
+function waterfallSteps(ev: number, bridge: EVBridge): WaterfallStep[] {
+  const steps: WaterfallStep[] = [{ label: "Enterprise Value", base: 0, value: ev, color: "#2563EB" }]
+  let running = ev
+  for (const line of bridge.lines) {
+    if (!line.included || line.amount === 0) continue
+    const next = running + line.amount
+    steps.push({
+      label: line.label,
+      base: Math.min(running, next),
+      value: Math.abs(line.amount),
+      color: line.amount < 0 ? "#EF4444" : "#22C55E",
+    })
+    running = next
+  }
+  steps.push({ label: "Equity Value", base: 0, value: equityFromEV(ev, bridge), color: "#0D9488" })
+  return steps
+}
+
+function BridgeWaterfall({ ev, bridge, onToggle }: {
+  ev: number
+  bridge: EVBridge
+  onToggle: (item: EVBridgeItem, included: boolean) => void
+}) {
+  const steps = waterfallSteps(ev, bridge)
+  const optional = bridge.lines.filter((l) => l.key !== "total_debt" && l.key !== "cash")
+
+  return (
+    <div className="rounded-lg border border-border bg-card p-4">
+      <p className="mb-3 text-sm font-semibold text-foreground">Enterprise Value → Equity Value</p>
+      <ResponsiveContainer width="100%" height={220}>
+        <BarChart data={steps} margin={{ top: 4, right: 8, left: 0, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+          <XAxis dataKey="label" tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 10 }} interval={0} />
+          <YAxis tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 11 }} />
+          <Tooltip
+            contentStyle={{ background: "hsl(var(--card))", border: "1px solid hsl(var(--border))", borderRadius: 6, color: "hsl(var(--foreground))" }}
+            formatter={(v: number) => [fmtUsd(v) + "M"]}
+          />
+          <Bar dataKey="base" stackId="w" fill="transparent" tooltipType="none" />
+          <Bar dataKey="value" stackId="w" radius={[2, 2, 0, 0]}>
+            {steps.map((s) => <Cell key={s.label} fill={s.color} />)}
+          </Bar>
+        </BarChart>
+      </ResponsiveContainer>
+      {optional.length > 0 && (
+        <div className="mt-3 flex flex-wrap gap-x-4 gap-y-1">
+          {optional.map((l) => (
+            <label
+              key={l.key}
+              title={l.key === "operating_leases" ? "Off by default under US GAAP, where operating lease cost is already in EBITDA and FCFF" : undefined}
+              className="flex items-center gap-1.5 text-xs text-muted-foreground cursor-pointer"
+            >
+              <input
+                type="checkbox"
+                checked={l.included}
+                onChange={(e) => onToggle(l.key as EVBridgeItem, e.target.checked)}
+                className="h-3.5 w-3.5 accent-blue-500"
+              />
+              {l.label} ({fmtUsd(Math.abs(l.amount))}M)
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
 
 interface Props {
   config: ValuationConfig
@@ -18,30 +106,47 @@ interface Props {
 
 export function DCFTab({ config, computed }: Props) {
   // ── Live assumptions from context — reacts to Base/Bull/Bear toggle ──
-  const { assumptions: a } = useScenario()
+  const { assumptions: a, setAssumption } = useScenario()
   const B = config.baseline
-  const [tvMethod, setTvMethod] = useState<TVMethod>("Average")
+  const tvMethod = a.tv_method ?? "blend"
 
   // Recompute proforma from live scenario assumptions — not the cached computed prop
   const proforma = buildProforma(B, buildGrowthSchedule(a), a)
 
   const fcffs = proforma.map((r) => r.fcff)
+  const schedule = discountSchedule(B, a, fcffs.length)
   const lastEbitda = proforma[proforma.length - 1].ebitda
 
-  const tvPerp = a.wacc > a.terminal_g
-    ? (fcffs[fcffs.length - 1] * (1 + a.terminal_g)) / (a.wacc - a.terminal_g)
-    : 0
-  const tvExit = lastEbitda * a.exit_mult
-  const tvAvg = (tvPerp + tvExit) / 2
-  const tvMap: Record<TVMethod, number> = { "Perpetuity Growth": tvPerp, "Exit Multiple": tvExit, Average: tvAvg }
-  const tv = tvMap[tvMethod]
+  const terminal = computeTerminalValue(fcffs[fcffs.length - 1], lastEbitda, a.wacc, a, schedule)
+  const tv = terminal.tv
 
-  const { pps, ev, pvFcfs, pvTv } = dcfPrice(fcffs, tv, a.wacc, B.net_debt, B.shares_diluted)
+  const bridge = evBridge(B, a)
+  const { ev, pvFcfs, pvTv } = dcfPrice(fcffs, tv, a.wacc, bridge.net_claims, B.shares_diluted, schedule)
+  const equityValue = equityFromEV(ev, bridge)
+  const { pps, count } = equityPerShare(equityValue, B, a)
   const vsMarket = B.current_price > 0 ? ((pps / B.current_price) - 1) * 100 : 0
 
   // Issue 11: Terminal Value % of total EV
   const tvPct = (pvFcfs + pvTv) > 0 ? pvTv / (pvFcfs + pvTv) : 0
-  const tvPctHigh = tvPct > 0.80
+  const tvPctHigh = tvPct > TV_SHARE_CAUTION
+
+  // Cross-checks: each TV method's implied counterpart
+  const peerEvm = computed.medianEvm
+  const multipleGap = peerEvm > 0 && terminal.impliedExitMultiple > 0 ? terminal.impliedExitMultiple / peerEvm - 1 : 0
+  const crossChecks = [
+    {
+      label: "Implied exit EV/EBITDA of perpetuity TV",
+      value: terminal.impliedExitMultiple > 0 ? `${terminal.impliedExitMultiple.toFixed(1)}×` : "N/A (WACC ≤ g)",
+      note: peerEvm > 0 ? `vs ${a.exit_mult.toFixed(1)}× assumed, ${peerEvm.toFixed(1)}× peer median` : `vs ${a.exit_mult.toFixed(1)}× assumed`,
+      warn: Math.abs(multipleGap) > 0.5,
+    },
+    {
+      label: "Implied perpetual growth of exit-multiple TV",
+      value: fmtPct(terminal.impliedGrowth, 2),
+      note: `vs ${fmtPct(a.terminal_g, 2)} assumed`,
+      warn: terminal.impliedGrowth > 0.05 || terminal.impliedGrowth >= a.wacc || terminal.impliedGrowth < 0,
+    },
+  ]
 
   // Issue 8: WACC comparison — manual vs CAPM
   const waccDiff = Math.abs(a.wacc - computed.wacc_calc)
@@ -53,9 +158,9 @@ export function DCFTab({ config, computed }: Props) {
   const sensData = wacc_r.map((w) =>
     tg_r.map((tg) => {
       if (w <= tg) return "N/A"
-      const tvS = (fcffs[fcffs.length - 1] * (1 + tg)) / (w - tg)
-      const { pps: p } = dcfPrice(fcffs, tvS, w, B.net_debt, B.shares_diluted)
-      return fmtUsd(p)
+      const tvS = computeTerminalValue(fcffs[fcffs.length - 1], lastEbitda, w, { ...a, terminal_g: tg }, schedule).tv
+      const { ev: evS } = dcfPrice(fcffs, tvS, w, bridge.net_claims, B.shares_diluted, schedule)
+      return fmtUsd(equityPerShare(equityFromEV(evS, bridge), B, a).pps)
     }),
   )
 
@@ -74,37 +179,64 @@ export function DCFTab({ config, computed }: Props) {
 
       {/* TV method selector */}
       <div className="flex gap-2">
-        {(["Perpetuity Growth", "Exit Multiple", "Average"] as TVMethod[]).map((m) => (
+        {TV_METHODS.map((m) => (
           <button
-            key={m}
-            onClick={() => setTvMethod(m)}
+            key={m.key}
+            onClick={() => setAssumption("tv_method", m.key)}
             className={`px-4 py-1.5 rounded-md text-xs font-semibold border transition-colors ${
-              tvMethod === m
+              tvMethod === m.key
                 ? "bg-blue-500/20 border-blue-500/40 text-blue-400"
                 : "bg-transparent border-border text-muted-foreground hover:text-foreground"
             }`}
           >
-            {m}
+            {m.key === "blend" ? `${m.label} (${Math.round((a.tv_blend_weight ?? 0.5) * 100)}% perpetuity)` : m.label}
           </button>
         ))}
       </div>
+      {terminal.method !== tvMethod && (
+        <p className="text-xs text-amber-400">WACC ≤ terminal growth — perpetuity TV undefined, using the exit multiple.</p>
+      )}
 
       {/* KPIs */}
       <div className="grid grid-cols-2 gap-3 sm:grid-cols-5">
         <MetricCard label="Enterprise Value" value={fmtUsd(ev) + "M"} />
-        <MetricCard label="Equity Value" value={fmtUsd(ev - B.net_debt) + "M"} />
+        <MetricCard label="Equity Value" value={fmtUsd(equityValue) + "M"} />
         <MetricCard label="Price / Share" value={fmtUsd(pps, 2)} delta={`${vsMarket >= 0 ? "+" : ""}${vsMarket.toFixed(1)}% vs market`} deltaPositive={vsMarket >= 0} />
         <MetricCard label="Terminal Value" value={fmtUsd(tv) + "M"} />
         {/* Issue 11: TV% disclosure */}
         <MetricCard
           label="TV / Total EV"
           value={`${(tvPct * 100).toFixed(0)}%`}
-          delta={tvPctHigh ? "TV dominates — sensitive to g and WACC" : undefined}
+          delta={tvPct > TV_SHARE_HIGH ? "TV dominates — value rests on g and WACC" : tvPctHigh ? "TV-heavy — sensitive to g and WACC" : undefined}
           deltaPositive={false}
           className={tvPctHigh ? "border-amber-500/40 bg-amber-500/5" : undefined}
         />
       </div>
 
+      {/* TV cross-checks */}
+      <div className="rounded-lg border border-border overflow-hidden">
+        <p className="px-4 py-2 text-sm font-semibold text-foreground border-b border-border bg-muted/30">
+          Terminal Value Cross-Checks
+        </p>
+        <table className="w-full text-sm font-mono">
+          <tbody className="divide-y divide-border">
+            {[
+              { label: "Perpetuity-growth TV", value: terminal.gordon > 0 ? fmtUsd(terminal.gordon) + "M" : "N/A", note: `g = ${fmtPct(a.terminal_g, 2)}`, warn: false },
+              { label: "Exit-multiple TV", value: fmtUsd(terminal.exit) + "M", note: `${a.exit_mult.toFixed(1)}× EBITDA`, warn: false },
+              ...crossChecks,
+            ].map(({ label, value, note, warn }) => (
+              <tr key={label} className="hover:bg-muted/30">
+                <td className="px-4 py-2 text-muted-foreground text-xs font-sans">{label}</td>
+                <td className="px-4 py-2 text-right text-xs text-muted-foreground font-sans">{note}</td>
+                <td className={`px-4 py-2 text-right font-semibold ${warn ? "text-amber-400" : "text-foreground"}`}>
+                  {warn && "⚠ "}{value}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
       {/* Issue 8: WACC comparison note */}
       <div className={`flex items-center gap-2 rounded-md px-3 py-2 text-xs font-mono border ${waccDiffers ? "border-amber-500/40 bg-amber-500/5 text-amber-400" : "border-border bg-muted/20 text-muted-foreground"}`}>
         <span>Manual WACC (used in DCF): {fmtPct(a.wacc)}</span>
@@ -127,9 +259,19 @@ export function DCFTab({ config, computed }: Props) {
               ["PV of FCFFs", fmtUsd(pvFcfs) + "M"],
               ["PV of Terminal Value", fmtUsd(pvTv) + "M"],
               ["Enterprise Value", fmtUsd(ev) + "M"],
-              ["Less: Net Debt", `(${fmtUsd(B.net_debt)}M)`],
-              ["Equity Value", fmtUsd(ev - B.net_debt) + "M"],
+              ...bridge.lines
+                .filter((l) => l.included)
+                .map((l) => [l.amount < 0 ? `Less: ${l.label}` : `Plus: ${l.label}`,
+                             l.amount < 0 ? `(${fmtUsd(-l.amount)}M)` : fmtUsd(l.amount) + "M"]),
+              ["Equity Value", fmtUsd(equityValue) + "M"],
+              count.tsm
+                ? [`÷ Diluted Shares (TSM, ${count.iterations} iter.)`,
+                   `${count.shares.toFixed(1)}M = ${count.basic.toFixed(1)} basic + ${count.rsus.toFixed(1)} RSUs + ${count.options_itm.toFixed(1)} options`]
+                : ["÷ Diluted Shares", count.shares.toFixed(1) + "M"],
               ["Price / Share", fmtUsd(pps, 2)],
+              ...(B.sbc
+                ? [["SBC (last FY)", `${fmtUsd(B.sbc)}M · ${a.sbc_as_cash ?? true ? "cash cost" : "added back to FCFF"}`]]
+                : []),
             ].map(([label, value]) => (
               <tr key={label} className="hover:bg-muted/30">
                 <td className="px-4 py-2 text-muted-foreground text-xs font-sans">{label}</td>
@@ -140,6 +282,13 @@ export function DCFTab({ config, computed }: Props) {
         </table>
       </div>
 
+      {/* EV bridge waterfall */}
+      <BridgeWaterfall
+        ev={ev}
+        bridge={bridge}
+        onToggle={(item, included) => setAssumption("ev_bridge", { ...a.ev_bridge, [item]: included })}
+      />
+
       {/* Projection table */}
       <div className="rounded-lg border border-border overflow-hidden">
         <p className="px-4 py-2 text-sm font-semibold text-foreground border-b border-border bg-muted/30">
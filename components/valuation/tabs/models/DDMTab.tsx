@@ -5,7 +5,7 @@ import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContai
 import { MetricCard } from "../../shared/MetricCard"
 import { SensitivityTable } from "../../shared/SensitivityTable"
 import {
-  computeWACC, computeHModelDDM,
+  computeHModelDDM, discountSchedule, presentValue,
   buildProforma, buildGrowthSchedule, fmtUsd, fmtPct,
 } from "@/lib/valuation/calculations"
 import { useScenario } from "@/context/ScenarioContext"
@@ -34,21 +34,17 @@ export function DDMTab({ config, computed }: Props) {
     )
   }
 
-  const marketCap = B.current_price * B.shares_diluted
-  const { ke } = computeWACC(
-    a.rf ?? 0.043, a.beta ?? 1.0, a.erp ?? 0.055,
-    a.cost_of_debt ?? 0.045, a.tax_rate ?? B.tax_rate,
-    marketCap, B.total_debt,
-  )
+  const ke = computed.ke_calc
 
   const proforma = buildProforma(B, buildGrowthSchedule(a), a)
   const divProj = proforma.map((r) => (B.shares_diluted ? r.dividends / B.shares_diluted : 0))
 
   // 2-Stage DDM
-  const pvDivs = divProj.reduce((acc, d, i) => acc + d / (1 + ke) ** (i + 1), 0)
+  const schedule = discountSchedule(B, a, divProj.length)
+  const pvDivs = presentValue(divProj, ke, schedule)
   const finalDiv = divProj[divProj.length - 1] * (1 + a.terminal_g)
   const tvDdm = ke > a.terminal_g ? finalDiv / (ke - a.terminal_g) : 0
-  const pvTvDdm = tvDdm / (1 + ke) ** a.proj_years_n
+  const pvTvDdm = tvDdm / (1 + ke) ** schedule.tvPeriod
   const pps_2stage = pvDivs + pvTvDdm
 
   // H-Model DDM
@@ -64,7 +60,7 @@ export function DDMTab({ config, computed }: Props) {
     tg_r.map((tg) => {
       if (k <= tg) return "N/A"
       const p = variant === "2-Stage"
-        ? divProj.reduce((acc, d, i) => acc + d / (1 + k) ** (i + 1), 0) + (divProj[divProj.length - 1] * (1 + tg)) / (k - tg) / (1 + k) ** a.proj_years_n
+        ? presentValue(divProj, k, schedule) + (divProj[divProj.length - 1] * (1 + tg)) / (k - tg) / (1 + k) ** schedule.tvPeriod
         : computeHModelDDM(B, { ...a, terminal_g: tg }, k)
       return p > 0 ? fmtUsd(p) : "N/A"
     }),
@@ -111,7 +107,7 @@ export function DDMTab({ config, computed }: Props) {
 
       {/* KPIs */}
       <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
-        <MetricCard label="DPS (TTM)" value={fmtUsd(B.dps, 2)} />
+        <MetricCard label="DPS (TTM)" value={fmtUsd(B.dps, 2)} provenance={config.provenance?.baseline.dps} />
         <MetricCard label="ke (CAPM)" value={fmtPct(ke)} />
         <MetricCard label="Dividend Yield" value={B.current_price > 0 ? fmtPct(B.dps / B.current_price) : "N/A"} />
         <MetricCard
@@ -166,7 +162,7 @@ export function DDMTab({ config, computed }: Props) {
             <tbody className="divide-y divide-border">
               {proforma.map((r, i) => {
                 const d = divProj[i] ?? 0
-                const pv = d / (1 + ke) ** (i + 1)
+                const pv = (d * (i === 0 ? schedule.stub : 1)) / (1 + ke) ** schedule.periods[i]
                 return (
                   <tr key={r.year} className="hover:bg-muted/30">
                     <td className="px-3 py-1.5 text-foreground font-semibold">{r.year}</td>
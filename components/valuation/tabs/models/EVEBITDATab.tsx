@@ -2,7 +2,7 @@
 
 import { MetricCard } from "../../shared/MetricCard"
 import { SensitivityTable } from "../../shared/SensitivityTable"
-import { fmtUsd, fmtPct } from "@/lib/valuation/calculations"
+import { equityPerShare, fmtUsd, fmtPct } from "@/lib/valuation/calculations"
 import { useScenario } from "@/context/ScenarioContext"
 import type { ValuationConfig } from "@/types/valuation"
 import type { ComputedValuations } from "@/lib/valuation/calculations"
@@ -16,13 +16,11 @@ export function EVEBITDATab({ config, computed }: Props) {
   const { assumptions: a } = useScenario()
   const B = config.baseline
 
-  const pps_ebitda = B.shares_diluted
-    ? (B.adj_ebitda * computed.medianEvm - B.net_debt) / B.shares_diluted
-    : 0
+  const pps_ebitda = computed.pps_ebitda
   const ev = B.adj_ebitda * computed.medianEvm
   const vsMarket = B.current_price > 0 ? ((pps_ebitda / B.current_price) - 1) * 100 : 0
   const currentEvEbitda = B.adj_ebitda > 0
-    ? (B.current_price * B.shares_diluted + B.net_debt) / B.adj_ebitda
+    ? (B.current_price * B.shares_diluted + computed.bridge.net_claims) / B.adj_ebitda
     : 0
 
   // Sensitivity: EV/EBITDA multiple vs EBITDA margin
@@ -31,7 +29,7 @@ export function EVEBITDATab({ config, computed }: Props) {
   const sensData = mult_r.map((m) =>
     margin_r.map((margin) => {
       const adj_ebitda = B.revenue * margin
-      const p = B.shares_diluted ? (adj_ebitda * m - B.net_debt) / B.shares_diluted : 0
+      const p = B.shares_diluted ? equityPerShare(adj_ebitda * m - computed.bridge.net_claims, B, a).pps : 0
       return fmtUsd(p)
     }),
   )
@@ -46,7 +44,7 @@ export function EVEBITDATab({ config, computed }: Props) {
 
       {/* KPIs */}
       <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
-        <MetricCard label="EBITDA" value={fmtUsd(B.adj_ebitda) + "M"} />
+        <MetricCard label="EBITDA" value={fmtUsd(B.adj_ebitda) + "M"} provenance={config.provenance?.baseline.adj_ebitda} />
         <MetricCard label="Current EV/EBITDA" value={currentEvEbitda > 0 ? currentEvEbitda.toFixed(1) + "×" : "N/A"} />
         <MetricCard label="Median Peer EV/EBITDA" value={computed.medianEvm.toFixed(1) + "×"} />
         <MetricCard
@@ -68,8 +66,8 @@ export function EVEBITDATab({ config, computed }: Props) {
               ["EBITDA", fmtUsd(B.adj_ebitda) + "M"],
               ["Median Peer EV/EBITDA", computed.medianEvm.toFixed(1) + "×"],
               ["Implied Enterprise Value", fmtUsd(ev) + "M"],
-              ["Less: Net Debt", `(${fmtUsd(B.net_debt)}M)`],
-              ["Equity Value", fmtUsd(ev - B.net_debt) + "M"],
+              ["Less: Net Debt & Other Claims", `(${fmtUsd(computed.bridge.net_claims)}M)`],
+              ["Equity Value", fmtUsd(ev - computed.bridge.net_claims) + "M"],
               ["Shares Diluted", B.shares_diluted.toFixed(1) + "M"],
               ["Price / Share", fmtUsd(pps_ebitda, 2)],
             ].map(([label, value]) => (
@@ -98,7 +96,7 @@ export function EVEBITDATab({ config, computed }: Props) {
           <tbody className="divide-y divide-border">
             {compsArr.map(([name, c]) => {
               const impliedEv = B.adj_ebitda * c.ev_ebitda
-              const impliedP = B.shares_diluted ? (impliedEv - B.net_debt) / B.shares_diluted : 0
+              const impliedP = B.shares_diluted ? equityPerShare(impliedEv - computed.bridge.net_claims, B, a).pps : 0
               return (
                 <tr key={name} className="hover:bg-muted/30">
                   <td className="px-4 py-2 text-foreground font-sans">{name}</td>
@@ -0,0 +1,121 @@
+"use client"
+
+import { MetricCard } from "../../shared/MetricCard"
+import { SensitivityTable } from "../../shared/SensitivityTable"
+import { computeExcessReturn, fmtUsd, fmtPct } from "@/lib/valuation/calculations"
+import { useScenario } from "@/context/ScenarioContext"
+import type { ValuationConfig } from "@/types/valuation"
+import type { ComputedValuations } from "@/lib/valuation/calculations"
+
+interface Props {
+  config: ValuationConfig
+  computed: ComputedValuations
+}
+
+export function ExcessReturnTab({ config, computed }: Props) {
+  const { assumptions: a } = useScenario()
+  const B = config.baseline
+  const P = config.provenance?.baseline
+  const ke = computed.ke_calc > 0 ? computed.ke_calc : a.cost_of_equity
+  const { pps_excess, excessRows } = computed
+
+  if (!B.tbvps || !B.rote || B.rote <= 0) {
+    return (
+      <div className="flex items-center justify-center h-48 text-muted-foreground">
+        <p className="text-sm">Excess Return — unavailable (no positive tangible equity or ROTE)</p>
+      </div>
+    )
+  }
+
+  const vsMarket = B.current_price > 0 && pps_excess > 0 ? ((pps_excess / B.current_price) - 1) * 100 : 0
+  const sumPv = excessRows.reduce((acc, r) => acc + r.pv, 0)
+
+  // Sensitivity: ke vs ROTE
+  const ke_r = [-0.015, -0.010, -0.005, 0, 0.005, 0.010, 0.015].map((d) => ke + d)
+  const rote_r = [-0.04, -0.02, 0, 0.02, 0.04].map((d) => B.rote! + d)
+  const sensData = ke_r.map((k) =>
+    rote_r.map((r) => {
+      const { pps_excess: p } = computeExcessReturn({ ...B, rote: r }, a, k)
+      return p > 0 ? fmtUsd(p) : "N/A"
+    }),
+  )
+
+  return (
+    <div className="space-y-6 p-4">
+      <p className="text-sm text-muted-foreground font-mono">
+        ER_t = (ROTE − k_e) × TBV_{"t−1"}&nbsp;&nbsp;|&nbsp;&nbsp;V₀ = TBV₀ + Σ PV(ER_t) + PV(TV)
+      </p>
+
+      {/* Bank KPIs */}
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+        <MetricCard label="Net Interest Income" value={B.net_interest_income ? fmtUsd(B.net_interest_income) + "M" : "N/A"} provenance={P?.net_interest_income} />
+        <MetricCard label="Credit Loss Provision" value={B.credit_loss_provision ? fmtUsd(B.credit_loss_provision) + "M" : "N/A"} provenance={P?.credit_loss_provision} />
+        <MetricCard label="Deposits" value={B.deposits ? fmtUsd(B.deposits) + "M" : "N/A"} provenance={P?.deposits} />
+        <MetricCard label="CET1 Ratio" value={B.cet1_ratio ? fmtPct(B.cet1_ratio) : "N/A"} provenance={P?.cet1_ratio} />
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+        <MetricCard label="Tangible BV / Share" value={fmtUsd(B.tbvps, 2)} provenance={P?.tbvps} />
+        <MetricCard label="ROTE" value={fmtPct(B.rote)} delta={`ke ${fmtPct(ke)}`} deltaPositive={B.rote > ke} provenance={P?.rote} />
+        <MetricCard label="ΣPV(Excess Return)" value={fmtUsd(sumPv, 2)} />
+        <MetricCard
+          label="Excess Return Value"
+          value={pps_excess > 0 ? fmtUsd(pps_excess, 2) : "N/A"}
+          delta={pps_excess > 0 ? `${vsMarket >= 0 ? "+" : ""}${vsMarket.toFixed(1)}% vs market` : undefined}
+          deltaPositive={vsMarket >= 0}
+        />
+      </div>
+
+      {/* Projection table */}
+      <div className="rounded-lg border border-border overflow-hidden">
+        <p className="px-4 py-2 text-sm font-semibold text-foreground border-b border-border bg-muted/30">
+          Excess Return Projections
+        </p>
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs font-mono">
+            <thead>
+              <tr className="border-b border-border bg-muted/50">
+                {["Year", "TBVPS Start", "ROTE", "Excess Return", "PV"].map((h) => (
+                  <th key={h} className="px-3 py-2 text-right text-muted-foreground first:text-left">{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {excessRows.map((r) => (
+                <tr key={r.year} className="hover:bg-muted/30">
+                  <td className="px-3 py-1.5 text-foreground font-semibold">{r.year}</td>
+                  <td className="px-3 py-1.5 text-right text-muted-foreground">{fmtUsd(r.tbvps_start, 2)}</td>
+                  <td className="px-3 py-1.5 text-right text-muted-foreground">{fmtPct(r.rote)}</td>
+                  <td className={`px-3 py-1.5 text-right font-semibold ${r.excess_return >= 0 ? "text-buy" : "text-sell"}`}>
+                    {fmtUsd(r.excess_return, 2)}
+                  </td>
+                  <td className={`px-3 py-1.5 text-right font-semibold ${r.pv >= 0 ? "text-buy" : "text-sell"}`}>
+                    {fmtUsd(r.pv, 2)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div className="px-4 py-2 border-t border-border bg-muted/10">
+          <p className="text-[10px] text-muted-foreground">
+            Tangible book excludes goodwill and intangibles, matching how regulators measure bank capital.
+            ROTE is held at its current level; book grows by ROTE × plowback.
+          </p>
+        </div>
+      </div>
+
+      {/* Sensitivity */}
+      <div>
+        <p className="mb-3 text-sm font-semibold text-foreground">Sensitivity: ke vs ROTE</p>
+        <SensitivityTable
+          rowLabels={ke_r.map(fmtPct)}
+          colLabels={rote_r.map(fmtPct)}
+          rowHeader="ke"
+          colHeader="ROTE"
+          data={sensData}
+        />
+      </div>
+    </div>
+  )
+}
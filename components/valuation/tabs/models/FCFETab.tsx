@@ -3,7 +3,7 @@
 import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts"
 import { MetricCard } from "../../shared/MetricCard"
 import { SensitivityTable } from "../../shared/SensitivityTable"
-import { computeWACC, computeFCFE, buildProforma, buildGrowthSchedule, fmtUsd, fmtPct } from "@/lib/valuation/calculations"
+import { computeFCFE, discountSchedule, equityPerShare, presentValue, buildProforma, buildGrowthSchedule, fmtUsd, fmtPct } from "@/lib/valuation/calculations"
 import { useScenario } from "@/context/ScenarioContext"
 import type { ValuationConfig } from "@/types/valuation"
 import type { ComputedValuations } from "@/lib/valuation/calculations"
@@ -19,14 +19,10 @@ export function FCFETab({ config, computed }: Props) {
 
   const proforma = buildProforma(B, buildGrowthSchedule(a), a)
 
-  const marketCap = B.current_price * B.shares_diluted
-  const { ke } = computeWACC(
-    a.rf ?? 0.043, a.beta ?? 1.0, a.erp ?? 0.055,
-    a.cost_of_debt ?? 0.045, a.tax_rate ?? B.tax_rate,
-    marketCap, B.total_debt,
-  )
+  const ke = computed.ke_calc
 
-  const { pps_fcfe, ev_fcfe, fcfes } = computeFCFE(proforma, B, a, ke)
+  const { pps_fcfe, ev_fcfe, fcfes } = computeFCFE(proforma, B, a, ke, computed.statements)
+  const schedule = discountSchedule(B, a, fcfes.length)
   const vsMarket = B.current_price > 0 ? ((pps_fcfe / B.current_price) - 1) * 100 : 0
 
   // Sensitivity: ke vs terminal_g
@@ -36,10 +32,10 @@ export function FCFETab({ config, computed }: Props) {
     tg_r.map((tg) => {
       if (k <= tg) return "N/A"
       const tv = (fcfes[fcfes.length - 1] * (1 + tg)) / (k - tg)
-      const pvFcfes = fcfes.reduce((acc, f, i) => acc + f / (1 + k) ** (i + 1), 0)
-      const pvTv    = tv / (1 + k) ** fcfes.length
+      const pvFcfes = presentValue(fcfes, k, schedule)
+      const pvTv    = tv / (1 + k) ** schedule.tvPeriod
       const eq = pvFcfes + pvTv
-      const p = B.shares_diluted > 0 ? eq / B.shares_diluted : 0
+      const p = B.shares_diluted > 0 ? equityPerShare(eq, B, a).pps : 0
       return fmtUsd(p)
     }),
   )
@@ -53,7 +49,7 @@ export function FCFETab({ config, computed }: Props) {
   return (
     <div className="space-y-6 p-4">
       <p className="text-sm text-muted-foreground font-mono">
-        FCFE = FCFF − Interest × (1 − T) + ΔDebt
+        FCFE = CFO − CapEx + Net Borrowing  (projected cash flow statement)
       </p>
 
       {/* KPIs */}
@@ -66,7 +62,7 @@ export function FCFETab({ config, computed }: Props) {
           delta={`${vsMarket >= 0 ? "+" : ""}${vsMarket.toFixed(1)}% vs market`}
           deltaPositive={vsMarket >= 0}
         />
-        <MetricCard label="OCF" value={fmtUsd(B.ocf) + "M"} />
+        <MetricCard label="OCF" value={fmtUsd(B.ocf) + "M"} provenance={config.provenance?.baseline.ocf} />
       </div>
 
       {/* FCFE vs FCFF bridge */}
@@ -81,10 +77,11 @@ export function FCFETab({ config, computed }: Props) {
           <tbody className="divide-y divide-border">
             {[
               ["CapEx (actual)", fmtUsd(B.capex) + "M"],
-              ["Net Borrowing", fmtUsd(B.net_borrowing) + "M"],
+              ["Net Borrowing (last FY)", fmtUsd(B.net_borrowing) + "M"],
+              ["Net Borrowing (projected, Σ)", fmtUsd(proforma.reduce((s, r) => s + r.net_borrowing, 0)) + "M"],
               ["OCF", fmtUsd(B.ocf) + "M"],
               ["Cost of Equity (ke)", fmtPct(ke)],
-              ["Equity Value", fmtUsd(ev_fcfe - B.net_debt) + "M"],
+              ["Equity Value", fmtUsd(ev_fcfe - computed.bridge.net_claims) + "M"],
               ["Price / Share", fmtUsd(pps_fcfe, 2)],
             ].map(([label, value]) => (
               <tr key={label} className="hover:bg-muted/30">
@@ -105,7 +102,7 @@ export function FCFETab({ config, computed }: Props) {
           <table className="w-full text-xs font-mono">
             <thead>
               <tr className="border-b border-border bg-muted/50">
-                {["Year", "Revenue", "FCFF", "Interest (AT)", "FCFE"].map((h) => (
+                {["Year", "Revenue", "FCFF", "Interest (AT)", "Net Borrowing", "FCFE"].map((h) => (
                   <th key={h} className="px-3 py-2 text-right text-muted-foreground first:text-left">{h}</th>
                 ))}
               </tr>
@@ -117,6 +114,7 @@ export function FCFETab({ config, computed }: Props) {
                   <td className="px-3 py-1.5 text-right text-muted-foreground">{fmtUsd(r.revenue)}M</td>
                   <td className="px-3 py-1.5 text-right text-muted-foreground">{fmtUsd(r.fcff)}M</td>
                   <td className="px-3 py-1.5 text-right text-muted-foreground">{fmtUsd(r.interest * (1 - (a.tax_rate ?? B.tax_rate)))}M</td>
+                  <td className="px-3 py-1.5 text-right text-muted-foreground">{fmtUsd(r.net_borrowing)}M</td>
                   <td className={`px-3 py-1.5 text-right font-semibold ${(fcfes[i] ?? 0) >= 0 ? "text-buy" : "text-sell"}`}>
                     {fmtUsd(fcfes[i] ?? 0)}M
                   </td>
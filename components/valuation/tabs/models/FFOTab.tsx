@@ -0,0 +1,156 @@
+"use client"
+
+import { MetricCard } from "../../shared/MetricCard"
+import { SensitivityTable } from "../../shared/SensitivityTable"
+import { fmtUsd, fmtPct } from "@/lib/valuation/calculations"
+import type { ValuationConfig } from "@/types/valuation"
+import type { ComputedValuations } from "@/lib/valuation/calculations"
+
+interface Props {
+  config: ValuationConfig
+  computed: ComputedValuations
+}
+
+export function FFOTab({ config, computed }: Props) {
+  const B = config.baseline
+  const P = config.provenance?.baseline
+  const { pps_pffo, pps_paffo, medianPffo, medianPaffo } = computed
+
+  if (!B.ffo_ps || B.ffo_ps <= 0) {
+    return (
+      <div className="flex items-center justify-center h-48 text-muted-foreground">
+        <p className="text-sm">P/FFO — unavailable (no positive FFO; filer reports no real estate figures)</p>
+      </div>
+    )
+  }
+
+  const ffo = B.ffo ?? 0
+  const affo = B.affo ?? 0
+  const currentPffo  = B.current_price > 0 ? B.current_price / B.ffo_ps : 0
+  const currentPaffo = B.current_price > 0 && (B.affo_ps ?? 0) > 0 ? B.current_price / B.affo_ps! : 0
+  const vsMarketFfo  = B.current_price > 0 ? ((pps_pffo  / B.current_price) - 1) * 100 : 0
+  const vsMarketAffo = B.current_price > 0 && pps_paffo > 0 ? ((pps_paffo / B.current_price) - 1) * 100 : 0
+
+  // Bridge back from FFO: real estate D&A less gains = FFO − net income
+  const addBacks = ffo - B.net_income
+  const peerRows = Object.entries(config.comps).filter(([, c]) => (c.pffo ?? 0) > 0)
+  // Live peers quote P/OCF in place of P/FFO; peers without P/AFFO leave the sector default
+  const pffoProxy = peerRows.some(([, c]) => c.pffo_basis === "ocf")
+  const paffoDefault = !Object.values(config.comps).some((c) => (c.paffo ?? 0) > 0)
+  const peerPffoLabel = pffoProxy ? "P/OCF (P/FFO proxy)" : "P/FFO"
+  const yieldOnAffo = B.current_price > 0 && (B.affo_ps ?? 0) > 0 ? B.affo_ps! / B.current_price : 0
+
+  // Sensitivity: P/FFO multiple vs FFO/share
+  const mult_r = [-4, -2, 0, 2, 4].map((d) => medianPffo + d)
+  const ffo_r = [-0.10, -0.05, 0, 0.05, 0.10].map((d) => B.ffo_ps! * (1 + d))
+  const sensData = mult_r.map((m) => ffo_r.map((f) => (m > 0 ? fmtUsd(m * f, 2) : "N/A")))
+
+  return (
+    <div className="space-y-6 p-4">
+      <p className="text-sm text-muted-foreground font-mono">
+        FFO = NI + RE D&A − gains on sale&nbsp;&nbsp;|&nbsp;&nbsp;AFFO = FFO − recurring capex&nbsp;&nbsp;|&nbsp;&nbsp;P = multiple × per share
+      </p>
+
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+        <MetricCard label="FFO / Share" value={fmtUsd(B.ffo_ps, 2)} provenance={P?.ffo_ps} />
+        <MetricCard label="AFFO / Share" value={(B.affo_ps ?? 0) > 0 ? fmtUsd(B.affo_ps!, 2) : "N/A"} provenance={P?.affo_ps} />
+        <MetricCard
+          label="P/FFO Value"
+          value={fmtUsd(pps_pffo, 2)}
+          delta={`${vsMarketFfo >= 0 ? "+" : ""}${vsMarketFfo.toFixed(1)}% vs market`}
+          deltaPositive={vsMarketFfo >= 0}
+        />
+        <MetricCard
+          label="P/AFFO Value"
+          value={pps_paffo > 0 ? fmtUsd(pps_paffo, 2) : "N/A"}
+          delta={pps_paffo > 0 ? `${vsMarketAffo >= 0 ? "+" : ""}${vsMarketAffo.toFixed(1)}% vs market` : undefined}
+          deltaPositive={vsMarketAffo >= 0}
+        />
+      </div>
+
+      {/* FFO reconciliation */}
+      <div className="rounded-lg border border-border overflow-hidden">
+        <p className="px-4 py-2 text-sm font-semibold text-foreground border-b border-border bg-muted/30">
+          FFO / AFFO Reconciliation ($M)
+        </p>
+        <table className="w-full text-sm font-mono">
+          <tbody className="divide-y divide-border">
+            {[
+              ["Net Income", fmtUsd(B.net_income, 1)],
+              ["+ Real Estate D&A − Gains on Property Sales", fmtUsd(addBacks, 1)],
+              ["FFO", fmtUsd(ffo, 1)],
+              ["− Recurring Capex", B.affo !== undefined ? fmtUsd(ffo - affo, 1) : "N/A"],
+              ["AFFO", B.affo !== undefined ? fmtUsd(affo, 1) : "N/A"],
+              ["AFFO Yield (AFFO/share ÷ price)", yieldOnAffo > 0 ? fmtPct(yieldOnAffo) : "N/A"],
+              ["Current P/FFO", currentPffo > 0 ? currentPffo.toFixed(1) + "×" : "N/A"],
+              ["Current P/AFFO", currentPaffo > 0 ? currentPaffo.toFixed(1) + "×" : "N/A"],
+              [peerRows.length > 0 ? `Peer Median ${peerPffoLabel}` : "P/FFO Multiple (sector default)", medianPffo.toFixed(1) + "×"],
+              [paffoDefault ? "P/AFFO Multiple (sector default)" : "Peer Median P/AFFO", medianPaffo.toFixed(1) + "×"],
+            ].map(([label, value]) => (
+              <tr key={label} className="hover:bg-muted/30">
+                <td className="px-4 py-2 text-muted-foreground text-xs font-sans">{label}</td>
+                <td className="px-4 py-2 text-right text-foreground font-semibold">{value}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="px-4 py-2 border-t border-border bg-muted/10">
+          <p className="text-[10px] text-muted-foreground">
+            Recurring capex is not tagged in XBRL; AFFO deducts 10% of NOI, so it is N/A when property operating expenses (and so NOI) are not reported. Straight-line rent adjustments are not modeled.
+          </p>
+        </div>
+      </div>
+
+      {/* Peer comps */}
+      <div className="rounded-lg border border-border overflow-hidden">
+        <p className="px-4 py-2 text-sm font-semibold text-foreground border-b border-border bg-muted/30">
+          Peer {peerPffoLabel} Comps
+        </p>
+        {peerRows.length > 0 ? (
+          <table className="w-full text-xs font-mono">
+            <thead>
+              <tr className="border-b border-border bg-muted/50">
+                {["Peer", peerPffoLabel, "Implied Value"].map((h) => (
+                  <th key={h} className="px-4 py-2 text-right text-muted-foreground first:text-left">{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {peerRows.map(([name, c]) => (
+                <tr key={name} className="hover:bg-muted/30">
+                  <td className="px-4 py-2 text-foreground font-sans">{name}</td>
+                  <td className="px-4 py-2 text-right">{c.pffo!.toFixed(1)}×</td>
+                  <td className="px-4 py-2 text-right">{fmtUsd(c.pffo! * B.ffo_ps!, 2)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="px-4 py-3 text-xs text-muted-foreground">
+            No peer P/FFO available — using the sector default of {medianPffo.toFixed(1)}×.
+          </p>
+        )}
+        <div className="px-4 py-2 border-t border-border bg-muted/10">
+          <p className="text-[10px] text-muted-foreground">
+            {pffoProxy
+              ? "Yahoo Finance has no FFO field; peer multiples are price ÷ operating cash flow per share, a proxy for P/FFO applied to FFO / share."
+              : "Peer P/FFO as reported."}
+            {paffoDefault && " No peer reports P/AFFO, so P/AFFO uses the sector default."}
+          </p>
+        </div>
+      </div>
+
+      {/* Sensitivity */}
+      <div>
+        <p className="mb-3 text-sm font-semibold text-foreground">Sensitivity: P/FFO Multiple vs FFO / Share</p>
+        <SensitivityTable
+          rowLabels={mult_r.map((v) => v.toFixed(1) + "×")}
+          colLabels={ffo_r.map((v) => fmtUsd(v, 2))}
+          rowHeader="P/FFO"
+          colHeader="FFO/sh"
+          data={sensData}
+        />
+      </div>
+    </div>
+  )
+}
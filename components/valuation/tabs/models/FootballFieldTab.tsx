@@ -7,7 +7,7 @@ import {
 import { CHART_COLORS } from "@/lib/valuation/presets"
 import type { ComputedValuations } from "@/lib/valuation/calculations"
 import type { ValuationConfig } from "@/types/valuation"
-import { fmtUsd } from "@/lib/valuation/calculations"
+import { fmtUsd, FINANCIAL_EXCLUDED_MODELS, REIT_EXCLUDED_MODELS } from "@/lib/valuation/calculations"
 import { MetricCard } from "../../shared/MetricCard"
 
 interface FFDataPoint {
@@ -36,20 +36,41 @@ const METHOD_WEIGHTS: Record<string, number> = {
   SOTP:              0.05,
 }
 
-const MC_MAP: Record<string, string> = {
-  "FCFF (DCF)":      "FCFF (DCF)",
-  "FCFE (DCF)":      "FCFE",
-  "Residual Income": "RI",
-  "DDM (2-Stage)":   "DDM",
-  "H-Model DDM":     "HDDM",
-  "EBITDA Multiple": "EBITDA",
-  "Revenue Multiple":"Revenue",
-  "P/E Multiple":    "P/E",
-  "Justified P/E":   "JPE",
-  "Justified P/B":   "JPB",
-  PEG:               "PEG",
-  "P/B":             "P/B",
-  "P/CF":            "PCF",
+// Financial model set — tangible-book and dividend models carry the weight
+const FINANCIAL_METHOD_WEIGHTS: Record<string, number> = {
+  "Excess Return":   0.25,
+  "P/TBV vs ROTE":   0.20,
+  "Residual Income": 0.15,
+  "P/E Multiple":    0.10,
+  "Justified P/E":   0.05,
+  "Justified P/B":   0.05,
+  "DDM (2-Stage)":   0.08,
+  "H-Model DDM":     0.04,
+  PEG:               0.03,
+  "P/B":             0.05,
+}
+
+// REIT model set — FFO/AFFO multiples and NAV carry the weight
+const REIT_METHOD_WEIGHTS: Record<string, number> = {
+  "P/FFO":           0.20,
+  "P/AFFO":          0.15,
+  "NAV (Cap Rate)":  0.20,
+  "FCFF (DCF)":      0.10,
+  "EBITDA Multiple": 0.08,
+  "DDM (2-Stage)":   0.08,
+  "H-Model DDM":     0.04,
+  "FCFE (DCF)":      0.03,
+  "Residual Income": 0.03,
+  "P/CF":            0.04,
+  "Justified P/B":   0.02,
+  "P/B":             0.03,
+}
+
+/** Sorted-sample percentile, linearly interpolated. */
+function percentile(sorted: number[], p: number): number {
+  const x = (sorted.length - 1) * p
+  const i = Math.floor(x)
+  return sorted[i] + (sorted[Math.min(i + 1, sorted.length - 1)] - sorted[i]) * (x - i)
 }
 
 interface Props {
@@ -65,7 +86,11 @@ export function FootballFieldTab({ config, computed, mcResults }: Props) {
     pps_fcff, pps_fcfe, pps_ri, pps_ddm, pps_hddm,
     pps_ebitda, pps_rev, pps_pe, pps_jpe, pps_jpb,
     pps_peg, pps_pb, pps_pcf, pps_sotp, sotpIsFallback,
+    modelSet, pps_excess, pps_ptbv, pps_pffo, pps_paffo, pps_nav,
   } = computed
+  const financial = modelSet === "financial"
+  const reit = modelSet === "reit"
+  const weights = financial ? FINANCIAL_METHOD_WEIGHTS : reit ? REIT_METHOD_WEIGHTS : METHOD_WEIGHTS
 
   // Build allMethods — only include non-zero models
   const allMethodsRaw: Record<string, number> = {
@@ -85,6 +110,16 @@ export function FootballFieldTab({ config, computed, mcResults }: Props) {
     // Issue 3: exclude SOTP when it's a fallback (no segments configured) — re-normalize without it
     SOTP:              sotpIsFallback ? 0 : pps_sotp,
   }
+  if (financial) {
+    for (const m of FINANCIAL_EXCLUDED_MODELS) delete allMethodsRaw[m]
+    allMethodsRaw["Excess Return"] = pps_excess
+    allMethodsRaw["P/TBV vs ROTE"] = pps_ptbv
+  } else if (reit) {
+    for (const m of REIT_EXCLUDED_MODELS) delete allMethodsRaw[m]
+    allMethodsRaw["P/FFO"] = pps_pffo
+    allMethodsRaw["P/AFFO"] = pps_paffo
+    allMethodsRaw["NAV (Cap Rate)"] = pps_nav
+  }
 
   // Filter out zero/negative values (models with missing data)
   const allMethods = Object.fromEntries(
@@ -93,14 +128,15 @@ export function FootballFieldTab({ config, computed, mcResults }: Props) {
 
   // Re-normalize weights for available models
   const totalWeight = Object.keys(allMethods).reduce(
-    (acc, m) => acc + (METHOD_WEIGHTS[m] ?? 0), 0
+    (acc, m) => acc + (weights[m] ?? 0), 0
   )
 
   const ffData: FFDataPoint[] = Object.entries(allMethods).map(([method, base]) => {
-    const mcKey = MC_MAP[method]
-    const mcArr = mcKey ? mcResults?.[mcKey] : undefined
-    const low  = mcArr?.length ? Math.min(...mcArr.filter((_v, i) => i < mcArr.length * 0.10)) : base * 0.85
-    const high = mcArr?.length ? Math.max(...mcArr.filter((_v, i) => i > mcArr.length * 0.90)) : base * 1.15
+    // Monte Carlo P10–P90 once a simulation has run, ±15% around the point estimate before
+    const mcArr = mcResults?.[method]
+    const sorted = mcArr?.length ? [...mcArr].sort((x, y) => x - y) : null
+    const low  = sorted ? percentile(sorted, 0.10) : base * 0.85
+    const high = sorted ? percentile(sorted, 0.90) : base * 1.15
     return { method, low, base, high, color: CHART_COLORS[method] ?? "#64748b" }
   })
 
@@ -118,7 +154,7 @@ export function FootballFieldTab({ config, computed, mcResults }: Props) {
   }))
 
   const normWeight = (m: string) =>
-    totalWeight > 0 ? (METHOD_WEIGHTS[m] ?? 0) / totalWeight : 0
+    totalWeight > 0 ? (weights[m] ?? 0) / totalWeight : 0
 
   const blended      = Object.entries(allMethods).reduce((acc, [m, v]) => acc + v * normWeight(m), 0)
   const blendedLow   = ffData.reduce((acc, d) => acc + d.low  * normWeight(d.method), 0)
@@ -1,15 +1,20 @@
 "use client"
 
-import { useState, useCallback } from "react"
+import { useState, useCallback, useEffect, useMemo, useRef } from "react"
 import {
-  BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer,
+  BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer,
   ReferenceLine, Cell,
 } from "recharts"
 import { MetricCard } from "../../shared/MetricCard"
-import { runMonteCarlo, fmtUsd, fmtPct } from "@/lib/valuation/calculations"
-import type { MonteCarloResults } from "@/lib/valuation/calculations"
+import { fmtUsd, fmtPct } from "@/lib/valuation/calculations"
+import type { MonteCarloResults, MonteCarloRun } from "@/lib/valuation/calculations"
+import { DEFAULT_SIM_SPEC, SIM_FIELDS, validateSpec } from "@/lib/valuation/simulation"
+import { CHART_COLORS } from "@/lib/valuation/presets"
+import { SAMPLING_METHODS, type SamplingMethod } from "@/lib/valuation/sampling"
+import { getValuationPool, runMonteCarloInPool } from "@/lib/valuation/workerPool"
 import { useScenario } from "@/context/ScenarioContext"
-import type { ValuationConfig } from "@/types/valuation"
+import { useSimulationSpecs } from "@/hooks/useSimulationSpecs"
+import type { Assumptions, Distribution, SimField, SimulationSpec, ValuationConfig } from "@/types/valuation"
 import type { ComputedValuations } from "@/lib/valuation/calculations"
 
 interface Props {
@@ -18,15 +23,7 @@ interface Props {
   onComplete?: (results: MonteCarloResults) => void
 }
 
-const MODEL_COLORS: Record<string, string> = {
-  "FCFF (DCF)":      "#2563EB",
-  "EV/EBITDA":       "#DC2626",
-  "P/E":             "#EA580C",
-  "FCFE (DCF)":      "#0D9488",
-  "Residual Income": "#7C3AED",
-}
-
-const N_SIMS = 1000
+const SIM_COUNTS = [1000, 5000, 10_000, 25_000, 100_000]
 const N_BINS = 24
 
 function percentile(sorted: number[], p: number): number {
@@ -48,25 +45,284 @@ function buildHistogram(values: number[], nBins: number): { bin: string; count:
   return bins
 }
 
+// ── Spec editor ──────────────────────────────────────────────────────────────
+
+const DIST_KINDS: Distribution["kind"][] = ["normal", "lognormal", "uniform", "triangular", "truncated"]
+const fieldInfo = (f: SimField) => SIM_FIELDS.find((s) => s.field === f) ?? { field: f, label: f, unit: "%" as const }
+const scale = (f: SimField) => (fieldInfo(f).unit === "%" ? 100 : 1)
+
+/** A reasonable starting distribution of `kind` around the current value. */
+function defaultDist(kind: Distribution["kind"], field: SimField, center: number): Distribution {
+  const sd = fieldInfo(field).unit === "%" ? 0.02 : Math.max(0.05, Math.abs(center) * 0.1)
+  switch (kind) {
+    case "normal":     return { kind, sd }
+    case "lognormal":  return { kind, sd }
+    case "uniform":    return { kind, min: center - 2 * sd, max: center + 2 * sd }
+    case "triangular": return { kind, min: center - 2 * sd, max: center + 2 * sd }
+    case "truncated":  return { kind, sd, min: center - 2 * sd, max: center + 2 * sd }
+  }
+}
+
+function ParamInput({ label, value, field, optional, onChange }: {
+  label: string
+  value: number | undefined
+  field: SimField
+  optional?: boolean
+  onChange: (v: number | undefined) => void
+}) {
+  const k = scale(field)
+  return (
+    <label className="flex items-center gap-1 text-[10px] text-muted-foreground">
+      {label}
+      <input
+        type="number"
+        step={k === 100 ? 0.25 : 0.05}
+        value={value === undefined ? "" : +(value * k).toFixed(4)}
+        placeholder={optional ? "current" : undefined}
+        onChange={(e) => {
+          const v = parseFloat(e.target.value)
+          if (!isNaN(v)) onChange(v / k)
+          else if (optional && e.target.value === "") onChange(undefined)
+        }}
+        className="w-16 rounded border border-border bg-muted/50 px-1 py-0.5 text-right font-mono text-[10px] text-foreground focus:outline-none focus:ring-1 focus:ring-ring"
+      />
+    </label>
+  )
+}
+
+function SpecEditor({ spec, onChange, a, problems }: {
+  spec: SimulationSpec
+  onChange: (spec: SimulationSpec) => void
+  a: Assumptions
+  problems: string[]
+}) {
+  const center = (f: SimField) => (a[f] as number | undefined) ?? 0
+  const vars = spec.variables
+  const setVar = (i: number, dist: Distribution, field = vars[i].field) =>
+    onChange({ ...spec, variables: vars.map((v, j) => (j === i ? { field, dist } : v)) })
+  const removeVar = (i: number) => {
+    const field = vars[i].field
+    onChange({
+      ...spec,
+      variables: vars.filter((_, j) => j !== i),
+      correlations: spec.correlations.filter((c) => c.a !== field && c.b !== field),
+    })
+  }
+  const unused = SIM_FIELDS.find((f) => !vars.some((v) => v.field === f.field))
+  const rho = (x: SimField, y: SimField) =>
+    spec.correlations.find((c) => (c.a === x && c.b === y) || (c.a === y && c.b === x))?.rho ?? 0
+  const setRho = (x: SimField, y: SimField, value: number) => {
+    const rest = spec.correlations.filter((c) => !((c.a === x && c.b === y) || (c.a === y && c.b === x)))
+    onChange({ ...spec, correlations: value === 0 ? rest : [...rest, { a: x, b: y, rho: value }] })
+  }
+
+  return (
+    <div className="rounded-lg border border-border bg-card p-4 space-y-4">
+      <div className="space-y-2">
+        <p className="text-xs font-semibold text-foreground">Sampled inputs</p>
+        {vars.map((v, i) => {
+          const d = v.dist
+          const unit = fieldInfo(v.field).unit
+          return (
+            <div key={v.field} className="flex flex-wrap items-center gap-2">
+              <select
+                value={v.field}
+                onChange={(e) => {
+                  const field = e.target.value as SimField
+                  setVar(i, defaultDist(d.kind, field, center(field)), field)
+                }}
+                className="w-44 rounded border border-border bg-muted/50 px-1 py-0.5 text-xs text-foreground"
+              >
+                {SIM_FIELDS.filter((f) => f.field === v.field || !vars.some((o) => o.field === f.field)).map((f) => (
+                  <option key={f.field} value={f.field}>{f.label}</option>
+                ))}
+              </select>
+              <select
+                value={d.kind}
+                onChange={(e) => setVar(i, defaultDist(e.target.value as Distribution["kind"], v.field, center(v.field)))}
+                className="rounded border border-border bg-muted/50 px-1 py-0.5 text-xs text-foreground"
+              >
+                {DIST_KINDS.map((k) => <option key={k} value={k}>{k}</option>)}
+              </select>
+              {(d.kind === "normal" || d.kind === "lognormal" || d.kind === "truncated") && (
+                <ParamInput label="mean" field={v.field} value={d.mean} optional onChange={(mean) => setVar(i, { ...d, mean })} />
+              )}
+              {d.kind === "triangular" && (
+                <ParamInput label="mode" field={v.field} value={d.mode} optional onChange={(mode) => setVar(i, { ...d, mode })} />
+              )}
+              {(d.kind === "normal" || d.kind === "lognormal" || d.kind === "truncated") && (
+                <ParamInput label="σ" field={v.field} value={d.sd} onChange={(sd) => setVar(i, { ...d, sd: sd ?? 0 })} />
+              )}
+              {(d.kind === "uniform" || d.kind === "triangular" || d.kind === "truncated") && (
+                <>
+                  <ParamInput label="min" field={v.field} value={d.min} onChange={(min) => setVar(i, { ...d, min: min ?? 0 })} />
+                  <ParamInput label="max" field={v.field} value={d.max} onChange={(max) => setVar(i, { ...d, max: max ?? 0 })} />
+                </>
+              )}
+              <span className="text-[10px] text-muted-foreground">
+                {unit} · current {(center(v.field) * scale(v.field)).toFixed(2)}
+              </span>
+              <button
+                onClick={() => removeVar(i)}
+                className="ml-auto px-1 text-xs text-muted-foreground hover:text-foreground"
+                aria-label={`Remove ${fieldInfo(v.field).label}`}
+              >
+                ×
+              </button>
+            </div>
+          )
+        })}
+        {unused && (
+          <button
+            onClick={() => onChange({
+              ...spec,
+              variables: [...vars, { field: unused.field, dist: defaultDist("normal", unused.field, center(unused.field)) }],
+            })}
+            className="text-xs text-muted-foreground hover:text-foreground"
+          >
+            + Add input
+          </button>
+        )}
+      </div>
+
+      {vars.length > 1 && (
+        <div className="space-y-2">
+          <p className="text-xs font-semibold text-foreground">Correlation matrix (ρ of normal scores)</p>
+          <div className="overflow-x-auto">
+            <table className="text-[10px] font-mono">
+              <thead>
+                <tr>
+                  <th />
+                  {vars.map((v) => <th key={v.field} className="px-1 py-0.5 font-normal text-muted-foreground">{fieldInfo(v.field).label}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {vars.map((row, i) => (
+                  <tr key={row.field}>
+                    <td className="pr-2 py-0.5 text-muted-foreground font-sans">{fieldInfo(row.field).label}</td>
+                    {vars.map((col, j) => (
+                      <td key={col.field} className="px-1 py-0.5 text-center">
+                        {j === i ? "1" : j < i ? <span className="text-muted-foreground">{rho(row.field, col.field).toFixed(2)}</span> : (
+                          <input
+                            type="number"
+                            step={0.05}
+                            min={-1}
+                            max={1}
+                            value={rho(row.field, col.field)}
+                            onChange={(e) => {
+                              const r = parseFloat(e.target.value)
+                              if (!isNaN(r)) setRho(row.field, col.field, Math.max(-1, Math.min(1, r)))
+                            }}
+                            className="w-14 rounded border border-border bg-muted/50 px-1 text-right text-foreground focus:outline-none focus:ring-1 focus:ring-ring"
+                          />
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {problems.length > 0 && (
+        <ul className="space-y-0.5 text-xs text-red-400">
+          {problems.map((p) => <li key={p}>{p}</li>)}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+// ── Tab ──────────────────────────────────────────────────────────────────────
+
 export function MonteCarloTab({ config, computed, onComplete }: Props) {
   const { assumptions: a } = useScenario()
   const B = config.baseline
-  const [results, setResults] = useState<MonteCarloResults | null>(null)
+  const [run, setRun] = useState<MonteCarloRun | null>(null)
   const [running, setRunning]  = useState(false)
-  const [activeModel, setActiveModel] = useState("FCFF (DCF)")
+  const [progress, setProgress] = useState(0)
+  const [runError, setRunError] = useState<string | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+  const [selectedModel, setSelectedModel] = useState("FCFF (DCF)")
+  const [spec, setSpec] = useState<SimulationSpec>(DEFAULT_SIM_SPEC)
+  const [editing, setEditing] = useState(false)
+  const saved = useSimulationSpecs()
+  const problems = useMemo(() => validateSpec(spec, a), [spec, a])
+  const [nSims, setNSims] = useState(1000)
+  const [seed, setSeed] = useState(1)
+  const [method, setMethod] = useState<SamplingMethod>("random")
+  const [autoStop, setAutoStop] = useState(false)
+  const [samplePeers, setSamplePeers] = useState(true)
+  const [tolerance, setTolerance] = useState(0.005)
 
   const runSim = useCallback(() => {
+    abortRef.current?.abort()
+    const ctrl = new AbortController()
+    abortRef.current = ctrl
     setRunning(true)
-    // Defer to next tick so UI can show "Running…"
-    setTimeout(() => {
-      const r = runMonteCarlo(B, a, computed.medianEvm, computed.medianPE, N_SIMS)
-      setResults(r)
-      onComplete?.(r)
-      setRunning(false)
-    }, 10)
-  }, [B, a, computed.medianEvm, computed.medianPE, onComplete])
+    setProgress(0)
+    setRunError(null)
+    runMonteCarloInPool(
+      getValuationPool(),
+      {
+        inputs: {
+          B,
+          comps: config.comps,
+          segments: config.segments,
+          acquisitions: config.acquisitions,
+          histEPS: config.historical_is.eps,
+          a,
+          issues: computed.dataIssues,
+          modelSet: config.model_set,
+        },
+        n_sims: nSims,
+        spec,
+        options: { seed, method, tolerance: autoStop ? tolerance : 0, peers: samplePeers },
+      },
+      { signal: ctrl.signal, onProgress: (done, total) => setProgress(done / total) },
+    )
+      .then((r) => {
+        setRun(r)
+        onComplete?.(r.results)
+      })
+      .catch((err: Error) => {
+        if (err.name !== "AbortError") setRunError(err.message)
+      })
+      .finally(() => {
+        if (abortRef.current === ctrl) {
+          abortRef.current = null
+          setRunning(false)
+        }
+      })
+  }, [B, a, config, computed.dataIssues, onComplete, spec, nSims, seed, method, autoStop, tolerance, samplePeers])
+
+  const cancelSim = useCallback(() => abortRef.current?.abort(), [])
+  useEffect(() => () => abortRef.current?.abort(), [])
+
+  const specs = [DEFAULT_SIM_SPEC, ...saved.specs.filter((s) => s.name !== DEFAULT_SIM_SPEC.name)]
+  const describe = (d: Distribution, f: SimField) => {
+    const k = scale(f), u = fieldInfo(f).unit === "%" ? "%" : ""
+    const v = (x: number) => `${+(x * k).toFixed(2)}${u}`
+    switch (d.kind) {
+      case "normal":     return `N(σ=${v(d.sd)})`
+      case "lognormal":  return `LN(σ=${v(d.sd)})`
+      case "uniform":    return `U[${v(d.min)}, ${v(d.max)}]`
+      case "triangular": return `Tri[${v(d.min)}, ${v(d.max)}]`
+      case "truncated":  return `N(σ=${v(d.sd)}) in [${v(d.min)}, ${v(d.max)}]`
+    }
+  }
 
+  const results = run?.results ?? null
+  // Simulated models in signal-table order
+  const models = computed.signalRows.map((r) => r.method).filter((m) => results?.[m]?.length)
+  const activeModel = models.includes(selectedModel) ? selectedModel : models[0] ?? selectedModel
+  const color = CHART_COLORS[activeModel] ?? "#64748b"
   const data = results?.[activeModel] ?? []
+  const convergence = (run?.convergence[activeModel] ?? []).map((c) => ({
+    ...c, lo: c.mean - 1.96 * c.se, hi: c.mean + 1.96 * c.se,
+  }))
   const sorted = [...data].sort((a, b) => a - b)
   const p5  = percentile(sorted, 0.05)
   const p25 = percentile(sorted, 0.25)
@@ -81,27 +337,137 @@ export function MonteCarloTab({ config, computed, onComplete }: Props) {
   return (
     <div className="space-y-6 p-4">
       <p className="text-sm text-muted-foreground font-mono">
-        Monte Carlo — samples WACC (σ=1.5%), Year-1 Growth (σ=2%), Target Margin (σ=2.5%) from N({N_SIMS.toLocaleString("en-US")}) simulations
+        Monte Carlo — {spec.variables.map((v) => `${fieldInfo(v.field).label} ${describe(v.dist, v.field)}`).join(", ") || "no sampled inputs"}
+        {spec.correlations.length > 0 && ` · ${spec.correlations.length} correlation${spec.correlations.length === 1 ? "" : "s"}`}
+        {" "}over {autoStop ? "up to " : ""}{nSims.toLocaleString("en-US")} simulations
+        {" "}· {SAMPLING_METHODS.find((m) => m.method === method)?.label.toLowerCase()}, seed {seed}
       </p>
 
+      {/* Spec selection */}
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={spec.name}
+          onChange={(e) => {
+            const next = specs.find((s) => s.name === e.target.value)
+            if (next) setSpec(next)
+          }}
+          className="rounded-md border border-border bg-muted/50 px-2 py-1 text-xs text-foreground"
+        >
+          {specs.some((s) => s.name === spec.name) ? null : <option value={spec.name}>{spec.name} (unsaved)</option>}
+          {specs.map((s) => <option key={s.name} value={s.name}>{s.name}</option>)}
+        </select>
+        <button
+          onClick={() => setEditing((e) => !e)}
+          className="px-3 py-1 rounded-md text-xs font-medium border border-border text-muted-foreground hover:text-foreground transition-colors"
+        >
+          {editing ? "Hide editor" : "Edit spec"}
+        </button>
+        {editing && (
+          <>
+            <input
+              value={spec.name}
+              onChange={(e) => setSpec({ ...spec, name: e.target.value })}
+              className="w-36 rounded-md border border-border bg-muted/50 px-2 py-1 text-xs text-foreground"
+              aria-label="Spec name"
+            />
+            <button
+              onClick={() => saved.save(spec)}
+              disabled={!spec.name.trim() || spec.name === DEFAULT_SIM_SPEC.name || problems.length > 0}
+              className="px-3 py-1 rounded-md text-xs font-medium border border-border text-muted-foreground hover:text-foreground disabled:opacity-40 transition-colors"
+            >
+              Save
+            </button>
+            {saved.specs.some((s) => s.name === spec.name) && (
+              <button
+                onClick={() => { saved.remove(spec.name); setSpec(DEFAULT_SIM_SPEC) }}
+                className="px-3 py-1 rounded-md text-xs font-medium border border-border text-muted-foreground hover:text-red-400 transition-colors"
+              >
+                Delete
+              </button>
+            )}
+          </>
+        )}
+      </div>
+      {editing && <SpecEditor spec={spec} onChange={setSpec} a={a} problems={problems} />}
+
+      {/* Sampling */}
+      <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+        <label className="flex items-center gap-1.5">
+          N
+          <select
+            value={nSims}
+            onChange={(e) => setNSims(Number(e.target.value))}
+            className="rounded-md border border-border bg-muted/50 px-2 py-1 text-xs text-foreground"
+          >
+            {SIM_COUNTS.map((n) => <option key={n} value={n}>{n.toLocaleString("en-US")}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-1.5">
+          Sampling
+          <select
+            value={method}
+            onChange={(e) => setMethod(e.target.value as SamplingMethod)}
+            className="rounded-md border border-border bg-muted/50 px-2 py-1 text-xs text-foreground"
+          >
+            {SAMPLING_METHODS.map((m) => <option key={m.method} value={m.method}>{m.label}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-1.5">
+          Seed
+          <input
+            type="number"
+            value={seed}
+            onChange={(e) => setSeed(Math.trunc(Number(e.target.value)) || 0)}
+            className="w-24 rounded-md border border-border bg-muted/50 px-2 py-1 text-xs font-mono text-foreground"
+          />
+        </label>
+        <label className="flex items-center gap-1.5" title="Bootstrap-resample the peer set each draw, so multiple-based models carry peer dispersion">
+          <input type="checkbox" checked={samplePeers} onChange={(e) => setSamplePeers(e.target.checked)} />
+          Sample peer multiples
+        </label>
+        <label className="flex items-center gap-1.5">
+          <input type="checkbox" checked={autoStop} onChange={(e) => setAutoStop(e.target.checked)} />
+          Auto-stop when medians move &lt;
+          <input
+            type="number"
+            step={0.1}
+            min={0.01}
+            value={+(tolerance * 100).toFixed(2)}
+            disabled={!autoStop}
+            onChange={(e) => setTolerance(Math.max(0.0001, Number(e.target.value) / 100))}
+            className="w-16 rounded-md border border-border bg-muted/50 px-2 py-1 text-xs font-mono text-foreground disabled:opacity-40"
+          />
+          %
+        </label>
+      </div>
+
       {/* Controls */}
       <div className="flex flex-wrap items-center gap-3">
         <button
           onClick={runSim}
-          disabled={running}
+          disabled={running || problems.length > 0}
           className="px-5 py-2 rounded-md text-sm font-semibold bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white transition-colors"
         >
-          {running ? "Running…" : results ? `Re-run (N=${N_SIMS.toLocaleString("en-US")})` : `Run Simulation (N=${N_SIMS.toLocaleString("en-US")})`}
+          {running ? `Running… ${(progress * 100).toFixed(0)}%` : results ? `Re-run (N=${nSims.toLocaleString("en-US")})` : `Run Simulation (N=${nSims.toLocaleString("en-US")})`}
         </button>
+        {running && (
+          <button
+            onClick={cancelSim}
+            className="px-3 py-2 rounded-md text-sm font-medium border border-border text-muted-foreground hover:text-red-400 transition-colors"
+          >
+            Cancel
+          </button>
+        )}
+        {runError && <span className="text-xs text-red-400">{runError}</span>}
 
         {/* Model selector */}
         {results && (
           <div className="flex flex-wrap gap-1.5">
-            {Object.keys(MODEL_COLORS).map((m) => (
+            {models.map((m) => (
               <button
                 key={m}
-                onClick={() => setActiveModel(m)}
-                style={activeModel === m ? { borderColor: MODEL_COLORS[m], color: MODEL_COLORS[m], background: MODEL_COLORS[m] + "18" } : {}}
+                onClick={() => setSelectedModel(m)}
+                style={activeModel === m ? { borderColor: color, color, background: color + "18" } : {}}
                 className="px-3 py-1 rounded-md text-xs font-medium border border-border text-muted-foreground hover:text-foreground transition-colors"
               >
                 {m}
@@ -130,9 +496,14 @@ export function MonteCarloTab({ config, computed, onComplete }: Props) {
             <MetricCard label="P95" value={fmtUsd(p95, 2)} />
           </div>
           <div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
-            <MetricCard label="Simulations" value={data.length.toLocaleString("en-US")} />
+            <MetricCard
+              label="Simulations"
+              value={data.length.toLocaleString("en-US")}
+              delta={run && autoStop ? (run.converged ? `Converged after ${run.draws.toLocaleString("en-US")} draws` : `Not converged in ${run.draws.toLocaleString("en-US")} draws`) : undefined}
+              deltaPositive={run?.converged}
+            />
             <MetricCard label="P(above market)" value={fmtPct(probUpside, 1)} deltaPositive={probUpside > 0.5} />
-            <MetricCard label="Market Price" value={fmtUsd(B.current_price, 2)} />
+            <MetricCard label="Market Price" value={fmtUsd(B.current_price, 2)} provenance={config.provenance?.baseline.current_price} />
           </div>
 
           {/* Histogram */}
@@ -177,6 +548,47 @@ export function MonteCarloTab({ config, computed, onComplete }: Props) {
             </p>
           </div>
 
+          {/* Convergence */}
+          {convergence.length > 1 && (
+            <div className="grid gap-4 lg:grid-cols-2">
+              <div className="rounded-lg border border-border bg-card p-4">
+                <p className="mb-3 text-sm font-semibold text-foreground">Running Mean &amp; Median — {activeModel}</p>
+                <ResponsiveContainer width="100%" height={200}>
+                  <LineChart data={convergence} margin={{ top: 4, right: 8, left: 0, bottom: 4 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                    <XAxis dataKey="draws" tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 10 }} />
+                    <YAxis domain={["auto", "auto"]} tickFormatter={(v: number) => fmtUsd(v, 0)} tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 10 }} />
+                    <Tooltip
+                      contentStyle={{ background: "hsl(var(--card))", border: "1px solid hsl(var(--border))", borderRadius: 6, color: "hsl(var(--foreground))" }}
+                      formatter={(v: number, name: string) => [fmtUsd(v, 2), name]}
+                      labelFormatter={(d) => `${Number(d).toLocaleString("en-US")} draws`}
+                    />
+                    <Line dataKey="hi"     name="Mean + 1.96 SE" stroke={color} strokeDasharray="4 3" strokeOpacity={0.5} dot={false} isAnimationActive={false} />
+                    <Line dataKey="lo"     name="Mean − 1.96 SE" stroke={color} strokeDasharray="4 3" strokeOpacity={0.5} dot={false} isAnimationActive={false} />
+                    <Line dataKey="mean"   name="Mean"   stroke={color} strokeWidth={2} dot={false} isAnimationActive={false} />
+                    <Line dataKey="median" name="Median" stroke="#F59E0B" strokeWidth={2} dot={false} isAnimationActive={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+              <div className="rounded-lg border border-border bg-card p-4">
+                <p className="mb-3 text-sm font-semibold text-foreground">Standard Error of the Mean — {activeModel}</p>
+                <ResponsiveContainer width="100%" height={200}>
+                  <LineChart data={convergence} margin={{ top: 4, right: 8, left: 0, bottom: 4 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                    <XAxis dataKey="draws" tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 10 }} />
+                    <YAxis tickFormatter={(v: number) => fmtUsd(v, 2)} tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 10 }} />
+                    <Tooltip
+                      contentStyle={{ background: "hsl(var(--card))", border: "1px solid hsl(var(--border))", borderRadius: 6, color: "hsl(var(--foreground))" }}
+                      formatter={(v: number) => [fmtUsd(v, 3), "SE"]}
+                      labelFormatter={(d) => `${Number(d).toLocaleString("en-US")} draws`}
+                    />
+                    <Line dataKey="se" name="SE" stroke={color} strokeWidth={2} dot={false} isAnimationActive={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          )}
+
           {/* Percentile table */}
           <div className="rounded-lg border border-border overflow-hidden">
             <p className="px-4 py-2 text-sm font-semibold text-foreground border-b border-border bg-muted/30">
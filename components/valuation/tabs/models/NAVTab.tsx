@@ -0,0 +1,112 @@
+"use client"
+
+import { MetricCard } from "../../shared/MetricCard"
+import { SensitivityTable } from "../../shared/SensitivityTable"
+import { computeNAV, fmtUsd, fmtPct } from "@/lib/valuation/calculations"
+import { useScenario } from "@/context/ScenarioContext"
+import type { ValuationConfig } from "@/types/valuation"
+import type { ComputedValuations } from "@/lib/valuation/calculations"
+
+interface Props {
+  config: ValuationConfig
+  computed: ComputedValuations
+}
+
+export function NAVTab({ config, computed }: Props) {
+  const { assumptions: a } = useScenario()
+  const B = config.baseline
+  const P = config.provenance?.baseline
+  const { pps_nav, navBridge } = computed
+
+  if (!navBridge) {
+    return (
+      <div className="flex items-center justify-center h-48 text-muted-foreground">
+        <p className="text-sm">NAV — unavailable (no positive NOI; property operating expenses must be reported)</p>
+      </div>
+    )
+  }
+
+  const vsMarket = B.current_price > 0 ? ((pps_nav / B.current_price) - 1) * 100 : 0
+  const impliedCapRate =
+    B.current_price > 0
+      ? navBridge.noi_fwd / (B.current_price * B.shares_diluted + navBridge.net_claims)
+      : 0
+
+  // Sensitivity: cap rate vs NOI growth
+  const cap_r = [-0.010, -0.005, 0, 0.005, 0.010].map((d) => navBridge.cap_rate + d)
+  const g_r = [-0.02, -0.01, 0, 0.01, 0.02].map((d) => a.yr1_g + d)
+  const sensData = cap_r.map((c) =>
+    g_r.map((g) => {
+      const { pps_nav: p } = computeNAV(B, { ...a, cap_rate: c, yr1_g: g })
+      return p > 0 ? fmtUsd(p) : "N/A"
+    }),
+  )
+
+  return (
+    <div className="space-y-6 p-4">
+      <p className="text-sm text-muted-foreground font-mono">
+        GAV = NOI_{"t+1"} ÷ cap rate&nbsp;&nbsp;|&nbsp;&nbsp;NAV = GAV − net claims
+      </p>
+
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+        <MetricCard label="NOI" value={fmtUsd(B.noi ?? 0) + "M"} provenance={P?.noi} />
+        <MetricCard label="Cap Rate" value={fmtPct(navBridge.cap_rate, 2)} />
+        <MetricCard
+          label="Implied Market Cap Rate"
+          value={impliedCapRate > 0 ? fmtPct(impliedCapRate, 2) : "N/A"}
+          delta={impliedCapRate > 0 ? `vs ${fmtPct(navBridge.cap_rate, 2)} assumed` : undefined}
+          deltaPositive={impliedCapRate > navBridge.cap_rate}
+        />
+        <MetricCard
+          label="NAV / Share"
+          value={pps_nav > 0 ? fmtUsd(pps_nav, 2) : "N/A"}
+          delta={pps_nav > 0 ? `${vsMarket >= 0 ? "+" : ""}${vsMarket.toFixed(1)}% vs market` : undefined}
+          deltaPositive={vsMarket >= 0}
+        />
+      </div>
+
+      {/* NAV bridge */}
+      <div className="rounded-lg border border-border overflow-hidden">
+        <p className="px-4 py-2 text-sm font-semibold text-foreground border-b border-border bg-muted/30">
+          Net Asset Value Bridge ($M)
+        </p>
+        <table className="w-full text-sm font-mono">
+          <tbody className="divide-y divide-border">
+            {[
+              ["Forward NOI (NOI × (1 + yr1 g))", fmtUsd(navBridge.noi_fwd, 1)],
+              ["÷ Cap Rate", fmtPct(navBridge.cap_rate, 2)],
+              ["Gross Asset Value", fmtUsd(navBridge.property_value, 1)],
+              ["Book Investment Property", (B.investment_property ?? 0) > 0 ? fmtUsd(B.investment_property!, 1) : "N/A"],
+              ["− Net Debt & Other Claims", fmtUsd(navBridge.net_claims, 1)],
+              ["Net Asset Value", fmtUsd(navBridge.nav, 1)],
+              ["÷ Diluted Shares (M)", B.shares_diluted.toFixed(1)],
+              ["NAV / Share", fmtUsd(pps_nav, 2)],
+            ].map(([label, value]) => (
+              <tr key={label} className="hover:bg-muted/30">
+                <td className="px-4 py-2 text-muted-foreground text-xs font-sans">{label}</td>
+                <td className="px-4 py-2 text-right text-foreground font-semibold">{value}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="px-4 py-2 border-t border-border bg-muted/10">
+          <p className="text-[10px] text-muted-foreground">
+            Development pipeline, land bank and non-property assets are not valued separately. Adjust the cap rate in the assumptions drawer.
+          </p>
+        </div>
+      </div>
+
+      {/* Sensitivity */}
+      <div>
+        <p className="mb-3 text-sm font-semibold text-foreground">Sensitivity: Cap Rate vs NOI Growth</p>
+        <SensitivityTable
+          rowLabels={cap_r.map((v) => fmtPct(v, 2))}
+          colLabels={g_r.map(fmtPct)}
+          rowHeader="Cap rate"
+          colHeader="NOI g"
+          data={sensData}
+        />
+      </div>
+    </div>
+  )
+}
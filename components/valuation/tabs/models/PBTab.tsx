@@ -2,7 +2,7 @@
 
 import { MetricCard } from "../../shared/MetricCard"
 import { SensitivityTable } from "../../shared/SensitivityTable"
-import { computeWACC, computeJustifiedPB, fmtUsd, fmtPct } from "@/lib/valuation/calculations"
+import { computeJustifiedPB, fmtUsd, fmtPct } from "@/lib/valuation/calculations"
 import { useScenario } from "@/context/ScenarioContext"
 import type { ValuationConfig } from "@/types/valuation"
 import type { ComputedValuations } from "@/lib/valuation/calculations"
@@ -16,12 +16,7 @@ export function PBTab({ config, computed }: Props) {
   const { assumptions: a } = useScenario()
   const B = config.baseline
 
-  const marketCap = B.current_price * B.shares_diluted
-  const { ke } = computeWACC(
-    a.rf ?? 0.043, a.beta ?? 1.0, a.erp ?? 0.055,
-    a.cost_of_debt ?? 0.045, a.tax_rate ?? B.tax_rate,
-    marketCap, B.total_debt,
-  )
+  const ke = computed.ke_calc
 
   const { pps_jpb, justifiedPB } = computeJustifiedPB(B, a, ke)
   const pps_pb = computed.medianPb * B.bvps
@@ -53,7 +48,7 @@ export function PBTab({ config, computed }: Props) {
 
       {/* KPIs */}
       <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
-        <MetricCard label="BVPS" value={fmtUsd(B.bvps, 2)} />
+        <MetricCard label="BVPS" value={fmtUsd(B.bvps, 2)} provenance={config.provenance?.baseline.bvps} />
         <MetricCard label="Current P/B" value={currentPB > 0 ? currentPB.toFixed(2) + "×" : "N/A"} />
         <MetricCard
           label="P/B Value"
@@ -50,7 +50,7 @@ export function PCFTab({ config, computed }: Props) {
 
       {/* KPIs */}
       <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
-        <MetricCard label="OCF" value={fmtUsd(B.ocf) + "M"} />
+        <MetricCard label="OCF" value={fmtUsd(B.ocf) + "M"} provenance={config.provenance?.baseline.ocf} />
         <MetricCard label="CFO / Share" value={fmtUsd(cfoPerShare, 2)} />
         <MetricCard label="Current P/CF" value={currentPCF > 0 ? currentPCF.toFixed(1) + "×" : "N/A"} />
         <MetricCard
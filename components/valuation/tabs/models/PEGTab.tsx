@@ -42,7 +42,7 @@ export function PEGTab({ config, computed }: Props) {
 
       {/* KPIs */}
       <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
-        <MetricCard label="EPS (TTM)" value={fmtUsd(B.adj_eps, 2)} />
+        <MetricCard label="EPS (TTM)" value={fmtUsd(B.adj_eps, 2)} provenance={config.provenance?.baseline.adj_eps} />
         <MetricCard label="EPS CAGR" value={fmtPct(pegGrowth)} />
         <MetricCard label="Current PEG" value={currentPEG > 0 ? currentPEG.toFixed(2) + "×" : "N/A"} />
         <MetricCard
@@ -2,7 +2,7 @@
 
 import { MetricCard } from "../../shared/MetricCard"
 import { SensitivityTable } from "../../shared/SensitivityTable"
-import { computeWACC, computeJustifiedPE, fmtUsd, fmtPct } from "@/lib/valuation/calculations"
+import { computeJustifiedPE, fmtUsd, fmtPct } from "@/lib/valuation/calculations"
 import { useScenario } from "@/context/ScenarioContext"
 import type { ValuationConfig } from "@/types/valuation"
 import type { ComputedValuations } from "@/lib/valuation/calculations"
@@ -16,12 +16,7 @@ export function PETab({ config, computed }: Props) {
   const { assumptions: a } = useScenario()
   const B = config.baseline
 
-  const marketCap = B.current_price * B.shares_diluted
-  const { ke } = computeWACC(
-    a.rf ?? 0.043, a.beta ?? 1.0, a.erp ?? 0.055,
-    a.cost_of_debt ?? 0.045, a.tax_rate ?? B.tax_rate,
-    marketCap, B.total_debt,
-  )
+  const ke = computed.ke_calc
 
   const { pps_jpe, justifiedPE } = computeJustifiedPE(B, a, ke)
   const pps_pe = computed.medianPE * B.adj_eps
@@ -50,7 +45,7 @@ export function PETab({ config, computed }: Props) {
 
       {/* KPIs */}
       <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
-        <MetricCard label="EPS (TTM)" value={fmtUsd(B.adj_eps, 2)} />
+        <MetricCard label="EPS (TTM)" value={fmtUsd(B.adj_eps, 2)} provenance={config.provenance?.baseline.adj_eps} />
         <MetricCard label="Current P/E" value={currentPE > 0 ? currentPE.toFixed(1) + "×" : "N/A"} />
         <MetricCard
           label="P/E Value"
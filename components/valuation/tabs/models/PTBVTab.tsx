@@ -0,0 +1,123 @@
+"use client"
+
+import {
+  ComposedChart, Scatter, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer,
+} from "recharts"
+import { MetricCard } from "../../shared/MetricCard"
+import { fmtUsd, fmtPct } from "@/lib/valuation/calculations"
+import type { ValuationConfig } from "@/types/valuation"
+import type { ComputedValuations } from "@/lib/valuation/calculations"
+
+interface Props {
+  config: ValuationConfig
+  computed: ComputedValuations
+}
+
+export function PTBVTab({ config, computed }: Props) {
+  const B = config.baseline
+  const { pps_ptbv, impliedPTBV, ptbvFit } = computed
+
+  if (!B.tbvps || !B.rote || B.rote <= 0) {
+    return (
+      <div className="flex items-center justify-center h-48 text-muted-foreground">
+        <p className="text-sm">P/TBV vs ROTE — unavailable (no positive tangible equity or ROTE)</p>
+      </div>
+    )
+  }
+
+  const currentPTBV = B.current_price > 0 ? B.current_price / B.tbvps : 0
+  const vsMarket = B.current_price > 0 && pps_ptbv > 0 ? ((pps_ptbv / B.current_price) - 1) * 100 : 0
+
+  const peers = Object.entries(config.comps)
+    .filter(([, c]) => (c.ptbv ?? 0) > 0 && (c.rote ?? 0) > 0)
+    .map(([name, c]) => ({ name, rote: c.rote!, ptbv: c.ptbv! }))
+
+  // Regression line across the observed ROTE range (plus the subject company)
+  const xs = [...peers.map((p) => p.rote), B.rote]
+  const line = ptbvFit
+    ? [Math.min(...xs), Math.max(...xs)].map((x) => ({ rote: x, fit: ptbvFit.intercept + ptbvFit.slope * x }))
+    : []
+
+  return (
+    <div className="space-y-6 p-4">
+      <p className="text-sm text-muted-foreground font-mono">
+        P/TBV = α + β × ROTE&nbsp;&nbsp;|&nbsp;&nbsp;P = implied P/TBV × TBVPS
+      </p>
+
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+        <MetricCard label="ROTE" value={fmtPct(B.rote)} provenance={config.provenance?.baseline.rote} />
+        <MetricCard label="Current P/TBV" value={currentPTBV > 0 ? currentPTBV.toFixed(2) + "×" : "N/A"} />
+        <MetricCard
+          label="Implied P/TBV"
+          value={impliedPTBV > 0 ? impliedPTBV.toFixed(2) + "×" : "N/A"}
+          delta={ptbvFit ? `R² ${ptbvFit.r2.toFixed(2)} · ${ptbvFit.n} peers` : "Justified (ROTE − g)/(ke − g)"}
+          deltaPositive={!!ptbvFit}
+        />
+        <MetricCard
+          label="P/TBV Value"
+          value={pps_ptbv > 0 ? fmtUsd(pps_ptbv, 2) : "N/A"}
+          delta={pps_ptbv > 0 ? `${vsMarket >= 0 ? "+" : ""}${vsMarket.toFixed(1)}% vs market` : undefined}
+          deltaPositive={vsMarket >= 0}
+        />
+      </div>
+
+      {ptbvFit ? (
+        <div className="rounded-lg border border-border bg-card p-4">
+          <p className="mb-3 text-sm font-semibold text-foreground">
+            Peer P/TBV vs ROTE — P/TBV = {ptbvFit.intercept.toFixed(2)} + {ptbvFit.slope.toFixed(2)} × ROTE
+          </p>
+          <ResponsiveContainer width="100%" height={260}>
+            <ComposedChart margin={{ top: 4, right: 8, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+              <XAxis dataKey="rote" type="number" domain={["auto", "auto"]} tickFormatter={(v) => fmtPct(v, 0)} tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 11 }} />
+              <YAxis type="number" domain={["auto", "auto"]} tickFormatter={(v) => `${v.toFixed(1)}×`} tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 11 }} />
+              <Tooltip
+                contentStyle={{ background: "hsl(var(--card))", border: "1px solid hsl(var(--border))", borderRadius: 6, color: "hsl(var(--foreground))" }}
+                formatter={(v: number, name: string) => [name === "ROTE" ? fmtPct(v) : `${v.toFixed(2)}×`, name]}
+              />
+              <Scatter data={peers} dataKey="ptbv" name="Peers" fill="#A16207" />
+              <Scatter data={[{ rote: B.rote, ptbv: impliedPTBV }]} dataKey="ptbv" name={config.ticker} fill="#2563EB" />
+              <Line data={line} dataKey="fit" name="Fit" stroke="#64748b" strokeDasharray="4 2" dot={false} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          Fewer than three peers report both P/TBV and ROTE (or the fit slopes downward) — using the
+          justified P/TBV instead.
+        </p>
+      )}
+
+      {peers.length > 0 && (
+        <div className="rounded-lg border border-border overflow-hidden">
+          <p className="px-4 py-2 text-sm font-semibold text-foreground border-b border-border bg-muted/30">
+            Peer Observations
+          </p>
+          <table className="w-full text-xs font-mono">
+            <thead>
+              <tr className="border-b border-border bg-muted/50">
+                {["Peer", "ROTE", "P/TBV"].map((h) => (
+                  <th key={h} className="px-4 py-2 text-right text-muted-foreground first:text-left">{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {peers.map((p) => (
+                <tr key={p.name} className="hover:bg-muted/30">
+                  <td className="px-4 py-2 text-foreground font-sans">{p.name}</td>
+                  <td className="px-4 py-2 text-right">{fmtPct(p.rote)}</td>
+                  <td className="px-4 py-2 text-right">{p.ptbv.toFixed(2)}×</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="px-4 py-2 border-t border-border bg-muted/10">
+            <p className="text-[10px] text-muted-foreground">
+              Peer tangible book (equity − goodwill − intangibles) and ROTE are read from each peer's latest SEC 10-K; peers without a filing in the quote currency are left out.
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -3,7 +3,7 @@
 import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts"
 import { MetricCard } from "../../shared/MetricCard"
 import { SensitivityTable } from "../../shared/SensitivityTable"
-import { computeWACC, computeRI, fmtUsd, fmtPct } from "@/lib/valuation/calculations"
+import { computeRI, fmtUsd, fmtPct } from "@/lib/valuation/calculations"
 import { useScenario } from "@/context/ScenarioContext"
 import type { ValuationConfig } from "@/types/valuation"
 import type { ComputedValuations } from "@/lib/valuation/calculations"
@@ -17,14 +17,9 @@ export function ResidualIncomeTab({ config, computed }: Props) {
   const { assumptions: a } = useScenario()
   const B = config.baseline
 
-  const marketCap = B.current_price * B.shares_diluted
-  const { ke } = computeWACC(
-    a.rf ?? 0.043, a.beta ?? 1.0, a.erp ?? 0.055,
-    a.cost_of_debt ?? 0.045, a.tax_rate ?? B.tax_rate,
-    marketCap, B.total_debt,
-  )
+  const ke = computed.ke_calc
 
-  const { pps_ri, riRows } = computeRI(B, a, ke)
+  const { pps_ri, riRows } = computeRI(B, a, ke, computed.statements)
 
   if (B.eps <= 0 || B.bvps <= 0) {
     return (
@@ -42,7 +37,7 @@ export function ResidualIncomeTab({ config, computed }: Props) {
   const tg_r = [-0.010, -0.005, 0, 0.005, 0.010].map((d) => a.terminal_g + d)
   const sensData = ke_r.map((k) =>
     tg_r.map((tg) => {
-      const { pps_ri: p } = computeRI(B, { ...a, terminal_g: tg, cost_of_equity: k }, k)
+      const { pps_ri: p } = computeRI(B, { ...a, terminal_g: tg, cost_of_equity: k }, k, computed.statements)
       return p > 0 ? fmtUsd(p) : "N/A"
     }),
   )
@@ -62,7 +57,7 @@ export function ResidualIncomeTab({ config, computed }: Props) {
 
       {/* KPIs */}
       <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
-        <MetricCard label="Book Value / Share" value={fmtUsd(B.bvps, 2)} />
+        <MetricCard label="Book Value / Share" value={fmtUsd(B.bvps, 2)} provenance={config.provenance?.baseline.bvps} />
         <MetricCard label="ke (CAPM)" value={fmtPct(ke)} />
         <MetricCard label="ΣPV(RI)" value={fmtUsd(sumPvRi, 2)} />
         <MetricCard
@@ -2,7 +2,7 @@
 
 import { MetricCard } from "../../shared/MetricCard"
 import { SensitivityTable } from "../../shared/SensitivityTable"
-import { fmtUsd, fmtPct } from "@/lib/valuation/calculations"
+import { equityPerShare, fmtUsd, fmtPct } from "@/lib/valuation/calculations"
 import { useScenario } from "@/context/ScenarioContext"
 import type { ValuationConfig } from "@/types/valuation"
 import type { ComputedValuations } from "@/lib/valuation/calculations"
@@ -16,13 +16,11 @@ export function RevenueTab({ config, computed }: Props) {
   const { assumptions: a } = useScenario()
   const B = config.baseline
 
-  const pps_rev = B.shares_diluted
-    ? (B.revenue * computed.medianEvRev - B.net_debt) / B.shares_diluted
-    : 0
+  const pps_rev = computed.pps_rev
   const ev = B.revenue * computed.medianEvRev
   const vsMarket = B.current_price > 0 ? ((pps_rev / B.current_price) - 1) * 100 : 0
   const currentEvRev = B.revenue > 0
-    ? (B.current_price * B.shares_diluted + B.net_debt) / B.revenue
+    ? (B.current_price * B.shares_diluted + computed.bridge.net_claims) / B.revenue
     : 0
 
   // Sensitivity: EV/Revenue multiple vs revenue growth
@@ -31,7 +29,7 @@ export function RevenueTab({ config, computed }: Props) {
   const sensData = mult_r.map((m) =>
     g_r.map((g) => {
       const rev = B.revenue * (1 + g)
-      const p = B.shares_diluted ? (rev * m - B.net_debt) / B.shares_diluted : 0
+      const p = B.shares_diluted ? equityPerShare(rev * m - computed.bridge.net_claims, B, a).pps : 0
       return fmtUsd(p)
     }),
   )
@@ -46,7 +44,7 @@ export function RevenueTab({ config, computed }: Props) {
 
       {/* KPIs */}
       <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
-        <MetricCard label="Revenue" value={fmtUsd(B.revenue) + "M"} />
+        <MetricCard label="Revenue" value={fmtUsd(B.revenue) + "M"} provenance={config.provenance?.baseline.revenue} />
         <MetricCard label="Current EV/Revenue" value={currentEvRev > 0 ? currentEvRev.toFixed(2) + "×" : "N/A"} />
         <MetricCard label="Median Peer EV/Rev" value={computed.medianEvRev.toFixed(2) + "×"} />
         <MetricCard
@@ -68,8 +66,8 @@ export function RevenueTab({ config, computed }: Props) {
               ["Revenue (LTM)", fmtUsd(B.revenue) + "M"],
               ["Median Peer EV/Revenue", computed.medianEvRev.toFixed(2) + "×"],
               ["Implied Enterprise Value", fmtUsd(ev) + "M"],
-              ["Less: Net Debt", `(${fmtUsd(B.net_debt)}M)`],
-              ["Equity Value", fmtUsd(ev - B.net_debt) + "M"],
+              ["Less: Net Debt & Other Claims", `(${fmtUsd(computed.bridge.net_claims)}M)`],
+              ["Equity Value", fmtUsd(ev - computed.bridge.net_claims) + "M"],
               ["Shares Diluted", B.shares_diluted.toFixed(1) + "M"],
               ["Price / Share", fmtUsd(pps_rev, 2)],
             ].map(([label, value]) => (
@@ -98,7 +96,7 @@ export function RevenueTab({ config, computed }: Props) {
           <tbody className="divide-y divide-border">
             {compsArr.map(([name, c]) => {
               const impliedEv = B.revenue * c.ev_rev
-              const impliedP = B.shares_diluted ? (impliedEv - B.net_debt) / B.shares_diluted : 0
+              const impliedP = B.shares_diluted ? equityPerShare(impliedEv - computed.bridge.net_claims, B, a).pps : 0
               return (
                 <tr key={name} className="hover:bg-muted/30">
                   <td className="px-4 py-2 text-foreground font-sans">{name}</td>
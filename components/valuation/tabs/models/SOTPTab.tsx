@@ -4,7 +4,7 @@ import { useState, useMemo } from "react"
 import { PieChart, Pie, Cell, Tooltip, ResponsiveContainer, Legend } from "recharts"
 import { Plus, Trash2 } from "lucide-react"
 import { MetricCard } from "../../shared/MetricCard"
-import { fmtUsd, fmtPct } from "@/lib/valuation/calculations"
+import { equityPerShare, fmtUsd, fmtPct } from "@/lib/valuation/calculations"
 import { useScenario } from "@/context/ScenarioContext"
 import type { ValuationConfig } from "@/types/valuation"
 import type { ComputedValuations } from "@/lib/valuation/calculations"
@@ -65,9 +65,10 @@ export function SOTPTab({ config, computed }: Props) {
     [segments],
   )
 
+  const netClaims    = computed.bridge.net_claims
   const totalEV      = rows.reduce((sum, r) => sum + r.ev, 0)
-  const equityValue  = totalEV - B.net_debt
-  const pps          = B.shares_diluted > 0 ? equityValue / B.shares_diluted : 0
+  const equityValue  = totalEV - netClaims
+  const pps          = B.shares_diluted > 0 ? equityPerShare(equityValue, B, a).pps : 0
   const vsMarket     = B.current_price > 0 ? ((pps / B.current_price) - 1) * 100 : 0
 
   // ── Helpers ────────────────────────────────────────────────────────────────
@@ -104,8 +105,8 @@ export function SOTPTab({ config, computed }: Props) {
   // Single-axis sensitivity: global multiple delta
   const sensRows = multRange.map((m) => {
     const ev = rows.reduce((sum, r) => sum + r.ebitda * m, 0)
-    const eq  = ev - B.net_debt
-    const p   = B.shares_diluted > 0 ? eq / B.shares_diluted : 0
+    const eq  = ev - netClaims
+    const p   = B.shares_diluted > 0 ? equityPerShare(eq, B, a).pps : 0
     return { mult: m, ev, eq, pps: p }
   })
 
@@ -153,7 +154,7 @@ export function SOTPTab({ config, computed }: Props) {
       {/* KPIs */}
       <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
         <MetricCard label="Total EV"     value={fmtUsd(totalEV, 0) + "M"} />
-        <MetricCard label="Less Net Debt" value={`(${fmtUsd(B.net_debt, 0)}M)`} />
+        <MetricCard label="Less Net Claims" value={`(${fmtUsd(netClaims, 0)}M)`} provenance={computed.bridge.lines.length === 2 ? config.provenance?.baseline.net_debt : undefined} />
         <MetricCard label="Equity Value" value={fmtUsd(equityValue, 0) + "M"} />
         <MetricCard
           label="Price / Share"
@@ -309,8 +310,8 @@ export function SOTPTab({ config, computed }: Props) {
                 <td className="px-4 py-2 text-right text-foreground text-xs">{fmtUsd(totalEV, 0)}M</td>
               </tr>
               <tr className="hover:bg-muted/20">
-                <td className="px-4 py-2 text-xs font-sans text-muted-foreground">Less: Net Debt</td>
-                <td className="px-4 py-2 text-right text-red-400 text-xs">({fmtUsd(B.net_debt, 0)}M)</td>
+                <td className="px-4 py-2 text-xs font-sans text-muted-foreground">Less: Net Debt &amp; Other Claims</td>
+                <td className="px-4 py-2 text-right text-red-400 text-xs">({fmtUsd(netClaims, 0)}M)</td>
               </tr>
               <tr className="bg-muted/30 font-semibold">
                 <td className="px-4 py-2 text-xs font-sans text-foreground">Equity Value</td>
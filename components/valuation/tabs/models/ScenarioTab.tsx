@@ -3,10 +3,13 @@
 import { useState, useMemo } from "react"
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from "recharts"
 import { MetricCard } from "../../shared/MetricCard"
-import { computeAll, fmtUsd, fmtPct } from "@/lib/valuation/calculations"
+import { fmtUsd, fmtPct } from "@/lib/valuation/calculations"
+import { validateConfig } from "@/lib/valuation/validation"
 import { SCENARIO_PRESETS, DEFAULT_ASSUMPTIONS } from "@/lib/valuation/presets"
 import type { ValuationConfig, Assumptions } from "@/types/valuation"
 import type { ComputedValuations } from "@/lib/valuation/calculations"
+import type { ValuationRequest } from "@/lib/valuation/workerProtocol"
+import { useValuationTask } from "@/hooks/useValuationTask"
 
 interface Props {
   config: ValuationConfig
@@ -28,6 +31,23 @@ const MODELS: { key: keyof ComputedValuations; label: string }[] = [
   { key: "pps_pcf",    label: "P/CF" },
 ]
 
+// Sector model sets — the first entry is the primary model charted below
+const FINANCIAL_MODELS: typeof MODELS = [
+  { key: "pps_excess", label: "Excess Return" },
+  { key: "pps_ptbv",   label: "P/TBV vs ROTE" },
+  { key: "pps_ri",     label: "Residual Income" },
+  { key: "pps_ddm",    label: "DDM (2-Stage)" },
+  { key: "pps_pb",     label: "P/B" },
+]
+const REIT_MODELS: typeof MODELS = [
+  { key: "pps_nav",    label: "NAV (Cap Rate)" },
+  { key: "pps_pffo",   label: "P/FFO" },
+  { key: "pps_paffo",  label: "P/AFFO" },
+  { key: "pps_fcff",   label: "FCFF (DCF)" },
+  { key: "pps_ddm",    label: "DDM (2-Stage)" },
+  { key: "pps_ebitda", label: "EV/EBITDA" },
+]
+
 function buildScenarioAssumptions(presetKey: "Bear" | "Base" | "Bull", base: Assumptions): Assumptions {
   const preset = SCENARIO_PRESETS[presetKey]
   return {
@@ -42,23 +62,42 @@ export function ScenarioTab({ config, computed: _computed }: Props) {
   const [weights, setWeights] = useState({ ...DEFAULT_WEIGHTS })
 
   // Merge config's partial default_assumptions over DEFAULT_ASSUMPTIONS to get a complete base
-  const baseAssumptions: Assumptions = { ...DEFAULT_ASSUMPTIONS, ...config.default_assumptions }
+  const baseAssumptions: Assumptions = useMemo(
+    () => ({ ...DEFAULT_ASSUMPTIONS, ...config.default_assumptions }),
+    [config.default_assumptions],
+  )
+
+  const issues = useMemo(
+    () => validateConfig(config, baseAssumptions.valuation_date),
+    [config, baseAssumptions.valuation_date],
+  )
+  const models = config.model_set === "financial" ? FINANCIAL_MODELS : config.model_set === "reit" ? REIT_MODELS : MODELS
+  const primary = models[0]
+
+  // The three scenarios run as one grid request on the worker pool
+  const request = useMemo<ValuationRequest>(() => ({
+    kind: "grid",
+    args: {
+      B,
+      comps: config.comps,
+      segments: config.segments,
+      acquisitions: config.acquisitions,
+      histEPS: config.historical_is.eps,
+      a: baseAssumptions,
+      issues,
+      modelSet: config.model_set,
+    },
+    overrides: SCENARIO_KEYS.map((s) => buildScenarioAssumptions(s, baseAssumptions)),
+    pick: [...MODELS, ...FINANCIAL_MODELS, ...REIT_MODELS].map((m) => m.key),
+  }), [B, config.comps, config.segments, config.acquisitions, config.historical_is.eps, baseAssumptions, issues, config.model_set])
+  const grid = useValuationTask(request)
 
+  // Rows from a superseded request (earlier assumptions or config) are ignored until the new grid lands
+  const pending = !grid.result || grid.request !== request
   const scenarioComputed = useMemo(() => {
-    const result: Record<string, ComputedValuations> = {}
-    for (const s of SCENARIO_KEYS) {
-      const a = buildScenarioAssumptions(s, baseAssumptions)
-      result[s] = computeAll(
-        B,
-        config.comps,
-        config.segments,
-        config.acquisitions,
-        config.historical_is.eps,
-        a,
-      )
-    }
-    return result
-  }, [B, config.comps, config.segments, config.acquisitions, config.historical_is.eps, baseAssumptions])
+    const rows = (pending ? [] : grid.result ?? []) as Partial<ComputedValuations>[]
+    return Object.fromEntries(SCENARIO_KEYS.map((s, k) => [s, rows[k] ?? {}])) as Record<string, Partial<ComputedValuations>>
+  }, [grid.result, pending])
 
   // Normalize weights to fractions
   const totalW = weights.Bear + weights.Base + weights.Bull
@@ -70,33 +109,35 @@ export function ScenarioTab({ config, computed: _computed }: Props) {
 
   // Probability-weighted consensus for each model
   const weightedValues: Record<string, number> = {}
-  for (const { key, label } of MODELS) {
+  for (const { key, label } of models) {
     const bear = Number(scenarioComputed.Bear[key] ?? 0)
     const base = Number(scenarioComputed.Base[key] ?? 0)
     const bull = Number(scenarioComputed.Bull[key] ?? 0)
     weightedValues[label] = bear * w.Bear + base * w.Base + bull * w.Bull
   }
 
-  // Weighted FCFF consensus (primary)
-  const wFcff  = weightedValues["FCFF (DCF)"]
+  // Weighted consensus of the primary model (FCFF unless a sector set applies)
+  const wPrimary = weightedValues[primary.label]
   const allW   = Object.values(weightedValues).filter((v) => v > 0)
   const wMean  = allW.length ? allW.reduce((a, b) => a + b, 0) / allW.length : 0
-  const upside = B.current_price > 0 ? ((wFcff / B.current_price) - 1) * 100 : 0
+  const upside = B.current_price > 0 ? ((wPrimary / B.current_price) - 1) * 100 : 0
 
-  // Waterfall chart data — shows FCFF value for each scenario + weighted
+  // Waterfall chart data — shows the primary model value for each scenario + weighted
   const waterfallData = [
     ...SCENARIO_KEYS.map((s) => ({
       scenario: s,
-      pps: Number(scenarioComputed[s].pps_fcff ?? 0),
+      pps: Number(scenarioComputed[s][primary.key] ?? 0),
       fill: SCENARIO_COLORS[s],
     })),
-    { scenario: "Weighted", pps: wFcff, fill: "#A855F7" },
+    { scenario: "Weighted", pps: wPrimary, fill: "#A855F7" },
   ]
 
   return (
     <div className="space-y-6 p-4">
       <p className="text-sm text-muted-foreground font-mono">
         Scenario Analysis — Bear / Base / Bull computed independently. Adjust probability weights below.
+        {grid.running && <span className="ml-2 text-blue-400">Computing… {(grid.progress * 100).toFixed(0)}%</span>}
+        {grid.error && <span className="ml-2 text-red-400">{grid.error}</span>}
       </p>
 
       {/* Probability weights */}
@@ -128,20 +169,20 @@ export function ScenarioTab({ config, computed: _computed }: Props) {
 
       {/* KPIs */}
       <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
-        <MetricCard label="Bear FCFF"     value={fmtUsd(scenarioComputed.Bear.pps_fcff, 2)} />
-        <MetricCard label="Base FCFF"     value={fmtUsd(scenarioComputed.Base.pps_fcff, 2)} />
-        <MetricCard label="Bull FCFF"     value={fmtUsd(scenarioComputed.Bull.pps_fcff, 2)} />
+        {SCENARIO_KEYS.map((s) => (
+          <MetricCard key={s} label={`${s} ${primary.label}`} value={pending ? "—" : fmtUsd(Number(scenarioComputed[s][primary.key] ?? 0), 2)} />
+        ))}
         <MetricCard
-          label="Weighted FCFF"
-          value={fmtUsd(wFcff, 2)}
-          delta={`${upside >= 0 ? "+" : ""}${upside.toFixed(1)}% vs market`}
+          label={`Weighted ${primary.label}`}
+          value={pending ? "—" : fmtUsd(wPrimary, 2)}
+          delta={pending ? undefined : `${upside >= 0 ? "+" : ""}${upside.toFixed(1)}% vs market`}
           deltaPositive={upside >= 0}
         />
       </div>
 
-      {/* FCFF bar chart */}
+      {/* Primary model bar chart */}
       <div className="rounded-lg border border-border bg-card p-4">
-        <p className="mb-3 text-sm font-semibold text-foreground">FCFF (DCF) Intrinsic Value by Scenario</p>
+        <p className="mb-3 text-sm font-semibold text-foreground">{primary.label} Intrinsic Value by Scenario</p>
         <ResponsiveContainer width="100%" height={200}>
           <BarChart data={waterfallData} margin={{ top: 4, right: 8, left: 0, bottom: 0 }}>
             <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
@@ -176,7 +217,7 @@ export function ScenarioTab({ config, computed: _computed }: Props) {
               </tr>
             </thead>
             <tbody className="divide-y divide-border">
-              {MODELS.map(({ key, label }) => {
+              {models.map(({ key, label }) => {
                 const bear = Number(scenarioComputed.Bear[key] ?? 0)
                 const base = Number(scenarioComputed.Base[key] ?? 0)
                 const bull = Number(scenarioComputed.Bull[key] ?? 0)
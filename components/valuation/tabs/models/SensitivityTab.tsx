@@ -0,0 +1,263 @@
+"use client"
+
+import { useState, useMemo } from "react"
+import {
+  BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer,
+  ReferenceLine, Cell,
+} from "recharts"
+import { MetricCard } from "../../shared/MetricCard"
+import { fmtUsd, fmtPct } from "@/lib/valuation/calculations"
+import {
+  SENSITIVITY_OUTPUTS, assembleSensitivity, sensitivityPlan, sensitivityRequest,
+  type SensitivityOutput, type TornadoBar,
+} from "@/lib/valuation/sensitivity"
+import { useScenario } from "@/context/ScenarioContext"
+import { useValuationTask } from "@/hooks/useValuationTask"
+import type { ComputedValuations } from "@/lib/valuation/calculations"
+import type { ValuationConfig } from "@/types/valuation"
+
+interface Props {
+  config: ValuationConfig
+  computed: ComputedValuations
+}
+
+const RANGES = [0.05, 0.1, 0.2, 0.3]
+const TORNADO_ROWS = 12
+const SPIDER_LINES = 6
+const SPIDER_COLORS = ["#2563EB", "#DC2626", "#16A34A", "#EA580C", "#7C3AED", "#0891B2"]
+const LOW_COLOR  = "#F97316"
+const HIGH_COLOR = "#3B82F6"
+
+function fmtOutput(key: SensitivityOutput, v: number): string {
+  if (key === "wacc_calc" || key === "ke_calc") return fmtPct(v, 2)
+  if (key === "ev_fcff") return fmtUsd(v) + "M"
+  return fmtUsd(v, 2)
+}
+
+function fmtInput(unit: TornadoBar["unit"], v: number): string {
+  if (unit === "%") return fmtPct(v, 2)
+  if (unit === "yrs") return `${v.toFixed(1)} yrs`
+  return `${v.toFixed(2)}×`
+}
+
+export function SensitivityTab({ config, computed }: Props) {
+  const { assumptions: a } = useScenario()
+  const B = config.baseline
+  const [selectedOutput, setSelectedOutput] = useState<SensitivityOutput>("pps_fcff")
+  const [range, setRange] = useState(0.1)
+
+  // Outputs the current model set produces
+  const outputs = SENSITIVITY_OUTPUTS.filter((o) => computed[o.key] > 0)
+  const output = outputs.some((o) => o.key === selectedOutput) ? selectedOutput : outputs[0]?.key ?? selectedOutput
+  const outputLabel = SENSITIVITY_OUTPUTS.find((o) => o.key === output)?.label ?? output
+
+  const plan = useMemo(() => sensitivityPlan(a, { range }), [a, range])
+  const request = useMemo(() => sensitivityRequest({
+    B,
+    comps: config.comps,
+    segments: config.segments,
+    acquisitions: config.acquisitions,
+    histEPS: config.historical_is.eps,
+    a,
+    issues: computed.dataIssues,
+    modelSet: config.model_set,
+  }, output, plan), [B, config, a, computed.dataIssues, output, plan])
+  const grid = useValuationTask(request)
+
+  // Rows from a superseded request (other output, range or assumptions) are ignored until the new grid lands
+  const result = useMemo(
+    () => grid.result && grid.request === request ? assembleSensitivity(plan, output, grid.result) : null,
+    [grid.result, grid.request, request, plan, output],
+  )
+
+  const base = result?.base ?? 0
+  const bars = result?.tornado.slice(0, TORNADO_ROWS) ?? []
+  const tornadoData = bars.map((b) => {
+    const lo = Math.min(b.low, b.high, base)
+    const hi = Math.max(b.low, b.high, base)
+    return {
+      label: b.label,
+      offset: lo,
+      left: base - lo,
+      right: hi - base,
+      leftColor: b.low <= b.high ? LOW_COLOR : HIGH_COLOR,
+      rightColor: b.low <= b.high ? HIGH_COLOR : LOW_COLOR,
+    }
+  })
+  const xMin = Math.min(base, ...tornadoData.map((d) => d.offset))
+  const xMax = Math.max(base, ...tornadoData.map((d) => d.offset + d.left + d.right))
+  const pad = (xMax - xMin) * 0.05 || Math.abs(base) * 0.05 || 1
+
+  const spiderLines = result?.spider.slice(0, SPIDER_LINES) ?? []
+  const spiderData = spiderLines[0]?.points.map((p, k) => ({
+    flex: Math.round(p.flex * 1000) / 10,
+    ...Object.fromEntries(spiderLines.map((l) => [l.label, base !== 0 ? (l.points[k].value / base - 1) * 100 : 0])),
+  })) ?? []
+
+  const top = result?.tornado[0]
+  const insensitive = result?.tornado.filter((b) => b.swing === 0).length ?? 0
+  const pctRange = `±${(range * 100).toFixed(0)}%`
+
+  return (
+    <div className="space-y-6 p-4">
+      <p className="text-sm text-muted-foreground font-mono">
+        Sensitivity — each assumption flexed {pctRange} of its current value, one at a time, with every other input held
+        {grid.running && <span className="ml-2 text-blue-400">Computing… {(grid.progress * 100).toFixed(0)}%</span>}
+        {grid.error && <span className="ml-2 text-red-400">{grid.error}</span>}
+      </p>
+
+      {/* Controls */}
+      <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+        <label className="flex items-center gap-1.5">
+          Output
+          <select
+            value={output}
+            onChange={(e) => setSelectedOutput(e.target.value as SensitivityOutput)}
+            className="rounded-md border border-border bg-muted/50 px-2 py-1 text-xs text-foreground"
+          >
+            {outputs.map((o) => <option key={o.key} value={o.key}>{o.label}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-1.5">
+          Range
+          <select
+            value={range}
+            onChange={(e) => setRange(Number(e.target.value))}
+            className="rounded-md border border-border bg-muted/50 px-2 py-1 text-xs text-foreground"
+          >
+            {RANGES.map((r) => <option key={r} value={r}>±{(r * 100).toFixed(0)}%</option>)}
+          </select>
+        </label>
+      </div>
+
+      {!result && (
+        <div className="flex items-center justify-center h-48 text-muted-foreground border border-dashed border-border rounded-lg">
+          <p className="text-sm">{grid.error ? "Sensitivity unavailable" : "Computing sensitivity…"}</p>
+        </div>
+      )}
+
+      {result && (
+        <>
+          {/* KPIs */}
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+            <MetricCard label={`Base ${outputLabel}`} value={fmtOutput(output, base)} />
+            <MetricCard label="Top Driver" value={top && top.swing > 0 ? top.label : "—"} />
+            <MetricCard
+              label={`Top Swing (${pctRange})`}
+              value={top ? fmtOutput(output, top.swing) : "—"}
+              delta={top && base !== 0 ? `${fmtPct(top.swing / Math.abs(base), 1)} of base` : undefined}
+            />
+            <MetricCard label="Inputs Flexed" value={`${result.tornado.length}`} delta={insensitive > 0 ? `${insensitive} with no effect` : undefined} />
+          </div>
+
+          {/* Tornado */}
+          <div className="rounded-lg border border-border bg-card p-4">
+            <p className="mb-4 text-sm font-semibold text-foreground">
+              Tornado — {outputLabel} ({pctRange} per input, top {bars.length})
+            </p>
+            <ResponsiveContainer width="100%" height={Math.max(240, bars.length * 30)}>
+              <BarChart layout="vertical" data={tornadoData} margin={{ top: 8, right: 40, left: 130, bottom: 8 }}>
+                <CartesianGrid horizontal={false} strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                <XAxis
+                  type="number"
+                  domain={[xMin - pad, xMax + pad]}
+                  allowDataOverflow
+                  tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 11 }}
+                  tickFormatter={(v: number) => fmtOutput(output, v)}
+                />
+                <YAxis type="category" dataKey="label" tick={{ fill: "hsl(var(--foreground))", fontSize: 10 }} width={125} />
+                <Tooltip
+                  contentStyle={{ background: "hsl(var(--card))", border: "1px solid hsl(var(--border))", borderRadius: 6, color: "hsl(var(--foreground))" }}
+                  formatter={(v: number, name: string) => [
+                    `${name === "left" ? "−" : "+"}${fmtOutput(output, v)}`,
+                    name === "left" ? "Below base" : "Above base",
+                  ]}
+                />
+                <Bar dataKey="offset" stackId="t" fill="transparent" legendType="none" tooltipType="none" />
+                <Bar dataKey="left" stackId="t" legendType="none">
+                  {tornadoData.map((d) => <Cell key={d.label} fill={d.leftColor} fillOpacity={0.8} />)}
+                </Bar>
+                <Bar dataKey="right" stackId="t" legendType="none">
+                  {tornadoData.map((d) => <Cell key={d.label} fill={d.rightColor} fillOpacity={0.8} />)}
+                </Bar>
+                <ReferenceLine
+                  x={base}
+                  stroke="#94A3B8"
+                  strokeWidth={2}
+                  label={{ value: fmtOutput(output, base), fill: "#94A3B8", fontSize: 10, position: "top" }}
+                />
+                {output.startsWith("pps_") && B.current_price > 0 && (
+                  <ReferenceLine x={B.current_price} stroke="#EF4444" strokeDasharray="5 5" />
+                )}
+              </BarChart>
+            </ResponsiveContainer>
+            <p className="mt-2 text-[10px] text-muted-foreground text-center">
+              Orange = input lowered · Blue = input raised · Grey line = base{output.startsWith("pps_") ? " · Red dashed = market price" : ""}
+            </p>
+          </div>
+
+          {/* Spider */}
+          <div className="rounded-lg border border-border bg-card p-4">
+            <p className="mb-3 text-sm font-semibold text-foreground">Spider — % change in {outputLabel} vs % change in input</p>
+            <ResponsiveContainer width="100%" height={260}>
+              <LineChart data={spiderData} margin={{ top: 4, right: 8, left: 0, bottom: 4 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                <XAxis
+                  dataKey="flex"
+                  type="number"
+                  domain={[-range * 100, range * 100]}
+                  tickFormatter={(v: number) => `${v > 0 ? "+" : ""}${v}%`}
+                  tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 10 }}
+                />
+                <YAxis tickFormatter={(v: number) => `${v.toFixed(0)}%`} tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 10 }} />
+                <Tooltip
+                  contentStyle={{ background: "hsl(var(--card))", border: "1px solid hsl(var(--border))", borderRadius: 6, color: "hsl(var(--foreground))" }}
+                  labelFormatter={(v) => `Input ${Number(v) > 0 ? "+" : ""}${v}%`}
+                  formatter={(v: number, name: string) => [`${v >= 0 ? "+" : ""}${v.toFixed(1)}%`, name]}
+                />
+                <ReferenceLine x={0} stroke="#94A3B8" />
+                <ReferenceLine y={0} stroke="#94A3B8" />
+                {spiderLines.map((l, i) => (
+                  <Line key={l.field} dataKey={l.label} stroke={SPIDER_COLORS[i % SPIDER_COLORS.length]} strokeWidth={2} dot={{ r: 2 }} />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+            <div className="mt-2 flex flex-wrap justify-center gap-3 text-[10px] text-muted-foreground">
+              {spiderLines.map((l, i) => (
+                <span key={l.field} style={{ color: SPIDER_COLORS[i % SPIDER_COLORS.length] }}>● {l.label}</span>
+              ))}
+            </div>
+          </div>
+
+          {/* Detail */}
+          <div className="rounded-lg border border-border bg-card overflow-x-auto">
+            <table className="w-full text-xs font-mono">
+              <thead>
+                <tr className="border-b border-border bg-muted/50 text-muted-foreground">
+                  <th className="px-3 py-2 text-left font-sans">Input</th>
+                  <th className="px-3 py-2 text-right">Current</th>
+                  <th className="px-3 py-2 text-right">Low / High</th>
+                  <th className="px-3 py-2 text-right">{outputLabel} at Low</th>
+                  <th className="px-3 py-2 text-right">{outputLabel} at High</th>
+                  <th className="px-3 py-2 text-right">Swing</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.tornado.map((b) => (
+                  <tr key={b.field} className="border-b border-border last:border-0">
+                    <td className="px-3 py-1.5 font-sans text-foreground">{b.label}</td>
+                    <td className="px-3 py-1.5 text-right text-muted-foreground">{fmtInput(b.unit, b.value)}</td>
+                    <td className="px-3 py-1.5 text-right text-muted-foreground">{fmtInput(b.unit, b.lowInput)} / {fmtInput(b.unit, b.highInput)}</td>
+                    <td className="px-3 py-1.5 text-right text-foreground">{fmtOutput(output, b.low)}</td>
+                    <td className="px-3 py-1.5 text-right text-foreground">{fmtOutput(output, b.high)}</td>
+                    <td className="px-3 py-1.5 text-right text-foreground">{fmtOutput(output, b.swing)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
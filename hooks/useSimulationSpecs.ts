@@ -0,0 +1,42 @@
+"use client"
+
+import { useState, useCallback, useEffect } from "react"
+import type { SimulationSpec } from "@/types/valuation"
+
+const STORAGE_KEY = "msf_sim_specs"
+
+interface UseSimulationSpecs {
+  specs: SimulationSpec[]
+  save: (spec: SimulationSpec) => void
+  remove: (name: string) => void
+}
+
+/** Monte Carlo specs saved in localStorage, keyed by name (saving a name again overwrites it). */
+export function useSimulationSpecs(): UseSimulationSpecs {
+  const [specs, setSpecs] = useState<SimulationSpec[]>([])
+
+  useEffect(() => {
+    try {
+      setSpecs(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]"))
+    } catch { /* corrupt entry — start empty */ }
+  }, [])
+
+  const persist = useCallback((update: (prev: SimulationSpec[]) => SimulationSpec[]) => {
+    setSpecs((prev) => {
+      const next = update(prev)
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next))
+      return next
+    })
+  }, [])
+
+  const save = useCallback(
+    (spec: SimulationSpec) => persist((prev) => [spec, ...prev.filter((s) => s.name !== spec.name)]),
+    [persist],
+  )
+  const remove = useCallback(
+    (name: string) => persist((prev) => prev.filter((s) => s.name !== name)),
+    [persist],
+  )
+
+  return { specs, save, remove }
+}
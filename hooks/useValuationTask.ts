@@ -0,0 +1,42 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { getValuationPool } from "@/lib/valuation/workerPool"
+import type { ValuationRequest, ValuationResult } from "@/lib/valuation/workerProtocol"
+
+interface ValuationTaskState<R extends ValuationRequest> {
+  result: ValuationResult<R> | null
+  request: R | null      // the request that produced `result`
+  progress: number       // 0–1
+  running: boolean
+  error: string | null
+}
+
+/**
+ * Runs `request` on the valuation worker pool whenever it changes (memoise
+ * it), cancelling the previous run. Keeps the last result while a new one
+ * computes so the view doesn't blank out between edits; compare `request`
+ * with the current one before reading a result that depends on it.
+ */
+export function useValuationTask<R extends ValuationRequest>(request: R | null): ValuationTaskState<R> {
+  const [state, setState] = useState<ValuationTaskState<R>>({ result: null, request: null, progress: 0, running: false, error: null })
+
+  useEffect(() => {
+    if (!request) return
+    const ctrl = new AbortController()
+    setState((s) => ({ ...s, progress: 0, running: true, error: null }))
+    getValuationPool()
+      .run(request, {
+        signal: ctrl.signal,
+        onProgress: (done, total) => setState((s) => ({ ...s, progress: total > 0 ? done / total : 0 })),
+      })
+      .then((result) => setState({ result, request, progress: 1, running: false, error: null }))
+      .catch((err: Error) => {
+        if (err.name === "AbortError") return
+        setState((s) => ({ ...s, running: false, error: err.message }))
+      })
+    return () => ctrl.abort()
+  }, [request])
+
+  return state
+}
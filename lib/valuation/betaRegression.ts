@@ -0,0 +1,96 @@
+/**
+ * Regression beta from price history: OLS of the stock's simple returns on
+ * the market index's, over adjusted closes matched by date. Reports the raw
+ * slope with its standard error and R², plus the Blume adjustment
+ * (0.67 × raw + 0.33) that pulls estimates toward the market beta of 1.
+ * Pure and client-safe.
+ */
+
+import type { PriceInterval, PricePoint } from "@/lib/valuation/providers"
+
+export interface BetaWindow {
+  key: string
+  label: string
+  interval: PriceInterval
+  years: number
+}
+
+/** Common look-back windows; 5y monthly is the data-vendor default. */
+export const BETA_WINDOWS: BetaWindow[] = [
+  { key: "1y_daily",   label: "1Y daily",   interval: "1d",  years: 1 },
+  { key: "2y_weekly",  label: "2Y weekly",  interval: "1wk", years: 2 },
+  { key: "5y_weekly",  label: "5Y weekly",  interval: "1wk", years: 5 },
+  { key: "5y_monthly", label: "5Y monthly", interval: "1mo", years: 5 },
+]
+
+export interface ReturnPair {
+  date: string      // period end
+  market: number
+  stock: number
+}
+
+export interface BetaRegression {
+  raw: number
+  adjusted: number  // Blume
+  alpha: number     // intercept, per period
+  std_error: number // of the raw beta
+  r_squared: number
+  n: number
+  pairs: ReturnPair[]
+}
+
+export function blumeAdjust(rawBeta: number): number {
+  return 0.67 * rawBeta + 0.33
+}
+
+/** Period returns over dates both series share; unmatched dates are dropped. */
+export function periodReturns(stock: PricePoint[], market: PricePoint[]): ReturnPair[] {
+  const marketByDate = new Map(market.map((p) => [p.date, p.close]))
+  const matched = stock
+    .filter((p) => marketByDate.has(p.date))
+    .sort((x, y) => x.date.localeCompare(y.date))
+  const pairs: ReturnPair[] = []
+  for (let i = 1; i < matched.length; i++) {
+    const s0 = matched[i - 1].close, s1 = matched[i].close
+    const m0 = marketByDate.get(matched[i - 1].date)!, m1 = marketByDate.get(matched[i].date)!
+    if (s0 <= 0 || m0 <= 0) continue
+    pairs.push({ date: matched[i].date, market: m1 / m0 - 1, stock: s1 / s0 - 1 })
+  }
+  return pairs
+}
+
+/** OLS stock-on-market regression; null below three points or with a flat market. */
+export function regressBeta(pairs: ReturnPair[]): BetaRegression | null {
+  const n = pairs.length
+  if (n < 3) return null
+
+  const mx = pairs.reduce((s, p) => s + p.market, 0) / n
+  const my = pairs.reduce((s, p) => s + p.stock, 0) / n
+  let sxx = 0, sxy = 0, syy = 0
+  for (const p of pairs) {
+    sxx += (p.market - mx) ** 2
+    sxy += (p.market - mx) * (p.stock - my)
+    syy += (p.stock - my) ** 2
+  }
+  if (sxx <= 0) return null
+
+  const raw = sxy / sxx
+  const alpha = my - raw * mx
+  const ssr = Math.max(0, syy - raw * sxy)   // residual sum of squares
+  return {
+    raw,
+    adjusted: blumeAdjust(raw),
+    alpha,
+    std_error: Math.sqrt(ssr / (n - 2) / sxx),
+    r_squared: syy > 0 ? 1 - ssr / syy : 0,
+    n,
+    pairs,
+  }
+}
+
+/** ISO start date `years` before `asOf`. */
+export function windowStart(years: number, asOf: Date = new Date()): string {
+  const d = new Date(asOf)
+  d.setUTCFullYear(d.getUTCFullYear() - years)
+  return d.toISOString().slice(0, 10)
+}
@@ -0,0 +1,241 @@
+/**
+ * Server-only module. Do NOT import in client components.
+ * Persistent cache for raw provider payloads (EDGAR companyfacts, submissions,
+ * CIK table, Yahoo quotes and news). Entries live on disk as JSON so they
+ * survive restarts; companyfacts is tens of MB, so metadata is stored beside
+ * each value and listing never parses the payloads.
+ *
+ * Freshness is per source (CACHE_TTL_MS). Fundamentals are additionally keyed
+ * by a version — the latest filing's accession number — so a new 10-K/10-Q
+ * invalidates them immediately regardless of age.
+ */
+
+import { promises as fs } from "fs"
+import path from "path"
+import { createHash } from "crypto"
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type CacheSource =
+  | "companyTickers"
+  | "submissions"
+  | "companyFacts"
+  | "quoteSummary"
+  | "headlines"
+  | "newsRss"
+  | "priceHistory"
+
+export interface CacheMeta {
+  key: string
+  source: CacheSource
+  storedAt: number      // epoch ms
+  expiresAt: number     // epoch ms; stale afterwards
+  version?: string      // e.g. latest accession number for fundamentals
+  bytes: number         // serialized payload size
+}
+
+export interface CacheEntry<T = unknown> extends CacheMeta {
+  value: T
+}
+
+export interface CacheStore {
+  get<T>(key: string): Promise<CacheEntry<T> | null>
+  set<T>(entry: CacheEntry<T>): Promise<void>
+  list(): Promise<CacheMeta[]>
+  /** Delete one key; returns true if it existed. */
+  delete(key: string): Promise<boolean>
+  /** Delete every entry (or every entry of one source); returns the count removed. */
+  clear(source?: CacheSource): Promise<number>
+}
+
+// ── TTLs ──────────────────────────────────────────────────────────────────────
+
+const MIN  = 60_000
+const HOUR = 60 * MIN
+
+export const CACHE_TTL_MS: Record<CacheSource, number> = {
+  companyTickers: 24 * HOUR,
+  submissions:    1 * HOUR,
+  companyFacts:   7 * 24 * HOUR,   // versioned by accession; the TTL is a backstop
+  quoteSummary:   5 * MIN,
+  headlines:      30 * MIN,
+  newsRss:        30 * MIN,
+  priceHistory:   12 * HOUR,
+}
+
+// ── Stores ────────────────────────────────────────────────────────────────────
+
+/** Disk store: <dir>/<sha1(key)>.json (payload) + <sha1(key)>.meta.json */
+export function diskStore(dir: string): CacheStore {
+  const stem = (key: string) => path.join(dir, createHash("sha1").update(key).digest("hex"))
+
+  const readJson = async <T>(file: string): Promise<T | null> => {
+    try {
+      return JSON.parse(await fs.readFile(file, "utf8")) as T
+    } catch {
+      return null
+    }
+  }
+
+  const remove = async (key: string) => {
+    await Promise.all([
+      fs.rm(`${stem(key)}.json`, { force: true }),
+      fs.rm(`${stem(key)}.meta.json`, { force: true }),
+    ])
+  }
+
+  const list = async (): Promise<CacheMeta[]> => {
+    let files: string[]
+    try {
+      files = await fs.readdir(dir)
+    } catch {
+      return []
+    }
+    const metas = await Promise.all(
+      files.filter((f) => f.endsWith(".meta.json")).map((f) => readJson<CacheMeta>(path.join(dir, f))),
+    )
+    return metas.filter((m): m is CacheMeta => m !== null)
+  }
+
+  return {
+    async get<T>(key: string) {
+      const meta = await readJson<CacheMeta>(`${stem(key)}.meta.json`)
+      if (!meta || meta.key !== key) return null
+      const value = await readJson<T>(`${stem(key)}.json`)
+      return value === null ? null : { ...meta, value }
+    },
+    async set<T>(entry: CacheEntry<T>) {
+      const { value, ...meta } = entry
+      try {
+        await fs.mkdir(dir, { recursive: true })
+        // Payload first, then metadata: a reader never sees metadata without a payload
+        await fs.writeFile(`${stem(entry.key)}.json`, JSON.stringify(value))
+        await fs.writeFile(`${stem(entry.key)}.meta.json`, JSON.stringify(meta))
+      } catch (err) {
+        console.error(`[cache] could not write ${entry.key}:`, err)
+      }
+    },
+    list,
+    async delete(key) {
+      const existed = (await readJson<CacheMeta>(`${stem(key)}.meta.json`)) !== null
+      await remove(key)
+      return existed
+    },
+    async clear(source) {
+      const doomed = (await list()).filter((m) => !source || m.source === source)
+      await Promise.all(doomed.map((m) => remove(m.key)))
+      return doomed.length
+    },
+  }
+}
+
+/** In-process store (tests, or when the disk is read-only). */
+export function memoryStore(): CacheStore {
+  const entries = new Map<string, CacheEntry>()
+  const strip = ({ value: _value, ...meta }: CacheEntry): CacheMeta => meta
+  return {
+    async get<T>(key: string) {
+      return (entries.get(key) as CacheEntry<T> | undefined) ?? null
+    },
+    async set<T>(entry: CacheEntry<T>) {
+      entries.set(entry.key, entry as CacheEntry)
+    },
+    async list() {
+      return [...entries.values()].map(strip)
+    },
+    async delete(key) {
+      return entries.delete(key)
+    },
+    async clear(source) {
+      let n = 0
+      for (const [key, e] of entries) {
+        if (!source || e.source === source) {
+          entries.delete(key)
+          n++
+        }
+      }
+      return n
+    },
+  }
+}
+
+// ── Read-through ──────────────────────────────────────────────────────────────
+
+export interface CachedOptions {
+  /** Serve an expired entry immediately and refresh it in the background. */
+  swr?: boolean
+  /** Entries stored under a different version are misses regardless of age. */
+  version?: string
+  now?: number
+}
+
+/** In-flight loads, so concurrent callers (and background refreshes) share one request. */
+const inflight = new Map<string, Promise<unknown>>()
+
+/**
+ * Read-through cache. Fresh hits return the stored value; misses call `load`
+ * and store non-null results. Stale entries are refreshed synchronously, or —
+ * with `swr` — returned at once while the refresh runs in the background.
+ * If `load` fails and a stale entry exists, the stale value is returned.
+ */
+export async function cached<T>(
+  store: CacheStore,
+  key: string,
+  source: CacheSource,
+  load: () => Promise<T | null>,
+  opts: CachedOptions = {},
+): Promise<T | null> {
+  const now = opts.now ?? Date.now()
+  const hit = await store.get<T>(key)
+  const sameVersion = !hit || opts.version === undefined || hit.version === opts.version
+  const usable = hit && sameVersion ? hit : null
+
+  if (usable && usable.expiresAt > now) return usable.value
+
+  const refresh = (): Promise<T | null> => {
+    const pending = inflight.get(key) as Promise<T | null> | undefined
+    if (pending) return pending
+    const p = load()
+      .then(async (value) => {
+        if (value !== null) {
+          const json = JSON.stringify(value)
+          await store.set<T>({
+            key,
+            source,
+            value,
+            storedAt:  Date.now(),
+            expiresAt: Date.now() + CACHE_TTL_MS[source],
+            version:   opts.version,
+            bytes:     Buffer.byteLength(json ?? ""),
+          })
+        }
+        return value
+      })
+      .finally(() => inflight.delete(key))
+    inflight.set(key, p)
+    return p
+  }
+
+  if (usable && opts.swr) {
+    refresh().catch((err) => console.error(`[cache] background refresh failed for ${key}:`, err))
+    return usable.value
+  }
+
+  try {
+    const value = await refresh()
+    return value ?? usable?.value ?? null
+  } catch (err) {
+    if (usable) return usable.value
+    throw err
+  }
+}
+
+// ── Default store ─────────────────────────────────────────────────────────────
+
+let defaultStore: CacheStore | null = null
+
+/** Process-wide disk store under DATA_CACHE_DIR (default ./.cache/valuation). */
+export function getCacheStore(): CacheStore {
+  defaultStore ??= diskStore(path.resolve(process.env.DATA_CACHE_DIR ?? path.join(".cache", "valuation")))
+  return defaultStore
+}
@@ -1,4 +1,16 @@
-import type { Baseline, Assumptions, ProFormaRow, Signal, SignalRow, RIProjectionRow } from "@/types/valuation"
+import type {
+  Baseline, Assumptions, BalanceSheetRow, CashFlowRow, Comp, EVBridge, ExcessReturnRow, ModelSet, ProFormaRow,
+  Signal, SignalRow, SimulationSpec, RIProjectionRow, TerminalValueMethod, ThreeStatementProjection, ValidationIssue,
+  WorkingCapitalDays,
+} from "@/types/valuation"
+import { baselineAge, blockedModels } from "./validation"
+import { REIT_DEFAULT_MULTIPLES } from "./presets"
+import { debtPolicy, openingDebtState, solveDebtYear } from "./debtSchedule"
+import { baselineCreditInputs, costOfDebt, rateCredit, type CreditInputs, type SyntheticRating } from "./credit"
+import { capmInputs, type CountryRisk } from "./countryRisk"
+import { DEFAULT_SIM_SPEC, applyDraw, createSampler } from "./simulation"
+import { streamAt, uniformPoints, type SamplingMethod } from "./sampling"
+import { evBridge, equityFromEV } from "./evBridge"
 
 export function buildGrowthSchedule(a: Assumptions): number[] {
   const { yr1_g, yr2_g, yr3_g, lt_g, proj_years_n } = a
@@ -11,6 +23,85 @@ export function buildGrowthSchedule(a: Assumptions): number[] {
   })
 }
 
+// ── Valuation date & discounting convention ───────────────────────────────────
+
+/** First projection year: the fiscal year after the baseline period (this year + 1 when unknown). */
+export function projectionStartYear(B: Baseline): number {
+  const end = B.period_end ? new Date(B.period_end) : null
+  return end && !isNaN(end.getTime()) ? end.getFullYear() + 1 : new Date().getFullYear() + 1
+}
+
+/**
+ * Years from the baseline period end to the valuation date (start of today, UTC,
+ * when unset), clamped to 0–1. Older baselines are flagged by validation
+ * ("baseline_stale") rather than rolled forward.
+ */
+export function yearsElapsed(periodEnd?: string, valuationDate?: string): number {
+  return Math.min(1, Math.max(0, baselineAge(periodEnd, valuationDate) ?? 0))
+}
+
+export interface DiscountSchedule {
+  elapsed: number    // years from the baseline period end to the valuation date (0–1)
+  stub: number       // share of projection year 1 still ahead of the valuation date
+  periods: number[]  // discount period (years from the valuation date) per projection year
+  tvPeriod: number   // discount period of the terminal value
+  horizon: number    // end of the final projection year (exit-multiple TV timing)
+}
+
+/**
+ * Discount periods measured from the valuation date. Projection year t ends
+ * t years after the baseline period end; the part of year 1 already elapsed at
+ * the valuation date is a stub, so year-1 flows are scaled by the remaining
+ * share. With the mid-year convention flows arrive mid-period (year 1 in the
+ * middle of the stub) and the Gordon terminal value is discounted with the
+ * final-year flow it capitalises.
+ */
+export function discountSchedule(B: Baseline, a: Assumptions, n: number): DiscountSchedule {
+  const elapsed = yearsElapsed(B.period_end, a.valuation_date)
+  const stub = 1 - elapsed
+  const mid = a.mid_year_convention ?? false
+  const periods = Array.from({ length: n }, (_, i) =>
+    i === 0 ? (mid ? stub / 2 : stub) : i + 1 - elapsed - (mid ? 0.5 : 0),
+  )
+  return { elapsed, stub, periods, tvPeriod: mid ? periods[n - 1] ?? 0 : n - elapsed, horizon: n - elapsed }
+}
+
+/** Whole-year end-of-period discounting, t = 1…n. */
+function endOfYearSchedule(n: number): DiscountSchedule {
+  return { elapsed: 0, stub: 1, periods: Array.from({ length: n }, (_, i) => i + 1), tvPeriod: n, horizon: n }
+}
+
+/** Present value of projection-year flows, year 1 scaled to the stub. */
+export function presentValue(flows: number[], rate: number, schedule: DiscountSchedule): number {
+  return flows.reduce((acc, f, i) => acc + discountFlow(f, i, rate, schedule), 0)
+}
+
+function discountFlow(flow: number, i: number, rate: number, schedule: DiscountSchedule): number {
+  return (flow * (i === 0 ? schedule.stub : 1)) / (1 + rate) ** schedule.periods[i]
+}
+
+/**
+ * Base-year working capital days: DSO on revenue, DIO and DPO on COGS.
+ * Null when the filer reported none of receivables, inventory or payables.
+ */
+export function workingCapitalDays(B: Baseline): WorkingCapitalDays | null {
+  const ar = B.receivables ?? 0
+  const inv = B.inventory ?? 0
+  const ap = B.payables ?? 0
+  if ((ar <= 0 && inv <= 0 && ap <= 0) || B.revenue <= 0) return null
+  const cogs = B.cogs > 0 ? B.cogs : B.revenue
+  return { dso: (ar / B.revenue) * 365, dio: (inv / cogs) * 365, dpo: (ap / cogs) * 365 }
+}
+
+/** Receivables, inventory and payables implied by working capital days. */
+function workingCapitalBalances(rev: number, cogs: number, days: WorkingCapitalDays) {
+  return {
+    receivables: (rev * days.dso) / 365,
+    inventory:   (cogs * days.dio) / 365,
+    payables:    (cogs * days.dpo) / 365,
+  }
+}
+
 export function buildProforma(
   B: Baseline,
   growthRates: number[],
@@ -18,25 +109,39 @@ export function buildProforma(
   startYear?: number,
 ): ProFormaRow[] {
   const nwc_pct = a.nwc_pct_rev ?? 0.03
+  // ΔNWC from receivable / inventory / payable days when reported, else nwc_pct_rev
+  const days = workingCapitalDays(B)
+  let prev_nwc = (B.receivables ?? 0) + (B.inventory ?? 0) - (B.payables ?? 0)
   const cogs_pct = B.revenue ? B.cogs / B.revenue : 0.55
   const da_pct = B.revenue ? B.da_total / B.revenue : 0.03
-  // Issue 7: anchor interest to debt balance, not revenue
-  const implied_debt_rate = B.total_debt > 0
-    ? B.interest_expense / B.total_debt
-    : (a.cost_of_debt ?? 0.045)
-  // Issue 12: dynamic projection year
-  const baseYear = startYear ?? new Date().getFullYear() + 1
+  // SBC held at its reported share of revenue; added back to FCFF unless treated as a cash cost
+  const sbc_pct = B.revenue && B.sbc ? B.sbc / B.revenue : 0
+  const sbcAsCash = a.sbc_as_cash ?? true
+  // Interest on average balances from the debt schedule (tranches, revolver, sweep).
+  // The revolver reprices each year at the synthetic rating of the prior year's figures.
+  const policy = debtPolicy(B, a)
+  let debtState = openingDebtState(B, policy)
+  const syntheticKd = a.synthetic_kd ?? true
+  let creditInputs: CreditInputs = baselineCreditInputs(B)
+  // Issue 12: projection years follow the baseline fiscal year end
+  const baseYear = startYear ?? projectionStartYear(B)
 
   const rows: ProFormaRow[] = []
   let prev_rev = B.revenue
 
   for (let i = 0; i < growthRates.length; i++) {
     const rev = B.revenue * growthRates.slice(0, i + 1).reduce((acc, g) => acc * (1 + g), 1)
-    // Issue 1: ΔNWC — investment in working capital as revenue grows
-    const delta_nwc = (rev - prev_rev) * nwc_pct
     const marginProg = (i + 1) / growthRates.length
     const ebitdaM = B.ebitda_margin + marginProg * (a.target_ebitda_m - B.ebitda_margin)
     const cogs = rev * cogs_pct
+    // Issue 1: ΔNWC — investment in working capital as revenue grows
+    let delta_nwc = (rev - prev_rev) * nwc_pct
+    if (days) {
+      const wc = workingCapitalBalances(rev, cogs, days)
+      const nwc = wc.receivables + wc.inventory - wc.payables
+      delta_nwc = nwc - prev_nwc
+      prev_nwc = nwc
+    }
     const gp = rev - cogs
     const da = rev * da_pct
     // Drive EBITDA from the progressing margin target, then back out EBIT.
@@ -45,18 +150,34 @@ export function buildProforma(
     const ebitda = rev * ebitdaM
     const op_inc = Math.max(0, ebitda - da)
     const sga = Math.max(0, gp - op_inc)   // residual for display; absorbs margin improvement
-    // Issue 7: debt-based interest (constant debt balance)
-    const interest = B.total_debt * implied_debt_rate
-    const pretax = op_inc - interest
-    const tax = pretax > 0 ? pretax * B.tax_rate : 0
-    const ni = pretax - tax
     const capex = rev * a.capex_pct
-    // Issue 1: FCFF includes ΔNWC deduction
-    const fcff = op_inc * (1 - B.tax_rate) + da - capex - delta_nwc
-    const fcfe = fcff - interest * (1 - B.tax_rate)
-    const dividends = ni > 0 ? ni * B.payout_ratio : 0
+    const sbc = rev * sbc_pct
+    const incomeAfter = (interest: number) => {
+      const pretax = op_inc - interest
+      const tax = pretax > 0 ? pretax * B.tax_rate : 0
+      const ni = pretax - tax
+      return { pretax, tax, ni, dividends: ni > 0 ? ni * B.payout_ratio : 0 }
+    }
+    const credit = rateCredit(creditInputs, a)
+    const kd = syntheticKd ? credit.cost_of_debt : policy.revolver_rate
+    const solved = solveDebtYear({ ...policy, revolver_rate: kd }, debtState, baseYear + i, rev, (interest) => {
+      const { ni, dividends } = incomeAfter(interest)
+      return ni + da + (sbcAsCash ? 0 : sbc) - delta_nwc - capex - dividends
+    })
+    debtState = solved.state
+    const debt = solved.row
+    const interest = debt.interest
+    const { pretax, tax, ni, dividends } = incomeAfter(interest)
+    // Issue 1: FCFF includes ΔNWC deduction. SBC is already expensed in EBIT, so
+    // treating it as a cash cost simply means not adding it back.
+    const fcff = op_inc * (1 - B.tax_rate) + da - capex - delta_nwc + (sbcAsCash ? 0 : sbc)
+    const fcfe = fcff - interest * (1 - B.tax_rate) + debt.net_borrowing
 
     prev_rev = rev
+    creditInputs = {
+      ebit: op_inc, ebitda, interest, tax,
+      net_debt: debt.closing_debt - debt.cash_closing, total_debt: debt.closing_debt,
+    }
     rows.push({
       year: baseYear + i,
       revenue: rev,
@@ -72,31 +193,215 @@ export function buildProforma(
       ebitda,
       capex,
       delta_nwc,
+      sbc,
       fcff,
       fcfe,
       dividends,
       ebitda_margin: rev ? ebitda / rev : 0,
+      net_borrowing: debt.net_borrowing,
+      debt,
+      rating: credit.rating,
+      kd,
     })
   }
 
   return rows
 }
 
+/**
+ * Three-statement roll-forward of the pro-forma income statement.
+ * Balance sheet: working capital from days, PP&E_t = PP&E_{t-1} + capex − D&A,
+ * debt from the debt schedule, equity_t = equity_{t-1} + NI − dividends, cash
+ * as the plug from the cash flow statement. Other assets / liabilities are held
+ * at their reported residuals so the opening balance sheet ties to total assets.
+ * Unless SBC is treated as a cash cost it is added back in CFO and credited to
+ * equity as paid-in capital, matching the FCFF add-back.
+ */
+export function buildThreeStatement(B: Baseline, proforma: ProFormaRow[], sbcAsCash = true): ThreeStatementProjection {
+  const days = workingCapitalDays(B)
+  const cash0 = B.total_debt - B.net_debt
+  const ar0   = days ? B.receivables ?? 0 : 0
+  const inv0  = days ? B.inventory ?? 0 : 0
+  const ap0   = days ? B.payables ?? 0 : 0
+  const ppe0  = B.ppe ?? 0
+  const debt0 = proforma[0]?.debt.opening_debt ?? B.total_debt
+
+  const row = (year: number, r: Omit<BalanceSheetRow, "year" | "total_assets" | "total_liabilities" | "balance_check">): BalanceSheetRow => {
+    const total_assets = r.cash + r.receivables + r.inventory + r.ppe + r.other_assets
+    const total_liabilities = r.payables + r.debt + r.other_liabilities
+    return { year, ...r, total_assets, total_liabilities, balance_check: total_assets - total_liabilities - r.equity }
+  }
+
+  const opening = row((proforma[0]?.year ?? projectionStartYear(B)) - 1, {
+    cash:              cash0,
+    receivables:       ar0,
+    inventory:         inv0,
+    ppe:               ppe0,
+    other_assets:      B.total_assets - cash0 - ar0 - inv0 - ppe0,
+    payables:          ap0,
+    debt:              debt0,
+    other_liabilities: B.total_assets - B.total_equity - debt0 - ap0,
+    equity:            B.total_equity,
+  })
+
+  const balance: BalanceSheetRow[] = []
+  const cashflow: CashFlowRow[] = []
+  let prev = opening
+  for (const r of proforma) {
+    const net_borrowing = r.net_borrowing
+    const sbc = sbcAsCash ? 0 : r.sbc
+    const cfo = r.net_income + r.da + sbc - r.delta_nwc
+    const cfi = -r.capex
+    const cff = net_borrowing - r.dividends
+    const net_change_cash = cfo + cfi + cff
+    cashflow.push({
+      year: r.year, net_income: r.net_income, da: r.da, sbc, delta_nwc: r.delta_nwc, cfo,
+      capex: r.capex, cfi, net_borrowing, dividends: r.dividends, cff, net_change_cash,
+    })
+
+    const wc = days ? workingCapitalBalances(r.revenue, r.cogs, days) : { receivables: 0, inventory: 0, payables: 0 }
+    const bs = row(r.year, {
+      cash:              prev.cash + net_change_cash,
+      ...wc,
+      ppe:               prev.ppe + r.capex - r.da,
+      // Without working capital detail ΔNWC accumulates in other assets
+      other_assets:      prev.other_assets + (days ? 0 : r.delta_nwc),
+      debt:              prev.debt + net_borrowing,
+      other_liabilities: prev.other_liabilities,
+      equity:            prev.equity + r.net_income - r.dividends + sbc,
+    })
+    balance.push(bs)
+    prev = bs
+  }
+
+  return { days, opening, balance, cashflow }
+}
+
+// ── Terminal value ────────────────────────────────────────────────────────────
+
+export interface TerminalValue {
+  method: TerminalValueMethod  // effective method: perpetuity falls back to exit multiple when WACC ≤ g
+  weight: number               // weight on the perpetuity-growth TV
+  gordon: number               // FCF_n × (1+g) / (WACC − g); 0 when WACC ≤ g
+  exit: number                 // EBITDA_n × exit multiple
+  tv: number                   // blended TV, stated at schedule.tvPeriod
+  impliedExitMultiple: number  // Gordon TV ÷ EBITDA_n
+  impliedGrowth: number        // perpetual growth that reproduces the exit-multiple TV
+}
+
+/**
+ * FCFF terminal value by perpetuity growth, exit EV/EBITDA, or a weighted blend,
+ * with each method's implied cross-check on the other. The exit-multiple TV is
+ * a value at the end of year n; under the mid-year convention it is restated
+ * to the Gordon TV's discount period so both can be discounted together.
+ */
+export function computeTerminalValue(
+  lastFcf: number,
+  lastEbitda: number,
+  rate: number,
+  a: Assumptions,
+  schedule: DiscountSchedule,
+): TerminalValue {
+  const g = a.terminal_g
+  const gordonValid = rate > g
+  const gordon = gordonValid ? (lastFcf * (1 + g)) / (rate - g) : 0
+  const exit = lastEbitda * a.exit_mult
+  const exitAtTv = exit * (1 + rate) ** (schedule.tvPeriod - schedule.horizon)
+
+  const requested = a.tv_method ?? "blend"
+  const method: TerminalValueMethod = gordonValid ? requested : "exit_multiple"
+  const weight = method === "perpetuity" ? 1 : method === "exit_multiple" ? 0 : Math.min(1, Math.max(0, a.tv_blend_weight ?? 0.5))
+
+  return {
+    method, weight, gordon, exit,
+    tv: weight * gordon + (1 - weight) * exitAtTv,
+    impliedExitMultiple: gordonValid && lastEbitda > 0 ? gordon / lastEbitda : 0,
+    // TV = FCF(1+g)/(r−g)  ⇒  g = (TV·r − FCF) / (TV + FCF)
+    impliedGrowth: exit + lastFcf !== 0 ? (exit * rate - lastFcf) / (exit + lastFcf) : 0,
+  }
+}
+
 export function dcfPrice(
   fcfs: number[],
   terminalVal: number,
   discountRate: number,
   netDebt: number,
   shares: number,
+  schedule: DiscountSchedule = endOfYearSchedule(fcfs.length),
 ): { pps: number; ev: number; pvFcfs: number; pvTv: number } {
-  const dfs = fcfs.map((_, i) => 1 / (1 + discountRate) ** (i + 1))
-  const pvFcfs = fcfs.reduce((acc, f, i) => acc + f * dfs[i], 0)
-  const pvTv = terminalVal * dfs[dfs.length - 1]
+  const pvFcfs = presentValue(fcfs, discountRate, schedule)
+  const pvTv = terminalVal / (1 + discountRate) ** schedule.tvPeriod
   const ev = pvFcfs + pvTv
   const pps = shares ? (ev - netDebt) / shares : 0
   return { pps, ev, pvFcfs, pvTv }
 }
 
+// ── Share count (treasury stock method) ──────────────────────────────────────
+
+/** Diluted share count behind a per-share value. */
+export interface ShareCount {
+  shares: number        // divisor (millions)
+  basic: number
+  rsus: number
+  options_itm: number   // net new shares from in-the-money options: options × (1 − strike / price)
+  tsm: boolean          // false when the reported weighted-average diluted count was used
+  iterations: number
+}
+
+const TSM_MAX_ITERATIONS = 50
+const TSM_TOLERANCE      = 1e-9
+
+/** True when options or RSUs were reported and TSM dilution is switched on. */
+function usesTSM(B: Baseline, a: Assumptions): boolean {
+  return (a.tsm_dilution ?? true) && ((B.options_outstanding ?? 0) > 0 || (B.rsus_outstanding ?? 0) > 0)
+}
+
+/**
+ * Treasury stock method at `price`: basic shares + unvested RSUs + the shares
+ * left after option proceeds buy back stock. Options out of the money add nothing,
+ * and neither do options without a reported strike (validation flags them) —
+ * a zero strike would count every option as a free share.
+ */
+export function tsmShares(B: Baseline, price: number): Omit<ShareCount, "tsm" | "iterations"> {
+  const basic = B.shares_basic > 0 ? B.shares_basic : B.shares_diluted
+  const rsus = B.rsus_outstanding ?? 0
+  const strike = B.options_strike ?? 0
+  const options_itm = strike > 0 && price > strike ? (B.options_outstanding ?? 0) * (1 - strike / price) : 0
+  return { shares: basic + rsus + options_itm, basic, rsus, options_itm }
+}
+
+/**
+ * Per-share value of `equity` ($M). With TSM dilution the share count depends
+ * on the price being solved for, so it is iterated to a fixed point:
+ * P = equity / shares(P). Otherwise divides by the reported diluted shares.
+ */
+export function equityPerShare(
+  equity: number,
+  B: Baseline,
+  a: Assumptions,
+): { pps: number; count: ShareCount } {
+  if (!usesTSM(B, a)) {
+    const shares = B.shares_diluted
+    return {
+      pps: shares > 0 ? equity / shares : 0,
+      count: { shares, basic: B.shares_basic, rsus: 0, options_itm: 0, tsm: false, iterations: 0 },
+    }
+  }
+  let count = tsmShares(B, 0)
+  if (count.shares <= 0) return { pps: 0, count: { ...count, tsm: true, iterations: 0 } }
+  let pps = equity / count.shares
+  let iterations = 0
+  while (iterations < TSM_MAX_ITERATIONS) {
+    iterations++
+    count = tsmShares(B, pps)
+    const next = equity / count.shares
+    const done = Math.abs(next - pps) <= TSM_TOLERANCE * Math.max(1, Math.abs(pps))
+    pps = next
+    if (done) break
+  }
+  return { pps, count: { ...count, tsm: true, iterations } }
+}
+
 export function assignSignal(intrinsic: number, market: number): Signal {
   if (!market || market <= 0) return "N/A"
   if (intrinsic > market * 1.15) return "BUY"
@@ -104,6 +409,59 @@ export function assignSignal(intrinsic: number, market: number): Signal {
   return "HOLD"
 }
 
+// ── Consensus blend ───────────────────────────────────────────────────────────
+
+/**
+ * Headline blend per model set: anchor 35%, multiples average 45%, tail 20%.
+ * The first live anchor is used; a REIT without reported property opex has no
+ * NAV, so P/FFO anchors instead and leaves the multiples average.
+ */
+const CONSENSUS_BLEND: Record<ModelSet, { anchors: string[]; multiples: string[]; tail: string }> = {
+  standard:  { anchors: ["FCFF (DCF)"],              multiples: ["EBITDA Multiple", "Revenue Multiple", "P/E Multiple", "PEG", "P/B"], tail: "SOTP" },
+  financial: { anchors: ["Excess Return"],           multiples: ["P/E Multiple", "PEG", "P/B", "P/TBV vs ROTE"],                        tail: "DDM (2-Stage)" },
+  reit:      { anchors: ["NAV (Cap Rate)", "P/FFO"], multiples: ["P/FFO", "P/AFFO", "EBITDA Multiple", "P/B"],                         tail: "DDM (2-Stage)" },
+}
+const CONSENSUS_WEIGHTS = { anchor: 0.35, multiples: 0.45, tail: 0.20 }
+
+export interface ConsensusBlend {
+  intrinsic: number | null      // null when the anchor is N/A
+  anchor: number | null
+  anchorMethod: string
+  multiplesAvg: number | null   // null when no multiple is usable
+  methods: string[]             // signal-table models that entered the blend
+}
+
+/**
+ * Headline consensus price from the signal table. Only models with a live
+ * signal enter — not N/A, not blocked by data issues — the multiples average
+ * divides by the multiples actually used, and a missing multiples or tail
+ * component's weight is spread over the rest.
+ */
+export function consensusBlend(signalRows: SignalRow[], modelSet: ModelSet): ConsensusBlend {
+  const live = new Map(
+    signalRows.filter((r) => r.signal !== "N/A" && r.intrinsicValue > 0).map((r) => [r.method, r.intrinsicValue]),
+  )
+  const spec = CONSENSUS_BLEND[modelSet]
+  const anchorMethod = spec.anchors.find((m) => live.has(m)) ?? spec.anchors[0]
+  const anchor = live.get(anchorMethod) ?? null
+  const multiples = spec.multiples.filter((m) => m !== anchorMethod && live.has(m))
+  const multiplesAvg = multiples.length ? multiples.reduce((s, m) => s + live.get(m)!, 0) / multiples.length : null
+  const tail = live.get(spec.tail) ?? null
+  if (anchor === null) return { intrinsic: null, anchor, anchorMethod, multiplesAvg, methods: [] }
+
+  const parts: [number, number][] = [[anchor, CONSENSUS_WEIGHTS.anchor]]
+  if (multiplesAvg !== null) parts.push([multiplesAvg, CONSENSUS_WEIGHTS.multiples])
+  if (tail !== null) parts.push([tail, CONSENSUS_WEIGHTS.tail])
+  const weight = parts.reduce((s, [, w]) => s + w, 0)
+  return {
+    intrinsic: parts.reduce((s, [v, w]) => s + v * w, 0) / weight,
+    anchor,
+    anchorMethod,
+    multiplesAvg,
+    methods: [anchorMethod, ...multiples, ...(tail !== null ? [spec.tail] : [])],
+  }
+}
+
 export function fmtUsd(n: number, decimals = 0): string {
   return `$${n.toLocaleString("en-US", { minimumFractionDigits: decimals, maximumFractionDigits: decimals })}`
 }
@@ -116,7 +474,7 @@ export function fmtPct(n: number, decimals = 1): string {
 
 /**
  * CFA L1: WACC = (E/V) × ke + (D/V) × kd × (1-T)
- * ke = rf + β × ERP  (CAPM)
+ * ke = rf + β × ERP + CRP  (CAPM, plus any country risk premium)
  */
 export function computeWACC(
   rf: number,
@@ -126,8 +484,9 @@ export function computeWACC(
   T: number,
   marketCapE: number,    // equity market value ($M)
   totalDebtD: number,    // total debt ($M)
+  crp = 0,               // country risk premium (see countryRisk.ts)
 ): { wacc: number; ke: number; kd_after_tax: number } {
-  const ke = rf + beta * erp
+  const ke = rf + beta * erp + crp
   const kd_after_tax = kd * (1 - T)
   const V = marketCapE + totalDebtD
   if (V <= 0) return { wacc: ke, ke, kd_after_tax }
@@ -138,30 +497,34 @@ export function computeWACC(
 /**
  * CFA L2: FCFE DCF
  * FCFE_t = FCFF_t - Interest_t × (1-T) + NetBorrowing_t
+ *        = CFO_t − capex_t + NetBorrowing_t   (from the three-statement cash flow, when given)
  * TV = FCFE_n × (1+g) / (ke - g)
- * Price = [Σ PV(FCFE_t) + PV(TV)] / shares_diluted
+ * Price = [Σ PV(FCFE_t) + PV(TV)] / diluted shares (TSM at that price when options / RSUs are reported)
  */
 export function computeFCFE(
   proforma: ProFormaRow[],
   B: Baseline,
   a: Assumptions,
   ke: number,
+  statements?: ThreeStatementProjection,
 ): { pps_fcfe: number; ev_fcfe: number; fcfes: number[] } {
   const T = a.tax_rate || B.tax_rate
-  const netBorrowPerYear = B.net_borrowing / Math.max(proforma.length, 1)
-  const fcfes = proforma.map((r) => r.fcff - r.interest * (1 - T) + netBorrowPerYear)
+  const fcfes = statements
+    ? statements.cashflow.map((c) => c.cfo - c.capex + c.net_borrowing)
+    : proforma.map((r) => r.fcff - r.interest * (1 - T) + r.net_borrowing)
   const g = a.terminal_g
   const n = proforma.length
   if (ke <= g) return { pps_fcfe: 0, ev_fcfe: 0, fcfes }
 
+  const schedule = discountSchedule(B, a, n)
   const tv = (fcfes[n - 1] * (1 + g)) / (ke - g)
-  const pvFcfes = fcfes.reduce((acc, f, i) => acc + f / (1 + ke) ** (i + 1), 0)
-  const pvTv = tv / (1 + ke) ** n
+  const pvFcfes = presentValue(fcfes, ke, schedule)
+  const pvTv = tv / (1 + ke) ** schedule.tvPeriod
   const equityValue = pvFcfes + pvTv
-  const pps_fcfe = B.shares_diluted > 0 ? equityValue / B.shares_diluted : 0
+  const pps_fcfe = B.shares_diluted > 0 ? equityPerShare(equityValue, B, a).pps : 0
 
-  // ev_fcfe = equity value + net debt (approximate EV)
-  const ev_fcfe = equityValue + B.net_debt
+  // ev_fcfe = equity value + net claims from the EV bridge (approximate EV)
+  const ev_fcfe = equityValue + evBridge(B, a).net_claims
   return { pps_fcfe, ev_fcfe, fcfes }
 }
 
@@ -170,20 +533,29 @@ export function computeFCFE(
  * RI_t = EPS_t - ke × B_{t-1}
  * B_t  = B_{t-1} + EPS_t × plowback
  * V₀   = B₀ + Σ PV(RI_t) + PV(Terminal RI)
+ * With a three-statement projection, EPS_t and B_t come from projected net
+ * income and equity instead of EPS growth and plowback.
  */
 export function computeRI(
   B: Baseline,
   a: Assumptions,
   ke: number,
+  statements?: ThreeStatementProjection,
 ): { pps_ri: number; riRows: RIProjectionRow[] } {
   if (B.eps <= 0 || B.bvps <= 0 || ke <= 0) {
     return { pps_ri: 0, riRows: [] }
   }
+  if (statements && statements.opening.equity > 0 && B.shares_diluted > 0) {
+    const schedule = discountSchedule(B, a, statements.cashflow.length)
+    return residualIncomeFromStatements(statements, B.shares_diluted, a.terminal_g, ke, schedule)
+  }
 
   const plowback = B.plowback_ratio > 0 ? B.plowback_ratio : 1 - B.payout_ratio
   const growthRates = buildGrowthSchedule(a)
   const n = growthRates.length
   const g = a.terminal_g
+  const schedule = discountSchedule(B, a, n)
+  const baseYear = projectionStartYear(B)
 
   const riRows: RIProjectionRow[] = []
   let bvps_t = B.bvps
@@ -194,9 +566,9 @@ export function computeRI(
     eps_t = eps_t * (1 + growthRates[i])
     const required_return = ke * bvps_t
     const ri = eps_t - required_return
-    const pv_ri = ri / (1 + ke) ** (i + 1)
+    const pv_ri = discountFlow(ri, i, ke, schedule)
     riRows.push({
-      year: 2025 + i,
+      year: baseYear + i,
       bvps_start: bvps_t,
       eps_proj: eps_t,
       required_return,
@@ -209,12 +581,39 @@ export function computeRI(
 
   // Terminal RI: RI_n × (1+g) / (ke - g)
   const ri_terminal = ke > g ? (riRows[n - 1].ri * (1 + g)) / (ke - g) : 0
-  const pv_terminal_ri = ri_terminal / (1 + ke) ** n
+  const pv_terminal_ri = ri_terminal / (1 + ke) ** schedule.tvPeriod
 
   const pps_ri = B.bvps + sumPvRi + pv_terminal_ri
   return { pps_ri, riRows }
 }
 
+function residualIncomeFromStatements(
+  statements: ThreeStatementProjection,
+  shares: number,
+  g: number,
+  ke: number,
+  schedule: DiscountSchedule,
+): { pps_ri: number; riRows: RIProjectionRow[] } {
+  const bvps0 = statements.opening.equity / shares
+  const riRows: RIProjectionRow[] = []
+  let bvps_t = bvps0
+  let sumPvRi = 0
+  statements.cashflow.forEach((c, i) => {
+    const eps_proj = c.net_income / shares
+    const required_return = ke * bvps_t
+    const ri = eps_proj - required_return
+    const pv_ri = discountFlow(ri, i, ke, schedule)
+    riRows.push({ year: c.year, bvps_start: bvps_t, eps_proj, required_return, ri, pv_ri })
+    sumPvRi += pv_ri
+    bvps_t = statements.balance[i].equity / shares
+  })
+
+  const n = riRows.length
+  const ri_terminal = n > 0 && ke > g ? (riRows[n - 1].ri * (1 + g)) / (ke - g) : 0
+  const pv_terminal_ri = ri_terminal / (1 + ke) ** schedule.tvPeriod
+  return { pps_ri: bvps0 + sumPvRi + pv_terminal_ri, riRows }
+}
+
 /**
  * CFA L2: H-Model DDM
  * P₀ = D₀(1+gL)/(r-gL)  +  D₀×H×(gS-gL)/(r-gL)
@@ -292,6 +691,8 @@ export function computeJustifiedPB(
  * CFA L1: P/CF Multiple
  * CFO per share = ocf / shares_diluted
  * Price = median P/CF × CFO per share
+ * Peer P/CF is quoted on reported OCF, so SBC stays added back here whatever
+ * the SBC toggle says — deducting it would mix bases.
  */
 export function computePCF(
   B: Baseline,
@@ -303,6 +704,189 @@ export function computePCF(
   return { pps_pcf, cfoPerShare }
 }
 
+// ── Financial institutions ─────────────────────────────────────────────────────
+
+/** Yahoo (and GICS) sector names that select the financial / REIT model sets. */
+const FINANCIAL_SECTORS = ["Financial Services", "Financials"]
+const REIT_SECTORS = ["Real Estate"]
+
+export function selectModelSet(sector: string | undefined): ModelSet {
+  if (!sector) return "standard"
+  if (FINANCIAL_SECTORS.includes(sector)) return "financial"
+  if (REIT_SECTORS.includes(sector)) return "reit"
+  return "standard"
+}
+
+/**
+ * Models left out of the signal table for financials: debt is raw material for a
+ * bank, so EBITDA, FCFF/FCFE, revenue multiples and net-debt bridges are meaningless.
+ */
+export const FINANCIAL_EXCLUDED_MODELS = [
+  "FCFF (DCF)", "FCFE (DCF)", "EBITDA Multiple", "Revenue Multiple", "P/CF", "SOTP",
+]
+
+/** Models only shown for financials. */
+export const FINANCIAL_MODELS = ["Excess Return", "P/TBV vs ROTE"]
+
+/**
+ * Excess Return Model (Damodaran, on tangible equity)
+ * ER_t   = (ROTE − ke) × TBV_{t-1}
+ * TBV_t  = TBV_{t-1} × (1 + ROTE × b)
+ * V₀     = TBV₀ + Σ PV(ER_t) + PV(ER_n × (1+g) / (ke − g))
+ */
+export function computeExcessReturn(
+  B: Baseline,
+  a: Assumptions,
+  ke: number,
+): { pps_excess: number; excessRows: ExcessReturnRow[] } {
+  const tbvps = B.tbvps ?? 0
+  const rote  = B.rote ?? 0
+  const g = a.terminal_g
+  if (tbvps <= 0 || rote <= 0 || ke <= g) return { pps_excess: 0, excessRows: [] }
+
+  const b = B.plowback_ratio > 0 ? B.plowback_ratio : 1 - B.payout_ratio
+  const n = a.proj_years_n
+  const baseYear = projectionStartYear(B)
+  const schedule = discountSchedule(B, a, n)
+
+  const excessRows: ExcessReturnRow[] = []
+  let tbv_t = tbvps
+  for (let i = 0; i < n; i++) {
+    const excess_return = (rote - ke) * tbv_t
+    const pv = discountFlow(excess_return, i, ke, schedule)
+    excessRows.push({ year: baseYear + i, tbvps_start: tbv_t, rote, excess_return, pv })
+    tbv_t = tbv_t * (1 + rote * b)
+  }
+
+  const terminal = (excessRows[n - 1].excess_return * (1 + g)) / (ke - g)
+  const pvTerminal = terminal / (1 + ke) ** schedule.tvPeriod
+  const pps_excess = tbvps + excessRows.reduce((acc, r) => acc + r.pv, 0) + pvTerminal
+  return { pps_excess: Math.max(0, pps_excess), excessRows }
+}
+
+export interface LineFit {
+  intercept: number
+  slope: number
+  r2: number
+  n: number
+}
+
+/** Ordinary least squares y = intercept + slope × x; null with < 3 points or no spread in x. */
+export function fitLine(x: number[], y: number[]): LineFit | null {
+  const n = Math.min(x.length, y.length)
+  if (n < 3) return null
+  const mx = x.slice(0, n).reduce((s, v) => s + v, 0) / n
+  const my = y.slice(0, n).reduce((s, v) => s + v, 0) / n
+  let sxx = 0, sxy = 0, syy = 0
+  for (let i = 0; i < n; i++) {
+    sxx += (x[i] - mx) ** 2
+    sxy += (x[i] - mx) * (y[i] - my)
+    syy += (y[i] - my) ** 2
+  }
+  if (sxx < 1e-12) return null
+  const slope = sxy / sxx
+  return { intercept: my - slope * mx, slope, r2: syy > 0 ? (sxy * sxy) / (sxx * syy) : 0, n }
+}
+
+/**
+ * P/TBV vs ROTE regression across peers
+ * P/TBV_i = α + β × ROTE_i  →  implied P/TBV = α + β × ROTE, Price = P/TBV × TBVPS
+ * Falls back to the justified P/TBV = (ROTE − g)/(ke − g) when fewer than three
+ * peers report both figures or the fit slopes the wrong way.
+ */
+export function computePTBVRegression(
+  B: Baseline,
+  comps: Record<string, Pick<Comp, "ptbv" | "rote">>,
+  a: Assumptions,
+  ke: number,
+): { pps_ptbv: number; impliedPTBV: number; ptbvFit: LineFit | null } {
+  const tbvps = B.tbvps ?? 0
+  const rote  = B.rote ?? 0
+  if (tbvps <= 0 || rote <= 0) return { pps_ptbv: 0, impliedPTBV: 0, ptbvFit: null }
+
+  const points = Object.values(comps).filter((c) => (c.ptbv ?? 0) > 0 && (c.rote ?? 0) > 0)
+  const fit = fitLine(points.map((c) => c.rote!), points.map((c) => c.ptbv!))
+  const ptbvFit = fit && fit.slope > 0 ? fit : null
+
+  let impliedPTBV: number
+  if (ptbvFit) {
+    impliedPTBV = Math.max(0, ptbvFit.intercept + ptbvFit.slope * rote)
+  } else {
+    const b = B.plowback_ratio > 0 ? B.plowback_ratio : 1 - B.payout_ratio
+    const g = Math.min(rote * b, a.terminal_g, ke - 0.001)
+    impliedPTBV = ke > g ? Math.max(0, (rote - g) / (ke - g)) : 0
+  }
+  return { pps_ptbv: impliedPTBV * tbvps, impliedPTBV, ptbvFit }
+}
+
+// ── REITs ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Models left out of the signal table for REITs: real estate depreciation swamps
+ * GAAP earnings, so EPS-based multiples understate value; FFO/AFFO replace them.
+ */
+export const REIT_EXCLUDED_MODELS = [
+  "P/E Multiple", "Justified P/E", "PEG", "Revenue Multiple", "SOTP",
+]
+
+/** Models only shown for REITs. */
+export const REIT_MODELS = ["P/FFO", "P/AFFO", "NAV (Cap Rate)"]
+
+/**
+ * P/FFO and P/AFFO on peer medians, falling back to REIT_DEFAULT_MULTIPLES
+ * when no peer reports the multiple.
+ */
+export function computeFFOMultiples(
+  B: Baseline,
+  comps: Record<string, Pick<Comp, "pffo" | "paffo">>,
+): { pps_pffo: number; pps_paffo: number; medianPffo: number; medianPaffo: number } {
+  const med = (arr: number[]) => {
+    const s = arr.filter((v) => isFinite(v) && v > 0).sort((x, y) => x - y)
+    if (s.length === 0) return 0
+    const m = Math.floor(s.length / 2)
+    return s.length % 2 ? s[m] : (s[m - 1] + s[m]) / 2
+  }
+  const peers = Object.values(comps)
+  const medianPffo  = med(peers.map((c) => c.pffo ?? 0)) || REIT_DEFAULT_MULTIPLES.pffo
+  const medianPaffo = med(peers.map((c) => c.paffo ?? 0)) || REIT_DEFAULT_MULTIPLES.paffo
+  return {
+    pps_pffo:  (B.ffo_ps ?? 0) > 0 ? medianPffo * B.ffo_ps! : 0,
+    pps_paffo: (B.affo_ps ?? 0) > 0 ? medianPaffo * B.affo_ps! : 0,
+    medianPffo,
+    medianPaffo,
+  }
+}
+
+export interface NAVBridge {
+  noi_fwd: number          // NOI × (1 + yr1_g), millions
+  cap_rate: number
+  property_value: number   // NOI_fwd / cap rate
+  net_claims: number       // net debt and other claims from the EV bridge
+  nav: number              // property value − net claims
+}
+
+/**
+ * Cap-rate NAV
+ * GAV = NOI_{t+1} / cap rate  →  NAV = GAV − net claims (EV bridge), per diluted share
+ */
+export function computeNAV(
+  B: Baseline,
+  a: Assumptions,
+): { pps_nav: number; navBridge: NAVBridge | null } {
+  const noi = B.noi ?? 0
+  const cap_rate = a.cap_rate ?? 0.055
+  if (noi <= 0 || cap_rate <= 0 || B.shares_diluted <= 0) return { pps_nav: 0, navBridge: null }
+
+  const noi_fwd = noi * (1 + a.yr1_g)
+  const property_value = noi_fwd / cap_rate
+  const { net_claims } = evBridge(B, a)
+  const nav = property_value - net_claims
+  return {
+    pps_nav: Math.max(0, nav / B.shares_diluted),
+    navBridge: { noi_fwd, cap_rate, property_value, net_claims, nav },
+  }
+}
+
 // ── Extended ComputedValuations ────────────────────────────────────────────────
 
 export interface ComputedValuations {
@@ -311,6 +895,8 @@ export interface ComputedValuations {
   ev_fcff: number
   pvFcfs: number
   pvTv: number
+  shareCount: ShareCount   // divisor behind the FCFF price (TSM at that price when options / RSUs are reported)
+  bridge: EVBridge         // EV → equity bridge used by every EV-based model
   // New models
   pps_fcfe: number
   ev_fcfe: number
@@ -323,6 +909,10 @@ export interface ComputedValuations {
   wacc_calc: number
   ke_calc: number
   kd_after_tax: number
+  kd: number               // pre-tax cost of debt behind wacc_calc (synthetic unless synthetic_kd is off)
+  credit: SyntheticRating  // baseline synthetic rating
+  rf_local: number         // rf restated to the cash-flow currency
+  countryRisk: CountryRisk // λ-scaled revenue-weighted CRP added to ke_calc
   // Multiples (existing)
   pps_ddm: number
   pps_ebitda: number
@@ -337,8 +927,25 @@ export interface ComputedValuations {
   cfoPerShare: number
   // RI detail
   riRows: RIProjectionRow[]
+  // Three-statement projection
+  statements: ThreeStatementProjection
+  // Financials
+  modelSet: ModelSet
+  pps_excess: number
+  excessRows: ExcessReturnRow[]
+  pps_ptbv: number
+  impliedPTBV: number
+  ptbvFit: LineFit | null
+  // REITs
+  pps_pffo: number
+  pps_paffo: number
+  medianPffo: number
+  medianPaffo: number
+  pps_nav: number
+  navBridge: NAVBridge | null
   // Summary
   signalRows: SignalRow[]
+  dataIssues: ValidationIssue[]
   finalSignal: Signal
   buys: number
   holds: number
@@ -351,6 +958,8 @@ export interface ComputedValuations {
   medianPcf: number
   epsCAGR: number
   proforma: ProFormaRow[]
+  schedule: DiscountSchedule
+  terminal: TerminalValue
   growthSchedule: number[]
   sotvEV: number
   sotpIsFallback: boolean
@@ -358,97 +967,196 @@ export interface ComputedValuations {
 
 // ── Monte Carlo Simulation ──────────────────────────────────────────────────────
 
-/** Box-Muller normal sample */
-function sampleNormal(mean: number, std: number): number {
-  const u1 = Math.random() || 1e-10
-  const u2 = Math.random()
-  const z = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2)
-  return mean + std * z
-}
-
 export interface MonteCarloResults {
   [model: string]: number[]
 }
 
-/**
- * Run N Monte Carlo simulations by sampling WACC (±1.5%), year-1 growth (±2%),
- * and target EBITDA margin (±2.5%) from normal distributions.
- * Returns arrays of simulated price-per-share for 5 key models.
- */
-export function runMonteCarlo(
-  B: Baseline,
-  a: Assumptions,
-  medianEvm: number,
-  medianPE: number,
-  n_sims = 1000,
-): MonteCarloResults {
-  const results: MonteCarloResults = {
-    "FCFF (DCF)": [],
-    "EV/EBITDA":  [],
-    "P/E":        [],
-    "FCFE (DCF)": [],
-    "Residual Income": [],
-  }
-  const cap = B.current_price > 0 ? B.current_price * 15 : 1e6
+export interface MonteCarloOptions {
+  seed?: number            // default 1 — same seed, method and spec give the same run
+  method?: SamplingMethod  // default "random"
+  tolerance?: number       // auto-stop once every model's median moves < tolerance (relative) between checks
+  check_every?: number     // draws between convergence checkpoints
+  peers?: boolean          // default true — bootstrap-resample the comp set each draw
+}
 
-  for (let i = 0; i < n_sims; i++) {
-    const wacc_s   = Math.max(0.04, sampleNormal(a.wacc, 0.015))
-    const yr1_s    = sampleNormal(a.yr1_g, 0.020)
-    // Issue 14: growth-margin correlation (ρ≈0.4) — higher growth → higher margins
-    const yr1_dev  = yr1_s - a.yr1_g
-    const margin_base = sampleNormal(a.target_ebitda_m, 0.020)
-    const margin_s = margin_base + yr1_dev * 0.4
-    const tg_s     = Math.min(Math.max(a.terminal_g, 0.005), wacc_s - 0.005)
-    const ke_s     = Math.max(0.05, sampleNormal(a.cost_of_equity, 0.015))
+/** Running statistics of one model's valid draws at a checkpoint. */
+export interface ConvergencePoint {
+  draws: number    // simulations run so far
+  n: number        // valid prices among them
+  mean: number
+  se: number       // standard error of the mean
+  median: number
+}
 
-    const a_sim: Assumptions = {
-      ...a,
-      wacc: wacc_s,
-      yr1_g: yr1_s,
-      // Issue 4: additive delta preserves scenario shape across shocks
-      yr2_g: yr1_s + (a.yr2_g - a.yr1_g),
-      yr3_g: yr1_s + (a.yr3_g - a.yr1_g),
-      lt_g: Math.max(yr1_s * 0.6, 0.01),
-      target_ebitda_m: margin_s,
-      terminal_g: tg_s,
-    }
+export interface MonteCarloRun {
+  results: MonteCarloResults
+  draws: number
+  converged: boolean   // medians were stable within tolerance when the run stopped
+  convergence: Record<string, ConvergencePoint[]>
+  seed: number
+  method: SamplingMethod
+}
 
-    const growthRates = buildGrowthSchedule(a_sim)
-    const proforma    = buildProforma(B, growthRates, a_sim)
-    const fcffs       = proforma.map((r) => r.fcff)
-    const lastEbitda  = proforma[proforma.length - 1].ebitda
+/** Consecutive stable checkpoints required before auto-stopping. */
+const MC_STABLE_CHECKS = 2
 
-    // FCFF DCF
-    if (wacc_s > tg_s) {
-      const tv = (fcffs[fcffs.length - 1] * (1 + tg_s)) / (wacc_s - tg_s)
-      const { pps } = dcfPrice(fcffs, tv, wacc_s, B.net_debt, B.shares_diluted)
-      if (pps > 0 && pps < cap) results["FCFF (DCF)"].push(pps)
-    }
+function convergencePoint(draws: number, xs: number[]): ConvergencePoint {
+  const n = xs.length
+  const mean = xs.reduce((s, x) => s + x, 0) / n
+  const variance = n > 1 ? xs.reduce((s, x) => s + (x - mean) ** 2, 0) / (n - 1) : 0
+  const sorted = [...xs].sort((x, y) => x - y)
+  const median = n % 2 ? sorted[(n - 1) / 2] : (sorted[n / 2 - 1] + sorted[n / 2]) / 2
+  return { draws, n, mean, se: Math.sqrt(variance / n), median }
+}
 
-    // EV/EBITDA
-    if (lastEbitda > 0 && B.shares_diluted > 0 && medianEvm > 0) {
-      const p = (lastEbitda * medianEvm - B.net_debt) / B.shares_diluted
-      if (p > 0 && p < cap) results["EV/EBITDA"].push(p)
-    }
+/** Simulated prices of one draw by signal-table method; a method is absent when its price was rejected. */
+export type MonteCarloDraw = Partial<Record<string, number>>
+
+/** Arguments of computeAll, by name. */
+export interface ComputeAllArgs {
+  B: Baseline
+  comps: Record<string, Comp>
+  segments: Record<string, { revenue: number; adj_op_margin: number }>
+  acquisitions: Record<string, { rev: number; margin: number; mult: number }>
+  histEPS: number[]
+  a: Assumptions
+  issues?: ValidationIssue[]
+  modelSet?: ModelSet
+}
+
+/** Salt separating the peer-resampling stream from the input point source. */
+const PEER_STREAM_SALT = 0x68e31da4
+
+function resolveMonteCarloOptions(n_sims: number, options: MonteCarloOptions) {
+  return {
+    seed: options.seed ?? 1,
+    method: options.method ?? "random",
+    tolerance: options.tolerance ?? 0,
+    checkEvery: Math.max(1, Math.round(options.check_every ?? Math.max(25, n_sims / 50))),
+    peers: options.peers ?? true,
+  }
+}
 
-    // P/E
-    const eps_s = B.shares_diluted > 0
-      ? proforma[proforma.length - 1].net_income / B.shares_diluted
-      : 0
-    if (eps_s > 0 && medianPE > 0) results["P/E"].push(Math.min(medianPE * eps_s, cap))
+/** Comp set drawn with replacement — the bootstrap distribution of the peer medians. */
+function resampleComps(comps: Comp[], uniform: () => number): Record<string, Comp> {
+  return Object.fromEntries(comps.map((_, k) => [`#${k}`, comps[Math.floor(uniform() * comps.length)]]))
+}
 
-    // FCFE
-    if (ke_s > tg_s) {
-      const { pps_fcfe } = computeFCFE(proforma, B, a_sim, ke_s)
-      if (pps_fcfe > 0 && pps_fcfe < cap) results["FCFE (DCF)"].push(pps_fcfe)
+/**
+ * Prices draw i of a run: computeAll on the drawn assumptions (terminal growth
+ * kept below WACC) and, with `peers`, a bootstrap resample of the comps, so
+ * every signal-table model is simulated with the formulas behind its point
+ * estimate. A sampled cost_of_equity moves the CAPM ke by its deviation from
+ * the base. Draws depend only on (inputs, spec, seed, method, i), so any range
+ * can be priced independently — in order, or split across workers. Throws
+ * SimulationSpecError for an invalid spec.
+ */
+export function createMonteCarloPricer(
+  inputs: ComputeAllArgs,
+  n_sims = 1000,
+  spec: SimulationSpec = DEFAULT_SIM_SPEC,
+  options: MonteCarloOptions = {},
+): (i: number) => MonteCarloDraw {
+  const { seed, method, peers } = resolveMonteCarloOptions(n_sims, options)
+  const { B, a } = inputs
+  const cap = B.current_price > 0 ? B.current_price * 15 : 1e6
+  const compList = Object.values(inputs.comps)
+  const sample = createSampler(spec, a, uniformPoints(method, spec.variables.length, n_sims, seed))
+
+  return (i) => {
+    const d = sample(i)
+    const drawn = applyDraw(a, d)
+    // Keep the perpetuity valid for every draw
+    const a_sim: Assumptions = { ...drawn, terminal_g: Math.min(Math.max(drawn.terminal_g, 0.005), drawn.wacc - 0.005) }
+    const keShift = d.cost_of_equity === undefined ? 0 : d.cost_of_equity - a.cost_of_equity
+    const comps = peers && compList.length > 1
+      ? resampleComps(compList, streamAt(seed ^ PEER_STREAM_SALT, i))
+      : inputs.comps
+
+    const c = computeAll(B, comps, inputs.segments, inputs.acquisitions, inputs.histEPS, a_sim, inputs.issues, inputs.modelSet, keShift)
+    const draw: MonteCarloDraw = {}
+    for (const row of c.signalRows) {
+      if (!row.blockedBy && row.intrinsicValue > 0 && row.intrinsicValue < cap) draw[row.method] = row.intrinsicValue
     }
+    return draw
+  }
+}
 
-    // Residual Income
-    const { pps_ri } = computeRI(B, a_sim, ke_s)
-    if (pps_ri > 0 && pps_ri < cap) results["Residual Income"].push(pps_ri)
+/**
+ * Accumulates draws in index order, recording running mean, standard error
+ * and median per model every `check_every` draws. `add` returns true once the
+ * run should stop — with a tolerance, when the medians have held still for two
+ * consecutive checks.
+ */
+export function createMonteCarloCollector(
+  n_sims = 1000,
+  options: MonteCarloOptions = {},
+): { add: (draw: MonteCarloDraw) => boolean; finish: () => MonteCarloRun } {
+  const { seed, method, tolerance, checkEvery } = resolveMonteCarloOptions(n_sims, options)
+  const results: MonteCarloResults = {}
+  const convergence: Record<string, ConvergencePoint[]> = {}
+
+  let draws = 0
+  let stableChecks = 0
+  let prevMedians: Record<string, number> | null = null
+  const converged = () => tolerance > 0 && stableChecks >= MC_STABLE_CHECKS
+
+  return {
+    add(draw) {
+      for (const [model, p] of Object.entries(draw)) {
+        if (p === undefined) continue
+        if (!results[model]) {
+          results[model] = []
+          convergence[model] = []
+        }
+        results[model].push(p)
+      }
+      draws++
+      if (draws % checkEvery !== 0 && draws !== n_sims) return false
+
+      const medians: Record<string, number> = {}
+      for (const [model, xs] of Object.entries(results)) {
+        if (xs.length === 0) continue
+        const pt = convergencePoint(draws, xs)
+        convergence[model].push(pt)
+        medians[model] = pt.median
+      }
+      if (prevMedians) {
+        const stable = Object.entries(medians).every(([model, m]) => {
+          const prev = prevMedians![model]
+          return prev !== undefined && Math.abs(m - prev) <= tolerance * Math.abs(prev)
+        })
+        stableChecks = stable ? stableChecks + 1 : 0
+      }
+      prevMedians = medians
+      return converged() || draws >= n_sims
+    },
+    finish: () => ({ results, draws, converged: converged(), convergence, seed, method }),
   }
+}
 
-  return results
+/**
+ * Run up to N Monte Carlo simulations, drawing the inputs named in `spec` from
+ * their distributions (see simulation.ts; the default applies the original
+ * WACC / growth / margin shocks, holding long-term growth at the user's
+ * value) with a seeded point source (sampling.ts), so
+ * a run is reproducible. With a tolerance, stops early once the medians
+ * stabilise. Returns simulated price-per-share arrays for every model in the
+ * signal table, keyed by method, plus the convergence checkpoints. Throws
+ * SimulationSpecError for an invalid spec.
+ */
+export function runMonteCarlo(
+  inputs: ComputeAllArgs,
+  n_sims = 1000,
+  spec: SimulationSpec = DEFAULT_SIM_SPEC,
+  options: MonteCarloOptions = {},
+): MonteCarloRun {
+  const price = createMonteCarloPricer(inputs, n_sims, spec, options)
+  const collector = createMonteCarloCollector(n_sims, options)
+  for (let i = 0; i < n_sims; i++) {
+    if (collector.add(price(i))) break
+  }
+  return collector.finish()
 }
 
 // ── Reverse DCF ────────────────────────────────────────────────────────────────
@@ -471,6 +1179,8 @@ export function computeReverseDCF(
     return { impliedGrowth: 0, rows: [], sensitivityData: [] }
   }
 
+  const bridge = evBridge(B, a)
+
   /** DCF price for a given Yr1 growth (Yr2/Yr3 shift by same delta, preserving scenario shape) */
   function ppsForGrowth(g: number): number {
     const a_sim: Assumptions = {
@@ -483,10 +1193,10 @@ export function computeReverseDCF(
     }
     const proforma = buildProforma(B, buildGrowthSchedule(a_sim), a_sim)
     const fcffs    = proforma.map((r) => r.fcff)
-    const tv = a.wacc > a.terminal_g
-      ? (fcffs[fcffs.length - 1] * (1 + a.terminal_g)) / (a.wacc - a.terminal_g)
-      : proforma[proforma.length - 1].ebitda * a.exit_mult
-    return dcfPrice(fcffs, tv, a.wacc, B.net_debt, B.shares_diluted).pps
+    const schedule = discountSchedule(B, a_sim, fcffs.length)
+    const { tv } = computeTerminalValue(fcffs[fcffs.length - 1], proforma[proforma.length - 1].ebitda, a.wacc, a_sim, schedule)
+    const { ev } = dcfPrice(fcffs, tv, a.wacc, bridge.net_claims, B.shares_diluted, schedule)
+    return equityPerShare(equityFromEV(ev, bridge), B, a_sim).pps
   }
 
   let lo = -0.20, hi = 0.60, impliedGrowth = a.yr1_g
@@ -519,11 +1229,14 @@ export function computeReverseDCF(
 
 export function computeAll(
   B: Baseline,
-  comps: Record<string, { ev_ebitda: number; ev_rev: number; pe: number; peg: number; pb: number; pcf?: number }>,
+  comps: Record<string, { ev_ebitda: number; ev_rev: number; pe: number; peg: number; pb: number; pcf?: number; ptbv?: number; rote?: number; pffo?: number; paffo?: number }>,
   segments: Record<string, { revenue: number; adj_op_margin: number }>,
   acquisitions: Record<string, { rev: number; margin: number; mult: number }>,
   histEPS: number[],
   a: Assumptions,
+  issues: ValidationIssue[] = [],   // from validateConfig; error-level issues mark models N/A
+  modelSet: ModelSet = "standard",  // "financial" / "reit" swap in the sector model sets
+  keShift = 0,                      // added to the ke the models use (Monte Carlo draws, sensitivity flexes of cost_of_equity)
 ): ComputedValuations {
   // Peer medians
   const compArr = Object.values(comps)
@@ -554,37 +1267,41 @@ export function computeAll(
 
   // ── WACC (CFA CAPM) ──────────────────────────────────────────────────────
   const marketCap = B.current_price * B.shares_diluted
+  const { rf: rf_local, countryRisk } = capmInputs(a)
+  const credit = rateCredit(baselineCreditInputs(B), a)
+  const kd = costOfDebt(B, a)
   const { wacc: wacc_calc, ke: ke_calc, kd_after_tax } = computeWACC(
-    a.rf ?? 0.043,
+    rf_local,
     a.beta ?? 1.0,
     a.erp ?? 0.055,
-    a.cost_of_debt ?? 0.045,
+    kd,
     a.tax_rate ?? B.tax_rate,
     marketCap,
     B.total_debt,
+    countryRisk.crp,
   )
   // Use CAPM-derived ke for all CFA L2 models (override cost_of_equity from drawer)
-  const ke = ke_calc > 0 ? ke_calc : a.cost_of_equity
+  const ke = (ke_calc > 0 ? ke_calc : a.cost_of_equity) + keShift
 
   // ── FCFF DCF ─────────────────────────────────────────────────────────────
-  const tvFcff =
-    a.wacc > a.terminal_g
-      ? (fcffs[fcffs.length - 1] * (1 + a.terminal_g)) / (a.wacc - a.terminal_g)
-      : lastEbitda * a.exit_mult
-  const { pps: pps_fcff, ev: ev_fcff, pvFcfs, pvTv } = dcfPrice(fcffs, tvFcff, a.wacc, B.net_debt, B.shares_diluted)
+  const bridge = evBridge(B, a)
+  const schedule = discountSchedule(B, a, fcffs.length)
+  const terminal = computeTerminalValue(fcffs[fcffs.length - 1], lastEbitda, a.wacc, a, schedule)
+  const { ev: ev_fcff, pvFcfs, pvTv } = dcfPrice(fcffs, terminal.tv, a.wacc, bridge.net_claims, B.shares_diluted, schedule)
+  const { pps: pps_fcff, count: shareCount } = equityPerShare(equityFromEV(ev_fcff, bridge), B, a)
 
   // ── DDM 2-stage ──────────────────────────────────────────────────────────
   // Issue 2: use CAPM-derived ke consistently (not manual cost_of_equity override)
   const divProj = proforma.map((r) => (B.shares_diluted ? r.dividends / B.shares_diluted : 0))
-  const pvDivs = divProj.reduce((acc, d, i) => acc + d / (1 + ke) ** (i + 1), 0)
+  const pvDivs = presentValue(divProj, ke, schedule)
   const finalDiv = divProj[divProj.length - 1] * (1 + a.terminal_g)
   const tvDdm = ke > a.terminal_g ? finalDiv / (ke - a.terminal_g) : 0
-  const pvTvDdm = tvDdm / (1 + ke) ** a.proj_years_n
+  const pvTvDdm = tvDdm / (1 + ke) ** schedule.tvPeriod
   const pps_ddm = B.dps > 0 ? pvDivs + pvTvDdm : 0
 
   // ── Multiples ─────────────────────────────────────────────────────────────
-  const pps_ebitda = B.shares_diluted ? (B.adj_ebitda * medianEvm - B.net_debt) / B.shares_diluted : 0
-  const pps_rev = B.shares_diluted ? (B.revenue * medianEvRev - B.net_debt) / B.shares_diluted : 0
+  const pps_ebitda = B.shares_diluted ? equityPerShare(equityFromEV(B.adj_ebitda * medianEvm, bridge), B, a).pps : 0
+  const pps_rev = B.shares_diluted ? equityPerShare(equityFromEV(B.revenue * medianEvRev, bridge), B, a).pps : 0
   // Issue 5: P/E uses NTM forward EPS (trailing × (1 + yr1 growth))
   const ntmEps = B.adj_eps * (1 + a.yr1_g)
   const pps_pe = medianPE * ntmEps
@@ -598,16 +1315,25 @@ export function computeAll(
   const sotvEV = sotpIsFallback
     ? B.adj_ebitda * medianEvm
     : Object.values(acquisitions).reduce((sum, d) => sum + d.rev * d.margin * d.mult, 0)
-  const pps_sotp = B.shares_diluted ? (sotvEV - B.net_debt) / B.shares_diluted : 0
+  const pps_sotp = B.shares_diluted ? equityPerShare(equityFromEV(sotvEV, bridge), B, a).pps : 0
 
   // ── New CFA models ────────────────────────────────────────────────────────
-  const { pps_fcfe, ev_fcfe } = computeFCFE(proforma, B, a, ke)
-  const { pps_ri, riRows } = computeRI(B, a, ke)
+  const statements = buildThreeStatement(B, proforma, a.sbc_as_cash ?? true)
+  const { pps_fcfe, ev_fcfe } = computeFCFE(proforma, B, a, ke, statements)
+  const { pps_ri, riRows } = computeRI(B, a, ke, statements)
   const pps_hddm = computeHModelDDM(B, a, ke)
   const { pps_jpe, justifiedPE } = computeJustifiedPE(B, a, ke)
   const { pps_jpb, justifiedPB } = computeJustifiedPB(B, a, ke)
   const { pps_pcf, cfoPerShare } = computePCF(B, medianPcf)
 
+  // ── Financials ────────────────────────────────────────────────────────────
+  const { pps_excess, excessRows } = computeExcessReturn(B, a, ke)
+  const { pps_ptbv, impliedPTBV, ptbvFit } = computePTBVRegression(B, comps, a, ke)
+
+  // ── REITs ─────────────────────────────────────────────────────────────────
+  const { pps_pffo, pps_paffo, medianPffo, medianPaffo } = computeFFOMultiples(B, comps)
+  const { pps_nav, navBridge } = computeNAV(B, a)
+
   // ── Signal table ──────────────────────────────────────────────────────────
   const signalValues: Record<string, number> = {
     "FCFF (DCF)":      pps_fcff,
@@ -626,16 +1352,32 @@ export function computeAll(
     // Issue 3: exclude SOTP from signal table when it's just the EBITDA fallback
     SOTP:              sotpIsFallback ? 0 : pps_sotp,
   }
+  if (modelSet === "financial") {
+    for (const m of FINANCIAL_EXCLUDED_MODELS) delete signalValues[m]
+    signalValues["Excess Return"] = pps_excess
+    signalValues["P/TBV vs ROTE"] = pps_ptbv
+  } else if (modelSet === "reit") {
+    for (const m of REIT_EXCLUDED_MODELS) delete signalValues[m]
+    signalValues["P/FFO"] = pps_pffo
+    signalValues["P/AFFO"] = pps_paffo
+    signalValues["NAV (Cap Rate)"] = pps_nav
+  }
 
-  // Filter out zero-value models (N/A — missing data)
+  // Filter out zero-value models (N/A — missing data). Models fed by inputs that
+  // failed validation stay in the table as N/A with the reason.
+  const blocked = blockedModels(issues)
   const signalRows: SignalRow[] = Object.entries(signalValues)
-    .filter(([, v]) => v > 0)
-    .map(([method, v]) => ({
-      method,
-      intrinsicValue: v,
-      vsMarket: B.current_price > 0 ? `${(((v / B.current_price) - 1) * 100).toFixed(1)}%` : "N/A",
-      signal: assignSignal(v, B.current_price),
-    }))
+    .filter(([method, v]) => v > 0 || blocked.has(method))
+    .map(([method, v]) => {
+      const blockedBy = blocked.get(method)
+      if (blockedBy) return { method, intrinsicValue: v, vsMarket: "N/A", signal: "N/A" as Signal, blockedBy }
+      return {
+        method,
+        intrinsicValue: v,
+        vsMarket: B.current_price > 0 ? `${(((v / B.current_price) - 1) * 100).toFixed(1)}%` : "N/A",
+        signal: assignSignal(v, B.current_price),
+      }
+    })
 
   const counts = signalRows.reduce(
     (acc, r) => {
@@ -644,21 +1386,24 @@ export function computeAll(
     },
     {} as Record<string, number>,
   )
-  const finalSignal = (Object.entries(counts).sort((a, b) => b[1] - a[1])[0]?.[0] as Signal) ?? "HOLD"
+  const finalSignal = (Object.entries(counts).sort((a, b) => b[1] - a[1])[0]?.[0] as Signal)
+    ?? (blocked.size > 0 ? "N/A" : "HOLD")
 
   return {
-    pps_fcff, ev_fcff, pvFcfs, pvTv,
+    pps_fcff, ev_fcff, pvFcfs, pvTv, shareCount, bridge,
     pps_fcfe, ev_fcfe,
     pps_ri, riRows,
+    modelSet, pps_excess, excessRows, pps_ptbv, impliedPTBV, ptbvFit,
+    pps_pffo, pps_paffo, medianPffo, medianPaffo, pps_nav, navBridge,
     pps_hddm,
     pps_jpe, justifiedPE,
     pps_jpb, justifiedPB,
     pps_pcf, cfoPerShare,
-    wacc_calc, ke_calc, kd_after_tax,
+    wacc_calc, ke_calc, kd_after_tax, kd, credit, rf_local, countryRisk,
     pps_ddm, pps_ebitda, pps_rev, pps_pe, pps_peg, pps_pb, pps_sotp,
-    signalRows, finalSignal,
+    signalRows, dataIssues: issues, finalSignal,
     buys: counts.BUY ?? 0, holds: counts.HOLD ?? 0, sells: counts.SELL ?? 0,
     medianPE, medianEvm, medianEvRev, medianPeg, medianPb, medianPcf,
-    epsCAGR, proforma, growthSchedule, sotvEV, sotpIsFallback,
+    epsCAGR, proforma, statements, schedule, terminal, growthSchedule, sotvEV, sotpIsFallback,
   }
 }
@@ -0,0 +1,57 @@
+/**
+ * Cost-of-capital inputs beyond the single-company CAPM in computeWACC.
+ * Bottom-up beta: peer regression betas are unlevered with Hamada
+ * (βu = βL / (1 + (1 − t) × D/E)), averaged, and relevered at a target
+ * capital structure. Peers are unlevered at the subject's tax rate — the
+ * marginal rate matters, and Yahoo does not report peers' rates. Pure and
+ * client-safe.
+ */
+
+import type { Comp } from "@/types/valuation"
+
+export interface PeerBeta {
+  name: string
+  beta: number        // levered, as reported
+  de_ratio: number
+  unlevered: number
+}
+
+export interface BottomUpBeta {
+  peers: PeerBeta[]
+  unlevered: number   // mean of peer unlevered betas
+  target_de: number
+  relevered: number
+}
+
+export function unleverBeta(leveredBeta: number, de: number, taxRate: number): number {
+  return leveredBeta / (1 + (1 - taxRate) * de)
+}
+
+export function releverBeta(unleveredBeta: number, de: number, taxRate: number): number {
+  return unleveredBeta * (1 + (1 - taxRate) * de)
+}
+
+/** Bottom-up beta from peers reporting a beta; null when none do. */
+export function bottomUpBeta(
+  comps: Record<string, Comp>,
+  taxRate: number,
+  targetDE: number,
+): BottomUpBeta | null {
+  const peers: PeerBeta[] = Object.entries(comps)
+    .filter(([, c]) => (c.beta ?? 0) > 0)
+    .map(([name, c]) => {
+      const de_ratio = Math.max(0, c.de_ratio ?? 0)
+      return { name, beta: c.beta!, de_ratio, unlevered: unleverBeta(c.beta!, de_ratio, taxRate) }
+    })
+  if (peers.length === 0) return null
+
+  const unlevered = peers.reduce((s, p) => s + p.unlevered, 0) / peers.length
+  const target_de = Math.max(0, targetDE)
+  return { peers, unlevered, target_de, relevered: releverBeta(unlevered, target_de, taxRate) }
+}
+
+/** WACC at target weights: D/V = D/E ÷ (1 + D/E). */
+export function waccAtTargetDE(ke: number, kd: number, taxRate: number, targetDE: number): number {
+  const wd = Math.max(0, targetDE) / (1 + Math.max(0, targetDE))
+  return (1 - wd) * ke + wd * kd * (1 - taxRate)
+}
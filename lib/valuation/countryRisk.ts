@@ -0,0 +1,128 @@
+/**
+ * Country risk premium and currency-consistent risk-free rate for the CAPM.
+ *
+ *   CRP = λ × Σ wᵢ × CRPᵢ / Σ wᵢ     (revenue-weighted, λ scales exposure)
+ *   rf  = (1 + rf_USD) × (1 + π_ccy) / (1 + π_USD) − 1
+ *   ke  = rf + β × ERP + CRP
+ *
+ * λ follows Damodaran's lambda: the company's exposure relative to the average
+ * company in those markets (1 = average, < 1 for exporters earning in hard
+ * currency). The `rf` assumption is the USD (Treasury) rate; it is restated to
+ * the cash-flow currency by the inflation differential so the discount rate
+ * and the cash flows share one currency. Tables are static defaults — CRPs can
+ * be overridden per country via `Assumptions.crp_table`. Pure and client-safe.
+ */
+
+import type { Assumptions, CountryExposure } from "@/types/valuation"
+
+/**
+ * Country risk premiums over a mature market, from sovereign default spreads
+ * scaled by relative equity volatility (Damodaran, Jan 2025 update, rounded).
+ * Keyed by Yahoo assetProfile.country names. Unlisted countries carry no CRP.
+ */
+export const COUNTRY_RISK_PREMIUMS: Record<string, number> = {
+  "United States":        0,
+  "Canada":               0,
+  "Germany":              0,
+  "Netherlands":          0,
+  "Switzerland":          0,
+  "Australia":            0,
+  "Denmark":              0,
+  "Sweden":               0,
+  "Norway":               0,
+  "Singapore":            0,
+  "Luxembourg":           0,
+  "United Kingdom":       0.0080,
+  "France":               0.0065,
+  "Ireland":              0.0080,
+  "Belgium":              0.0080,
+  "Hong Kong":            0.0080,
+  "Taiwan":               0.0080,
+  "South Korea":          0.0065,
+  "Japan":                0.0095,
+  "China":                0.0095,
+  "United Arab Emirates": 0.0065,
+  "Saudi Arabia":         0.0080,
+  "Israel":               0.0180,
+  "Spain":                0.0180,
+  "Portugal":             0.0155,
+  "Italy":                0.0280,
+  "Greece":               0.0280,
+  "Poland":               0.0130,
+  "Chile":                0.0130,
+  "Malaysia":             0.0155,
+  "Thailand":             0.0180,
+  "Peru":                 0.0180,
+  "Indonesia":            0.0225,
+  "Mexico":               0.0225,
+  "Philippines":          0.0225,
+  "India":                0.0280,
+  "Colombia":             0.0280,
+  "Brazil":               0.0340,
+  "South Africa":         0.0410,
+  "Vietnam":              0.0410,
+  "Turkey":               0.0690,
+  "Egypt":                0.0900,
+  "Nigeria":              0.0900,
+  "Argentina":            0.1500,
+}
+
+/** Long-run expected inflation by currency, for restating the USD risk-free rate. */
+export const CURRENCY_INFLATION: Record<string, number> = {
+  USD: 0.025, EUR: 0.020, GBP: 0.025, JPY: 0.010, CHF: 0.010, CAD: 0.020,
+  AUD: 0.025, NZD: 0.020, SEK: 0.020, NOK: 0.020, DKK: 0.020, SGD: 0.020,
+  HKD: 0.025, CNY: 0.020, TWD: 0.015, KRW: 0.020, INR: 0.045, IDR: 0.030,
+  MXN: 0.040, BRL: 0.040, CLP: 0.030, ZAR: 0.045, ILS: 0.025, PLN: 0.030,
+  TRY: 0.250,
+}
+
+export interface CountryRiskLine {
+  country: string
+  weight: number    // normalised revenue share
+  crp: number
+}
+
+export interface CountryRisk {
+  lines: CountryRiskLine[]
+  weighted: number  // Σ wᵢ × CRPᵢ
+  lambda: number
+  crp: number       // λ × weighted — added to ke
+}
+
+/** CRP for a country: the assumption's override, else the shipped table, else 0. */
+export function countryCRP(country: string, overrides?: Record<string, number>): number {
+  return overrides?.[country] ?? COUNTRY_RISK_PREMIUMS[country] ?? 0
+}
+
+/** Revenue-weighted CRP scaled by λ; zero without exposure. */
+export function countryRiskPremium(
+  exposure: CountryExposure[],
+  lambda = 1,
+  overrides?: Record<string, number>,
+): CountryRisk {
+  const positive = exposure.filter((e) => e.weight > 0)
+  const total = positive.reduce((s, e) => s + e.weight, 0)
+  const lines = positive.map((e) => ({
+    country: e.country,
+    weight:  e.weight / total,
+    crp:     countryCRP(e.country, overrides),
+  }))
+  const weighted = lines.reduce((s, l) => s + l.weight * l.crp, 0)
+  const l = Math.max(0, lambda)
+  return { lines, weighted, lambda: l, crp: l * weighted }
+}
+
+/** USD risk-free rate restated to `currency`; unlisted currencies keep the USD rate. */
+export function localRiskFree(rfUsd: number, currency = "USD"): number {
+  const pi = CURRENCY_INFLATION[currency.toUpperCase()]
+  if (pi === undefined) return rfUsd
+  return ((1 + rfUsd) * (1 + pi)) / (1 + CURRENCY_INFLATION.USD) - 1
+}
+
+/** rf in the cash-flow currency and the scaled CRP, as computeAll feeds computeWACC. */
+export function capmInputs(a: Assumptions): { rf: number; countryRisk: CountryRisk } {
+  return {
+    rf: localRiskFree(a.rf ?? 0.043, a.currency),
+    countryRisk: countryRiskPremium(a.country_exposure ?? [], a.crp_lambda ?? 1, a.crp_table),
+  }
+}
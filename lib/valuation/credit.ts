@@ -0,0 +1,112 @@
+/**
+ * Synthetic credit rating and pre-tax cost of debt. Interest coverage
+ * (EBIT / interest), net debt / EBITDA and FFO / debt each map to a notch on
+ * the spread table; the rating is the median of the three, so one outlying
+ * ratio cannot move it alone. The cost of debt is rf (in the cash-flow
+ * currency) + the rating's default spread unless `Assumptions.synthetic_kd` is
+ * off. buildProforma re-rates each projection year from the prior year's
+ * projected figures, so new borrowing reprices as leverage moves. Pure and
+ * client-safe.
+ */
+
+import type { Assumptions, Baseline, RatingBand } from "@/types/valuation"
+import { localRiskFree } from "./countryRisk"
+
+export interface CreditMetrics {
+  interest_coverage: number   // EBIT / interest; Infinity without interest
+  net_debt_ebitda: number     // −Infinity with net cash, Infinity with debt and no EBITDA
+  ffo_debt: number            // (EBITDA − interest − tax) / total debt; Infinity without debt
+}
+
+export interface SyntheticRating {
+  metrics: CreditMetrics
+  notches: { coverage: string; leverage: string; ffo: string }
+  rating: string
+  spread: number
+  cost_of_debt: number        // rf + spread
+}
+
+/**
+ * Default bands, strongest first. Coverage thresholds and spreads follow
+ * Damodaran's large-firm table; leverage and FFO/debt follow S&P's
+ * financial-risk bands. The last band catches everything below it.
+ */
+export const DEFAULT_SPREAD_TABLE: RatingBand[] = [
+  { rating: "AAA", min_coverage: 8.5,  max_net_debt_ebitda: 1.0,  min_ffo_debt: 0.80, spread: 0.0059 },
+  { rating: "AA",  min_coverage: 6.5,  max_net_debt_ebitda: 1.5,  min_ffo_debt: 0.60, spread: 0.0070 },
+  { rating: "A+",  min_coverage: 5.5,  max_net_debt_ebitda: 1.75, min_ffo_debt: 0.52, spread: 0.0092 },
+  { rating: "A",   min_coverage: 4.25, max_net_debt_ebitda: 2.0,  min_ffo_debt: 0.45, spread: 0.0107 },
+  { rating: "A-",  min_coverage: 3.0,  max_net_debt_ebitda: 2.5,  min_ffo_debt: 0.38, spread: 0.0121 },
+  { rating: "BBB", min_coverage: 2.5,  max_net_debt_ebitda: 3.0,  min_ffo_debt: 0.30, spread: 0.0147 },
+  { rating: "BB+", min_coverage: 2.25, max_net_debt_ebitda: 3.5,  min_ffo_debt: 0.25, spread: 0.0194 },
+  { rating: "BB",  min_coverage: 2.0,  max_net_debt_ebitda: 4.0,  min_ffo_debt: 0.20, spread: 0.0225 },
+  { rating: "B+",  min_coverage: 1.75, max_net_debt_ebitda: 4.5,  min_ffo_debt: 0.16, spread: 0.0291 },
+  { rating: "B",   min_coverage: 1.5,  max_net_debt_ebitda: 5.0,  min_ffo_debt: 0.12, spread: 0.0357 },
+  { rating: "B-",  min_coverage: 1.25, max_net_debt_ebitda: 6.0,  min_ffo_debt: 0.09, spread: 0.0439 },
+  { rating: "CCC", min_coverage: 0.8,  max_net_debt_ebitda: 7.0,  min_ffo_debt: 0.06, spread: 0.0873 },
+  { rating: "CC",  min_coverage: 0.65, max_net_debt_ebitda: 8.0,  min_ffo_debt: 0.04, spread: 0.1146 },
+  { rating: "C",   min_coverage: 0.2,  max_net_debt_ebitda: 10.0, min_ffo_debt: 0.02, spread: 0.1500 },
+  { rating: "D",   min_coverage: 0,    max_net_debt_ebitda: 0,    min_ffo_debt: 0,    spread: 0.1900 },
+]
+
+/** Figures a rating is computed from — the baseline or a projected year. */
+export interface CreditInputs {
+  ebit: number
+  ebitda: number
+  interest: number
+  tax: number
+  net_debt: number
+  total_debt: number
+}
+
+export function creditMetrics(f: CreditInputs): CreditMetrics {
+  return {
+    interest_coverage: f.interest > 0 ? f.ebit / f.interest : Infinity,
+    net_debt_ebitda:
+      f.net_debt <= 0 ? -Infinity : f.ebitda > 0 ? f.net_debt / f.ebitda : Infinity,
+    ffo_debt: f.total_debt > 0 ? (f.ebitda - f.interest - f.tax) / f.total_debt : Infinity,
+  }
+}
+
+export function baselineCreditInputs(B: Baseline): CreditInputs {
+  return {
+    ebit: B.ebit, ebitda: B.ebitda, interest: B.interest_expense, tax: B.tax,
+    net_debt: B.net_debt, total_debt: B.total_debt,
+  }
+}
+
+/** Index of the first band whose test passes; the last band otherwise. */
+function notch(table: RatingBand[], passes: (b: RatingBand) => boolean): number {
+  const i = table.slice(0, -1).findIndex(passes)
+  return i < 0 ? table.length - 1 : i
+}
+
+export function syntheticRating(
+  metrics: CreditMetrics,
+  rf: number,
+  table: RatingBand[] = DEFAULT_SPREAD_TABLE,
+): SyntheticRating {
+  const coverage = notch(table, (b) => metrics.interest_coverage >= b.min_coverage)
+  const leverage = notch(table, (b) => metrics.net_debt_ebitda <= b.max_net_debt_ebitda)
+  const ffo      = notch(table, (b) => metrics.ffo_debt >= b.min_ffo_debt)
+  const band = table[[coverage, leverage, ffo].sort((x, y) => x - y)[1]]
+  return {
+    metrics,
+    notches: { coverage: table[coverage].rating, leverage: table[leverage].rating, ffo: table[ffo].rating },
+    rating: band.rating,
+    spread: band.spread,
+    cost_of_debt: rf + band.spread,
+  }
+}
+
+/** Synthetic rating of a set of figures under the assumptions' rf and spread table. */
+export function rateCredit(f: CreditInputs, a: Assumptions): SyntheticRating {
+  const table = a.spread_table?.length ? a.spread_table : DEFAULT_SPREAD_TABLE
+  return syntheticRating(creditMetrics(f), localRiskFree(a.rf ?? 0.043, a.currency), table)
+}
+
+/** Pre-tax cost of debt: rf + synthetic spread by default, else the manual rate. */
+export function costOfDebt(B: Baseline, a: Assumptions): number {
+  if (!(a.synthetic_kd ?? true)) return a.cost_of_debt ?? 0.045
+  return rateCredit(baselineCreditInputs(B), a).cost_of_debt
+}
@@ -0,0 +1,177 @@
+/**
+ * Projection debt schedule: term tranches with amortization and maturities,
+ * a revolver that funds cash shortfalls below the minimum balance, and an
+ * optional sweep of excess cash into term debt prepayment.
+ *
+ * Interest is charged on average balances, which depend on the year's cash
+ * flow, which depends on interest — each year is solved by fixed-point
+ * iteration. Pure and client-safe: buildProforma calls it per projection year.
+ */
+
+import type { Assumptions, Baseline, DebtScheduleRow, DebtTranche, DebtTrancheRow } from "@/types/valuation"
+import { costOfDebt } from "./credit"
+
+// ── Policy & state ────────────────────────────────────────────────────────────
+
+export interface DebtPolicy {
+  tranches: DebtTranche[]
+  revolver_limit: number   // Infinity when uncapped
+  revolver_rate: number
+  min_cash_pct_rev: number
+  cash_sweep_pct: number
+}
+
+export interface DebtState {
+  balances: number[]       // per tranche, in policy order
+  revolver: number
+  cash: number
+}
+
+const MAX_ITERATIONS = 50
+const TOLERANCE      = 1e-9
+
+/** Interest rate implied by reported interest expense, else the cost of debt. */
+export function impliedDebtRate(B: Baseline, a: Assumptions): number {
+  return B.total_debt > 0 ? B.interest_expense / B.total_debt : costOfDebt(B, a)
+}
+
+/**
+ * Debt terms for the projection. Without configured tranches, existing debt is
+ * a single non-amortizing tranche at the implied rate — interest then matches
+ * the old constant-balance model unless the revolver or sweep kicks in.
+ */
+export function debtPolicy(B: Baseline, a: Assumptions): DebtPolicy {
+  const tranches = B.debt_tranches?.length
+    ? B.debt_tranches
+    : B.total_debt > 0
+      ? [{ name: "Existing debt", balance: B.total_debt, rate: impliedDebtRate(B, a) }]
+      : []
+  return {
+    tranches,
+    revolver_limit:   B.revolver_limit ?? Infinity,
+    revolver_rate:    costOfDebt(B, a),
+    min_cash_pct_rev: a.min_cash_pct_rev ?? 0.02,
+    cash_sweep_pct:   a.cash_sweep_pct ?? 0,
+  }
+}
+
+/**
+ * Tranches from a reported maturity ladder: principal due in each year after
+ * the period end, the last entry being everything due later. Each dated bucket
+ * is repaid in its year; the final bucket and any debt outside the ladder
+ * (short-term borrowings, unamortized discounts) stay outstanding. The ladder
+ * is face value, so it is scaled down when it exceeds carrying debt.
+ */
+export function maturityTranches(totalDebt: number, ladder: number[], rate: number, firstYear: number): DebtTranche[] {
+  const reported = ladder.reduce((s, v) => s + Math.max(0, v), 0)
+  if (totalDebt <= 0 || reported <= 0) return []
+  const scale = Math.min(1, totalDebt / reported)
+  const dated = ladder.length - 1
+  const tranches: DebtTranche[] = []
+  ladder.forEach((v, k) => {
+    if (!(v > 0)) return
+    tranches.push(k < dated
+      ? { name: `Due ${firstYear + k}`, balance: v * scale, rate, maturity_year: firstYear + k }
+      : { name: `Due after ${firstYear + dated - 1}`, balance: v * scale, rate })
+  })
+  const other = totalDebt - reported * scale
+  if (other > 1e-9) tranches.push({ name: "Other debt", balance: other, rate })
+  return tranches
+}
+
+export function openingDebtState(B: Baseline, policy: DebtPolicy): DebtState {
+  return {
+    balances: policy.tranches.map((t) => t.balance),
+    revolver: 0,
+    cash:     B.total_debt - B.net_debt,
+  }
+}
+
+// ── One projection year ───────────────────────────────────────────────────────
+
+/** Debt flows for a given pre-financing cash flow; interest follows from the balances. */
+function rollForward(
+  policy: DebtPolicy,
+  state: DebtState,
+  year: number,
+  minCash: number,
+  preFinancingCash: number,
+): { row: Omit<DebtScheduleRow, "iterations">; state: DebtState } {
+  const repayments = policy.tranches.map((t, i) => {
+    const open = state.balances[i]
+    if (t.maturity_year !== undefined && year >= t.maturity_year) return open
+    return Math.min(open, Math.max(0, t.amortization ?? 0))
+  })
+  let cash = state.cash + preFinancingCash - repayments.reduce((s, r) => s + r, 0)
+
+  // Revolver: draw to restore minimum cash, repay from any excess
+  let revolverDraw = 0
+  if (cash < minCash) {
+    revolverDraw = Math.min(minCash - cash, Math.max(0, policy.revolver_limit - state.revolver))
+  } else {
+    revolverDraw = -Math.min(state.revolver, cash - minCash)
+  }
+  cash += revolverDraw
+
+  // Sweep: prepay term debt in seniority order with a share of the remaining excess
+  let sweepPool = Math.max(0, cash - minCash) * policy.cash_sweep_pct
+  const sweeps = policy.tranches.map((_, i) => {
+    const s = Math.min(sweepPool, state.balances[i] - repayments[i])
+    sweepPool -= s
+    return s
+  })
+  cash -= sweeps.reduce((s, v) => s + v, 0)
+
+  const tranches: DebtTrancheRow[] = policy.tranches.map((t, i) => {
+    const opening = state.balances[i]
+    const closing = opening - repayments[i] - sweeps[i]
+    return {
+      name: t.name, opening, repayment: repayments[i], sweep: sweeps[i], closing,
+      interest: t.rate * (opening + closing) / 2,
+    }
+  })
+  const revolver_closing = state.revolver + revolverDraw
+  const revolver_interest = policy.revolver_rate * (state.revolver + revolver_closing) / 2
+  const opening_debt = state.balances.reduce((s, b) => s + b, 0) + state.revolver
+  const closing_debt = tranches.reduce((s, t) => s + t.closing, 0) + revolver_closing
+
+  return {
+    row: {
+      year, tranches,
+      revolver_opening: state.revolver, revolver_draw: revolverDraw, revolver_closing, revolver_interest,
+      opening_debt, closing_debt,
+      net_borrowing: closing_debt - opening_debt,
+      interest: tranches.reduce((s, t) => s + t.interest, 0) + revolver_interest,
+      cash_opening: state.cash, cash_closing: cash, min_cash: minCash,
+    },
+    state: { balances: tranches.map((t) => t.closing), revolver: revolver_closing, cash },
+  }
+}
+
+/**
+ * Solve one year of the schedule. `preFinancingCash(interest)` is the year's
+ * cash flow before debt flows (NI + D&A − ΔNWC − capex − dividends) given an
+ * interest charge; iteration stops when interest reproduces itself.
+ */
+export function solveDebtYear(
+  policy: DebtPolicy,
+  state: DebtState,
+  year: number,
+  revenue: number,
+  preFinancingCash: (interest: number) => number,
+): { row: DebtScheduleRow; state: DebtState } {
+  const minCash = Math.max(0, revenue * policy.min_cash_pct_rev)
+  // Start from interest on the opening balances
+  let interest =
+    policy.tranches.reduce((s, t, i) => s + t.rate * state.balances[i], 0) + policy.revolver_rate * state.revolver
+  let iterations = 0
+  let result = rollForward(policy, state, year, minCash, preFinancingCash(interest))
+  while (iterations < MAX_ITERATIONS) {
+    iterations++
+    const next = result.row.interest
+    if (Math.abs(next - interest) <= TOLERANCE * Math.max(1, Math.abs(interest))) break
+    interest = next
+    result = rollForward(policy, state, year, minCash, preFinancingCash(interest))
+  }
+  return { row: { ...result.row, iterations }, state: result.state }
+}
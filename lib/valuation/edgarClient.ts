@@ -0,0 +1,181 @@
+/**
+ * Server-only module. Do NOT import in client components.
+ * Shared HTTP client for sec.gov. SEC allows 10 requests/second per client and
+ * answers bursts with 403/429, so every EDGAR request goes through one token
+ * bucket, retries transient failures with exponential backoff, and reports the
+ * final failure as an EdgarError instead of a silent null.
+ *
+ * SEC asks automated clients to identify themselves ("Company contact@email"):
+ * set EDGAR_USER_AGENT.
+ */
+
+// ── Errors ────────────────────────────────────────────────────────────────────
+
+export type EdgarErrorReason =
+  | "rate_limited"   // 429, or 403 from the SEC fair-access filter
+  | "server_error"   // 5xx
+  | "http_error"     // other non-2xx
+  | "network"        // fetch rejected (DNS, reset, timeout)
+  | "invalid_json"
+
+export class EdgarError extends Error {
+  constructor(
+    message: string,
+    readonly reason: EdgarErrorReason,
+    readonly url: string,
+    readonly status?: number,
+    readonly attempts = 1,
+  ) {
+    super(message)
+    this.name = "EdgarError"
+  }
+}
+
+// ── Token bucket ──────────────────────────────────────────────────────────────
+
+export interface TokenBucket {
+  /** Resolves once a token is available (tokens are granted in call order). */
+  take(): Promise<void>
+}
+
+/**
+ * Token bucket refilling `ratePerSec` tokens per second up to `capacity`.
+ * `now` / `sleep` are injectable for tests.
+ */
+export function createTokenBucket(
+  ratePerSec: number,
+  capacity = ratePerSec,
+  now: () => number = Date.now,
+  sleep: (ms: number) => Promise<void> = (ms) => new Promise((r) => setTimeout(r, ms)),
+): TokenBucket {
+  let tokens = capacity
+  let last   = now()
+  let queue  = Promise.resolve()
+
+  const refill = () => {
+    const t = now()
+    tokens = Math.min(capacity, tokens + ((t - last) / 1000) * ratePerSec)
+    last = t
+  }
+
+  return {
+    take() {
+      // Chain on the queue so waiters are served FIFO
+      const turn = queue.then(async () => {
+        refill()
+        while (tokens < 1) {
+          await sleep(Math.ceil(((1 - tokens) / ratePerSec) * 1000))
+          refill()
+        }
+        tokens -= 1
+      })
+      queue = turn.catch(() => undefined)
+      return turn
+    },
+  }
+}
+
+// ── Client ────────────────────────────────────────────────────────────────────
+
+const DEFAULT_UA = "MSF-AI-Finance contact@msf.ai"
+
+export interface EdgarClientOptions {
+  userAgent?: string
+  ratePerSec?: number      // below SEC's 10 req/s to leave headroom
+  maxRetries?: number
+  baseDelayMs?: number     // first backoff; doubles per attempt (plus jitter)
+  fetchImpl?: typeof fetch
+  sleep?: (ms: number) => Promise<void>
+}
+
+export interface EdgarClient {
+  userAgent: string
+  /**
+   * GET a JSON document. Resolves null on 404 (no such filer / no XBRL facts);
+   * throws EdgarError once retries are exhausted or for non-retryable statuses.
+   */
+  getJson<T>(url: string, revalidate?: number): Promise<T | null>
+}
+
+/** 429, 403 (SEC throttling) and 5xx are retried; Retry-After is honoured when present. */
+function isRetryable(status: number): boolean {
+  return status === 429 || status === 403 || status >= 500
+}
+
+function reasonFor(status: number): EdgarErrorReason {
+  if (status === 429 || status === 403) return "rate_limited"
+  if (status >= 500) return "server_error"
+  return "http_error"
+}
+
+export function createEdgarClient(opts: EdgarClientOptions = {}): EdgarClient {
+  const userAgent   = opts.userAgent ?? process.env.EDGAR_USER_AGENT ?? DEFAULT_UA
+  const maxRetries  = opts.maxRetries ?? 4
+  const baseDelayMs = opts.baseDelayMs ?? 500
+  const doFetch     = opts.fetchImpl ?? fetch
+  const sleep       = opts.sleep ?? ((ms: number) => new Promise<void>((r) => setTimeout(r, ms)))
+  const bucket      = createTokenBucket(opts.ratePerSec ?? 8, opts.ratePerSec ?? 8, Date.now, sleep)
+
+  const backoff = (attempt: number, retryAfter: string | null) => {
+    const hinted = Number(retryAfter)
+    if (retryAfter && isFinite(hinted)) return hinted * 1000
+    return baseDelayMs * 2 ** attempt * (1 + Math.random() * 0.25)
+  }
+
+  return {
+    userAgent,
+    async getJson<T>(url: string, revalidate?: number): Promise<T | null> {
+      for (let attempt = 0; ; attempt++) {
+        await bucket.take()
+        let res: Response
+        try {
+          res = await doFetch(url, {
+            headers: { "User-Agent": userAgent, Accept: "application/json" },
+            ...(revalidate !== undefined ? { next: { revalidate } } : {}),
+          } as RequestInit)
+        } catch (err) {
+          if (attempt < maxRetries) {
+            await sleep(backoff(attempt, null))
+            continue
+          }
+          throw new EdgarError(
+            `EDGAR request failed: ${err instanceof Error ? err.message : String(err)}`,
+            "network", url, undefined, attempt + 1,
+          )
+        }
+
+        if (res.ok) {
+          try {
+            return (await res.json()) as T
+          } catch {
+            throw new EdgarError("EDGAR returned invalid JSON", "invalid_json", url, res.status, attempt + 1)
+          }
+        }
+        if (res.status === 404) return null
+        if (isRetryable(res.status) && attempt < maxRetries) {
+          await sleep(backoff(attempt, res.headers.get("retry-after")))
+          continue
+        }
+        const hint = res.status === 403 ? " (check EDGAR_USER_AGENT and request rate)" : ""
+        throw new EdgarError(
+          `EDGAR HTTP ${res.status}${hint} after ${attempt + 1} attempt${attempt ? "s" : ""}`,
+          reasonFor(res.status), url, res.status, attempt + 1,
+        )
+      }
+    },
+  }
+}
+
+let sharedClient: EdgarClient | null = null
+
+/** Process-wide client, so every EDGAR caller shares one rate limit. */
+export function getEdgarClient(): EdgarClient {
+  sharedClient ??= createEdgarClient()
+  return sharedClient
+}
+
+/** One-line reason for logs and data warnings. */
+export function describeError(err: unknown): string {
+  if (err instanceof EdgarError) return `${err.message} [${err.reason}] ${err.url}`
+  return err instanceof Error ? err.message : String(err)
+}
@@ -2,9 +2,17 @@
  * Server-only module. Do NOT import in client components.
  * Fetches SEC EDGAR XBRL companyfacts API and extracts structured GAAP data
  * directly from 10-K filings — the authoritative source for all fundamental data.
+ * IFRS 20-F filers are read from the ifrs-full namespace via xbrlConcepts.ts.
  */
 
-const EDGAR_UA = "MSF-AI-Finance contact@msf.ai"
+import {
+  CONCEPT_MAP,
+  resolveTaxonomy,
+  reportingCurrency,
+  type ConceptField,
+  type Taxonomy,
+} from "./xbrlConcepts"
+import { getProviders, type FundamentalsProvider } from "./providers"
 
 // ── Types ─────────────────────────────────────────────────────────────────────
 
@@ -21,19 +29,22 @@ export interface XbrlUnit {
   fp?: string
   frame?: string
   start?: string
+  unit?: string     // unit key the fact was read from (set by the concept lookups)
+  concept?: string  // concept name the fact was read from (set by the concept lookups)
 }
 
-interface XbrlConcept {
+export interface XbrlConcept {
   label: string
   description: string
   units: Record<string, XbrlUnit[]>
 }
 
-interface XbrlCompanyFacts {
+export interface XbrlCompanyFacts {
   cik: number
   entityName: string
   facts: {
     "us-gaap"?: Record<string, XbrlConcept>
+    "ifrs-full"?: Record<string, XbrlConcept>
     dei?: Record<string, XbrlConcept>
   }
 }
@@ -68,6 +79,48 @@ export interface XbrlFundamentals {
   capex: number
   net_borrowing: number
 
+  // Financial institutions (0 when not reported)
+  net_interest_income: number
+  credit_loss_provision: number
+  deposits: number
+  cet1_ratio: number      // fraction, e.g. 0.15
+
+  // Real estate (millions; 0 when not reported)
+  re_depreciation: number         // depreciation of real estate assets (FFO add-back)
+  gain_on_property_sales: number  // gains (+) / losses (−) on property sales (FFO deduction)
+  rental_revenue: number
+  property_opex: number           // property operating expenses (NOI = rental revenue − property opex)
+  investment_property: number     // real estate investment property, net
+
+  // Working capital and fixed assets (millions; 0 when not reported)
+  receivables: number
+  inventory: number
+  payables: number
+  ppe: number                     // property, plant & equipment, net
+
+  // Share-based compensation (0 when not reported)
+  sbc: number                     // share-based compensation expense (millions)
+  options_outstanding: number     // employee stock options outstanding (millions of shares)
+  options_strike: number          // weighted-average exercise price of outstanding options (per share)
+  rsus_outstanding: number        // unvested restricted stock units (millions of shares)
+
+  // Non-operating claims and assets for the EV-to-equity bridge (millions; 0 when not reported)
+  operating_leases: number        // operating lease liabilities
+  minority_interest: number       // non-controlling interests
+  preferred_stock: number
+  pension_deficit: number         // net defined-benefit liability
+  equity_investments: number      // equity-method investments
+
+  // Debt maturity ladder and revolver (millions; 0 when not reported)
+  debt_due_1: number              // long-term debt principal due within twelve months
+  debt_due_2: number
+  debt_due_3: number
+  debt_due_4: number
+  debt_due_5: number
+  debt_due_later: number          // due after year five
+  revolver_capacity: number       // committed line-of-credit capacity
+  revolver_drawn: number          // amount drawn on it
+
   // Derived
   ebitda: number          // = ebit + da_total
   net_debt: number        // = total_debt - cash
@@ -88,9 +141,56 @@ export interface XbrlFundamentals {
     da: number[]   // per-year D&A (millions); may be 0 if XBRL concept absent
   }
 
+  // Discrete fiscal quarters (oldest → newest, up to 8). Q4 is backed out of the annual.
+  quarterly: {
+    end: string[]
+    revenue: number[]
+    ebit: number[]
+    net_income: number[]
+    eps_diluted: number[]
+    ocf: number[]
+    capex: number[]
+    da: number[]
+  }
+
+  // Trailing twelve months from the last four 10-Q/10-K quarters; null when the
+  // latest quarter is the fiscal year-end or four contiguous quarters are unavailable.
+  ttm: XbrlTtm | null
+
   cik: string
   filedDate: string
   fiscalYearEnd: string
+  taxonomy: Taxonomy          // "us-gaap" for 10-K filers, "ifrs-full" for IFRS 20-F filers
+  reportingCurrency: string   // ISO code of the monetary unit key, e.g. "USD", "EUR"
+  // Unit key actually read per field. A concept missing the reporting-currency key
+  // falls back to another currency (e.g. a USD convenience translation).
+  unitKeys: Partial<Record<ConceptField, string>>
+  // Fact behind each current-period field (absent when no concept had data)
+  sources: XbrlSources
+}
+
+/** The filed fact a current-period figure was read from. */
+export interface XbrlFactSource {
+  concept: string     // "us-gaap:Revenues", "ifrs-full:Revenue"
+  accession: string
+  filed: string
+  form: string
+  end: string         // period end (instant date for balance-sheet items)
+}
+
+export type XbrlSources = Partial<Record<ConceptField, XbrlFactSource>>
+
+/** Current-period figures shared by the fiscal-year and trailing-twelve-month views. */
+export type XbrlPeriodFigures = Omit<
+  XbrlFundamentals,
+  | "hist" | "quarterly" | "ttm" | "cik" | "filedDate" | "fiscalYearEnd"
+  | "taxonomy" | "reportingCurrency" | "unitKeys" | "sources"
+>
+
+export interface XbrlTtm extends XbrlPeriodFigures {
+  periodEnd: string   // end date of the latest quarter in the window
+  filedDate: string   // filing date of that quarter's 10-Q / 10-K
+  sources: XbrlSources  // latest-quarter fact per field (sums span four filings)
 }
 
 // ── Helpers ───────────────────────────────────────────────────────────────────
@@ -105,6 +205,20 @@ function isAnnualForm(form?: string): boolean {
   return form === "10-K" || form === "10-K/A" || form === "20-F" || form === "40-F"
 }
 
+/** Returns true if the form is a quarterly 10-Q filing */
+function isQuarterlyForm(form?: string): boolean {
+  return form === "10-Q" || form === "10-Q/A"
+}
+
+function durationDays(v: XbrlUnit): number {
+  if (!v.start) return 0
+  return (new Date(v.end).getTime() - new Date(v.start).getTime()) / 86_400_000
+}
+
+function isQuarterSpan(days: number): boolean {
+  return days >= 70 && days <= 110
+}
+
 /** Filter XBRL unit entries to annual IS/CF items (10-K form, 330–400 day duration). */
 // exported for unit testing
 export function pickAnnual(values: XbrlUnit[]): XbrlUnit[] {
@@ -127,14 +241,17 @@ export function pickAnnual(values: XbrlUnit[]): XbrlUnit[] {
   return [...byYearEnd.values()].sort((a, b) => a.end.localeCompare(b.end))
 }
 
-/** Filter XBRL unit entries to instant (balance sheet) items matching a set of fiscal year-end dates. */
-function pickInstant(values: XbrlUnit[], fyEnds: string[]): XbrlUnit[] {
+/**
+ * Filter XBRL unit entries to instant (balance sheet) items matching a set of fiscal year-end dates.
+ * With includeQuarterly, 10-Q balance sheets are also accepted (used for the TTM period end).
+ */
+function pickInstant(values: XbrlUnit[], fyEnds: string[], includeQuarterly = false): XbrlUnit[] {
   const results: XbrlUnit[] = []
   for (const fyEnd of fyEnds) {
     const fyDate = new Date(fyEnd).getTime()
     // Find entries within ±7 days of the fiscal year end date
     const candidates = values.filter((v) => {
-      if (!isAnnualForm(v.form)) return false
+      if (!isAnnualForm(v.form) && !(includeQuarterly && isQuarterlyForm(v.form))) return false
       if (!v.end) return false
       const diff = Math.abs(new Date(v.end).getTime() - fyDate)
       return diff <= 7 * 86_400_000
@@ -151,146 +268,369 @@ function pickInstant(values: XbrlUnit[], fyEnds: string[]): XbrlUnit[] {
   return results
 }
 
+/**
+ * Derive discrete fiscal-quarter entries from 10-Q and 10-K duration facts.
+ *
+ * 10-Qs report the income statement both for the three-month quarter and
+ * year-to-date, but the cash flow statement only year-to-date. Direct 3-month
+ * facts are used where present; otherwise a quarter is the difference between
+ * consecutive YTD facts sharing a fiscal-year start (H1 − Q1, 9M − H1, FY − 9M).
+ * The last of these backs Q4 out of the 10-K annual figure.
+ *
+ * Non-additive facts (share counts) only take direct 3-month values.
+ */
+// exported for unit testing
+export function pickQuarterly(values: XbrlUnit[], additive = true): XbrlUnit[] {
+  // Deduplicate: one entry per (start, end) period, preferring latest filed
+  const byPeriod = new Map<string, XbrlUnit>()
+  for (const v of values) {
+    if (!isAnnualForm(v.form) && !isQuarterlyForm(v.form)) continue
+    if (!v.start || !v.end) continue
+    const key = `${v.start}|${v.end}`
+    const existing = byPeriod.get(key)
+    if (!existing || (v.filed ?? "") > (existing.filed ?? "")) byPeriod.set(key, v)
+  }
+  const periods = [...byPeriod.values()]
+
+  const byEnd = new Map<string, XbrlUnit>()
+  for (const v of periods) {
+    if (isQuarterSpan(durationDays(v))) byEnd.set(v.end, v)
+  }
+
+  if (additive) {
+    const byStart = new Map<string, XbrlUnit[]>()
+    for (const v of periods) {
+      const group = byStart.get(v.start!) ?? []
+      group.push(v)
+      byStart.set(v.start!, group)
+    }
+    for (const group of byStart.values()) {
+      group.sort((a, b) => a.end.localeCompare(b.end))
+      for (let i = 1; i < group.length; i++) {
+        const prev = group[i - 1]
+        const curr = group[i]
+        if (byEnd.has(curr.end)) continue
+        const gap = (new Date(curr.end).getTime() - new Date(prev.end).getTime()) / 86_400_000
+        if (!isQuarterSpan(gap)) continue
+        const start = new Date(new Date(prev.end).getTime() + 86_400_000).toISOString().slice(0, 10)
+        byEnd.set(curr.end, { ...curr, start, val: curr.val - prev.val })
+      }
+    }
+  }
+
+  return [...byEnd.values()].sort((a, b) => a.end.localeCompare(b.end))
+}
+
+/**
+ * Return the last four quarters if they are contiguous (the first and last
+ * quarter-ends roughly nine months apart), otherwise null.
+ */
+// exported for unit testing
+export function lastFourQuarters<T extends { end: string }>(quarters: T[]): T[] | null {
+  if (quarters.length < 4) return null
+  const window = quarters.slice(-4)
+  const span = (new Date(window[3].end).getTime() - new Date(window[0].end).getTime()) / 86_400_000
+  return span >= 250 && span <= 300 ? window : null
+}
+
+/**
+ * Pick the unit key to read from a concept. The requested key wins when populated;
+ * otherwise a monetary request (ISO 4217 code) falls back to any other currency
+ * key, and a per-share request ("EUR/shares") to any other currency-per-share key.
+ * Share counts and other units are never substituted.
+ */
+// exported for unit testing
+export function resolveUnitKey(concept: XbrlConcept, unit: string): string | undefined {
+  const populated = (k: string) => (concept.units[k]?.length ?? 0) > 0
+  if (populated(unit)) return unit
+  const pattern = /^[A-Z]{3}$/.test(unit)
+    ? /^[A-Z]{3}$/
+    : /^[A-Z]{3}\/shares$/.test(unit) ? /^[A-Z]{3}\/shares$/ : null
+  if (!pattern) return undefined
+  return Object.keys(concept.units).find((k) => pattern.test(k) && populated(k))
+}
+
 /** Try concept names in order, return the annual series for the first match. */
 // exported for unit testing
 export function firstConcept(
   gaap: Record<string, XbrlConcept>,
   names: string[],
-  unit: "USD" | "shares" | "USD/shares" = "USD",
+  unit = "USD",
+): XbrlUnit[] {
+  for (const name of names) {
+    const concept = gaap[name]
+    if (!concept) continue
+    const key = resolveUnitKey(concept, unit)
+    if (!key) continue
+    const annual = pickAnnual(concept.units[key])
+    if (annual.length > 0) return annual.map((v) => ({ ...v, unit: key, concept: name }))
+  }
+  return []
+}
+
+/** Same as firstConcept but for discrete quarters (see pickQuarterly). */
+function firstConceptQuarterly(
+  gaap: Record<string, XbrlConcept>,
+  names: string[],
+  unit = "USD",
+  additive = true,
 ): XbrlUnit[] {
   for (const name of names) {
     const concept = gaap[name]
     if (!concept) continue
-    const vals = concept.units[unit]
-    if (!vals || vals.length === 0) continue
-    const annual = pickAnnual(vals)
-    if (annual.length > 0) return annual
+    const key = resolveUnitKey(concept, unit)
+    if (!key) continue
+    const quarters = pickQuarterly(concept.units[key], additive)
+    if (quarters.length > 0) return quarters.map((v) => ({ ...v, unit: key, concept: name }))
   }
   return []
 }
 
-/** Same as firstConcept but for instant (balance sheet) facts. */
+/** Same as firstConcept but for instant (balance sheet) facts; one entry per date (0 if absent). */
 function firstConceptInstant(
   gaap: Record<string, XbrlConcept>,
   names: string[],
   fyEnds: string[],
-  unit: "USD" | "shares" = "USD",
-): number[] {
+  unit = "USD",
+  includeQuarterly = false,
+): XbrlUnit[] {
   for (const name of names) {
     const concept = gaap[name]
     if (!concept) continue
-    const vals = concept.units[unit]
-    if (!vals || vals.length === 0) continue
-    const instant = pickInstant(vals, fyEnds)
+    const key = resolveUnitKey(concept, unit)
+    if (!key) continue
+    const instant = pickInstant(concept.units[key], fyEnds, includeQuarterly)
     if (instant.some((v) => v.val !== 0)) {
-      return instant.map((v) => v.val)
+      return instant.map((v) => (v.accn ? { ...v, unit: key, concept: name } : v))
+    }
+  }
+  return fyEnds.map((end) => ({ end, val: 0, accn: "", cik: 0, entityName: "", loc: "" }))
+}
+
+/** Closest entry to each master period-end date (tolerance in days); null where none. */
+function alignEntries(masterDates: string[], arr: XbrlUnit[], tolerance = 35): (XbrlUnit | null)[] {
+  return masterDates.map((d) => {
+    const target = new Date(d).getTime()
+    let closest: XbrlUnit | null = null
+    let minDiff = Infinity
+    for (const v of arr) {
+      const diff = Math.abs(new Date(v.end).getTime() - target)
+      if (diff < minDiff && diff <= tolerance * 86_400_000) {
+        minDiff = diff
+        closest = v
+      }
     }
+    return closest
+  })
+}
+
+/** Align a series to a master timeline of period-end dates (tolerance in days); gaps become 0. */
+function alignTo(masterDates: string[], arr: XbrlUnit[], tolerance = 35): number[] {
+  return alignEntries(masterDates, arr, tolerance).map((v) => v?.val ?? 0)
+}
+
+/** Maturity ladder fields, nearest first. */
+const DEBT_LADDER = ["debt_due_1", "debt_due_2", "debt_due_3", "debt_due_4", "debt_due_5", "debt_due_later"] as const
+
+function ladderAt(v: number[]): Pick<RawPeriod, (typeof DEBT_LADDER)[number]> {
+  return {
+    debt_due_1: v[0], debt_due_2: v[1], debt_due_3: v[2], debt_due_4: v[3], debt_due_5: v[4], debt_due_later: v[5],
   }
-  return fyEnds.map(() => 0)
+}
+
+/** Raw period values as reported (currency units and shares, not millions; per-share as-is). */
+export type RawPeriod = Pick<
+  XbrlPeriodFigures,
+  | "revenue" | "ebit" | "net_income" | "interest_expense" | "tax_expense" | "da_total"
+  | "eps_diluted" | "dps" | "gross_profit"
+  | "total_assets" | "total_debt" | "cash" | "total_equity" | "goodwill" | "intangibles"
+  | "shares_diluted" | "shares_basic" | "bvps"
+  | "ocf" | "capex" | "net_borrowing"
+  | "net_interest_income" | "credit_loss_provision" | "deposits" | "cet1_ratio"
+  | "re_depreciation" | "gain_on_property_sales" | "rental_revenue" | "property_opex" | "investment_property"
+  | "receivables" | "inventory" | "payables" | "ppe"
+  | "sbc" | "options_outstanding" | "options_strike" | "rsus_outstanding"
+  | "operating_leases" | "minority_interest" | "preferred_stock" | "pension_deficit" | "equity_investments"
+  | "debt_due_1" | "debt_due_2" | "debt_due_3" | "debt_due_4" | "debt_due_5" | "debt_due_later"
+  | "revolver_capacity" | "revolver_drawn"
+>
+
+/** Fill the derived fields (EBITDA, net debt, tax rate, payout) from reported figures. */
+export function deriveFigures(p: RawPeriod): XbrlPeriodFigures {
+  // Tax rate (clamp 0–50%)
+  const pretaxApprox = p.ebit - p.interest_expense
+  const tax_rate = pretaxApprox > 0 ? Math.min(0.5, Math.max(0, p.tax_expense / pretaxApprox)) : 0.21
+
+  const payout_ratio = p.eps_diluted > 0 && p.dps > 0 ? Math.min(1, p.dps / p.eps_diluted) : 0
+
+  return {
+    ...p,
+    ebitda:   p.ebit + p.da_total,
+    net_debt: p.total_debt - p.cash,
+    tax_rate,
+    payout_ratio,
+  }
+}
+
+/** Scale a raw period to millions and compute the derived fields. */
+function toPeriodFigures(raw: RawPeriod): XbrlPeriodFigures {
+  const M = 1_000_000
+
+  return deriveFigures({
+    revenue:          raw.revenue          / M,
+    ebit:             raw.ebit             / M,
+    net_income:       raw.net_income       / M,
+    interest_expense: raw.interest_expense / M,
+    tax_expense:      raw.tax_expense      / M,
+    da_total:         raw.da_total         / M,
+    eps_diluted:      raw.eps_diluted,     // already per-share
+    dps:              raw.dps,             // already per-share
+    gross_profit:     raw.gross_profit     / M,
+    total_assets:     raw.total_assets     / M,
+    total_debt:       raw.total_debt       / M,
+    cash:             raw.cash             / M,
+    total_equity:     raw.total_equity     / M,
+    goodwill:         raw.goodwill         / M,
+    intangibles:      raw.intangibles      / M,
+    shares_diluted:   raw.shares_diluted   / M,  // convert to millions
+    shares_basic:     raw.shares_basic     / M,
+    bvps:             raw.bvps,            // per-share (reporting currency)
+    ocf:              raw.ocf              / M,
+    capex:            raw.capex            / M,
+    net_borrowing:    raw.net_borrowing    / M,
+    net_interest_income:   raw.net_interest_income   / M,
+    credit_loss_provision: raw.credit_loss_provision / M,
+    deposits:              raw.deposits              / M,
+    cet1_ratio:            raw.cet1_ratio,            // already a ratio
+    re_depreciation:        raw.re_depreciation        / M,
+    gain_on_property_sales: raw.gain_on_property_sales / M,
+    rental_revenue:         raw.rental_revenue         / M,
+    property_opex:          raw.property_opex          / M,
+    investment_property:    raw.investment_property    / M,
+    receivables:            raw.receivables            / M,
+    inventory:              raw.inventory              / M,
+    payables:               raw.payables               / M,
+    ppe:                    raw.ppe                    / M,
+    sbc:                    raw.sbc                    / M,
+    options_outstanding:    raw.options_outstanding    / M,
+    options_strike:         raw.options_strike,         // already per-share
+    rsus_outstanding:       raw.rsus_outstanding       / M,
+    operating_leases:       raw.operating_leases       / M,
+    minority_interest:      raw.minority_interest      / M,
+    preferred_stock:        raw.preferred_stock        / M,
+    pension_deficit:        raw.pension_deficit        / M,
+    equity_investments:     raw.equity_investments     / M,
+    debt_due_1:             raw.debt_due_1             / M,
+    debt_due_2:             raw.debt_due_2             / M,
+    debt_due_3:             raw.debt_due_3             / M,
+    debt_due_4:             raw.debt_due_4             / M,
+    debt_due_5:             raw.debt_due_5             / M,
+    debt_due_later:         raw.debt_due_later         / M,
+    revolver_capacity:      raw.revolver_capacity      / M,
+    revolver_drawn:         raw.revolver_drawn         / M,
+  })
 }
 
 // ── Main fetcher ──────────────────────────────────────────────────────────────
 
-export async function fetchXbrlFundamentals(cik: string): Promise<XbrlFundamentals | null> {
+/** Ticker → zero-padded CIK. Null if SEC has no such ticker; rejects if EDGAR is unreachable. */
+export async function lookupCIK(ticker: string, fundamentals: FundamentalsProvider): Promise<string | null> {
+  const data = await fundamentals.companyTickers()
+  if (!data) return null
+  const entry = Object.values(data).find(
+    (e) => e.ticker.toUpperCase() === ticker.toUpperCase()
+  )
+  return entry ? String(entry.cik_str).padStart(10, "0") : null
+}
+
+/**
+ * Fetch and extract companyfacts. Resolves null when the filer has no usable
+ * XBRL; retrieval failures (EdgarError) propagate so callers can report them.
+ */
+export async function fetchXbrlFundamentals(
+  cik: string,
+  fundamentals: FundamentalsProvider = getProviders().fundamentals,
+): Promise<XbrlFundamentals | null> {
+  const data = await fundamentals.companyFacts(cik)
+  if (!data) return null
+
   try {
-    const paddedCik = cik.padStart(10, "0")
-    const res = await fetch(
-      `https://data.sec.gov/api/xbrl/companyfacts/CIK${paddedCik}.json`,
-      {
-        headers: { "User-Agent": EDGAR_UA },
-        next: { revalidate: 3_600 }, // 1h cache
-      } as RequestInit,
-    )
-    if (!res.ok) return null
-
-    const data: XbrlCompanyFacts = await res.json()
-    const gaap = data.facts?.["us-gaap"]
-    if (!gaap) return null
+    const resolved = resolveTaxonomy(data)
+    if (!resolved) return null
+
+    // `gaap` holds whichever taxonomy carries the primary statements (us-gaap or ifrs-full)
+    const { taxonomy, concepts: gaap } = resolved
+    const C = CONCEPT_MAP[taxonomy]
+    const cur = reportingCurrency(gaap, taxonomy)
+    const perShare = `${cur}/shares`
+
+    // Concept lookups default to the reporting-currency unit key and record the
+    // key actually read per field (see resolveUnitKey), plus the facts behind the
+    // fiscal-year and TTM views for provenance
+    type FactsByField = Partial<Record<ConceptField, XbrlUnit[]>>
+    const unitKeys: Partial<Record<ConceptField, string>> = {}
+    const fyFacts: FactsByField  = {}
+    const ttmFacts: FactsByField = {}
+    const record = (field: ConceptField, arr: XbrlUnit[], into: FactsByField) => {
+      const key = arr.find((v) => v.unit)?.unit
+      if (key && !unitKeys[field]) unitKeys[field] = key
+      into[field] ??= arr
+      return arr
+    }
+    const annual = (field: ConceptField, unit = cur) =>
+      record(field, firstConcept(gaap, C[field] ?? [], unit), fyFacts)
+    const quarterly = (field: ConceptField, unit = cur, additive = true) =>
+      record(field, firstConceptQuarterly(gaap, C[field] ?? [], unit, additive), ttmFacts)
+    const instants = (field: ConceptField, dates: string[], unit = cur, includeQuarterly = false) =>
+      record(
+        field,
+        firstConceptInstant(gaap, C[field] ?? [], dates, unit, includeQuarterly),
+        includeQuarterly ? ttmFacts : fyFacts,
+      ).map((v) => v.val)
+
+    /** Fact per field at `date`, as XbrlFactSource. */
+    const sourcesAt = (facts: FactsByField, date: string, tolerance: number): XbrlSources => {
+      const out: XbrlSources = {}
+      for (const [field, arr] of Object.entries(facts) as [ConceptField, XbrlUnit[]][]) {
+        const fact = alignEntries([date], arr, tolerance)[0]
+        if (!fact?.accn || !fact.concept) continue
+        out[field] = {
+          concept:   `${taxonomy}:${fact.concept}`,
+          accession: fact.accn,
+          filed:     fact.filed ?? "",
+          form:      fact.form ?? "",
+          end:       fact.end,
+        }
+      }
+      return out
+    }
 
     const M = 1_000_000
 
     // ── Income statement / cash flow (annual IS = duration-based) ────────────
 
-    const revenueArr = firstConcept(gaap, [
-      "RevenueFromContractWithCustomerExcludingAssessedTax",
-      "Revenues",
-      "SalesRevenueNet",
-      "SalesRevenueGoodsNet",
-      "RevenuesNetOfInterestExpense",
-    ])
-    const ebitArr = firstConcept(gaap, ["OperatingIncomeLoss"])
-    const netIncArr = firstConcept(gaap, [
-      "NetIncomeLoss",
-      "NetIncomeLossAvailableToCommonStockholdersBasic",
-      "ProfitLoss",
-    ])
-    const intExpArr = firstConcept(gaap, [
-      "InterestExpense",
-      "InterestAndDebtExpense",
-      "InterestExpenseDebt",
-    ])
-    const taxArr = firstConcept(gaap, ["IncomeTaxExpenseBenefit"])
-    const daArr = firstConcept(gaap, [
-      "DepreciationDepletionAndAmortization",
-      "DepreciationAndAmortization",
-      "Depreciation",
-      "DepreciationAmortizationAndAccretionNet",
-      "OtherDepreciationAndAmortization",
-      "DepreciationNonproduction",
-    ])
-    const epsDilArr = firstConcept(gaap, [
-      "EarningsPerShareDiluted",
-      "EarningsPerShareBasicAndDiluted",
-    ], "USD/shares")
-    const dpsArr = firstConcept(gaap, [
-      "CommonStockDividendsPerShareDeclared",
-      "CommonStockDividendsPerShareCashPaid",
-    ], "USD/shares")
-    const grossProfitArr = firstConcept(gaap, ["GrossProfit"])
-    const ocfArr = firstConcept(gaap, [
-      "NetCashProvidedByUsedInOperatingActivities",
-      "NetCashProvidedByOperatingActivities",
-    ])
-    const capexArr = firstConcept(gaap, [
-      "PaymentsToAcquirePropertyPlantAndEquipment",
-      "PaymentsToAcquireProductiveAssets",
-    ])
-    const debtIssuedArr = firstConcept(gaap, [
-      "ProceedsFromIssuanceOfLongTermDebt",
-      "ProceedsFromIssuanceOfDebt",
-    ])
-    const debtRepaidArr = firstConcept(gaap, [
-      "RepaymentsOfLongTermDebt",
-      "RepaymentsOfDebt",
-    ])
-    const sharesDilAnnualArr = firstConcept(gaap, [
-      "WeightedAverageNumberOfDilutedSharesOutstanding",
-      "CommonStockSharesOutstanding",
-    ], "shares")
-    const sharesBasicAnnualArr = firstConcept(gaap, [
-      "WeightedAverageNumberOfSharesOutstandingBasic",
-    ], "shares")
+    const revenueArr          = annual("revenue")
+    const ebitArr             = annual("ebit")
+    const netIncArr           = annual("net_income")
+    const intExpArr           = annual("interest_expense")
+    const taxArr              = annual("tax_expense")
+    const daArr               = annual("da")
+    const epsDilArr           = annual("eps_diluted", perShare)
+    const dpsArr              = annual("dps", perShare)
+    const grossProfitArr      = annual("gross_profit")
+    const ocfArr              = annual("ocf")
+    const capexArr            = annual("capex")
+    const debtIssuedArr       = annual("debt_issued")
+    const debtRepaidArr       = annual("debt_repaid")
+    const sharesDilAnnualArr  = annual("shares_diluted", "shares")
+    const sharesBasicAnnualArr = annual("shares_basic", "shares")
 
     // Align all IS arrays to the revenue year-end dates (the "master" timeline)
     // Revenue is most reliably populated; use it as the reference timeline.
     const masterDates = revenueArr.map((v) => v.end)
     if (masterDates.length === 0) return null
 
-    function alignToMaster(arr: XbrlUnit[], tolerance = 35): number[] {
-      return masterDates.map((d) => {
-        const target = new Date(d).getTime()
-        let closest: XbrlUnit | null = null
-        let minDiff = Infinity
-        for (const v of arr) {
-          const diff = Math.abs(new Date(v.end).getTime() - target)
-          if (diff < minDiff && diff <= tolerance * 86_400_000) {
-            minDiff = diff
-            closest = v
-          }
-        }
-        return closest ? closest.val : 0
-      })
-    }
+    const alignToMaster = (arr: XbrlUnit[]) => alignTo(masterDates, arr)
 
     const revVals     = revenueArr.map((v) => v.val)
     const ebitVals    = alignToMaster(ebitArr)
@@ -308,30 +648,41 @@ export async function fetchXbrlFundamentals(cik: string): Promise<XbrlFundamenta
     const netBorrowVals = issuedVals.map((v, i) => v - repaidVals[i])
     const sdDilVals   = alignToMaster(sharesDilAnnualArr)
     const sbVals      = alignToMaster(sharesBasicAnnualArr)
+    const niiVals     = alignToMaster(annual("net_interest_income"))
+    const provVals    = alignToMaster(annual("credit_loss_provision"))
+    const reDepVals   = alignToMaster(annual("re_depreciation"))
+    const propGainVals = alignToMaster(annual("gain_on_property_sales"))
+    const rentVals    = alignToMaster(annual("rental_revenue"))
+    const propOpexVals = alignToMaster(annual("property_opex"))
+    const sbcVals     = alignToMaster(annual("sbc"))
 
     // ── Balance sheet (instant facts aligned to IS fiscal year ends) ──────────
 
-    const totalAssetsVals  = firstConceptInstant(gaap, ["Assets"], masterDates)
-    const totalDebtVals    = firstConceptInstant(gaap, [
-      "LongTermDebtAndCapitalLeaseObligations",
-      "LongTermDebt",
-    ], masterDates)
-    const cashVals         = firstConceptInstant(gaap, [
-      "CashAndCashEquivalentsAtCarryingValue",
-      "CashCashEquivalentsAndShortTermInvestments",
-    ], masterDates)
-    const equityVals       = firstConceptInstant(gaap, [
-      "StockholdersEquity",
-      "StockholdersEquityIncludingPortionAttributableToNoncontrollingInterest",
-    ], masterDates)
-    const goodwillVals     = firstConceptInstant(gaap, ["Goodwill"], masterDates)
-    const intangiblesVals  = firstConceptInstant(gaap, [
-      "FiniteLivedIntangibleAssetsNet",
-      "IntangibleAssetsNetExcludingGoodwill",
-    ], masterDates)
-    const sharesInstVals   = firstConceptInstant(gaap, [
-      "CommonStockSharesOutstanding",
-    ], masterDates, "shares")
+    const totalAssetsVals  = instants("total_assets", masterDates)
+    const totalDebtVals    = instants("total_debt", masterDates)
+    const cashVals         = instants("cash", masterDates)
+    const equityVals       = instants("total_equity", masterDates)
+    const goodwillVals     = instants("goodwill", masterDates)
+    const intangiblesVals  = instants("intangibles", masterDates)
+    const sharesInstVals   = instants("shares_outstanding", masterDates, "shares")
+    const depositsVals     = instants("deposits", masterDates)
+    const cet1Vals         = instants("cet1_ratio", masterDates, "pure")
+    const invPropVals      = instants("investment_property", masterDates)
+    const arVals           = instants("receivables", masterDates)
+    const invVals          = instants("inventory", masterDates)
+    const apVals           = instants("payables", masterDates)
+    const ppeVals          = instants("ppe", masterDates)
+    const optionsVals      = instants("options_outstanding", masterDates, "shares")
+    const strikeVals       = instants("options_strike", masterDates, perShare)
+    const rsuVals          = instants("rsus_outstanding", masterDates, "shares")
+    const leaseVals        = instants("operating_leases", masterDates)
+    const minorityVals     = instants("minority_interest", masterDates)
+    const prefVals         = instants("preferred_stock", masterDates)
+    const pensionVals      = instants("pension_deficit", masterDates)
+    const eqInvVals        = instants("equity_investments", masterDates)
+    const dueVals          = DEBT_LADDER.map((f) => instants(f, masterDates))
+    const revCapVals       = instants("revolver_capacity", masterDates)
+    const revDrawnVals     = instants("revolver_drawn", masterDates)
 
     // Compute BVPS per year (equity / shares)
     const bvpsVals = equityVals.map((eq, i) => {
@@ -349,66 +700,164 @@ export async function fetchXbrlFundamentals(cik: string): Promise<XbrlFundamenta
     // Current period = last in array
     const last = <T>(arr: T[]) => arr[arr.length - 1] ?? 0
 
-    const revenue_curr      = last(revVals)     / M
-    const ebit_curr         = last(ebitVals)    / M
-    const ni_curr           = last(niVals)      / M
-    const int_curr          = last(intVals)     / M
-    const tax_curr          = last(taxVals)     / M
-    const da_curr           = last(daVals)      / M
-    const eps_curr          = last(epsDilVals)  // already per-share
-    const dps_curr          = last(dpsVals)     // already per-share
-    const gp_curr           = last(gpVals)      / M
-    const totalAssets_curr  = last(totalAssetsVals)  / M
-    const totalDebt_curr    = last(totalDebtVals)    / M
-    const cash_curr         = last(cashVals)         / M
-    const equity_curr       = last(equityVals)       / M
-    const goodwill_curr     = last(goodwillVals)     / M
-    const intangibles_curr  = last(intangiblesVals)  / M
-    const sharesDil_curr    = last(sdDilVals)        / M  // convert to millions
-    const sharesBasic_curr  = last(sbVals)           / M
-    const bvps_curr         = last(bvpsVals)         // per-share (USD)
-    const ocf_curr          = last(ocfVals)          / M
-    const capex_curr        = last(capexVals)        / M
-    const netBorrow_curr    = last(netBorrowVals)    / M
-
-    const ebitda_curr = ebit_curr + da_curr
-    const net_debt_curr = totalDebt_curr - cash_curr
-
-    // Tax rate (clamp 0–50%)
-    const pretaxApprox = ebit_curr - int_curr
-    const tax_rate_curr = pretaxApprox > 0 ? Math.min(0.5, Math.max(0, tax_curr / pretaxApprox)) : 0.21
-
-    const payout_curr = eps_curr > 0 && dps_curr > 0 ? Math.min(1, dps_curr / eps_curr) : 0
+    const current = toPeriodFigures({
+      revenue:          last(revVals),
+      ebit:             last(ebitVals),
+      net_income:       last(niVals),
+      interest_expense: last(intVals),
+      tax_expense:      last(taxVals),
+      da_total:         last(daVals),
+      eps_diluted:      last(epsDilVals),
+      dps:              last(dpsVals),
+      gross_profit:     last(gpVals),
+      total_assets:     last(totalAssetsVals),
+      total_debt:       last(totalDebtVals),
+      cash:             last(cashVals),
+      total_equity:     last(equityVals),
+      goodwill:         last(goodwillVals),
+      intangibles:      last(intangiblesVals),
+      shares_diluted:   last(sdDilVals),
+      shares_basic:     last(sbVals),
+      bvps:             last(bvpsVals),
+      ocf:              last(ocfVals),
+      capex:            last(capexVals),
+      net_borrowing:    last(netBorrowVals),
+      net_interest_income:   last(niiVals),
+      credit_loss_provision: last(provVals),
+      deposits:              last(depositsVals),
+      cet1_ratio:            last(cet1Vals),
+      re_depreciation:        last(reDepVals),
+      gain_on_property_sales: last(propGainVals),
+      rental_revenue:         last(rentVals),
+      property_opex:          last(propOpexVals),
+      investment_property:    last(invPropVals),
+      receivables:            last(arVals),
+      inventory:              last(invVals),
+      payables:               last(apVals),
+      ppe:                    last(ppeVals),
+      sbc:                    last(sbcVals),
+      options_outstanding:    last(optionsVals),
+      options_strike:         last(strikeVals),
+      rsus_outstanding:       last(rsuVals),
+      operating_leases:       last(leaseVals),
+      minority_interest:      last(minorityVals),
+      preferred_stock:        last(prefVals),
+      pension_deficit:        last(pensionVals),
+      equity_investments:     last(eqInvVals),
+      ...ladderAt(dueVals.map(last)),
+      revolver_capacity:      last(revCapVals),
+      revolver_drawn:         last(revDrawnVals),
+    })
 
     // Determine filedDate and fiscalYearEnd from last entry
     const lastEntry = revenueArr[revenueArr.length - 1]
 
+    // ── Quarterly (10-Q + Q4 backed out of the 10-K) ─────────────────────────
+
+    const revenueQ = quarterly("revenue")
+    const qDates   = revenueQ.map((v) => v.end)
+    const alignToQuarters = (arr: XbrlUnit[]) => alignTo(qDates, arr, 20)
+
+    const qRev      = revenueQ.map((v) => v.val)
+    const qEbit     = alignToQuarters(quarterly("ebit"))
+    const qNi       = alignToQuarters(quarterly("net_income"))
+    const qInt      = alignToQuarters(quarterly("interest_expense"))
+    const qTax      = alignToQuarters(quarterly("tax_expense"))
+    const qDa       = alignToQuarters(quarterly("da"))
+    const qEps      = alignToQuarters(quarterly("eps_diluted", perShare))
+    const qDps      = alignToQuarters(quarterly("dps", perShare))
+    const qGp       = alignToQuarters(quarterly("gross_profit"))
+    const qOcf      = alignToQuarters(quarterly("ocf"))
+    const qCapex    = alignToQuarters(quarterly("capex")).map(Math.abs)
+    const qIssued   = alignToQuarters(quarterly("debt_issued"))
+    const qRepaid   = alignToQuarters(quarterly("debt_repaid")).map(Math.abs)
+    const qSdDil    = alignToQuarters(quarterly("shares_diluted", "shares", false))
+    const qSb       = alignToQuarters(quarterly("shares_basic", "shares", false))
+    const qNii      = alignToQuarters(quarterly("net_interest_income"))
+    const qProv     = alignToQuarters(quarterly("credit_loss_provision"))
+    const qReDep    = alignToQuarters(quarterly("re_depreciation"))
+    const qPropGain = alignToQuarters(quarterly("gain_on_property_sales"))
+    const qRent     = alignToQuarters(quarterly("rental_revenue"))
+    const qPropOpex = alignToQuarters(quarterly("property_opex"))
+    const qSbc      = alignToQuarters(quarterly("sbc"))
+
+    const NQ = Math.min(qDates.length, 8)
+    const sliceQ = <T>(arr: T[]) => arr.slice(-NQ)
+
+    // ── Trailing twelve months ───────────────────────────────────────────────
+
+    let ttm: XbrlTtm | null = null
+    const ttmWindow = lastFourQuarters(revenueQ)
+    if (ttmWindow && ttmWindow[3].end > (lastEntry?.end ?? "")) {
+      const ttmEnd = ttmWindow[3].end
+      const sum4 = (arr: number[]) => arr.slice(-4).reduce((acc, v) => acc + v, 0)
+      const instant = (field: ConceptField, unit = cur) =>
+        instants(field, [ttmEnd], unit, true)[0]
+
+      const equityTtm   = instant("total_equity")
+      const sharesDilQ  = last(qSdDil) || instant("shares_outstanding", "shares")
+      const epsTtm      = sum4(qEps)
+
+      ttm = {
+        ...toPeriodFigures({
+          revenue:          sum4(qRev),
+          ebit:             sum4(qEbit),
+          net_income:       sum4(qNi),
+          interest_expense: sum4(qInt),
+          tax_expense:      sum4(qTax),
+          da_total:         sum4(qDa),
+          // Fall back to TTM net income over latest diluted shares when a quarter's EPS is missing
+          eps_diluted:      qEps.slice(-4).every((v) => v !== 0) || sharesDilQ <= 0
+            ? epsTtm
+            : sum4(qNi) / sharesDilQ,
+          dps:              sum4(qDps),
+          gross_profit:     sum4(qGp),
+          total_assets:     instant("total_assets"),
+          total_debt:       instant("total_debt"),
+          cash:             instant("cash"),
+          total_equity:     equityTtm,
+          goodwill:         instant("goodwill"),
+          intangibles:      instant("intangibles"),
+          shares_diluted:   sharesDilQ,
+          shares_basic:     last(qSb) || sharesDilQ,
+          bvps:             sharesDilQ > 0 ? equityTtm / sharesDilQ : 0,
+          ocf:              sum4(qOcf),
+          capex:            sum4(qCapex),
+          net_borrowing:    sum4(qIssued) - sum4(qRepaid),
+          net_interest_income:   sum4(qNii),
+          credit_loss_provision: sum4(qProv),
+          deposits:              instant("deposits"),
+          cet1_ratio:            instant("cet1_ratio", "pure"),
+          re_depreciation:        sum4(qReDep),
+          gain_on_property_sales: sum4(qPropGain),
+          rental_revenue:         sum4(qRent),
+          property_opex:          sum4(qPropOpex),
+          investment_property:    instant("investment_property"),
+          receivables:            instant("receivables"),
+          inventory:              instant("inventory"),
+          payables:               instant("payables"),
+          ppe:                    instant("ppe"),
+          sbc:                    sum4(qSbc),
+          options_outstanding:    instant("options_outstanding", "shares"),
+          options_strike:         instant("options_strike", perShare),
+          rsus_outstanding:       instant("rsus_outstanding", "shares"),
+          operating_leases:       instant("operating_leases"),
+          minority_interest:      instant("minority_interest"),
+          preferred_stock:        instant("preferred_stock"),
+          pension_deficit:        instant("pension_deficit"),
+          equity_investments:     instant("equity_investments"),
+          ...ladderAt(DEBT_LADDER.map((f) => instant(f))),
+          revolver_capacity:      instant("revolver_capacity"),
+          revolver_drawn:         instant("revolver_drawn"),
+        }),
+        periodEnd: ttmEnd,
+        filedDate: ttmWindow[3].filed ?? "",
+        sources:   sourcesAt(ttmFacts, ttmEnd, 20),
+      }
+    }
+
     return {
-      revenue:          revenue_curr,
-      ebit:             ebit_curr,
-      net_income:       ni_curr,
-      interest_expense: int_curr,
-      tax_expense:      tax_curr,
-      da_total:         da_curr,
-      eps_diluted:      eps_curr,
-      dps:              dps_curr,
-      gross_profit:     gp_curr,
-      total_assets:     totalAssets_curr,
-      total_debt:       totalDebt_curr,
-      cash:             cash_curr,
-      total_equity:     equity_curr,
-      goodwill:         goodwill_curr,
-      intangibles:      intangibles_curr,
-      shares_diluted:   sharesDil_curr,
-      shares_basic:     sharesBasic_curr,
-      bvps:             bvps_curr,
-      ocf:              ocf_curr,
-      capex:            capex_curr,
-      net_borrowing:    netBorrow_curr,
-      ebitda:           ebitda_curr,
-      net_debt:         net_debt_curr,
-      tax_rate:         tax_rate_curr,
-      payout_ratio:     payout_curr,
+      ...current,
 
       hist: {
         year:        years,
@@ -423,9 +872,26 @@ export async function fetchXbrlFundamentals(cik: string): Promise<XbrlFundamenta
         da:          slice(daVals).map((v) => v / M),
       },
 
+      quarterly: {
+        end:         sliceQ(qDates),
+        revenue:     sliceQ(qRev).map((v) => v / M),
+        ebit:        sliceQ(qEbit).map((v) => v / M),
+        net_income:  sliceQ(qNi).map((v) => v / M),
+        eps_diluted: sliceQ(qEps),
+        ocf:         sliceQ(qOcf).map((v) => v / M),
+        capex:       sliceQ(qCapex).map((v) => v / M),
+        da:          sliceQ(qDa).map((v) => v / M),
+      },
+
+      ttm,
+
       cik: String(data.cik).padStart(10, "0"),
       filedDate:     lastEntry?.filed ?? "",
       fiscalYearEnd: lastEntry?.end   ?? "",
+      taxonomy,
+      reportingCurrency: cur,
+      unitKeys,
+      sources: sourcesAt(fyFacts, lastEntry.end, 35),
     }
   } catch (err) {
     console.error("[edgarXbrl] fetchXbrlFundamentals error:", err)
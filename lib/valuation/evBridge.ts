@@ -0,0 +1,52 @@
+/**
+ * Enterprise value → equity value bridge shared by every EV-based model
+ * (FCFF DCF, EV/EBITDA, EV/Revenue, SOTP, NAV). Beyond debt and cash it
+ * deducts operating lease liabilities, minority interests, preferred stock and
+ * pension deficits, and adds back equity investments, when the filer reports
+ * them. Each optional item can be switched on or off via `Assumptions.ev_bridge`.
+ *
+ * Operating leases are only deducted by default for IFRS 16 filers, whose
+ * EBITDA and FCFF exclude lease cost. Under US GAAP (ASC 842) operating lease
+ * cost stays in opex, so cash flows are already after rent and deducting the
+ * liability too would count it twice. Pure and client-safe.
+ */
+
+import type { Assumptions, Baseline, EVBridge, EVBridgeItem, EVBridgeLine } from "@/types/valuation"
+
+/** Optional items in bridge order; `sign` is the effect on equity value. */
+const BRIDGE_ITEMS: { key: EVBridgeItem; label: string; sign: 1 | -1 }[] = [
+  { key: "operating_leases",   label: "Operating leases",   sign: -1 },
+  { key: "minority_interest",  label: "Minority interest",  sign: -1 },
+  { key: "preferred_stock",    label: "Preferred stock",    sign: -1 },
+  { key: "pension_deficit",    label: "Pension deficit",    sign: -1 },
+  { key: "equity_investments", label: "Equity investments", sign: 1 },
+]
+
+export const EV_BRIDGE_LABELS: Record<EVBridgeItem, string> = Object.fromEntries(
+  BRIDGE_ITEMS.map((i) => [i.key, i.label]),
+) as Record<EVBridgeItem, string>
+
+/** Whether an item counts when `Assumptions.ev_bridge` doesn't say. */
+function includedByDefault(key: EVBridgeItem, B: Baseline): boolean {
+  return key !== "operating_leases" || B.reporting_standard === "ifrs"
+}
+
+/** Bridge lines for the items the baseline reports; unreported items are omitted. */
+export function evBridge(B: Baseline, a: Assumptions): EVBridge {
+  const lines: EVBridgeLine[] = [
+    { key: "total_debt", label: "Total debt", amount: -B.total_debt, included: true },
+    { key: "cash",       label: "Cash",       amount: B.total_debt - B.net_debt, included: true },
+  ]
+  for (const item of BRIDGE_ITEMS) {
+    const value = B[item.key] ?? 0
+    if (value <= 0) continue
+    lines.push({ key: item.key, label: item.label, amount: item.sign * value, included: a.ev_bridge?.[item.key] ?? includedByDefault(item.key, B) })
+  }
+  const net_claims = -lines.reduce((s, l) => s + (l.included ? l.amount : 0), 0)
+  return { lines, net_claims }
+}
+
+/** Equity value of an enterprise value through the bridge. */
+export function equityFromEV(ev: number, bridge: EVBridge): number {
+  return ev - bridge.net_claims
+}
@@ -0,0 +1,250 @@
+/**
+ * Server-only module. Do NOT import in client components.
+ * Converts XBRL fundamentals from the filer's reporting currency into the
+ * currency the security trades in, and from ordinary shares into ADR units, so
+ * per-share values line up with the quoted price (e.g. TSM files in TWD per
+ * ordinary share but trades in USD per ADR of 5 shares).
+ */
+
+import type { XbrlFundamentals, XbrlPeriodFigures, RawPeriod } from "./edgarXbrl"
+import { deriveFigures } from "./edgarXbrl"
+import type { ConceptField } from "./xbrlConcepts"
+
+// ── Rate sources ──────────────────────────────────────────────────────────────
+
+/** Pluggable FX rate lookup. Returns units of `to` per one unit of `from`, or null. */
+export interface FxRateSource {
+  name: string
+  getRate(from: string, to: string): Promise<number | null>
+}
+
+/**
+ * USD value of one unit of each currency. Approximate reference rates — a
+ * stand-in until a live FX feed is wired up as an FxRateSource.
+ */
+const USD_PER_UNIT: Record<string, number> = {
+  USD: 1,
+  EUR: 1.08,
+  GBP: 1.27,
+  GBp: 0.0127,   // LSE quotes in pence
+  CHF: 1.13,
+  DKK: 0.145,
+  SEK: 0.095,
+  NOK: 0.093,
+  JPY: 0.0067,
+  CNY: 0.138,
+  HKD: 0.128,
+  TWD: 0.031,
+  KRW: 0.00073,
+  INR: 0.012,
+  SGD: 0.74,
+  AUD: 0.66,
+  CAD: 0.73,
+  BRL: 0.18,
+  MXN: 0.055,
+  ZAR: 0.054,
+  ILS: 0.27,
+}
+
+/** Cross rates through USD from the static table above. */
+export const staticRateSource: FxRateSource = {
+  name: "static rate table",
+  async getRate(from, to) {
+    if (from === to) return 1
+    const f = USD_PER_UNIT[from]
+    const t = USD_PER_UNIT[to]
+    return f && t ? f / t : null
+  },
+}
+
+// ── ADR ratios ────────────────────────────────────────────────────────────────
+
+/** Ordinary shares represented by one ADR. Tickers not listed trade 1:1. */
+export const ADR_RATIOS: Record<string, number> = {
+  TSM:  5,
+  BABA: 8,
+  JD:   2,
+  PDD:  4,
+  BIDU: 8,
+  NTES: 5,
+  HDB:  3,
+  IBN:  2,
+  INFY: 1,
+  TM:   10,
+  SONY: 1,
+  BP:   6,
+  SHEL: 2,
+  AZN:  0.5,
+  GSK:  2,
+  HSBC: 5,
+  BHP:  2,
+  RIO:  1,
+  DEO:  4,
+  UL:   1,
+  NVO:  1,
+  NVS:  1,
+  SAP:  1,
+  ASML: 1,
+}
+
+export function adrRatio(ticker: string): number {
+  return ADR_RATIOS[ticker.toUpperCase()] ?? 1
+}
+
+// ── Conversion ────────────────────────────────────────────────────────────────
+
+export interface FxConversion {
+  from: string                    // reporting currency
+  to: string                      // trading currency
+  rates: Record<string, number>   // units of `to` per unit of each source currency
+  missing: string[]               // source currencies with no rate (left unconverted)
+  adrRatio: number                // ordinary shares per traded share
+  source: string                  // FxRateSource name
+}
+
+/** Currency part of an XBRL unit key: "EUR" → "EUR", "EUR/shares" → "EUR". */
+function currencyOf(unitKey: string): string {
+  return unitKey.split("/")[0]
+}
+
+/** Monetary and per-share figures, keyed to the concept whose unit they were read in. */
+const MONETARY_FIELDS: Partial<Record<keyof RawPeriod, ConceptField>> = {
+  revenue:          "revenue",
+  ebit:             "ebit",
+  net_income:       "net_income",
+  interest_expense: "interest_expense",
+  tax_expense:      "tax_expense",
+  da_total:         "da",
+  gross_profit:     "gross_profit",
+  total_assets:     "total_assets",
+  total_debt:       "total_debt",
+  cash:             "cash",
+  total_equity:     "total_equity",
+  goodwill:         "goodwill",
+  intangibles:      "intangibles",
+  ocf:              "ocf",
+  capex:            "capex",
+  net_borrowing:    "debt_issued",
+  net_interest_income:   "net_interest_income",
+  credit_loss_provision: "credit_loss_provision",
+  deposits:              "deposits",
+  re_depreciation:        "re_depreciation",
+  gain_on_property_sales: "gain_on_property_sales",
+  rental_revenue:         "rental_revenue",
+  property_opex:          "property_opex",
+  investment_property:    "investment_property",
+  receivables:            "receivables",
+  inventory:              "inventory",
+  payables:               "payables",
+  ppe:                    "ppe",
+  sbc:                    "sbc",
+  operating_leases:       "operating_leases",
+  minority_interest:      "minority_interest",
+  preferred_stock:        "preferred_stock",
+  pension_deficit:        "pension_deficit",
+  equity_investments:     "equity_investments",
+  debt_due_1:             "debt_due_1",
+  debt_due_2:             "debt_due_2",
+  debt_due_3:             "debt_due_3",
+  debt_due_4:             "debt_due_4",
+  debt_due_5:             "debt_due_5",
+  debt_due_later:         "debt_due_later",
+  revolver_capacity:      "revolver_capacity",
+  revolver_drawn:         "revolver_drawn",
+}
+
+const PER_SHARE_FIELDS: Partial<Record<keyof RawPeriod, ConceptField>> = {
+  eps_diluted: "eps_diluted",
+  dps:         "dps",
+  bvps:        "total_equity",   // equity / shares, so it carries the equity currency
+  options_strike: "options_strike",
+}
+
+/**
+ * Look up a rate for every currency the fundamentals were read in. Rates the
+ * source cannot supply are reported in `missing` and treated as 1.
+ */
+export async function resolveConversion(
+  x: Pick<XbrlFundamentals, "reportingCurrency" | "unitKeys">,
+  to: string,
+  ticker: string,
+  source: FxRateSource = staticRateSource,
+): Promise<FxConversion> {
+  const currencies = new Set([
+    x.reportingCurrency,
+    ...Object.values(x.unitKeys)
+      .filter((k): k is string => !!k && k !== "shares" && k !== "pure")
+      .map(currencyOf),
+  ])
+  const rates: Record<string, number> = {}
+  const missing: string[] = []
+  for (const cur of currencies) {
+    const rate = await source.getRate(cur, to).catch(() => null)
+    if (rate && isFinite(rate) && rate > 0) rates[cur] = rate
+    else missing.push(cur)
+  }
+  return { from: x.reportingCurrency, to, rates, missing, adrRatio: adrRatio(ticker), source: source.name }
+}
+
+/** True when the conversion changes nothing (same currency, 1:1 shares). */
+export function isIdentityConversion(conv: FxConversion): boolean {
+  return conv.adrRatio === 1 && Object.values(conv.rates).every((r) => r === 1)
+}
+
+/**
+ * Restate fundamentals in the trading currency and per traded share. Monetary
+ * figures are multiplied by the rate for the unit they were read in; per-share
+ * figures additionally by the ADR ratio; share counts are divided by it.
+ * Derived fields (EBITDA, net debt, tax rate, payout) are recomputed.
+ */
+export function convertFundamentals(x: XbrlFundamentals, conv: FxConversion): XbrlFundamentals {
+  const rateFor = (field: ConceptField) =>
+    conv.rates[currencyOf(x.unitKeys[field] ?? x.reportingCurrency)] ?? 1
+  const money    = (field: ConceptField) => (v: number) => v * rateFor(field)
+  const perShare = (field: ConceptField) => (v: number) => v * rateFor(field) * conv.adrRatio
+  const shares   = (v: number) => v / conv.adrRatio
+
+  const convertPeriod = (p: XbrlPeriodFigures): XbrlPeriodFigures => {
+    const out: RawPeriod = { ...p }
+    for (const [k, field] of Object.entries(MONETARY_FIELDS) as [keyof RawPeriod, ConceptField][]) {
+      out[k] = money(field)(p[k])
+    }
+    for (const [k, field] of Object.entries(PER_SHARE_FIELDS) as [keyof RawPeriod, ConceptField][]) {
+      out[k] = perShare(field)(p[k])
+    }
+    out.shares_diluted = shares(p.shares_diluted)
+    out.shares_basic   = shares(p.shares_basic)
+    out.options_outstanding = shares(p.options_outstanding)
+    out.rsus_outstanding    = shares(p.rsus_outstanding)
+    return deriveFigures(out)
+  }
+
+  const { hist, quarterly, ttm } = x
+  return {
+    ...x,
+    ...convertPeriod(x),
+    hist: {
+      year:        hist.year,
+      revenue:     hist.revenue.map(money("revenue")),
+      ebit:        hist.ebit.map(money("ebit")),
+      net_income:  hist.net_income.map(money("net_income")),
+      eps_diluted: hist.eps_diluted.map(perShare("eps_diluted")),
+      dps:         hist.dps.map(perShare("dps")),
+      ocf:         hist.ocf.map(money("ocf")),
+      capex:       hist.capex.map(money("capex")),
+      bvps:        hist.bvps.map(perShare("total_equity")),
+      da:          hist.da.map(money("da")),
+    },
+    quarterly: {
+      end:         quarterly.end,
+      revenue:     quarterly.revenue.map(money("revenue")),
+      ebit:        quarterly.ebit.map(money("ebit")),
+      net_income:  quarterly.net_income.map(money("net_income")),
+      eps_diluted: quarterly.eps_diluted.map(perShare("eps_diluted")),
+      ocf:         quarterly.ocf.map(money("ocf")),
+      capex:       quarterly.capex.map(money("capex")),
+      da:          quarterly.da.map(money("da")),
+    },
+    ttm: ttm ? { ...ttm, ...convertPeriod(ttm) } : null,
+  }
+}
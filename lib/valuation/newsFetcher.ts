@@ -4,10 +4,8 @@
  * Keyword-based auto-categorization and sentiment — for context only.
  */
 
-import YahooFinance from "yahoo-finance2"
 import type { NewsArticle } from "@/types/valuation"
-
-const yahooFinance = new YahooFinance()
+import { getProviders, type MarketDataProvider } from "./providers"
 
 // ── Keyword dictionaries (ported from data_pipeline.py) ───────────────────────
 
@@ -66,13 +64,9 @@ function formatDate(d: Date | number | string | undefined): string {
 
 // ── Yahoo Finance news ────────────────────────────────────────────────────────
 
-async function fetchYahooNews(ticker: string): Promise<NewsArticle[]> {
+async function fetchYahooNews(ticker: string, market: MarketDataProvider): Promise<NewsArticle[]> {
   try {
-    const result = await yahooFinance.search(ticker, {
-      newsCount: 15,
-      quotesCount: 0,
-    })
-    const news = result.news ?? []
+    const news = await market.headlines(ticker, 15)
     return news.map((item) => {
       const text = item.title ?? ""
       return {
@@ -117,16 +111,10 @@ function parseRssItems(xml: string): Array<{ title: string; link: string; descri
   return items
 }
 
-async function fetchGoogleNews(query: string): Promise<NewsArticle[]> {
+async function fetchGoogleNews(query: string, market: MarketDataProvider): Promise<NewsArticle[]> {
   try {
-    const encoded = encodeURIComponent(`${query} stock`)
-    const url = `https://news.google.com/rss/search?q=${encoded}&hl=en-US&gl=US&ceid=US:en`
-    const res = await fetch(url, {
-      headers: { "User-Agent": "MSF-AI-Finance/1.0" },
-      next: { revalidate: 1800 },
-    } as RequestInit)
-    if (!res.ok) return []
-    const xml = await res.text()
+    const xml = await market.newsRss(`${query} stock`)
+    if (xml === null) return []
     const items = parseRssItems(xml)
 
     return items.slice(0, 15).map((item) => {
@@ -151,14 +139,18 @@ async function fetchGoogleNews(query: string): Promise<NewsArticle[]> {
 
 // ── Main export ───────────────────────────────────────────────────────────────
 
-export async function fetchNews(ticker: string, companyName = ""): Promise<NewsArticle[]> {
-  const yahoo = await fetchYahooNews(ticker)
+export async function fetchNews(
+  ticker: string,
+  companyName = "",
+  market: MarketDataProvider = getProviders(ticker).market,
+): Promise<NewsArticle[]> {
+  const yahoo = await fetchYahooNews(ticker, market)
 
   // Use Google News as fallback/supplement if Yahoo returns < 5 articles
   const articles: NewsArticle[] = [...yahoo]
   if (articles.length < 5) {
     const query = companyName || ticker
-    const google = await fetchGoogleNews(query)
+    const google = await fetchGoogleNews(query, market)
     // Deduplicate by title
     const existingTitles = new Set(articles.map((a) => a.title))
     for (const a of google) {
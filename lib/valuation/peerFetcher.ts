@@ -1,13 +1,14 @@
 /**
  * Server-only module. Do NOT import in client components.
  * Fetches live sector peer comparable multiples from Yahoo Finance.
- * Peers are selected by GICS sector (from assetProfile.sector).
+ * Peers are selected by GICS sector (from assetProfile.sector). Financial peers
+ * also get tangible book from their SEC XBRL balance sheet.
  */
 
-import YahooFinance from "yahoo-finance2"
-import type { Comp } from "@/types/valuation"
-
-const yahooFinance = new YahooFinance({ suppressNotices: ["yahooSurvey"] })
+import type { Comp, ModelSet } from "@/types/valuation"
+import { getProviders, type FundamentalsProvider, type MarketDataProvider } from "./providers"
+import { selectModelSet } from "./calculations"
+import { fetchXbrlFundamentals, lookupCIK } from "./edgarXbrl"
 
 function n(v: unknown, fallback = 0): number {
   const x = Number(v)
@@ -47,17 +48,44 @@ type KsMod = {
   priceToBook?: number
   forwardPE?: number
   sharesOutstanding?: number
+  beta?: number
+}
+type SdMod = { trailingPE?: number; forwardPE?: number; beta?: number }
+type FdMod = { operatingCashflow?: number; totalDebt?: number }
+type PrMod = { regularMarketPrice?: number; currency?: string }
+
+// ── Peer tangible book (financials) ───────────────────────────────────────────
+/**
+ * P/TBV and ROTE from the peer's latest 10-K: tangible equity = equity − goodwill
+ * − intangibles, as for the subject. Null when the peer has no usable filing,
+ * tangible equity is not positive, or the filing is not in the quote currency.
+ */
+async function fetchTangibleMultiples(
+  peerTicker: string,
+  price: number,
+  currency: string | undefined,
+  fundamentals: FundamentalsProvider,
+): Promise<{ ptbv: number; rote: number } | null> {
+  const cik = await lookupCIK(peerTicker, fundamentals)
+  const x = cik ? await fetchXbrlFundamentals(cik, fundamentals) : null
+  if (!x || !currency || x.reportingCurrency !== currency.toUpperCase()) return null
+
+  const tangibleEq = x.total_equity - x.goodwill - x.intangibles
+  if (tangibleEq <= 0 || x.shares_diluted <= 0 || x.net_income <= 0) return null
+  return { ptbv: price / (tangibleEq / x.shares_diluted), rote: x.net_income / tangibleEq }
 }
-type SdMod = { trailingPE?: number; forwardPE?: number }
-type FdMod = { operatingCashflow?: number }
-type PrMod = { regularMarketPrice?: number }
 
 // ── Fetch one peer's multiples ─────────────────────────────────────────────────
-async function fetchOneComp(peerTicker: string): Promise<Comp | null> {
+async function fetchOneComp(
+  peerTicker: string,
+  market: MarketDataProvider,
+  fundamentals: FundamentalsProvider,
+  set: ModelSet = "standard",
+): Promise<Comp | null> {
   try {
-    const data = await yahooFinance.quoteSummary(peerTicker, {
-      modules: ["defaultKeyStatistics", "summaryDetail", "financialData", "price"],
-    })
+    const data = await market.quoteSummary(peerTicker, [
+      "defaultKeyStatistics", "summaryDetail", "financialData", "price",
+    ])
 
     const ks = (data.defaultKeyStatistics ?? {}) as KsMod
     const sd = (data.summaryDetail       ?? {}) as SdMod
@@ -79,6 +107,23 @@ async function fetchOneComp(peerTicker: string): Promise<Comp | null> {
       pb:        n(ks.priceToBook, 4),
       pcf:       cfps > 0 && price > 0 ? price / cfps : 15,
     }
+    // Yahoo has no tangible book: financial peers read it from XBRL for the
+    // P/TBV vs ROTE regression. A failed lookup only drops the peer from the fit.
+    if (set === "financial" && price > 0) {
+      const tangible = await fetchTangibleMultiples(peerTicker, price, pr.currency, fundamentals).catch(() => null)
+      if (tangible) Object.assign(comp, tangible)
+    }
+    // Yahoo has no FFO either: for REITs P/OCF (operating cash flow ≈ FFO before
+    // working capital) stands in and is marked as a proxy. P/AFFO has no proxy
+    // and is left to the sector default.
+    if (set === "reit" && cfps > 0 && price > 0) {
+      comp.pffo = price / cfps
+      comp.pffo_basis = "ocf"
+    }
+    // Levered beta and market D/E for the bottom-up (unlevered peer) beta
+    const beta = n(ks.beta ?? sd.beta)
+    if (beta > 0) comp.beta = beta
+    if (beta > 0 && price > 0 && shares > 0) comp.de_ratio = Math.max(0, Number(fd.totalDebt) || 0) / (price * shares)
 
     // Reject if core multiples are implausible
     if (comp.ev_ebitda <= 0 || comp.pe <= 0) return null
@@ -97,10 +142,14 @@ async function fetchOneComp(peerTicker: string): Promise<Comp | null> {
  *
  * @param ticker  - The ticker being analyzed (excluded from peer list)
  * @param sector  - Yahoo Finance assetProfile.sector (e.g. "Technology")
+ * @param market  - Market data provider (defaults to the env-selected provider)
+ * @param fundamentals - Filings provider for financial peers' tangible book
  */
 export async function fetchPeerComps(
   ticker: string,
   sector: string,
+  market: MarketDataProvider = getProviders(ticker).market,
+  fundamentals: FundamentalsProvider = getProviders(ticker).fundamentals,
 ): Promise<Record<string, Comp>> {
   const T = ticker.toUpperCase()
 
@@ -109,7 +158,8 @@ export async function fetchPeerComps(
 
   if (peers.length === 0) return HARDCODED_FALLBACK
 
-  const results = await Promise.allSettled(peers.map((p) => fetchOneComp(p)))
+  const set = selectModelSet(sector)
+  const results = await Promise.allSettled(peers.map((p) => fetchOneComp(p, market, fundamentals, set)))
 
   const comps: Record<string, Comp> = {}
   results.forEach((result, i) => {
@@ -23,6 +23,9 @@ export const SCENARIO_PRESETS: Record<PresetKey, PresetValues> = {
     cost_of_debt: 0.045,
     hl: 2.5,
     nwc_pct_rev: 0.03,
+    min_cash_pct_rev: 0.02,
+    cash_sweep_pct: 0,
+    cap_rate: 0.055,
   },
   Bull: {
     yr1_g: 0.045,
@@ -43,6 +46,9 @@ export const SCENARIO_PRESETS: Record<PresetKey, PresetValues> = {
     cost_of_debt: 0.040,
     hl: 2.5,
     nwc_pct_rev: 0.03,
+    min_cash_pct_rev: 0.02,
+    cash_sweep_pct: 0,
+    cap_rate: 0.050,
   },
   Bear: {
     yr1_g: 0.005,
@@ -63,6 +69,9 @@ export const SCENARIO_PRESETS: Record<PresetKey, PresetValues> = {
     cost_of_debt: 0.050,
     hl: 2.5,
     nwc_pct_rev: 0.03,
+    min_cash_pct_rev: 0.02,
+    cash_sweep_pct: 0,
+    cap_rate: 0.065,
   },
 }
 
@@ -89,4 +98,15 @@ export const CHART_COLORS: Record<string, string> = {
   "P/B":             "#CA8A04",
   "P/CF":            "#BE185D",
   SOTP:              "#BE185D",
+  "Excess Return":   "#4F46E5",
+  "P/TBV vs ROTE":   "#A16207",
+  "P/FFO":           "#0F766E",
+  "P/AFFO":          "#15803D",
+  "NAV (Cap Rate)":  "#9F1239",
 }
+
+/**
+ * Sector-typical REIT multiples, used when no peer reports FFO/AFFO
+ * (Yahoo Finance has no FFO field).
+ */
+export const REIT_DEFAULT_MULTIPLES = { pffo: 16.0, paffo: 19.0 }
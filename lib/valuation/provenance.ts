@@ -0,0 +1,52 @@
+/**
+ * Constructors for per-field data provenance (see Provenance in types/valuation).
+ * Pure and client-safe: the fetcher builds the map, the UI only reads it.
+ */
+
+import type { Provenance } from "@/types/valuation"
+import type { XbrlFactSource } from "./edgarXbrl"
+
+/** Figure read from an SEC filing. */
+export function fromXbrl(src: XbrlFactSource, note?: string): Provenance {
+  const filed = src.filed ? `, filed ${src.filed}` : ""
+  return {
+    kind:       "xbrl",
+    detail:     `${src.concept} · ${src.form || "filing"} ${src.accession}${filed}${note ? ` · ${note}` : ""}`,
+    concept:    src.concept,
+    accession:  src.accession,
+    filed:      src.filed || undefined,
+    form:       src.form || undefined,
+    period_end: src.end,
+  }
+}
+
+/** Figure read from a Yahoo quoteSummary module field ("module.field"). */
+export function fromYahoo(module: string): Provenance {
+  return { kind: "yahoo", detail: `Yahoo Finance ${module}`, module }
+}
+
+/** Figure computed from other fields, e.g. "EBIT + D&A". */
+export function derived(formula: string): Provenance {
+  return { kind: "derived", detail: formula }
+}
+
+/** Rule-of-thumb fallback, e.g. "3% of revenue (no D&A reported)". */
+export function heuristic(rule: string): Provenance {
+  return { kind: "heuristic", detail: rule }
+}
+
+/** No source had the figure; the value shown is a 0 default. */
+export function missing(what: string): Provenance {
+  return { kind: "missing", detail: `No data for ${what}; defaulted to 0` }
+}
+
+/** The XBRL fact for `field` when one was read, else `fallback`. */
+export function xbrlOr<F extends string>(
+  sources: Partial<Record<F, XbrlFactSource>> | undefined,
+  field: F,
+  fallback: Provenance,
+  note?: string,
+): Provenance {
+  const src = sources?.[field]
+  return src ? fromXbrl(src, note) : fallback
+}
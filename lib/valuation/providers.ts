@@ -0,0 +1,372 @@
+/**
+ * Server-only module. Do NOT import in client components.
+ * Data-source abstraction for the fetchers. `fetchLiveConfig`, `fetchNews`,
+ * `fetchPeerComps`, `fetchXbrlFundamentals` and the beta route read raw payloads through these
+ * providers instead of calling Yahoo / EDGAR directly, so the app can run
+ * offline against recorded JSON.
+ *
+ * Selection (env):
+ *   DATA_PROVIDER=live     (default) Yahoo Finance + SEC EDGAR + Google News
+ *   DATA_PROVIDER=fixture  replay recorded JSON from FIXTURE_DIR
+ *   DATA_PROVIDER=record   live, and write every payload to FIXTURE_DIR
+ *   FIXTURE_DIR            fixture root (default ./fixtures)
+ *   FIXTURE_TICKERS        optional comma list; with DATA_PROVIDER=fixture, other
+ *                          tickers fall through to the live provider
+ *   DATA_CACHE=off         bypass the persistent cache (live/record modes only)
+ *   DATA_CACHE_SWR=1       serve stale cache entries while refreshing in the background
+ */
+
+import { promises as fs } from "fs"
+import path from "path"
+import YahooFinance from "yahoo-finance2"
+import type { XbrlCompanyFacts } from "./edgarXbrl"
+import { cached, getCacheStore, type CacheStore } from "./cache"
+import { getEdgarClient } from "./edgarClient"
+
+// ── Payload types ─────────────────────────────────────────────────────────────
+
+/** quoteSummary result keyed by module name ("price", "summaryDetail", …). */
+export type QuoteSummary = Record<string, unknown>
+
+/** One Yahoo search headline (providerPublishTime is a string once round-tripped through JSON). */
+export interface Headline {
+  title?: string
+  publisher?: string
+  link?: string
+  providerPublishTime?: Date | number | string
+}
+
+/** Price-history bar size. */
+export type PriceInterval = "1d" | "1wk" | "1mo"
+
+/** One adjusted close (splits and dividends folded in), oldest first. */
+export interface PricePoint {
+  date: string    // ISO date
+  close: number
+}
+
+/** SEC company_tickers.json, keyed by row index. */
+export type CompanyTickers = Record<string, { cik_str: number; ticker: string; title: string }>
+
+/** SEC submissions JSON (only the fields the fetchers read). */
+export interface Submissions {
+  name?: string
+  filings?: {
+    recent?: {
+      form?: string[]
+      filingDate?: string[]
+      accessionNumber?: string[]
+      primaryDocument?: string[]
+    }
+  }
+}
+
+// ── Interfaces ────────────────────────────────────────────────────────────────
+
+/** Market data: quotes, statistics and headlines. */
+export interface MarketDataProvider {
+  name: string
+  /** Throws when the ticker cannot be quoted (same contract as yahoo-finance2). */
+  quoteSummary(ticker: string, modules: string[]): Promise<QuoteSummary>
+  headlines(ticker: string, count: number): Promise<Headline[]>
+  /** Raw RSS XML for a free-text news query, or null. */
+  newsRss(query: string): Promise<string | null>
+  /** Adjusted closes from `since` (ISO date) to today; empty when unavailable. */
+  priceHistory(ticker: string, interval: PriceInterval, since: string): Promise<PricePoint[]>
+}
+
+/**
+ * Filings and XBRL facts. Methods resolve null when the data does not exist
+ * (unknown CIK, no XBRL facts) and reject with the reason (EdgarError) when
+ * it could not be retrieved.
+ */
+export interface FundamentalsProvider {
+  name: string
+  companyTickers(): Promise<CompanyTickers | null>
+  submissions(cik: string): Promise<Submissions | null>
+  companyFacts(cik: string): Promise<XbrlCompanyFacts | null>
+}
+
+export interface DataProviders {
+  market: MarketDataProvider
+  fundamentals: FundamentalsProvider
+}
+
+// ── Live: Yahoo Finance + SEC EDGAR ───────────────────────────────────────────
+
+const yahooFinance = new YahooFinance({ suppressNotices: ["yahooSurvey"] })
+
+/** Rate-limited, retrying GET through the shared EDGAR client (see edgarClient.ts). */
+function edgarJson<T>(url: string, revalidate: number): Promise<T | null> {
+  return getEdgarClient().getJson<T>(url, revalidate)
+}
+
+export const liveMarketData: MarketDataProvider = {
+  name: "Yahoo Finance",
+  async quoteSummary(ticker, modules) {
+    const result = await yahooFinance.quoteSummary(ticker, { modules: modules as never[] })
+    return result as unknown as QuoteSummary
+  },
+  async headlines(ticker, count) {
+    try {
+      const result = await yahooFinance.search(ticker, { newsCount: count, quotesCount: 0 })
+      return result.news ?? []
+    } catch {
+      return []
+    }
+  },
+  async newsRss(query) {
+    try {
+      const encoded = encodeURIComponent(query)
+      const url = `https://news.google.com/rss/search?q=${encoded}&hl=en-US&gl=US&ceid=US:en`
+      const res = await fetch(url, {
+        headers: { "User-Agent": "MSF-AI-Finance/1.0" },
+        next: { revalidate: 1800 },
+      } as RequestInit)
+      return res.ok ? await res.text() : null
+    } catch {
+      return null
+    }
+  },
+  async priceHistory(ticker, interval, since) {
+    try {
+      const result = await yahooFinance.chart(ticker, { period1: since, interval })
+      return result.quotes.flatMap((q) => {
+        const close = q.adjclose ?? q.close
+        return close && close > 0 ? [{ date: q.date.toISOString().slice(0, 10), close }] : []
+      })
+    } catch {
+      return []
+    }
+  },
+}
+
+export const liveFundamentals: FundamentalsProvider = {
+  name: "SEC EDGAR",
+  companyTickers: () =>
+    edgarJson<CompanyTickers>("https://www.sec.gov/files/company_tickers.json", 86_400),   // cache 24 h
+  submissions: (cik) =>
+    edgarJson<Submissions>(`https://data.sec.gov/submissions/CIK${cik}.json`, 3_600),     // cache 1 h
+  companyFacts: (cik) =>
+    edgarJson<XbrlCompanyFacts>(`https://data.sec.gov/api/xbrl/companyfacts/CIK${cik.padStart(10, "0")}.json`, 3_600),
+}
+
+// ── Fixtures: recorded JSON on disk ───────────────────────────────────────────
+//
+// <dir>/yahoo/quoteSummary/<TICKER>.json   QuoteSummary (all modules recorded)
+// <dir>/yahoo/headlines/<TICKER>.json      Headline[]
+// <dir>/yahoo/priceHistory/<TICKER>.<interval>.json  PricePoint[]
+// <dir>/news/<query slug>.xml              RSS XML
+// <dir>/edgar/company_tickers.json         CompanyTickers
+// <dir>/edgar/submissions/CIK<cik>.json    Submissions
+// <dir>/edgar/companyfacts/CIK<cik>.json   XbrlCompanyFacts
+
+/** File-system-safe name for a news query. */
+function slug(s: string): string {
+  return s.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "")
+}
+
+const fixturePaths = {
+  quoteSummary:   (ticker: string) => path.join("yahoo", "quoteSummary", `${ticker.toUpperCase()}.json`),
+  headlines:      (ticker: string) => path.join("yahoo", "headlines", `${ticker.toUpperCase()}.json`),
+  priceHistory:   (ticker: string, interval: PriceInterval) =>
+    path.join("yahoo", "priceHistory", `${ticker.toUpperCase()}.${interval}.json`),
+  newsRss:        (query: string)  => path.join("news", `${slug(query)}.xml`),
+  companyTickers: ()               => path.join("edgar", "company_tickers.json"),
+  submissions:    (cik: string)    => path.join("edgar", "submissions", `CIK${cik.padStart(10, "0")}.json`),
+  companyFacts:   (cik: string)    => path.join("edgar", "companyfacts", `CIK${cik.padStart(10, "0")}.json`),
+}
+
+async function readFixture(dir: string, rel: string): Promise<string | null> {
+  try {
+    return await fs.readFile(path.join(dir, rel), "utf8")
+  } catch {
+    return null
+  }
+}
+
+async function readJson<T>(dir: string, rel: string): Promise<T | null> {
+  const text = await readFixture(dir, rel)
+  return text === null ? null : (JSON.parse(text) as T)
+}
+
+async function writeFixture(dir: string, rel: string, body: string): Promise<void> {
+  try {
+    const file = path.join(dir, rel)
+    await fs.mkdir(path.dirname(file), { recursive: true })
+    await fs.writeFile(file, body)
+  } catch (err) {
+    console.error(`[providers] could not record ${rel}:`, err)
+  }
+}
+
+/** Replay recorded payloads from `dir`. Quotes without a fixture throw; everything else resolves empty. */
+export function fixtureProviders(dir: string): DataProviders {
+  return {
+    market: {
+      name: `fixtures (${dir})`,
+      async quoteSummary(ticker, modules) {
+        const all = await readJson<QuoteSummary>(dir, fixturePaths.quoteSummary(ticker))
+        if (!all) throw new Error(`No quoteSummary fixture for ${ticker.toUpperCase()} in ${dir}`)
+        return Object.fromEntries(modules.filter((m) => m in all).map((m) => [m, all[m]]))
+      },
+      async headlines(ticker, count) {
+        return ((await readJson<Headline[]>(dir, fixturePaths.headlines(ticker))) ?? []).slice(0, count)
+      },
+      newsRss: (query) => readFixture(dir, fixturePaths.newsRss(query)),
+      async priceHistory(ticker, interval, since) {
+        const points = (await readJson<PricePoint[]>(dir, fixturePaths.priceHistory(ticker, interval))) ?? []
+        return points.filter((p) => p.date >= since)
+      },
+    },
+    fundamentals: {
+      name: `fixtures (${dir})`,
+      companyTickers: () => readJson<CompanyTickers>(dir, fixturePaths.companyTickers()),
+      submissions:    (cik) => readJson<Submissions>(dir, fixturePaths.submissions(cik)),
+      companyFacts:   (cik) => readJson<XbrlCompanyFacts>(dir, fixturePaths.companyFacts(cik)),
+    },
+  }
+}
+
+/**
+ * Wrap providers so every successful payload is also written under `dir`, in
+ * the layout fixtureProviders reads. quoteSummary merges modules across calls.
+ */
+export function recordingProviders(inner: DataProviders, dir: string): DataProviders {
+  const json = (v: unknown) => JSON.stringify(v, null, 2)
+  const tap = async <T>(rel: string, value: T | null): Promise<T | null> => {
+    if (value !== null) await writeFixture(dir, rel, json(value))
+    return value
+  }
+  return {
+    market: {
+      name: `${inner.market.name} (recording)`,
+      async quoteSummary(ticker, modules) {
+        const result = await inner.market.quoteSummary(ticker, modules)
+        const rel = fixturePaths.quoteSummary(ticker)
+        const prior = (await readJson<QuoteSummary>(dir, rel)) ?? {}
+        await writeFixture(dir, rel, json({ ...prior, ...result }))
+        return result
+      },
+      async headlines(ticker, count) {
+        const items = await inner.market.headlines(ticker, count)
+        if (items.length > 0) await writeFixture(dir, fixturePaths.headlines(ticker), json(items))
+        return items
+      },
+      async newsRss(query) {
+        const xml = await inner.market.newsRss(query)
+        if (xml !== null) await writeFixture(dir, fixturePaths.newsRss(query), xml)
+        return xml
+      },
+      async priceHistory(ticker, interval, since) {
+        const points = await inner.market.priceHistory(ticker, interval, since)
+        if (points.length > 0) await writeFixture(dir, fixturePaths.priceHistory(ticker, interval), json(points))
+        return points
+      },
+    },
+    fundamentals: {
+      name: `${inner.fundamentals.name} (recording)`,
+      companyTickers: async () =>
+        tap(fixturePaths.companyTickers(), await inner.fundamentals.companyTickers()),
+      submissions: async (cik) =>
+        tap(fixturePaths.submissions(cik), await inner.fundamentals.submissions(cik)),
+      companyFacts: async (cik) =>
+        tap(fixturePaths.companyFacts(cik), await inner.fundamentals.companyFacts(cik)),
+    },
+  }
+}
+
+// ── Cache ─────────────────────────────────────────────────────────────────────
+
+/** Periodic reports whose arrival changes companyfacts. */
+const PERIODIC_FORMS = new Set(["10-K", "10-K/A", "10-Q", "10-Q/A", "20-F", "40-F"])
+
+/** Accession number of the most recent periodic report in a submissions payload. */
+// exported for unit testing
+export function latestPeriodicAccession(sub: Submissions | null): string | undefined {
+  const recent = sub?.filings?.recent
+  const idx = (recent?.form ?? []).findIndex((f) => PERIODIC_FORMS.has(f))
+  return idx === -1 ? undefined : recent?.accessionNumber?.[idx]
+}
+
+/**
+ * Read-through cache over `inner` (see cache.ts for TTLs). companyfacts is
+ * versioned by the latest periodic accession number from submissions, so it is
+ * refetched as soon as a new 10-K/10-Q appears and otherwise kept for days.
+ */
+export function cachedProviders(inner: DataProviders, store: CacheStore, swr = false): DataProviders {
+  const opts = { swr }
+  const submissions = (cik: string) =>
+    cached(store, `submissions:${cik}`, "submissions", () => inner.fundamentals.submissions(cik), opts)
+
+  return {
+    market: {
+      name: inner.market.name,
+      async quoteSummary(ticker, modules) {
+        const key = `quoteSummary:${ticker.toUpperCase()}:${[...modules].sort().join(",")}`
+        const q = await cached(store, key, "quoteSummary", () => inner.market.quoteSummary(ticker, modules), opts)
+        return q ?? {}
+      },
+      async headlines(ticker, count) {
+        const key = `headlines:${ticker.toUpperCase()}:${count}`
+        return (await cached(store, key, "headlines", async () => {
+          const items = await inner.market.headlines(ticker, count)
+          return items.length > 0 ? items : null   // don't cache an empty result
+        }, opts)) ?? []
+      },
+      newsRss: (query) =>
+        cached(store, `newsRss:${query}`, "newsRss", () => inner.market.newsRss(query), opts),
+      async priceHistory(ticker, interval, since) {
+        const key = `priceHistory:${ticker.toUpperCase()}:${interval}:${since}`
+        return (await cached(store, key, "priceHistory", async () => {
+          const points = await inner.market.priceHistory(ticker, interval, since)
+          return points.length > 0 ? points : null   // don't cache an empty result
+        }, opts)) ?? []
+      },
+    },
+    fundamentals: {
+      name: inner.fundamentals.name,
+      companyTickers: () =>
+        cached(store, "companyTickers", "companyTickers", () => inner.fundamentals.companyTickers(), opts),
+      submissions,
+      async companyFacts(cik) {
+        const padded  = cik.padStart(10, "0")
+        // If submissions can't be read the version is unknown: serve the cached
+        // facts whatever they were stored under rather than failing the lookup
+        const version = latestPeriodicAccession(await submissions(padded).catch(() => null))
+        return cached(store, `companyFacts:${padded}`, "companyFacts",
+          () => inner.fundamentals.companyFacts(padded), { swr, version })
+      },
+    },
+  }
+}
+
+// ── Selection ─────────────────────────────────────────────────────────────────
+
+const LIVE: DataProviders = { market: liveMarketData, fundamentals: liveFundamentals }
+
+/**
+ * Providers for a ticker, chosen from DATA_PROVIDER / FIXTURE_DIR / FIXTURE_TICKERS.
+ * Pass `env` to override process.env (tests).
+ */
+export function getProviders(
+  ticker?: string,
+  env: Record<string, string | undefined> = process.env,
+): DataProviders {
+  const mode = (env.DATA_PROVIDER ?? "live").toLowerCase()
+  const dir  = path.resolve(env.FIXTURE_DIR ?? "fixtures")
+
+  const live = env.DATA_CACHE === "off"
+    ? LIVE
+    : cachedProviders(LIVE, getCacheStore(), env.DATA_CACHE_SWR === "1")
+
+  if (mode === "record") return recordingProviders(live, dir)
+  if (mode !== "fixture") return live
+
+  const only = (env.FIXTURE_TICKERS ?? "")
+    .split(",")
+    .map((t) => t.trim().toUpperCase())
+    .filter(Boolean)
+  if (ticker && only.length > 0 && !only.includes(ticker.toUpperCase())) return live
+  return fixtureProviders(dir)
+}
@@ -0,0 +1,159 @@
+/**
+ * Seeded uniform point sources for the Monte Carlo engine. Every method is
+ * index-addressable — point i depends only on (seed, i) — so a run replays
+ * exactly and any slice of draws can be produced independently.
+ *
+ *   random — i.i.d. U(0,1) from a mulberry32 stream seeded by hash(seed, i)
+ *   lhs    — Latin hypercube: each dimension's n points fall one per stratum
+ *            [k/n, (k+1)/n), strata shuffled independently per dimension
+ *   sobol  — Sobol low-discrepancy sequence (Joe–Kuo direction numbers) with a
+ *            seeded random digital shift; dimensions beyond the table fall back
+ *            to random
+ *
+ * Pure and client-safe.
+ */
+
+export type SamplingMethod = "random" | "lhs" | "sobol"
+
+export const SAMPLING_METHODS: { method: SamplingMethod; label: string }[] = [
+  { method: "random", label: "Pseudo-random" },
+  { method: "lhs",    label: "Latin hypercube" },
+  { method: "sobol",  label: "Sobol" },
+]
+
+/** Point i of a `dims`-dimensional sequence, every coordinate in (0, 1). */
+export type PointSource = (i: number) => number[]
+
+// ── PRNG ──────────────────────────────────────────────────────────────────────
+
+/** murmur3 32-bit finaliser — spreads nearby integers across the full range. */
+function mix32(h: number): number {
+  h ^= h >>> 16
+  h = Math.imul(h, 0x85ebca6b)
+  h ^= h >>> 13
+  h = Math.imul(h, 0xc2b2ae35)
+  h ^= h >>> 16
+  return h >>> 0
+}
+
+/** mulberry32: small, fast seedable PRNG returning U(0,1), never exactly 0. */
+export function createRng(seed: number): () => number {
+  let s = seed >>> 0
+  return () => {
+    s = (s + 0x6d2b79f5) >>> 0
+    let t = s
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return (((t ^ (t >>> 14)) >>> 0) + 0.5) / 4_294_967_296
+  }
+}
+
+/** Independent U(0,1) stream for index i of a seeded sequence. */
+export function streamAt(seed: number, i: number): () => number {
+  return createRng(mix32(mix32(seed >>> 0) ^ Math.imul(i + 1, 0x9e3779b9)))
+}
+
+function randomPoints(dims: number, seed: number): PointSource {
+  return (i) => {
+    const rng = streamAt(seed, i)
+    return Array.from({ length: dims }, rng)
+  }
+}
+
+// ── Latin hypercube ───────────────────────────────────────────────────────────
+
+function lhsPoints(dims: number, n: number, seed: number): PointSource {
+  const size = Math.max(1, n)
+  const rng = createRng(mix32(seed ^ 0x1b873593))
+  const strata = Array.from({ length: dims }, () => {
+    const perm = Int32Array.from({ length: size }, (_, k) => k)
+    for (let k = size - 1; k > 0; k--) {
+      const j = Math.floor(rng() * (k + 1))
+      ;[perm[k], perm[j]] = [perm[j], perm[k]]
+    }
+    return perm
+  })
+  return (i) => {
+    const jitter = streamAt(seed, i)
+    return strata.map((perm) => (perm[i % size] + jitter()) / size)
+  }
+}
+
+// ── Sobol ─────────────────────────────────────────────────────────────────────
+
+/** Joe–Kuo (new-joe-kuo-6.21201) primitive polynomials for dimensions 2–17: degree s, coefficients a, initial m. */
+const SOBOL_PARAMS: { s: number; a: number; m: number[] }[] = [
+  { s: 1, a: 0,  m: [1] },
+  { s: 2, a: 1,  m: [1, 3] },
+  { s: 3, a: 1,  m: [1, 3, 1] },
+  { s: 3, a: 2,  m: [1, 1, 1] },
+  { s: 4, a: 1,  m: [1, 1, 3, 3] },
+  { s: 4, a: 4,  m: [1, 3, 5, 13] },
+  { s: 5, a: 2,  m: [1, 1, 5, 5, 17] },
+  { s: 5, a: 4,  m: [1, 1, 5, 5, 5] },
+  { s: 5, a: 7,  m: [1, 1, 7, 11, 19] },
+  { s: 5, a: 11, m: [1, 1, 5, 1, 1] },
+  { s: 5, a: 13, m: [1, 1, 1, 3, 11] },
+  { s: 5, a: 14, m: [1, 3, 5, 5, 31] },
+  { s: 6, a: 1,  m: [1, 3, 3, 9, 7, 49] },
+  { s: 6, a: 13, m: [1, 1, 1, 15, 21, 21] },
+  { s: 6, a: 16, m: [1, 3, 1, 13, 27, 49] },
+  { s: 6, a: 19, m: [1, 1, 1, 15, 7, 5] },
+]
+
+export const SOBOL_MAX_DIMS = SOBOL_PARAMS.length + 1
+
+const BITS = 32
+
+/** 32 direction numbers V_k = v_k × 2^32 for one dimension (0-based). */
+function directionNumbers(dim: number): Uint32Array {
+  const v = new Uint32Array(BITS)
+  if (dim === 0) {
+    for (let k = 0; k < BITS; k++) v[k] = 2 ** (BITS - 1 - k)
+    return v
+  }
+  const { s, a, m } = SOBOL_PARAMS[dim - 1]
+  for (let k = 0; k < Math.min(s, BITS); k++) v[k] = m[k] * 2 ** (BITS - 1 - k)
+  for (let k = s; k < BITS; k++) {
+    let x = v[k - s] ^ (v[k - s] >>> s)
+    for (let j = 1; j < s; j++) {
+      if ((a >>> (s - 1 - j)) & 1) x ^= v[k - j]
+    }
+    v[k] = x >>> 0
+  }
+  return v
+}
+
+function sobolPoints(dims: number, seed: number): PointSource {
+  const sobolDims = Math.min(dims, SOBOL_MAX_DIMS)
+  const directions = Array.from({ length: sobolDims }, (_, d) => directionNumbers(d))
+  const shiftRng = createRng(mix32(seed ^ 0x2545f491))
+  const shifts = directions.map(() => Math.floor(shiftRng() * 4_294_967_296) >>> 0)
+  const overflow = dims > sobolDims ? randomPoints(dims - sobolDims, seed) : null
+
+  return (i) => {
+    // Point i is the XOR of V_k over the set bits of gray(i); the shift moves
+    // the origin off zero, and keeping it preserves each 2^k block's stratification
+    const gray = (i ^ (i >>> 1)) >>> 0
+    const point = directions.map((v, d) => {
+      let x = shifts[d]
+      for (let k = 0, g = gray; g > 0; k++, g >>>= 1) {
+        if (g & 1) x ^= v[k]
+      }
+      return ((x >>> 0) + 0.5) / 4_294_967_296
+    })
+    return overflow ? point.concat(overflow(i)) : point
+  }
+}
+
+/**
+ * Point source for `dims` variables. `n` is the planned number of points —
+ * only the Latin hypercube uses it, to size its strata.
+ */
+export function uniformPoints(method: SamplingMethod, dims: number, n: number, seed: number): PointSource {
+  switch (method) {
+    case "random": return randomPoints(dims, seed)
+    case "lhs":    return lhsPoints(dims, n, seed)
+    case "sobol":  return sobolPoints(dims, seed)
+  }
+}
@@ -0,0 +1,210 @@
+/**
+ * One-at-a-time sensitivity. Each Assumptions field is flexed by up to ±range
+ * of its current value while every other input is held, the valuation is
+ * recomputed and one output read off:
+ *
+ *   tornado — fields ranked by the output swing between −range and +range
+ *   spider  — the output at `steps` evenly spaced flexes either side of base
+ *
+ * `sensitivityPlan` lists the flexed assumptions as overrides of a worker
+ * `grid` request (override 0 is the unflexed base); `assembleSensitivity`
+ * turns the grid's rows back into charts. Pure and client-safe.
+ */
+
+import type { Assumptions, SimField } from "@/types/valuation"
+import type { ComputeAllArgs, ComputedValuations } from "./calculations"
+import { SIM_FIELDS } from "./simulation"
+import { handleValuationRequest, type ValuationRequest } from "./workerProtocol"
+
+/** Numeric ComputedValuations fields — the outputs a sensitivity can track. */
+export type SensitivityOutput = {
+  [K in keyof ComputedValuations]: ComputedValuations[K] extends number ? K : never
+}[keyof ComputedValuations]
+
+/** Outputs offered in the tab; model prices carry their signal-table names. */
+export const SENSITIVITY_OUTPUTS: { key: SensitivityOutput; label: string }[] = [
+  { key: "pps_fcff",   label: "FCFF (DCF)" },
+  { key: "pps_fcfe",   label: "FCFE (DCF)" },
+  { key: "pps_ri",     label: "Residual Income" },
+  { key: "pps_ddm",    label: "DDM (2-Stage)" },
+  { key: "pps_hddm",   label: "H-Model DDM" },
+  { key: "pps_ebitda", label: "EBITDA Multiple" },
+  { key: "pps_rev",    label: "Revenue Multiple" },
+  { key: "pps_pe",     label: "P/E Multiple" },
+  { key: "pps_jpe",    label: "Justified P/E" },
+  { key: "pps_jpb",    label: "Justified P/B" },
+  { key: "pps_peg",    label: "PEG" },
+  { key: "pps_pb",     label: "P/B" },
+  { key: "pps_pcf",    label: "P/CF" },
+  { key: "pps_sotp",   label: "SOTP" },
+  { key: "pps_excess", label: "Excess Return" },
+  { key: "pps_ptbv",   label: "P/TBV vs ROTE" },
+  { key: "pps_pffo",   label: "P/FFO" },
+  { key: "pps_paffo",  label: "P/AFFO" },
+  { key: "pps_nav",    label: "NAV (Cap Rate)" },
+  { key: "ev_fcff",    label: "Enterprise Value (FCFF)" },
+  { key: "wacc_calc",  label: "WACC (CAPM)" },
+  { key: "ke_calc",    label: "Cost of Equity (CAPM)" },
+]
+
+/**
+ * Fields flexed by default: the Monte Carlo fields plus the remaining numeric
+ * inputs that feed a model. `fallback` is the default computeAll applies when
+ * an optional field is unset. Projection length and simulation count are left
+ * out; fields whose value is 0 have nothing to flex relative to and are skipped.
+ */
+export const SENSITIVITY_FIELDS: { field: SimField; label: string; unit: "%" | "×" | "yrs"; fallback?: number }[] = [
+  ...SIM_FIELDS.map((f) => (f.field === "nwc_pct_rev" ? { ...f, fallback: 0.03 } : f)),
+  { field: "ddm_g",            label: "DDM Growth",          unit: "%" },
+  { field: "hl",               label: "H-Model Half-life",   unit: "yrs" },
+  { field: "cap_rate",         label: "NAV Cap Rate",        unit: "%", fallback: 0.055 },
+  { field: "min_cash_pct_rev", label: "Min Cash % Revenue",  unit: "%", fallback: 0.02 },
+  { field: "tv_blend_weight",  label: "Perpetuity TV Weight", unit: "%", fallback: 0.5 },
+  { field: "crp_lambda",       label: "Country Risk λ",      unit: "×", fallback: 1 },
+]
+
+export interface SensitivityOptions {
+  range?: number       // largest flex either side, relative to the current value (default 0.1 = ±10%)
+  steps?: number       // spider points either side of base (default 4)
+  fields?: SimField[]  // default: every SENSITIVITY_FIELDS entry
+}
+
+export interface SensitivityPlanField {
+  field: SimField
+  label: string
+  unit: "%" | "×" | "yrs"
+  value: number        // current input
+  flexes: number[]     // relative flexes, ascending, base excluded
+  inputs: number[]     // flexed input per flex
+}
+
+export interface SensitivityPlan {
+  range: number
+  steps: number
+  fields: SensitivityPlanField[]
+  overrides: Partial<Assumptions>[]  // [base, ...each field's flexes in order]
+  keShifts: number[]                 // aligned with overrides
+}
+
+export interface TornadoBar {
+  field: SimField
+  label: string
+  unit: "%" | "×" | "yrs"
+  value: number        // current input
+  lowInput: number     // input at −range
+  highInput: number    // input at +range
+  low: number          // output at −range
+  high: number         // output at +range
+  swing: number        // |high − low|
+}
+
+export interface SpiderLine {
+  field: SimField
+  label: string
+  points: { flex: number; value: number }[]   // ascending flex, base (flex 0) included
+}
+
+export interface SensitivityResult {
+  output: SensitivityOutput
+  base: number
+  range: number
+  tornado: TornadoBar[]   // widest swing first
+  spider: SpiderLine[]    // same order as the tornado
+}
+
+const DEFAULT_RANGE = 0.1
+const DEFAULT_STEPS = 4
+
+/** Flexed assumptions, keeping the perpetuity valid as the Monte Carlo does. */
+function flexed(a: Assumptions, field: SimField, input: number): Partial<Assumptions> {
+  const o: Partial<Assumptions> = { [field]: input }
+  if (field === "wacc" || field === "terminal_g") {
+    const wacc = field === "wacc" ? input : a.wacc
+    const g = field === "terminal_g" ? input : a.terminal_g
+    o.terminal_g = Math.min(g, wacc - 0.005)
+  }
+  return o
+}
+
+export function sensitivityPlan(a: Assumptions, options: SensitivityOptions = {}): SensitivityPlan {
+  const range = Math.abs(options.range ?? DEFAULT_RANGE)
+  const steps = Math.max(1, Math.round(options.steps ?? DEFAULT_STEPS))
+  const wanted = options.fields ? new Set(options.fields) : null
+  const flexes = [
+    ...Array.from({ length: steps }, (_, k) => -range * (steps - k) / steps),
+    ...Array.from({ length: steps }, (_, k) => range * (k + 1) / steps),
+  ]
+
+  const fields: SensitivityPlanField[] = []
+  const overrides: Partial<Assumptions>[] = [{}]
+  const keShifts: number[] = [0]
+  for (const { field, label, unit, fallback } of SENSITIVITY_FIELDS) {
+    if (wanted && !wanted.has(field)) continue
+    const value = (a[field] as number | undefined) ?? fallback ?? 0
+    if (value === 0 || !Number.isFinite(value) || range === 0) continue
+    const inputs = flexes.map((f) => value * (1 + f))
+    fields.push({ field, label, unit, value, flexes, inputs })
+    for (const input of inputs) {
+      overrides.push(flexed(a, field, input))
+      keShifts.push(field === "cost_of_equity" ? input - value : 0)
+    }
+  }
+  return { range, steps, fields, overrides, keShifts }
+}
+
+/** The plan as one grid request, returning only `output`. */
+export function sensitivityRequest(
+  args: ComputeAllArgs,
+  output: SensitivityOutput,
+  plan: SensitivityPlan,
+): Extract<ValuationRequest, { kind: "grid" }> {
+  return { kind: "grid", args, overrides: plan.overrides, pick: [output], keShifts: plan.keShifts }
+}
+
+/** Charts from a plan's grid rows (one per override, in plan order). */
+export function assembleSensitivity(
+  plan: SensitivityPlan,
+  output: SensitivityOutput,
+  rows: Partial<ComputedValuations>[],
+): SensitivityResult {
+  const at = (k: number) => Number(rows[k]?.[output] ?? 0)
+  const base = at(0)
+  const steps = plan.steps
+
+  const lines = plan.fields.map((f, j) => {
+    const first = 1 + j * 2 * steps
+    const values = f.flexes.map((_, k) => at(first + k))
+    const points = [
+      ...f.flexes.slice(0, steps).map((flex, k) => ({ flex, value: values[k] })),
+      { flex: 0, value: base },
+      ...f.flexes.slice(steps).map((flex, k) => ({ flex, value: values[steps + k] })),
+    ]
+    const low = values[0]
+    const high = values[values.length - 1]
+    const bar: TornadoBar = {
+      field: f.field, label: f.label, unit: f.unit, value: f.value,
+      lowInput: f.inputs[0], highInput: f.inputs[f.inputs.length - 1],
+      low, high, swing: Math.abs(high - low),
+    }
+    return { bar, line: { field: f.field, label: f.label, points } as SpiderLine }
+  })
+  lines.sort((x, y) => y.bar.swing - x.bar.swing)
+
+  return {
+    output,
+    base,
+    range: plan.range,
+    tornado: lines.map((l) => l.bar),
+    spider: lines.map((l) => l.line),
+  }
+}
+
+/** Sensitivity of `output` computed in the calling thread. */
+export function runSensitivity(
+  args: ComputeAllArgs,
+  output: SensitivityOutput = "pps_fcff",
+  options: SensitivityOptions = {},
+): SensitivityResult {
+  const plan = sensitivityPlan(args.a, options)
+  return assembleSensitivity(plan, output, handleValuationRequest(sensitivityRequest(args, output, plan)))
+}
@@ -0,0 +1,231 @@
+/**
+ * Monte Carlo sampling engine behind runMonteCarlo. A SimulationSpec assigns
+ * a distribution to any numeric Assumptions field; correlations are imposed
+ * with a Gaussian copula — independent normal scores z are mixed by the
+ * Cholesky factor of the correlation matrix (z' = L z), then mapped through
+ * each marginal's inverse CDF. ρ is the correlation of the normal scores;
+ * every marginal is a monotone transform of its score, so the dependence
+ * carries over whatever the distribution. Uniforms come from a seeded
+ * PointSource (see sampling.ts). Pure and client-safe.
+ */
+
+import type {
+  Assumptions, Distribution, SimCorrelation, SimField, SimulationSpec, SimVariable,
+} from "@/types/valuation"
+import { uniformPoints, type PointSource } from "./sampling"
+
+export class SimulationSpecError extends Error {
+  constructor(message: string, readonly problems: string[]) {
+    super(message)
+    this.name = "SimulationSpecError"
+  }
+}
+
+/** Fields offered in the spec editor, with display units. */
+export const SIM_FIELDS: { field: SimField; label: string; unit: "%" | "×" }[] = [
+  { field: "wacc",            label: "WACC",                 unit: "%" },
+  { field: "cost_of_equity",  label: "Cost of Equity",       unit: "%" },
+  { field: "yr1_g",           label: "Year 1 Growth",        unit: "%" },
+  { field: "yr2_g",           label: "Year 2 Growth",        unit: "%" },
+  { field: "yr3_g",           label: "Year 3 Growth",        unit: "%" },
+  { field: "lt_g",            label: "Long-term Growth",     unit: "%" },
+  { field: "terminal_g",      label: "Terminal Growth",      unit: "%" },
+  { field: "target_ebitda_m", label: "Target EBITDA Margin", unit: "%" },
+  { field: "capex_pct",       label: "CapEx % Revenue",      unit: "%" },
+  { field: "nwc_pct_rev",     label: "NWC % Incremental Rev", unit: "%" },
+  { field: "tax_rate",        label: "Tax Rate",             unit: "%" },
+  { field: "exit_mult",       label: "Exit EV/EBITDA",       unit: "×" },
+  { field: "beta",            label: "Beta",                 unit: "×" },
+  { field: "rf",              label: "Risk-Free Rate",       unit: "%" },
+  { field: "erp",             label: "Equity Risk Prem",     unit: "%" },
+  { field: "cost_of_debt",    label: "Pre-Tax Cost of Debt", unit: "%" },
+]
+
+/**
+ * The original hard-coded shocks: WACC and cost of equity σ = 1.5% (floored at
+ * 4% / 5%), year-1 growth and target margin σ = 2%, growth ↔ margin ρ = 0.4.
+ * Unlike the old loop, long-term growth is no longer reset to 60% of year-1
+ * growth: it stays at the user's value unless the spec samples it.
+ */
+export const DEFAULT_SIM_SPEC: SimulationSpec = {
+  name: "Default",
+  variables: [
+    { field: "wacc",            dist: { kind: "truncated", sd: 0.015, min: 0.04, max: 0.30 } },
+    { field: "cost_of_equity",  dist: { kind: "truncated", sd: 0.015, min: 0.05, max: 0.30 } },
+    { field: "yr1_g",           dist: { kind: "normal", sd: 0.020 } },
+    { field: "target_ebitda_m", dist: { kind: "normal", sd: 0.020 } },
+  ],
+  correlations: [{ a: "yr1_g", b: "target_ebitda_m", rho: 0.4 }],
+}
+
+// ── Normal distribution ───────────────────────────────────────────────────────
+
+/** Standard normal CDF (Abramowitz & Stegun 7.1.26, |error| < 1.5e-7). */
+export function normalCdf(x: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x) / Math.SQRT2)
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))))
+  const erf = 1 - poly * Math.exp(-(x * x) / 2)
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2
+}
+
+/** Standard normal quantile (Acklam's rational approximation, relative error < 1.2e-9). */
+export function normalInv(p: number): number {
+  if (p <= 0) return -Infinity
+  if (p >= 1) return Infinity
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239]
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572]
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783]
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416]
+  const lo = 0.02425
+  if (p < lo || p > 1 - lo) {
+    const q = Math.sqrt(-2 * Math.log(p < lo ? p : 1 - p))
+    const x = (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1)
+    return p < lo ? x : -x
+  }
+  const q = p - 0.5
+  const r = q * q
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1)
+}
+
+// ── Marginals ─────────────────────────────────────────────────────────────────
+
+/** Value of a distribution at normal score z; `center` fills an omitted mean / mode. */
+export function fromNormalScore(dist: Distribution, center: number, z: number): number {
+  switch (dist.kind) {
+    case "normal":
+      return (dist.mean ?? center) + dist.sd * z
+    case "lognormal": {
+      const m = dist.mean ?? center
+      const s2 = Math.log(1 + (dist.sd / m) ** 2)
+      return Math.exp(Math.log(m) - s2 / 2 + Math.sqrt(s2) * z)
+    }
+    case "uniform":
+      return dist.min + normalCdf(z) * (dist.max - dist.min)
+    case "triangular": {
+      const { min, max } = dist
+      const mode = Math.min(max, Math.max(min, dist.mode ?? center))
+      const u = normalCdf(z)
+      const f = (mode - min) / (max - min)
+      return u < f
+        ? min + Math.sqrt(u * (max - min) * (mode - min))
+        : max - Math.sqrt((1 - u) * (max - min) * (max - mode))
+    }
+    case "truncated": {
+      const mean = dist.mean ?? center
+      const pa = normalCdf((dist.min - mean) / dist.sd)
+      const pb = normalCdf((dist.max - mean) / dist.sd)
+      const x = mean + dist.sd * normalInv(pa + normalCdf(z) * (pb - pa))
+      return Math.min(dist.max, Math.max(dist.min, x))
+    }
+  }
+}
+
+// ── Correlation ───────────────────────────────────────────────────────────────
+
+/** Correlation matrix in variable order; unspecified pairs are independent. */
+export function correlationMatrix(variables: SimVariable[], correlations: SimCorrelation[]): number[][] {
+  const index = new Map(variables.map((v, i) => [v.field, i]))
+  const m: number[][] = variables.map((_, i) => variables.map((_, j) => (i === j ? 1 : 0)))
+  for (const c of correlations) {
+    const i = index.get(c.a), j = index.get(c.b)
+    if (i === undefined || j === undefined || i === j) continue
+    m[i][j] = m[j][i] = c.rho
+  }
+  return m
+}
+
+/** Lower-triangular L with L Lᵀ = m; null when m is not positive definite. */
+export function cholesky(m: number[][]): number[][] | null {
+  const n = m.length
+  const L = m.map(() => new Array<number>(n).fill(0))
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = m[i][j]
+      for (let k = 0; k < j; k++) sum -= L[i][k] * L[j][k]
+      if (i === j) {
+        if (sum <= 1e-12) return null
+        L[i][i] = Math.sqrt(sum)
+      } else {
+        L[i][j] = sum / L[j][j]
+      }
+    }
+  }
+  return L
+}
+
+// ── Validation ────────────────────────────────────────────────────────────────
+
+/** Problems that would make a spec unusable; empty when it can be sampled. */
+export function validateSpec(spec: SimulationSpec, a: Assumptions): string[] {
+  const problems: string[] = []
+  const seen = new Set<SimField>()
+  for (const { field, dist } of spec.variables) {
+    if (seen.has(field)) problems.push(`${field} is sampled twice`)
+    seen.add(field)
+    const center = (a[field] as number | undefined) ?? 0
+    if ((dist.kind === "normal" || dist.kind === "lognormal" || dist.kind === "truncated") && !(dist.sd > 0)) {
+      problems.push(`${field}: standard deviation must be positive`)
+    }
+    if ((dist.kind === "uniform" || dist.kind === "triangular" || dist.kind === "truncated") && !(dist.min < dist.max)) {
+      problems.push(`${field}: min must be below max`)
+    }
+    if (dist.kind === "lognormal" && !((dist.mean ?? center) > 0)) {
+      problems.push(`${field}: lognormal mean must be positive`)
+    }
+  }
+  for (const c of spec.correlations) {
+    if (!seen.has(c.a) || !seen.has(c.b)) problems.push(`Correlation ${c.a}–${c.b} refers to an unsampled field`)
+    if (!(Math.abs(c.rho) <= 1)) problems.push(`Correlation ${c.a}–${c.b} must be between −1 and 1`)
+  }
+  if (problems.length === 0 && !cholesky(correlationMatrix(spec.variables, spec.correlations))) {
+    problems.push("Correlation matrix is not positive definite")
+  }
+  return problems
+}
+
+// ── Sampling ──────────────────────────────────────────────────────────────────
+
+/**
+ * Sampler for a spec centred on `a`: draw i is built from point i of
+ * `points` (one uniform per variable, in spec order), so the same points
+ * always give the same draws. Throws SimulationSpecError when the spec is invalid.
+ */
+export function createSampler(
+  spec: SimulationSpec,
+  a: Assumptions,
+  points: PointSource = uniformPoints("random", spec.variables.length, 0, 1),
+): (i: number) => Partial<Record<SimField, number>> {
+  const problems = validateSpec(spec, a)
+  if (problems.length > 0) throw new SimulationSpecError(`Invalid simulation spec "${spec.name}"`, problems)
+
+  const vars = spec.variables
+  const L = cholesky(correlationMatrix(vars, spec.correlations))!
+  const centers = vars.map((v) => (a[v.field] as number | undefined) ?? 0)
+
+  return (i) => {
+    const z = points(i).map((u) => normalInv(u))
+    const draw: Partial<Record<SimField, number>> = {}
+    vars.forEach((v, j) => {
+      let zj = 0
+      for (let k = 0; k <= j; k++) zj += L[j][k] * z[k]
+      draw[v.field] = fromNormalScore(v.dist, centers[j], zj)
+    })
+    return draw
+  }
+}
+
+/**
+ * Assumptions for one draw. When year-1 growth is sampled but years 2–3 are
+ * not, they move with it by the same amount so the scenario's growth shape holds.
+ */
+export function applyDraw(a: Assumptions, draw: Partial<Record<SimField, number>>): Assumptions {
+  const next = { ...a, ...draw } as Assumptions
+  if (draw.yr1_g !== undefined) {
+    const shift = draw.yr1_g - a.yr1_g
+    if (draw.yr2_g === undefined) next.yr2_g = a.yr2_g + shift
+    if (draw.yr3_g === undefined) next.yr3_g = a.yr3_g + shift
+  }
+  return next
+}
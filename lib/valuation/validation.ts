@@ -0,0 +1,228 @@
+/**
+ * Data-quality checks run over a ValuationConfig before valuation.
+ * Pure and client-safe: computeAll takes the issues and marks models fed by
+ * error-level inputs N/A instead of emitting BUY/SELL on nonsense figures.
+ */
+
+import type { IssueSeverity, ValidationIssue, ValuationConfig } from "@/types/valuation"
+
+// ── Model groups (signal-table method names) ──────────────────────────────────
+
+const DCF        = ["FCFF (DCF)", "FCFE (DCF)"]
+const DIVIDEND   = ["DDM (2-Stage)", "H-Model DDM"]
+const EARNINGS   = ["P/E Multiple", "PEG", "Justified P/E"]
+const BOOK       = ["Residual Income", "Justified P/B", "P/B"]
+const EBITDA     = ["EBITDA Multiple", "SOTP"]
+const REVENUE    = ["Revenue Multiple"]
+const CASH_FLOW  = ["P/CF"]
+const TANGIBLE   = ["Excess Return", "P/TBV vs ROTE"]   // financial model set
+const REAL_ESTATE = ["P/FFO", "P/AFFO", "NAV (Cap Rate)"] // REIT model set
+const DISCOUNTED = [...DCF, "DDM (2-Stage)", "Residual Income", "Excess Return"]  // use discountSchedule
+
+export const ALL_MODELS = [
+  ...DCF, ...DIVIDEND, ...EARNINGS, ...BOOK, ...EBITDA, ...REVENUE, ...CASH_FLOW, ...TANGIBLE, ...REAL_ESTATE,
+]
+
+// ── Thresholds ────────────────────────────────────────────────────────────────
+
+const BALANCE_TOLERANCE = 0.01  // debt may exceed assets − equity by at most 1% of assets
+const EPS_TOLERANCE     = 0.25  // EPS × shares vs net income
+const YOY_JUMP          = 1.0   // |YoY change| above 100% is flagged
+const YOY_DROP          = -0.67
+const MAX_BASELINE_AGE  = 1     // years from period end to valuation date covered by the year-1 stub
+
+// ── Baseline age ──────────────────────────────────────────────────────────────
+
+const MS_PER_YEAR = 365.25 * 24 * 3600 * 1000
+
+/**
+ * Years from the baseline period end to the valuation date, unclamped. An unset
+ * valuation date is the start of today (UTC) so results are stable within a day.
+ * Null when the period end is unknown.
+ */
+export function baselineAge(periodEnd?: string, valuationDate?: string): number | null {
+  const end = periodEnd ? new Date(periodEnd).getTime() : NaN
+  const now = new Date()
+  const valuation = valuationDate
+    ? new Date(valuationDate).getTime()
+    : Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+  return isNaN(end) || isNaN(valuation) ? null : (valuation - end) / MS_PER_YEAR
+}
+
+// ── Checks ────────────────────────────────────────────────────────────────────
+
+type Check = (
+  config: Pick<ValuationConfig, "baseline" | "historical_is">,
+  valuationDate?: string,
+) => ValidationIssue | ValidationIssue[] | null
+
+const issue = (
+  code: string,
+  severity: IssueSeverity,
+  message: string,
+  fields: string[],
+  models: string[],
+): ValidationIssue => ({ code, severity, message, fields, models })
+
+const pct = (v: number) => `${(v * 100).toFixed(0)}%`
+
+const CHECKS: Check[] = [
+  ({ baseline: B }) =>
+    B.shares_diluted > 0 ? null
+      : issue("shares_nonpositive", "error", "Diluted share count is zero or negative", ["shares_diluted"], ALL_MODELS),
+
+  ({ baseline: B }) =>
+    B.current_price > 0 ? null
+      : issue("price_nonpositive", "error", "No market price to compare against", ["current_price"], ALL_MODELS),
+
+  ({ baseline: B }) =>
+    B.revenue > 0 ? null
+      : issue("revenue_nonpositive", "error", "Revenue is zero or negative", ["revenue"], [...DCF, ...EBITDA, ...REVENUE]),
+
+  ({ baseline: B }) => {
+    if (B.revenue <= 0) return null
+    const m = B.ebitda_margin
+    return m > 1 || m < -1
+      ? issue("ebitda_margin_range", "error", `EBITDA margin of ${pct(m)} is outside ±100%`, ["ebitda", "revenue"], [...DCF, ...EBITDA])
+      : null
+  },
+
+  ({ baseline: B }) => {
+    if (B.revenue <= 0) return null
+    const m = B.gross_margin
+    return m > 1 || m < 0
+      ? issue("gross_margin_range", "warning", `Gross margin of ${pct(m)} is outside 0–100%`, ["gross_profit", "revenue"], DCF)
+      : null
+  },
+
+  ({ baseline: B }) =>
+    B.revenue > 0 && Math.abs(B.net_income) > B.revenue
+      ? issue("net_margin_range", "warning", "Net income exceeds revenue in magnitude", ["net_income", "revenue"], [...EARNINGS, ...DIVIDEND])
+      : null,
+
+  ({ baseline: B }) =>
+    B.total_equity > 0 ? null
+      : issue("equity_nonpositive", "error", "Book equity is zero or negative", ["total_equity", "bvps"], [...BOOK, ...TANGIBLE]),
+
+  ({ baseline: B }) => {
+    // Assets = liabilities + equity, and debt is part of liabilities
+    if (B.total_assets <= 0) {
+      return issue("assets_missing", "warning", "Total assets missing; balance sheet cannot be checked", ["total_assets"], BOOK)
+    }
+    const impliedLiabilities = B.total_assets - B.total_equity
+    return B.total_debt - impliedLiabilities > BALANCE_TOLERANCE * B.total_assets
+      ? issue(
+          "balance_sheet_identity", "error",
+          "Debt exceeds assets − equity: assets ≠ liabilities + equity",
+          ["total_assets", "total_equity", "total_debt"], [...BOOK, ...DCF, ...EBITDA, ...REVENUE],
+        )
+      : null
+  },
+
+  ({ baseline: B }) => {
+    if (B.shares_diluted <= 0 || B.net_income === 0) return null
+    const gap = Math.abs(B.eps * B.shares_diluted - B.net_income) / Math.abs(B.net_income)
+    return gap > EPS_TOLERANCE
+      ? issue(
+          "eps_inconsistent", "warning",
+          `EPS × diluted shares differs from net income by ${pct(gap)} (units or share class mismatch?)`,
+          ["eps", "shares_diluted", "net_income"], EARNINGS,
+        )
+      : null
+  },
+
+  ({ baseline: B }) =>
+    B.tax_rate < 0 || B.tax_rate > 0.5
+      ? issue("tax_rate_range", "warning", `Tax rate of ${pct(B.tax_rate)} is outside 0–50%`, ["tax_rate"], DCF)
+      : null,
+
+  ({ baseline: B }) =>
+    // REIT figures without property opex: NOI (and AFFO, which deducts capex off NOI) can't be derived
+    B.ffo !== undefined && !((B.noi ?? 0) > 0)
+      ? issue(
+          "noi_missing", "error",
+          "Property operating expenses not reported; NOI cannot be derived from revenue alone",
+          ["noi", "affo"], ["NAV (Cap Rate)", "P/AFFO"],
+        )
+      : null,
+
+  ({ baseline: B }) =>
+    (B.options_outstanding ?? 0) > 0 && !((B.options_strike ?? 0) > 0)
+      ? issue(
+          "options_strike_missing", "warning",
+          "Options outstanding without a reported exercise price; the TSM share count leaves them out",
+          ["options_outstanding", "options_strike"], [...DCF, ...EBITDA, ...REVENUE],
+        )
+      : null,
+
+  ({ baseline: B }) =>
+    B.dps > 0 && B.eps > 0 && B.dps > B.eps * 1.5
+      ? issue("payout_excessive", "warning", "Dividends exceed 150% of EPS", ["dps", "eps"], DIVIDEND)
+      : null,
+
+  ({ historical_is: H }) => {
+    const series: [keyof typeof H, string, string[]][] = [
+      ["revenue", "Revenue", [...DCF, ...REVENUE]],
+      ["net_income", "Net income", EARNINGS],
+      ["eps", "EPS", EARNINGS],
+    ]
+    const out: ValidationIssue[] = []
+    for (const [field, label, models] of series) {
+      const v = H[field]
+      for (let i = 1; i < v.length; i++) {
+        if (v[i - 1] <= 0 || v[i] <= 0) continue
+        const g = v[i] / v[i - 1] - 1
+        if (g > YOY_JUMP || g < YOY_DROP) {
+          out.push(issue(
+            `yoy_jump_${field}`, "warning",
+            `${label} ${g > 0 ? "+" : ""}${pct(g)} YoY in ${H.year[i] ?? "?"}`,
+            [field], models,
+          ))
+        }
+      }
+    }
+    return out
+  },
+
+  ({ baseline: B }, valuationDate) => {
+    const age = baselineAge(B.period_end, valuationDate)
+    return age !== null && age > MAX_BASELINE_AGE
+      ? issue(
+          "baseline_stale",
+          "warning",
+          `Baseline period ended ${age.toFixed(1)} years before the valuation date; projection year 1 is treated as elapsed and its cash flow is not counted`,
+          ["period_end"],
+          DISCOUNTED,
+        )
+      : null
+  },
+
+  ({ historical_is: H }) => {
+    const lengths = (["revenue", "ebitda", "net_income", "eps"] as const).map((k) => H[k].length)
+    return lengths.some((l) => l !== H.year.length)
+      ? issue("history_misaligned", "info", "Historical series have different lengths than the year axis", ["year"], [])
+      : null
+  },
+]
+
+const SEVERITY_ORDER: Record<IssueSeverity, number> = { error: 0, warning: 1, info: 2 }
+
+/** Run every check; issues come back most severe first. `valuationDate` defaults to today. */
+export function validateConfig(
+  config: Pick<ValuationConfig, "baseline" | "historical_is">,
+  valuationDate?: string,
+): ValidationIssue[] {
+  return CHECKS
+    .flatMap((check) => check(config, valuationDate) ?? [])
+    .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity])
+}
+
+/** Error-level issue messages per affected model. */
+export function blockedModels(issues: ValidationIssue[]): Map<string, string[]> {
+  const out = new Map<string, string[]>()
+  for (const i of issues) {
+    if (i.severity !== "error") continue
+    for (const m of i.models) out.set(m, [...(out.get(m) ?? []), i.message])
+  }
+  return out
+}
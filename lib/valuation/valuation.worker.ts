@@ -0,0 +1,14 @@
+/**
+ * Valuation worker entry point. Answers WorkerRequestMessages one at a time;
+ * the pool cancels a running request by terminating the worker, so there is
+ * no cancel message to handle here.
+ */
+
+import { respondTo, type WorkerRequestMessage, type WorkerResponseMessage } from "./workerProtocol"
+
+const ctx = self as unknown as {
+  postMessage: (message: WorkerResponseMessage, transfer?: Transferable[]) => void
+  onmessage: ((e: MessageEvent<WorkerRequestMessage>) => void) | null
+}
+
+ctx.onmessage = (e) => respondTo(e.data, (message, transfer) => ctx.postMessage(message, transfer ?? []))
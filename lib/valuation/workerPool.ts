@@ -0,0 +1,243 @@
+/**
+ * Pool of valuation workers. `run` queues a ValuationRequest, streams its
+ * progress and resolves with the typed result; aborting its signal drops a
+ * queued request or terminates (and replaces) the worker running it, since a
+ * busy worker cannot read messages. With no Worker support (SSR, tests) the
+ * pool runs requests inline, one per macrotask. `runMonteCarloInPool` splits a
+ * run into chunks priced in parallel and collects them in draw order, so the
+ * result matches runMonteCarlo exactly, auto-stop included.
+ */
+
+import {
+  createMonteCarloCollector, type MonteCarloRun,
+} from "./calculations"
+import { SimulationSpecError, validateSpec } from "./simulation"
+import {
+  chunkDraws, handleValuationRequest,
+  type MonteCarloChunkArgs, type ValuationRequest, type ValuationResult,
+  type WorkerRequestMessage, type WorkerResponseMessage,
+} from "./workerProtocol"
+
+/** The slice of the Worker API the pool uses; tests supply their own. */
+export interface WorkerLike {
+  postMessage: (message: WorkerRequestMessage) => void
+  terminate: () => void
+  listen: (onMessage: (message: WorkerResponseMessage) => void, onError: (message: string) => void) => void
+}
+
+export interface TaskOptions {
+  signal?: AbortSignal
+  onProgress?: (done: number, total: number) => void
+}
+
+export interface ValuationPool {
+  size: number   // workers; 0 when running inline
+  run: <R extends ValuationRequest>(request: R, opts?: TaskOptions) => Promise<ValuationResult<R>>
+  destroy: () => void
+}
+
+interface Task {
+  id: number
+  request: ValuationRequest
+  opts: TaskOptions
+  resolve: (result: ValuationResult<ValuationRequest>) => void
+  reject: (err: Error) => void
+}
+
+interface Slot {
+  worker: WorkerLike
+  task: Task | null
+}
+
+const abortError = () => new DOMException("Valuation task aborted", "AbortError")
+
+function toError(m: Extract<WorkerResponseMessage, { type: "error" }>): Error {
+  if (m.name === "SimulationSpecError") return new SimulationSpecError(m.message, m.problems ?? [])
+  const err = new Error(m.message)
+  err.name = m.name
+  return err
+}
+
+export function createValuationPool(createWorker: () => WorkerLike, size: number): ValuationPool {
+  const slots: Slot[] = []
+  const queue: Task[] = []
+  let nextId = 1
+
+  function spawn(slot?: Slot): Slot {
+    const s: Slot = slot ?? { worker: createWorker(), task: null }
+    if (slot) s.worker = createWorker()
+    s.worker.listen(
+      (m) => {
+        const task = s.task
+        if (!task || task.id !== m.id) return
+        if (m.type === "progress") {
+          task.opts.onProgress?.(m.done, m.total)
+          return
+        }
+        s.task = null
+        if (m.type === "result") task.resolve(m.result)
+        else task.reject(toError(m))
+        pump()
+      },
+      (message) => {
+        const task = s.task
+        s.task = null
+        s.worker.terminate()
+        spawn(s)
+        task?.reject(new Error(`Valuation worker failed: ${message}`))
+        pump()
+      },
+    )
+    return s
+  }
+
+  function runInline(task: Task) {
+    setTimeout(() => {
+      if (task.opts.signal?.aborted) return
+      try {
+        task.resolve(handleValuationRequest(task.request, task.opts.onProgress))
+      } catch (err) {
+        task.reject(err instanceof Error ? err : new Error(String(err)))
+      }
+    }, 0)
+  }
+
+  function pump() {
+    while (queue.length > 0) {
+      if (size <= 0) {
+        runInline(queue.shift()!)
+        continue
+      }
+      let slot = slots.find((s) => s.task === null)
+      if (!slot && slots.length < size) slots.push((slot = spawn()))
+      if (!slot) return
+      const task = queue.shift()!
+      slot.task = task
+      slot.worker.postMessage({ id: task.id, request: task.request })
+    }
+  }
+
+  function cancel(task: Task) {
+    const queued = queue.indexOf(task)
+    if (queued >= 0) queue.splice(queued, 1)
+    const slot = slots.find((s) => s.task === task)
+    if (slot) {
+      slot.task = null
+      slot.worker.terminate()
+      spawn(slot)
+    }
+    task.reject(abortError())
+    pump()
+  }
+
+  return {
+    size: Math.max(0, size),
+    run<R extends ValuationRequest>(request: R, opts: TaskOptions = {}) {
+      return new Promise<ValuationResult<R>>((resolve, reject) => {
+        if (opts.signal?.aborted) return reject(abortError())
+        const onAbort = () => cancel(task)
+        const settle = () => opts.signal?.removeEventListener("abort", onAbort)
+        const task: Task = {
+          id: nextId++,
+          request,
+          opts,
+          resolve: (result) => { settle(); resolve(result as ValuationResult<R>) },
+          reject: (err) => { settle(); reject(err) },
+        }
+        opts.signal?.addEventListener("abort", onAbort, { once: true })
+        queue.push(task)
+        pump()
+      })
+    },
+    destroy() {
+      for (const task of queue.splice(0)) task.reject(abortError())
+      for (const s of slots.splice(0)) {
+        s.worker.terminate()
+        s.task?.reject(abortError())
+      }
+    },
+  }
+}
+
+function browserWorker(): WorkerLike {
+  const worker = new Worker(new URL("./valuation.worker.ts", import.meta.url), { type: "module" })
+  return {
+    postMessage: (message) => worker.postMessage(message),
+    terminate: () => worker.terminate(),
+    listen(onMessage, onError) {
+      worker.onmessage = (e: MessageEvent<WorkerResponseMessage>) => onMessage(e.data)
+      worker.onerror = (e) => {
+        e.preventDefault()
+        onError(e.message)
+      }
+    },
+  }
+}
+
+let shared: ValuationPool | null = null
+
+/** App-wide pool: one worker per spare core (up to 4), inline without Worker support. */
+export function getValuationPool(): ValuationPool {
+  if (!shared) {
+    const cores = typeof navigator !== "undefined" ? navigator.hardwareConcurrency ?? 2 : 2
+    const size = typeof Worker === "undefined" ? 0 : Math.min(4, Math.max(1, cores - 1))
+    shared = createValuationPool(browserWorker, size)
+  }
+  return shared
+}
+
+// ── Parallel Monte Carlo ──────────────────────────────────────────────────────
+
+const MC_CHUNK_MIN = 250
+const MC_CHUNK_MAX = 5_000
+
+/**
+ * runMonteCarlo across the pool. Chunks are dispatched together and consumed
+ * in draw order; once the collector stops (N reached or converged) the
+ * remaining chunks are cancelled. Rejects with an AbortError when `signal`
+ * aborts and with SimulationSpecError for an invalid spec.
+ */
+export async function runMonteCarloInPool(
+  pool: ValuationPool,
+  args: Omit<MonteCarloChunkArgs, "from" | "to">,
+  opts: TaskOptions = {},
+): Promise<MonteCarloRun> {
+  const problems = validateSpec(args.spec, args.inputs.a)
+  if (problems.length > 0) throw new SimulationSpecError(`Invalid simulation spec "${args.spec.name}"`, problems)
+
+  const { n_sims } = args
+  const chunkSize = Math.min(MC_CHUNK_MAX, Math.max(MC_CHUNK_MIN, Math.ceil(n_sims / (Math.max(1, pool.size) * 4))))
+  const ranges: [number, number][] = []
+  for (let from = 0; from < n_sims; from += chunkSize) ranges.push([from, Math.min(n_sims, from + chunkSize)])
+
+  const ctrl = new AbortController()
+  const forward = () => ctrl.abort()
+  opts.signal?.addEventListener("abort", forward, { once: true })
+  if (opts.signal?.aborted) ctrl.abort()
+
+  const done = ranges.map(() => 0)
+  const tasks = ranges.map(([from, to], k) =>
+    pool.run({ kind: "monteCarlo", args: { ...args, from, to } }, {
+      signal: ctrl.signal,
+      onProgress: (d) => {
+        done[k] = d
+        opts.onProgress?.(done.reduce((s, x) => s + x, 0), n_sims)
+      },
+    }),
+  )
+  // Chunks cancelled after an early stop reject unobserved
+  for (const t of tasks) t.catch(() => {})
+
+  const collector = createMonteCarloCollector(n_sims, args.options)
+  try {
+    for (const task of tasks) {
+      for (const draw of chunkDraws(await task)) {
+        if (collector.add(draw)) return collector.finish()
+      }
+    }
+    return collector.finish()
+  } finally {
+    opts.signal?.removeEventListener("abort", forward)
+    ctrl.abort()
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * Message protocol between the UI and valuation workers (valuation.worker.ts).
+ * A request names a calculation and carries plain, structured-cloneable
+ * arguments; the worker streams progress and answers with one result or
+ * error under the request's id. `handleValuationRequest` is the worker's body
+ * and also runs inline where Workers are unavailable. Pure and client-safe.
+ */
+
+import type { Assumptions, SimulationSpec } from "@/types/valuation"
+import { SimulationSpecError } from "./simulation"
+import {
+  computeAll, createMonteCarloPricer,
+  type ComputeAllArgs, type ComputedValuations, type MonteCarloDraw, type MonteCarloOptions,
+} from "./calculations"
+
+/** Draws [from, to) of a Monte Carlo run; the full-run arguments keep draws identical to runMonteCarlo's. */
+export interface MonteCarloChunkArgs {
+  inputs: ComputeAllArgs
+  n_sims: number
+  spec: SimulationSpec
+  options: MonteCarloOptions
+  from: number
+  to: number
+}
+
+/** Prices of a chunk by method, one entry per draw; NaN where the price was rejected. */
+export interface MonteCarloChunk {
+  from: number
+  length: number
+  prices: Record<string, Float64Array>
+}
+
+export type ValuationRequest =
+  | { kind: "computeAll"; args: ComputeAllArgs }
+  | {
+      kind: "grid"
+      args: ComputeAllArgs
+      overrides: Partial<Assumptions>[]
+      pick: (keyof ComputedValuations)[]
+      keShifts?: number[]   // per override, added to the cost of equity (see computeAll)
+    }
+  | { kind: "monteCarlo"; args: MonteCarloChunkArgs }
+
+interface ValuationResults {
+  computeAll: ComputedValuations
+  grid: Partial<ComputedValuations>[]   // one per override, only the picked fields
+  monteCarlo: MonteCarloChunk
+}
+
+export type ValuationResult<R extends ValuationRequest> = ValuationResults[R["kind"]]
+
+/** UI → worker. */
+export interface WorkerRequestMessage {
+  id: number
+  request: ValuationRequest
+}
+
+/** Worker → UI. */
+export type WorkerResponseMessage =
+  | { id: number; type: "progress"; done: number; total: number }
+  | { id: number; type: "result"; result: ValuationResult<ValuationRequest> }
+  | { id: number; type: "error"; name: string; message: string; problems?: string[] }
+
+/** Progress reports per request at most; keeps message traffic flat for 100k-path runs. */
+const PROGRESS_STEPS = 50
+
+function throttle(total: number, onProgress?: (done: number, total: number) => void) {
+  const every = Math.max(1, Math.ceil(total / PROGRESS_STEPS))
+  return (done: number) => {
+    if (onProgress && (done % every === 0 || done === total)) onProgress(done, total)
+  }
+}
+
+export function runComputeAll(args: ComputeAllArgs, a: Assumptions = args.a, keShift = 0): ComputedValuations {
+  return computeAll(args.B, args.comps, args.segments, args.acquisitions, args.histEPS, a, args.issues, args.modelSet, keShift)
+}
+
+export function handleValuationRequest<R extends ValuationRequest>(
+  request: R,
+  onProgress?: (done: number, total: number) => void,
+): ValuationResult<R> {
+  switch (request.kind) {
+    case "computeAll":
+      return runComputeAll(request.args) as ValuationResult<R>
+
+    case "grid": {
+      const { args, overrides, pick, keShifts } = request
+      const report = throttle(overrides.length, onProgress)
+      return overrides.map((o, k) => {
+        const c = runComputeAll(args, { ...args.a, ...o }, keShifts?.[k])
+        report(k + 1)
+        return Object.fromEntries(pick.map((key) => [key, c[key]])) as Partial<ComputedValuations>
+      }) as ValuationResult<R>
+    }
+
+    case "monteCarlo": {
+      const { inputs, n_sims, spec, options, from, to } = request.args
+      const price = createMonteCarloPricer(inputs, n_sims, spec, options)
+      const length = to - from
+      const prices: Record<string, Float64Array> = {}
+      const report = throttle(length, onProgress)
+      for (let i = from; i < to; i++) {
+        for (const [m, p] of Object.entries(price(i))) {
+          if (p !== undefined) (prices[m] ??= new Float64Array(length).fill(NaN))[i - from] = p
+        }
+        report(i - from + 1)
+      }
+      return { from, length, prices } as ValuationResult<R>
+    }
+  }
+}
+
+/** Draws of a chunk in index order, as the collector consumes them. */
+export function chunkDraws(chunk: MonteCarloChunk): MonteCarloDraw[] {
+  return Array.from({ length: chunk.length }, (_, k) => {
+    const draw: MonteCarloDraw = {}
+    for (const [m, col] of Object.entries(chunk.prices)) {
+      if (!Number.isNaN(col[k])) draw[m] = col[k]
+    }
+    return draw
+  })
+}
+
+/** Buffers a result can hand over to the other thread without copying. */
+export function transferables(result: ValuationResult<ValuationRequest>): Transferable[] {
+  if (result && typeof result === "object" && "prices" in result) {
+    return Object.values(result.prices).map((col) => col.buffer as ArrayBuffer)
+  }
+  return []
+}
+
+/** Answers one request message through `post` — the worker's message handler. */
+export function respondTo(
+  { id, request }: WorkerRequestMessage,
+  post: (message: WorkerResponseMessage, transfer?: Transferable[]) => void,
+): void {
+  try {
+    const result = handleValuationRequest(request, (done, total) => post({ id, type: "progress", done, total }))
+    post({ id, type: "result", result }, transferables(result))
+  } catch (err) {
+    const e = err instanceof Error ? err : new Error(String(err))
+    post({
+      id, type: "error", name: e.name, message: e.message,
+      problems: e instanceof SimulationSpecError ? e.problems : undefined,
+    })
+  }
+}
@@ -0,0 +1,382 @@
+/**
+ * Server-only module. Do NOT import in client components.
+ * Concept-mapping layer for the SEC companyfacts API: resolves each fundamental
+ * field to an ordered fallback chain of concept names per taxonomy, so US GAAP
+ * 10-K filers and IFRS 20-F filers (ASML, SAP, TSM ADRs) produce the same
+ * XbrlFundamentals shape.
+ */
+
+import type { XbrlCompanyFacts, XbrlConcept } from "./edgarXbrl"
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type Taxonomy = "us-gaap" | "ifrs-full"
+
+export type ConceptField =
+  // Income statement / cash flow (duration facts)
+  | "revenue"
+  | "ebit"
+  | "net_income"
+  | "interest_expense"
+  | "tax_expense"
+  | "da"
+  | "eps_diluted"
+  | "dps"
+  | "gross_profit"
+  | "ocf"
+  | "capex"
+  | "debt_issued"
+  | "debt_repaid"
+  | "shares_diluted"
+  | "shares_basic"
+  // Balance sheet (instant facts)
+  | "total_assets"
+  | "total_debt"
+  | "cash"
+  | "total_equity"
+  | "goodwill"
+  | "intangibles"
+  | "shares_outstanding"
+  // Financial institutions (absent for most filers)
+  | "net_interest_income"
+  | "credit_loss_provision"
+  | "deposits"
+  | "cet1_ratio"
+  // Real estate (absent for most filers)
+  | "re_depreciation"
+  | "gain_on_property_sales"
+  | "rental_revenue"
+  | "property_opex"
+  | "investment_property"
+  // Working capital and fixed assets (three-statement projection)
+  | "receivables"
+  | "inventory"
+  | "payables"
+  | "ppe"
+  // Share-based compensation (TSM dilution, SBC cash-cost toggle)
+  | "sbc"
+  | "options_outstanding"
+  | "options_strike"
+  | "rsus_outstanding"
+  // Non-operating claims and assets (EV-to-equity bridge)
+  | "operating_leases"
+  | "minority_interest"
+  | "preferred_stock"
+  | "pension_deficit"
+  | "equity_investments"
+  // Debt maturity ladder and revolver (projection debt schedule)
+  | "debt_due_1"
+  | "debt_due_2"
+  | "debt_due_3"
+  | "debt_due_4"
+  | "debt_due_5"
+  | "debt_due_later"
+  | "revolver_capacity"
+  | "revolver_drawn"
+
+// ── Concept chains ────────────────────────────────────────────────────────────
+
+/**
+ * Fields a taxonomy may leave out entirely: IFRS has no regulatory capital
+ * elements, and IFRS property companies carry investment property at fair value
+ * rather than depreciating it. IFRS 2 has no element for unvested share units
+ * other than options, and IFRS balance sheets carry preference shares inside
+ * equity or financial liabilities rather than as a separate line. IFRS 7
+ * maturity analyses and facility limits are tagged only on dimensions, which
+ * companyfacts does not carry.
+ */
+type OptionalConceptField =
+  | "cet1_ratio" | "re_depreciation" | "rsus_outstanding" | "preferred_stock"
+  | "debt_due_1" | "debt_due_2" | "debt_due_3" | "debt_due_4" | "debt_due_5" | "debt_due_later"
+  | "revolver_capacity" | "revolver_drawn"
+
+export const CONCEPT_MAP: Record<
+  Taxonomy,
+  Record<Exclude<ConceptField, OptionalConceptField>, string[]> & Partial<Record<OptionalConceptField, string[]>>
+> = {
+  "us-gaap": {
+    revenue: [
+      "RevenueFromContractWithCustomerExcludingAssessedTax",
+      "Revenues",
+      "SalesRevenueNet",
+      "SalesRevenueGoodsNet",
+      "RevenuesNetOfInterestExpense",
+    ],
+    ebit: ["OperatingIncomeLoss"],
+    net_income: [
+      "NetIncomeLoss",
+      "NetIncomeLossAvailableToCommonStockholdersBasic",
+      "ProfitLoss",
+    ],
+    interest_expense: [
+      "InterestExpense",
+      "InterestAndDebtExpense",
+      "InterestExpenseDebt",
+    ],
+    tax_expense: ["IncomeTaxExpenseBenefit"],
+    da: [
+      "DepreciationDepletionAndAmortization",
+      "DepreciationAndAmortization",
+      "Depreciation",
+      "DepreciationAmortizationAndAccretionNet",
+      "OtherDepreciationAndAmortization",
+      "DepreciationNonproduction",
+    ],
+    eps_diluted: [
+      "EarningsPerShareDiluted",
+      "EarningsPerShareBasicAndDiluted",
+    ],
+    dps: [
+      "CommonStockDividendsPerShareDeclared",
+      "CommonStockDividendsPerShareCashPaid",
+    ],
+    gross_profit: ["GrossProfit"],
+    ocf: [
+      "NetCashProvidedByUsedInOperatingActivities",
+      "NetCashProvidedByOperatingActivities",
+    ],
+    capex: [
+      "PaymentsToAcquirePropertyPlantAndEquipment",
+      "PaymentsToAcquireProductiveAssets",
+    ],
+    debt_issued: [
+      "ProceedsFromIssuanceOfLongTermDebt",
+      "ProceedsFromIssuanceOfDebt",
+    ],
+    debt_repaid: [
+      "RepaymentsOfLongTermDebt",
+      "RepaymentsOfDebt",
+    ],
+    shares_diluted: [
+      "WeightedAverageNumberOfDilutedSharesOutstanding",
+      "CommonStockSharesOutstanding",
+    ],
+    shares_basic: ["WeightedAverageNumberOfSharesOutstandingBasic"],
+    total_assets: ["Assets"],
+    total_debt: [
+      "LongTermDebtAndCapitalLeaseObligations",
+      "LongTermDebt",
+    ],
+    cash: [
+      "CashAndCashEquivalentsAtCarryingValue",
+      "CashCashEquivalentsAndShortTermInvestments",
+    ],
+    total_equity: [
+      "StockholdersEquity",
+      "StockholdersEquityIncludingPortionAttributableToNoncontrollingInterest",
+    ],
+    goodwill: ["Goodwill"],
+    intangibles: [
+      "FiniteLivedIntangibleAssetsNet",
+      "IntangibleAssetsNetExcludingGoodwill",
+    ],
+    shares_outstanding: ["CommonStockSharesOutstanding"],
+    net_interest_income: ["InterestIncomeExpenseNet"],
+    credit_loss_provision: [
+      "ProvisionForLoanLeaseAndOtherLosses",
+      "ProvisionForLoanAndLeaseLosses",
+      "FinancingReceivableCreditLossExpenseReversal",
+    ],
+    deposits: ["Deposits"],
+    cet1_ratio: [
+      "BankingRegulationCommonEquityTierOneRiskBasedCapitalRatioActual",
+      "CommonEquityTierOneCapitalRatio",
+    ],
+    re_depreciation: ["RealEstateAccumulatedDepreciationDepreciationExpense"],  // Schedule III
+    gain_on_property_sales: [
+      "GainsLossesOnSalesOfInvestmentRealEstate",
+      "GainLossOnSaleOfPropertiesNetOfApplicableIncomeTaxes",
+      "GainLossOnSaleOfPropertyPlantEquipment",
+    ],
+    rental_revenue: [
+      "OperatingLeaseLeaseIncome",
+      "OperatingLeasesIncomeStatementLeaseRevenue",
+    ],
+    property_opex: [
+      "DirectCostsOfLeasedAndRentedPropertyOrEquipment",
+      "CostOfOtherPropertyOperatingExpense",
+    ],
+    investment_property: [
+      "RealEstateInvestmentPropertyNet",
+      "RealEstateInvestmentPropertyAtCost",
+    ],
+    receivables: ["AccountsReceivableNetCurrent", "ReceivablesNetCurrent"],
+    inventory: ["InventoryNet"],
+    payables: ["AccountsPayableCurrent", "AccountsPayableAndAccruedLiabilitiesCurrent"],
+    ppe: [
+      "PropertyPlantAndEquipmentNet",
+      "PropertyPlantAndEquipmentAndFinanceLeaseRightOfUseAssetAfterAccumulatedDepreciationAndAmortization",
+    ],
+    sbc: ["ShareBasedCompensation", "AllocatedShareBasedCompensationExpense"],
+    options_outstanding: ["ShareBasedCompensationArrangementByShareBasedPaymentAwardOptionsOutstandingNumber"],
+    options_strike: [
+      "ShareBasedCompensationArrangementByShareBasedPaymentAwardOptionsOutstandingWeightedAverageExercisePrice",
+    ],
+    rsus_outstanding: [
+      "ShareBasedCompensationArrangementByShareBasedPaymentAwardEquityInstrumentsOtherThanOptionsNonvestedNumber",
+    ],
+    operating_leases: ["OperatingLeaseLiability", "OperatingLeaseLiabilityNoncurrent"],
+    minority_interest: ["MinorityInterest", "RedeemableNoncontrollingInterestEquityCarryingAmount"],
+    preferred_stock: ["PreferredStockValue", "PreferredStockValueOutstanding"],
+    pension_deficit: [
+      "DefinedBenefitPensionPlanLiabilitiesNoncurrent",
+      "PensionAndOtherPostretirementDefinedBenefitPlansLiabilitiesNoncurrent",
+    ],
+    equity_investments: ["EquityMethodInvestments"],
+    debt_due_1: ["LongTermDebtMaturitiesRepaymentsOfPrincipalInNextTwelveMonths"],
+    debt_due_2: ["LongTermDebtMaturitiesRepaymentsOfPrincipalInYearTwo"],
+    debt_due_3: ["LongTermDebtMaturitiesRepaymentsOfPrincipalInYearThree"],
+    debt_due_4: ["LongTermDebtMaturitiesRepaymentsOfPrincipalInYearFour"],
+    debt_due_5: ["LongTermDebtMaturitiesRepaymentsOfPrincipalInYearFive"],
+    debt_due_later: ["LongTermDebtMaturitiesRepaymentsOfPrincipalAfterYearFive"],
+    revolver_capacity: ["LineOfCreditFacilityMaximumBorrowingCapacity"],
+    revolver_drawn: ["LineOfCredit", "LongTermLineOfCredit"],
+  },
+
+  "ifrs-full": {
+    revenue: [
+      "Revenue",
+      "RevenueFromContractsWithCustomers",
+      "RevenueFromSaleOfGoods",
+    ],
+    ebit: [
+      "ProfitLossFromOperatingActivities",
+      "OperatingProfitLoss",
+    ],
+    net_income: [
+      "ProfitLossAttributableToOwnersOfParent",
+      "ProfitLoss",
+    ],
+    interest_expense: [
+      "InterestExpense",
+      "FinanceCosts",
+      "InterestExpenseOnBorrowings",
+    ],
+    tax_expense: [
+      "IncomeTaxExpenseContinuingOperations",
+      "CurrentTaxExpenseIncome",
+    ],
+    da: [
+      "DepreciationAndAmortisationExpense",
+      "AdjustmentsForDepreciationAndAmortisationExpense",
+      "DepreciationAmortisationAndImpairmentLossReversalOfImpairmentLossRecognisedInProfitOrLoss",
+      "DepreciationExpense",
+    ],
+    eps_diluted: [
+      "DilutedEarningsLossPerShare",
+      "BasicAndDilutedEarningsLossPerShare",
+      "DilutedEarningsLossPerShareFromContinuingOperations",
+    ],
+    dps: [
+      "DividendsRecognisedAsDistributionsToOwnersPerShare",
+      "DividendsProposedOrDeclaredBeforeFinancialStatementsAuthorisedForIssueButNotRecognisedAsDistributionToOwnersPerShare",
+    ],
+    gross_profit: ["GrossProfit"],
+    ocf: [
+      "CashFlowsFromUsedInOperatingActivities",
+      "CashFlowsFromUsedInOperations",
+    ],
+    capex: [
+      "PurchaseOfPropertyPlantAndEquipmentClassifiedAsInvestingActivities",
+      "PurchaseOfPropertyPlantAndEquipment",
+    ],
+    debt_issued: [
+      "ProceedsFromBorrowingsClassifiedAsFinancingActivities",
+      "ProceedsFromNoncurrentBorrowings",
+      "ProceedsFromIssueOfBondsNotesAndDebentures",
+    ],
+    debt_repaid: [
+      "RepaymentsOfBorrowingsClassifiedAsFinancingActivities",
+      "RepaymentsOfNoncurrentBorrowings",
+      "RepaymentsOfBondsNotesAndDebentures",
+    ],
+    shares_diluted: [
+      "AdjustedWeightedAverageShares",
+      "WeightedAverageShares",
+    ],
+    shares_basic: ["WeightedAverageShares"],
+    total_assets: ["Assets"],
+    total_debt: [
+      "NoncurrentBorrowings",
+      "LongtermBorrowings",
+      "Borrowings",
+    ],
+    cash: [
+      "CashAndCashEquivalents",
+      "Cash",
+    ],
+    total_equity: [
+      "EquityAttributableToOwnersOfParent",
+      "Equity",
+    ],
+    goodwill: ["Goodwill"],
+    intangibles: ["IntangibleAssetsOtherThanGoodwill"],
+    shares_outstanding: ["NumberOfSharesOutstanding"],
+    net_interest_income: ["InterestIncomeExpense", "NetInterestIncomeExpense"],
+    credit_loss_provision: [
+      "ImpairmentLossImpairmentGainAndReversalOfImpairmentLossDeterminedInAccordanceWithIFRS9",
+    ],
+    deposits: ["DepositsFromCustomers"],
+    gain_on_property_sales: ["GainsLossesOnDisposalsOfInvestmentProperties"],
+    rental_revenue: ["RentalIncomeFromInvestmentProperty"],
+    property_opex: ["DirectOperatingExpenseFromInvestmentProperty"],
+    investment_property: ["InvestmentProperty"],
+    receivables: ["TradeAndOtherCurrentReceivables", "CurrentTradeReceivables"],
+    inventory: ["Inventories"],
+    payables: ["TradeAndOtherCurrentPayables", "TradeAndOtherCurrentPayablesToTradeSuppliers"],
+    ppe: ["PropertyPlantAndEquipment"],
+    sbc: ["AdjustmentsForSharebasedPayments", "ExpenseFromSharebasedPaymentTransactionsWithEmployees"],
+    options_outstanding: ["NumberOfShareOptionsOutstandingInSharebasedPaymentArrangement"],
+    options_strike: ["WeightedAverageExercisePriceOfShareOptionsOutstandingInSharebasedPaymentArrangement"],
+    operating_leases: ["LeaseLiabilities", "NoncurrentLeaseLiabilities"],
+    minority_interest: ["NoncontrollingInterests"],
+    pension_deficit: ["NetDefinedBenefitLiabilityAssets"],
+    equity_investments: ["InvestmentsAccountedForUsingEquityMethod"],
+  },
+}
+
+// ── Resolution ────────────────────────────────────────────────────────────────
+
+/** Taxonomies in preference order when a filer tags both (e.g. dual-listed). */
+const TAXONOMY_ORDER: Taxonomy[] = ["us-gaap", "ifrs-full"]
+
+/** True if any revenue concept in the chain has at least one fact. */
+function hasRevenue(concepts: Record<string, XbrlConcept>, taxonomy: Taxonomy): boolean {
+  return CONCEPT_MAP[taxonomy].revenue.some((name) => {
+    const units = concepts[name]?.units
+    return !!units && Object.values(units).some((vals) => vals.length > 0)
+  })
+}
+
+/**
+ * Pick the taxonomy namespace that carries the company's primary statements.
+ * US GAAP wins when both are present and populated; returns null when neither has revenue.
+ */
+// exported for unit testing
+export function resolveTaxonomy(
+  data: Pick<XbrlCompanyFacts, "facts">,
+): { taxonomy: Taxonomy; concepts: Record<string, XbrlConcept> } | null {
+  for (const taxonomy of TAXONOMY_ORDER) {
+    const concepts = data.facts?.[taxonomy]
+    if (concepts && hasRevenue(concepts, taxonomy)) return { taxonomy, concepts }
+  }
+  return null
+}
+
+/**
+ * Reporting currency of the filer: the monetary unit key (ISO 4217 code) of the
+ * first populated revenue concept. Falls back to USD.
+ */
+// exported for unit testing
+export function reportingCurrency(
+  concepts: Record<string, XbrlConcept>,
+  taxonomy: Taxonomy,
+): string {
+  for (const name of CONCEPT_MAP[taxonomy].revenue) {
+    const units = concepts[name]?.units
+    if (!units) continue
+    const code = Object.keys(units).find((u) => /^[A-Z]{3}$/.test(u) && units[u].length > 0)
+    if (code) return code
+  }
+  return "USD"
+}
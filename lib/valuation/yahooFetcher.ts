@@ -6,13 +6,18 @@
  * Priority: XBRL primary for all fundamental data; Yahoo Finance for market data only.
  */
 
-import YahooFinance from "yahoo-finance2"
-import type { ValuationConfig, Baseline, HistoricalIS, NewsArticle } from "@/types/valuation"
-import { fetchXbrlFundamentals } from "./edgarXbrl"
+import type {
+  ValuationConfig, Baseline, HistoricalIS, QuarterlyIS, NewsArticle, FieldProvenance, Provenance,
+} from "@/types/valuation"
+import { fetchXbrlFundamentals, lookupCIK, type XbrlPeriodFigures, type XbrlSources } from "./edgarXbrl"
+import { derived, fromXbrl, fromYahoo, heuristic, missing, xbrlOr } from "./provenance"
+import { convertFundamentals, isIdentityConversion, resolveConversion } from "./fx"
+import { selectModelSet } from "./calculations"
+import { maturityTranches } from "./debtSchedule"
 import { fetchNews } from "./newsFetcher"
 import { fetchPeerComps } from "./peerFetcher"
-
-const yahooFinance = new YahooFinance()
+import { getProviders, type DataProviders, type FundamentalsProvider } from "./providers"
+import { describeError } from "./edgarClient"
 
 // ── Helpers ───────────────────────────────────────────────────────────────────
 
@@ -24,64 +29,315 @@ function n(v: unknown, fallback = 0): number {
 
 const M = 1_000_000  // Yahoo returns raw USD; divide by this → millions
 
-// ── SEC EDGAR ─────────────────────────────────────────────────────────────────
+/** AFFO: share of NOI assumed to be recurring (maintenance) capex. */
+const REIT_RECURRING_CAPEX_PCT_NOI = 0.10
 
-const EDGAR_UA = "MSF-AI-Finance contact@msf.ai"
+// ── SEC EDGAR ─────────────────────────────────────────────────────────────────
 
 export interface SecFiling {
   date: string
   url: string
   accessionNumber: string
   companyName: string
+  form?: string   // "10-K", or "20-F" / "40-F" for foreign private issuers
 }
 
-async function lookupCIK(ticker: string): Promise<string | null> {
-  try {
-    const res = await fetch("https://www.sec.gov/files/company_tickers.json", {
-      headers: { "User-Agent": EDGAR_UA },
-      next: { revalidate: 86_400 },   // cache 24 h
-    } as RequestInit)
-    const data: Record<string, { cik_str: number; ticker: string; title: string }> =
-      await res.json()
-    const entry = Object.values(data).find(
-      (e) => e.ticker.toUpperCase() === ticker.toUpperCase()
-    )
-    return entry ? String(entry.cik_str).padStart(10, "0") : null
-  } catch {
-    return null
+/** Latest annual report. Null if none was filed; rejects if EDGAR is unreachable. */
+async function fetchLatest10K(cik: string, fundamentals: FundamentalsProvider): Promise<SecFiling | null> {
+  const data = await fundamentals.submissions(cik)
+  const recent = data?.filings?.recent
+  if (!recent) return null
+
+  const forms: string[]      = recent.form ?? []
+  const dates: string[]      = recent.filingDate ?? []
+  const accessions: string[] = recent.accessionNumber ?? []
+  const docs: string[]       = recent.primaryDocument ?? []
+
+  const idx = forms.findIndex((f: string) => f === "10-K" || f === "20-F" || f === "40-F")
+  if (idx === -1 || !accessions[idx]) return null
+
+  const cikNum = cik.replace(/^0+/, "")
+  const acc    = accessions[idx].replace(/-/g, "")
+
+  return {
+    date:            dates[idx],
+    url:             `https://www.sec.gov/Archives/edgar/data/${cikNum}/${acc}/${docs[idx]}`,
+    accessionNumber: accessions[idx],
+    companyName:     String(data?.name ?? ""),
+    form:            forms[idx],
   }
 }
 
-async function fetchLatest10K(cik: string): Promise<SecFiling | null> {
-  try {
-    const res = await fetch(`https://data.sec.gov/submissions/CIK${cik}.json`, {
-      headers: { "User-Agent": EDGAR_UA },
-      next: { revalidate: 3_600 },    // cache 1 h
-    } as RequestInit)
-    const data = await res.json()
-    const recent = data.filings?.recent
-    if (!recent) return null
-
-    const forms: string[]      = recent.form ?? []
-    const dates: string[]      = recent.filingDate ?? []
-    const accessions: string[] = recent.accessionNumber ?? []
-    const docs: string[]       = recent.primaryDocument ?? []
-
-    const idx = forms.findIndex((f: string) => f === "10-K")
-    if (idx === -1) return null
-
-    const cikNum = cik.replace(/^0+/, "")
-    const acc    = accessions[idx].replace(/-/g, "")
-
-    return {
-      date:            dates[idx],
-      url:             `https://www.sec.gov/Archives/edgar/data/${cikNum}/${acc}/${docs[idx]}`,
-      accessionNumber: accessions[idx],
-      companyName:     String(data.name ?? ""),
-    }
-  } catch {
-    return null
+// ── Baseline assembly ─────────────────────────────────────────────────────────
+
+/** Yahoo market-data values used when an XBRL figure is unavailable. */
+interface MarketFallbacks {
+  currentPrice: number
+  trailingEps: number
+  dividendRate: number
+  bookValue: number
+  sharesOutstanding: number  // millions
+  payoutRatio: number
+}
+
+/**
+ * Map one XBRL period (fiscal year or TTM) onto a Baseline, with the provenance
+ * of every field. XBRL is primary for all fundamentals; Yahoo fills gaps and
+ * supplies the price. `fxNote` is appended to XBRL provenance when converted.
+ */
+function buildBaseline(
+  x: XbrlPeriodFigures | null | undefined,
+  y: MarketFallbacks,
+  sources?: XbrlSources,
+  fxNote?: string,
+  periodEnd?: string,
+): { baseline: Baseline; provenance: FieldProvenance<Baseline> } {
+  // Revenue / income
+  const revenue    = x?.revenue    ?? 0
+  const netIncome  = x?.net_income ?? 0
+  const eps        = x?.eps_diluted ?? y.trailingEps
+  const dps        = x?.dps        ?? y.dividendRate
+
+  // Margins — compute from XBRL data
+  const grossProfit  = x?.gross_profit ?? 0
+  const grossMargin  = revenue > 0 ? grossProfit / revenue : 0
+  const cogs         = revenue - grossProfit
+  const operatingInc = x?.ebit     ?? 0
+  const sga          = Math.max(0, grossProfit - operatingInc)
+
+  // D&A: use XBRL value; fall back to 3% of revenue if XBRL concept absent
+  const da = (x?.da_total ?? 0) > 0 ? (x?.da_total ?? 0) : revenue * 0.03
+
+  // EBITDA recomputed from EBIT + D&A so the fallback da is reflected
+  const ebitda       = operatingInc + da
+  const ebitdaMargin = revenue > 0 ? ebitda / revenue : 0
+
+  // Balance sheet
+  const totalDebt   = x?.total_debt   ?? 0
+  const cash        = x?.cash         ?? 0
+  const netDebt     = totalDebt - cash
+  const bvps        = x?.bvps         ?? y.bookValue
+  const totalEq     = x?.total_equity ?? (bvps * (x?.shares_diluted ?? y.sharesOutstanding))
+  const totalAssets = x?.total_assets ?? 0
+  const goodwill    = x?.goodwill     ?? 0
+  const sharesDil   = x?.shares_diluted ?? y.sharesOutstanding
+  const sharesBasic = x?.shares_basic   ?? sharesDil
+
+  // Cash flow
+  const ocf         = x?.ocf         ?? 0
+  const capex       = x?.capex       ?? (revenue * 0.025)  // 2.5% fallback only if no XBRL data
+  const netBorrow   = x?.net_borrowing ?? 0
+  const fcf         = ocf - capex
+
+  // Tax / interest
+  const taxRate      = x?.tax_rate    ?? 0.21
+  const interestExp  = x?.interest_expense ?? 0
+  const pretaxInc    = taxRate < 1 && taxRate > 0 ? netIncome / (1 - taxRate) : netIncome
+  const tax          = pretaxInc * taxRate
+
+  // Derived
+  const roe         = totalEq > 0 ? netIncome / totalEq : 0
+  const payoutRatio = x?.payout_ratio ?? (eps > 0 && dps > 0 ? Math.min(1, dps / eps) : y.payoutRatio)
+  const plowback    = 1 - payoutRatio
+
+  // Financial institutions: tangible equity and bank-specific line items
+  const tangibleEq  = totalEq - goodwill - (x?.intangibles ?? 0)
+  const hasTangible = !!x && tangibleEq > 0 && sharesDil > 0
+  const bank = {
+    ...(hasTangible ? { tbvps: tangibleEq / sharesDil, rote: netIncome / tangibleEq } : {}),
+    ...(x?.net_interest_income   ? { net_interest_income: x.net_interest_income } : {}),
+    ...(x?.credit_loss_provision ? { credit_loss_provision: x.credit_loss_provision } : {}),
+    ...(x?.deposits              ? { deposits: x.deposits } : {}),
+    ...(x?.cet1_ratio            ? { cet1_ratio: x.cet1_ratio } : {}),
+  }
+
+  // REITs: NAREIT FFO = net income + real estate depreciation − gains on property sales.
+  // Recurring (maintenance) capex isn't tagged, so AFFO deducts 10% of NOI.
+  // NOI needs reported property opex — without it rental revenue would be
+  // capitalised as NOI — so NOI and AFFO are left unset (NAV and P/AFFO N/A).
+  const isReit      = !!x && (x.re_depreciation > 0 || x.rental_revenue > 0 || x.investment_property > 0)
+  const reDep       = (x?.re_depreciation ?? 0) > 0 ? x!.re_depreciation : da
+  const rentBase    = (x?.rental_revenue ?? 0) > 0 ? x!.rental_revenue : revenue
+  const noi         = (x?.property_opex ?? 0) > 0 ? rentBase - x!.property_opex : 0
+  const ffo         = netIncome + reDep - (x?.gain_on_property_sales ?? 0)
+  const affo        = ffo - REIT_RECURRING_CAPEX_PCT_NOI * noi
+  const reit = isReit && sharesDil > 0
+    ? {
+        ffo,
+        ffo_ps: ffo / sharesDil,
+        ...(noi > 0 ? { noi, affo, affo_ps: affo / sharesDil } : {}),
+        ...(x!.investment_property > 0 ? { investment_property: x!.investment_property } : {}),
+      }
+    : {}
+
+  // Three-statement projection: working capital balances and net PP&E
+  const balances = {
+    ...((x?.receivables ?? 0) > 0 ? { receivables: x!.receivables } : {}),
+    ...((x?.inventory   ?? 0) > 0 ? { inventory:   x!.inventory }   : {}),
+    ...((x?.payables    ?? 0) > 0 ? { payables:    x!.payables }    : {}),
+    ...((x?.ppe         ?? 0) > 0 ? { ppe:         x!.ppe }         : {}),
   }
+
+  // Share-based compensation: SBC expense and the dilutive securities behind the TSM share count
+  const equityComp = {
+    ...((x?.sbc ?? 0) > 0 ? { sbc: x!.sbc } : {}),
+    ...((x?.options_outstanding ?? 0) > 0 ? { options_outstanding: x!.options_outstanding } : {}),
+    ...((x?.options_outstanding ?? 0) > 0 && (x?.options_strike ?? 0) > 0 ? { options_strike: x!.options_strike } : {}),
+    ...((x?.rsus_outstanding ?? 0) > 0 ? { rsus_outstanding: x!.rsus_outstanding } : {}),
+  }
+
+  // EV-to-equity bridge: non-operating claims and assets beyond debt and cash
+  const claims = {
+    ...((x?.operating_leases   ?? 0) > 0 ? { operating_leases:   x!.operating_leases }   : {}),
+    ...((x?.minority_interest  ?? 0) > 0 ? { minority_interest:  x!.minority_interest }  : {}),
+    ...((x?.preferred_stock    ?? 0) > 0 ? { preferred_stock:    x!.preferred_stock }    : {}),
+    ...((x?.pension_deficit    ?? 0) > 0 ? { pension_deficit:    x!.pension_deficit }    : {}),
+    ...((x?.equity_investments ?? 0) > 0 ? { equity_investments: x!.equity_investments } : {}),
+  }
+
+  // Debt schedule: the maturity ladder becomes dated tranches at the implied
+  // interest rate, and the revolver may draw up to its undrawn capacity
+  const ladder     = x ? [x.debt_due_1, x.debt_due_2, x.debt_due_3, x.debt_due_4, x.debt_due_5, x.debt_due_later] : []
+  const periodYear = periodEnd ? new Date(periodEnd).getFullYear() : NaN
+  const tranches   = totalDebt > 0 && !isNaN(periodYear)
+    ? maturityTranches(totalDebt, ladder, interestExp / totalDebt, periodYear + 1)
+    : []
+  const debtTerms = {
+    ...(tranches.length ? { debt_tranches: tranches } : {}),
+    ...((x?.revolver_capacity ?? 0) > 0
+      ? { revolver_limit: Math.max(0, x!.revolver_capacity - x!.revolver_drawn) }
+      : {}),
+  }
+
+  // Provenance. XBRL fields are 0 (not null) when a concept is absent, so Yahoo
+  // only stands in when there was no XBRL period at all.
+  const xb = (field: keyof XbrlSources, what: string, yahoo?: Provenance): Provenance =>
+    xbrlOr(sources, field, x || !yahoo ? missing(what) : yahoo, fxNote)
+  const daFallback   = !((x?.da_total ?? 0) > 0)
+  const taxFallback  = !x || x.ebit - x.interest_expense <= 0
+  const ebitdaProv   = derived(`EBIT + D&A${daFallback ? " (D&A at 3% of revenue)" : ""}`)
+  const marginProv   = derived("EBITDA ÷ revenue")
+  const netIncProv   = xb("net_income", "net income")
+  const epsProv      = xb("eps_diluted", "diluted EPS", fromYahoo("defaultKeyStatistics.trailingEps"))
+  const ebitProv     = xb("ebit", "operating income")
+  const sharesProv   = xb("shares_diluted", "diluted shares", fromYahoo("defaultKeyStatistics.sharesOutstanding"))
+  const borrowSource = sources?.debt_issued ?? sources?.debt_repaid
+  const borrowProv   = borrowSource ? fromXbrl(borrowSource, fxNote) : null
+
+  const provenance: FieldProvenance<Baseline> = {
+    revenue:           xb("revenue", "revenue"),
+    ebitda:            ebitdaProv,
+    adj_ebitda:        ebitdaProv,
+    adj_ebitda_margin: marginProv,
+    ebitda_margin:     marginProv,
+    net_income:        netIncProv,
+    adj_net_income:    netIncProv,
+    fcf:               derived("Operating cash flow − capex"),
+    adj_eps:           epsProv,
+    eps:               epsProv,
+    dps:               xb("dps", "dividends per share", fromYahoo("summaryDetail.dividendRate")),
+    current_price:     fromYahoo("price.regularMarketPrice"),
+    shares_diluted:    sharesProv,
+    net_debt:          derived("Total debt − cash"),
+    bvps:              x ? derived("Total equity ÷ diluted shares") : fromYahoo("defaultKeyStatistics.bookValue"),
+    roe:               derived("Net income ÷ total equity"),
+    total_debt:        xb("total_debt", "total debt"),
+    total_equity:      x ? xb("total_equity", "total equity") : derived("BVPS × shares outstanding"),
+    total_assets:      xb("total_assets", "total assets"),
+    goodwill:          xb("goodwill", "goodwill"),
+    tax_rate:          taxFallback
+      ? heuristic("21% statutory rate (no positive pre-tax income)")
+      : derived("Tax expense ÷ (EBIT − interest), clamped 0–50%"),
+    payout_ratio:      x || (eps > 0 && dps > 0)
+      ? derived("DPS ÷ EPS, capped at 100%")
+      : fromYahoo("summaryDetail.payoutRatio"),
+    plowback_ratio:    derived("1 − payout ratio"),
+    gross_margin:      derived("Gross profit ÷ revenue"),
+    cogs:              derived("Revenue − gross profit"),
+    gross_profit:      xb("gross_profit", "gross profit"),
+    sga:               derived("Gross profit − operating income (floored at 0)"),
+    da_total:          daFallback ? heuristic("3% of revenue (no D&A reported)") : xb("da", "D&A"),
+    operating_income:  ebitProv,
+    interest_expense:  xb("interest_expense", "interest expense"),
+    pretax_income:     derived("Net income ÷ (1 − tax rate)"),
+    tax:               derived("Pre-tax income × tax rate"),
+    ocf:               xb("ocf", "operating cash flow"),
+    ebit:              ebitProv,
+    shares_basic:      x ? xb("shares_basic", "basic shares") : sharesProv,
+    capex:             x ? xb("capex", "capex") : heuristic("2.5% of revenue (no capex reported)"),
+    net_borrowing:     borrowProv
+      ? { ...borrowProv, kind: "derived", detail: `Debt issued − debt repaid · ${borrowProv.detail}` }
+      : missing("debt issuance / repayment"),
+    ...(bank.tbvps !== undefined
+      ? {
+          tbvps: derived("(Total equity − goodwill − intangibles) ÷ diluted shares"),
+          rote:  derived("Net income ÷ tangible equity"),
+        }
+      : {}),
+    ...(bank.net_interest_income   !== undefined ? { net_interest_income:   xb("net_interest_income", "net interest income") } : {}),
+    ...(bank.credit_loss_provision !== undefined ? { credit_loss_provision: xb("credit_loss_provision", "credit loss provision") } : {}),
+    ...(bank.deposits              !== undefined ? { deposits:              xb("deposits", "deposits") } : {}),
+    ...(bank.cet1_ratio            !== undefined ? { cet1_ratio:            xb("cet1_ratio", "CET1 ratio") } : {}),
+    ...("ffo" in reit
+      ? {
+          ffo: derived(
+            (x!.re_depreciation > 0 ? "Net income + real estate depreciation" : "Net income + total D&A (no real estate depreciation reported)")
+            + " − gains on property sales",
+          ),
+          ffo_ps:  derived("FFO ÷ diluted shares"),
+        }
+      : {}),
+    ...("noi" in reit
+      ? {
+          noi:     derived(x!.rental_revenue > 0 ? "Rental revenue − property operating expenses" : "Revenue − property operating expenses"),
+          affo:    heuristic("FFO − recurring capex at 10% of NOI"),
+          affo_ps: heuristic("AFFO ÷ diluted shares (recurring capex at 10% of NOI)"),
+        }
+      : {}),
+    ...("investment_property" in reit ? { investment_property: xb("investment_property", "investment property") } : {}),
+    ...("receivables" in balances ? { receivables: xb("receivables", "accounts receivable") } : {}),
+    ...("inventory"   in balances ? { inventory:   xb("inventory", "inventory") } : {}),
+    ...("payables"    in balances ? { payables:    xb("payables", "accounts payable") } : {}),
+    ...("ppe"         in balances ? { ppe:         xb("ppe", "net PP&E") } : {}),
+    ...("sbc" in equityComp ? { sbc: xb("sbc", "share-based compensation") } : {}),
+    ...("options_outstanding" in equityComp ? { options_outstanding: xb("options_outstanding", "options outstanding") } : {}),
+    ...("options_strike"      in equityComp ? { options_strike:      xb("options_strike", "option exercise price") } : {}),
+    ...("rsus_outstanding" in equityComp ? { rsus_outstanding: xb("rsus_outstanding", "unvested RSUs") } : {}),
+    ...("operating_leases"   in claims ? { operating_leases:   xb("operating_leases", "operating lease liabilities") } : {}),
+    ...("minority_interest"  in claims ? { minority_interest:  xb("minority_interest", "minority interest") } : {}),
+    ...("preferred_stock"    in claims ? { preferred_stock:    xb("preferred_stock", "preferred stock") } : {}),
+    ...("pension_deficit"    in claims ? { pension_deficit:    xb("pension_deficit", "pension deficit") } : {}),
+    ...("equity_investments" in claims ? { equity_investments: xb("equity_investments", "equity investments") } : {}),
+    ...("debt_tranches" in debtTerms
+      ? { debt_tranches: derived("Long-term debt maturities by year (XBRL), remainder as other debt, at interest expense ÷ total debt") }
+      : {}),
+    ...("revolver_limit" in debtTerms ? { revolver_limit: derived("Line-of-credit capacity − amount drawn (XBRL)") } : {}),
+  }
+
+  const baseline: Baseline = {
+    revenue, ebitda, adj_ebitda: ebitda,
+    adj_ebitda_margin: ebitdaMargin, ebitda_margin: ebitdaMargin,
+    net_income: netIncome, adj_net_income: netIncome,
+    fcf, adj_eps: eps, eps, dps,
+    current_price: y.currentPrice, shares_diluted: sharesDil,
+    net_debt: netDebt, bvps, roe,
+    total_debt: totalDebt, total_equity: totalEq,
+    total_assets: totalAssets, goodwill, tax_rate: taxRate,
+    payout_ratio: payoutRatio, plowback_ratio: plowback,
+    gross_margin: grossMargin, cogs, gross_profit: grossProfit,
+    sga, da_total: da, operating_income: operatingInc,
+    interest_expense: interestExp, pretax_income: pretaxInc, tax,
+    // New fields
+    ocf, ebit: operatingInc, shares_basic: sharesBasic,
+    capex, net_borrowing: netBorrow,
+    ...bank,
+    ...reit,
+    ...balances,
+    ...equityComp,
+    ...claims,
+    ...debtTerms,
+  }
+  return { baseline, provenance }
 }
 
 // ── Main fetcher ──────────────────────────────────────────────────────────────
@@ -93,40 +349,63 @@ export interface FetchResult {
   cachedAt: string
 }
 
-export async function fetchLiveConfig(ticker: string): Promise<FetchResult> {
+/**
+ * Build a ValuationConfig for `ticker`. Data sources come from `providers`
+ * (defaults to the env-selected providers — see providers.ts).
+ */
+export async function fetchLiveConfig(
+  ticker: string,
+  providers: DataProviders = getProviders(ticker),
+): Promise<FetchResult> {
   const T = ticker.toUpperCase()
 
+  // EDGAR failures degrade to Yahoo-only figures, but the reason is kept and shown
+  const warnings: string[] = []
+  const report = (what: string) => (err: unknown): null => {
+    warnings.push(`${what}: ${describeError(err)}`)
+    return null
+  }
+
   // ── Parallel fetch: Yahoo (market data only) + SEC CIK lookup ─────────────
   const [quote, cik] = await Promise.all([
-    yahooFinance.quoteSummary(T, {
-      modules: [
-        "price",
-        "defaultKeyStatistics",
-        "summaryDetail",
-        "assetProfile",
-        // Removed: financialData, incomeStatementHistory, cashflowStatementHistory, balanceSheetHistory
-        // These were deprecated by Yahoo Finance in Nov 2024; XBRL is now the primary source
-      ],
-    }),
-    lookupCIK(T),
+    providers.market.quoteSummary(T, [
+      "price",
+      "defaultKeyStatistics",
+      "summaryDetail",
+      "assetProfile",
+      // Removed: financialData, incomeStatementHistory, cashflowStatementHistory, balanceSheetHistory
+      // These were deprecated by Yahoo Finance in Nov 2024; XBRL is now the primary source
+    ]),
+    lookupCIK(T, providers.fundamentals).catch(report("SEC ticker lookup failed")),
   ])
 
   // ── Parallel fetch: 10-K metadata + XBRL fundamentals + news + peer comps ──
   const companyName = String((quote.price as { longName?: string; shortName?: string })?.longName ?? "")
   const sector = String((quote.assetProfile as { sector?: string })?.sector ?? "")
-  const [sec, xbrl, news, liveComps] = await Promise.all([
-    cik ? fetchLatest10K(cik) : Promise.resolve(null),
-    cik ? fetchXbrlFundamentals(cik) : Promise.resolve(null),
-    fetchNews(T, companyName),
-    fetchPeerComps(T, sector),
+  const [sec, reported, news, liveComps] = await Promise.all([
+    cik
+      ? fetchLatest10K(cik, providers.fundamentals).catch(report("SEC submissions unavailable"))
+      : Promise.resolve(null),
+    cik
+      ? fetchXbrlFundamentals(cik, providers.fundamentals).catch(report("SEC XBRL facts unavailable"))
+      : Promise.resolve(null),
+    fetchNews(T, companyName, providers.market),
+    fetchPeerComps(T, sector, providers.market, providers.fundamentals),
   ])
+  // Lookups that succeeded but found nothing
+  if (!cik && warnings.length === 0) {
+    warnings.push(`${T} not found in the SEC ticker table — fundamentals from Yahoo Finance`)
+  }
+  if (cik && !reported && !warnings.some((w) => w.startsWith("SEC XBRL"))) {
+    warnings.push("No usable SEC XBRL financial data — fundamentals from Yahoo Finance")
+  }
 
   // ── Yahoo market data (always live) ──────────────────────────────────────
   // Type assertions needed because reduced module set narrows types
   type PriceModule = { regularMarketPrice?: number; longName?: string; shortName?: string; exchangeName?: string; currency?: string }
   type KsModule    = { trailingEps?: number; beta?: number; bookValue?: number; sharesOutstanding?: number; earningsQuarterlyGrowth?: number }
   type SdModule    = { dividendRate?: number; lastDividendValue?: number; payoutRatio?: number; beta?: number }
-  type ApModule    = { industry?: string }
+  type ApModule    = { industry?: string; country?: string }
 
   const price = (quote.price               ?? {}) as PriceModule
   const ks    = (quote.defaultKeyStatistics ?? {}) as KsModule
@@ -134,58 +413,40 @@ export async function fetchLiveConfig(ticker: string): Promise<FetchResult> {
   const ap    = (quote.assetProfile        ?? {}) as ApModule
 
   const currentPrice = n(price.regularMarketPrice)
+  const currency     = String(price.currency ?? "USD")
+
+  // ── FX: restate XBRL in the trading currency and per traded (ADR) share ────
+  const conversion = reported ? await resolveConversion(reported, currency, T) : null
+  if (conversion && conversion.missing.length > 0) {
+    warnings.push(`No FX rate ${conversion.missing.join(", ")}→${currency}; values left unconverted`)
+  }
+  for (const w of warnings) console.warn(`[fetchLiveConfig/${T}] ${w}`)
+  const fx   = conversion && !isIdentityConversion(conversion) ? conversion : null
+  const xbrl = reported && fx ? convertFundamentals(reported, fx) : reported
   const beta         = n(ks.beta ?? sd.beta, 1.0)
 
   // ── Fundamentals: XBRL primary, Yahoo fallback ────────────────────────────
-
-  // Revenue / income
-  const revenue    = xbrl?.revenue    ?? 0
-  const netIncome  = xbrl?.net_income ?? 0
-  const eps        = xbrl?.eps_diluted ?? n(ks.trailingEps)
-  const dps        = xbrl?.dps        ?? n(sd.dividendRate ?? sd.lastDividendValue)
-
-  // Margins — compute from XBRL data
-  const grossProfit  = xbrl?.gross_profit ?? 0
-  const grossMargin  = revenue > 0 ? grossProfit / revenue : 0
-  const cogs         = revenue - grossProfit
-  const operatingInc = xbrl?.ebit     ?? 0
-  const opMargin     = revenue > 0 ? operatingInc / revenue : 0
-  const sga          = Math.max(0, grossProfit - operatingInc)
-
-  // D&A: use XBRL value; fall back to 3% of revenue if XBRL concept absent
-  const da = (xbrl?.da_total ?? 0) > 0 ? (xbrl?.da_total ?? 0) : revenue * 0.03
-
-  // EBITDA recomputed from EBIT + D&A so the fallback da is reflected
-  const ebitda       = operatingInc + da
-  const ebitdaMargin = revenue > 0 ? ebitda / revenue : 0
-
-  // Balance sheet
-  const totalDebt   = xbrl?.total_debt   ?? 0
-  const cash        = xbrl?.cash         ?? 0
-  const netDebt     = totalDebt - cash
-  const bvps        = xbrl?.bvps         ?? n(ks.bookValue)
-  const totalEq     = xbrl?.total_equity ?? (bvps * (xbrl?.shares_diluted ?? n(ks.sharesOutstanding) / M))
-  const totalAssets = xbrl?.total_assets ?? 0
-  const goodwill    = xbrl?.goodwill     ?? 0
-  const sharesDil   = xbrl?.shares_diluted ?? n(ks.sharesOutstanding) / M
-  const sharesBasic = xbrl?.shares_basic   ?? sharesDil
-
-  // Cash flow
-  const ocf         = xbrl?.ocf         ?? 0
-  const capex       = xbrl?.capex       ?? (revenue * 0.025)  // 2.5% fallback only if no XBRL data
-  const netBorrow   = xbrl?.net_borrowing ?? 0
-  const fcf         = ocf - capex
-
-  // Tax / interest
-  const taxRate      = xbrl?.tax_rate    ?? 0.21
-  const interestExp  = xbrl?.interest_expense ?? 0
-  const pretaxInc    = taxRate < 1 && taxRate > 0 ? netIncome / (1 - taxRate) : netIncome
-  const tax          = pretaxInc * taxRate
-
-  // Derived
-  const roe         = totalEq > 0 ? netIncome / totalEq : 0
-  const payoutRatio = xbrl?.payout_ratio ?? (eps > 0 && dps > 0 ? Math.min(1, dps / eps) : n(sd.payoutRatio))
-  const plowback    = 1 - payoutRatio
+  const market: MarketFallbacks = {
+    currentPrice,
+    trailingEps:       n(ks.trailingEps),
+    dividendRate:      n(sd.dividendRate ?? sd.lastDividendValue),
+    bookValue:         n(ks.bookValue),
+    sharesOutstanding: n(ks.sharesOutstanding) / M,
+    payoutRatio:       n(sd.payoutRatio),
+  }
+  const fxNote = fx ? `converted ${fx.from}→${fx.to}` : undefined
+  const fy     = buildBaseline(xbrl, market, xbrl?.sources, fxNote, xbrl?.fiscalYearEnd)
+  const ttm    = xbrl?.ttm ? buildBaseline(xbrl.ttm, market, xbrl.ttm.sources, fxNote, xbrl.ttm.periodEnd) : undefined
+  // The standard decides whether lease liabilities belong in the EV bridge (see evBridge.ts)
+  const standard = xbrl ? { reporting_standard: xbrl.taxonomy === "ifrs-full" ? "ifrs" as const : "us-gaap" as const } : {}
+  const baseline: Baseline = xbrl?.fiscalYearEnd
+    ? { ...fy.baseline, ...standard, period_end: xbrl.fiscalYearEnd }
+    : { ...fy.baseline, ...standard }
+  const baseline_ttm: Baseline | undefined = ttm && xbrl?.ttm
+    ? { ...ttm.baseline, ...standard, period_end: xbrl.ttm.periodEnd }
+    : undefined
+  const { revenue, operating_income: operatingInc, capex, tax_rate: taxRate } = baseline
+  const opMargin = revenue > 0 ? operatingInc / revenue : 0
 
   // ── Historical income statement ────────────────────────────────────────────
   // XBRL hist arrays come oldest→newest and are already in millions
@@ -208,25 +469,6 @@ export async function fetchLiveConfig(ticker: string): Promise<FetchResult> {
   const histCapex:     number[] = hist?.capex       ?? []
   const histBvps:      number[] = hist?.bvps        ?? []
 
-  // ── Assemble Baseline ─────────────────────────────────────────────────────
-  const baseline: Baseline = {
-    revenue, ebitda, adj_ebitda: ebitda,
-    adj_ebitda_margin: ebitdaMargin, ebitda_margin: ebitdaMargin,
-    net_income: netIncome, adj_net_income: netIncome,
-    fcf, adj_eps: eps, eps, dps,
-    current_price: currentPrice, shares_diluted: sharesDil,
-    net_debt: netDebt, bvps, roe,
-    total_debt: totalDebt, total_equity: totalEq,
-    total_assets: totalAssets, goodwill, tax_rate: taxRate,
-    payout_ratio: payoutRatio, plowback_ratio: plowback,
-    gross_margin: grossMargin, cogs, gross_profit: grossProfit,
-    sga, da_total: da, operating_income: operatingInc,
-    interest_expense: interestExp, pretax_income: pretaxInc, tax,
-    // New fields
-    ocf, ebit: operatingInc, shares_basic: sharesBasic,
-    capex, net_borrowing: netBorrow,
-  }
-
   // ── Assemble HistoricalIS ─────────────────────────────────────────────────
   const historical_is: HistoricalIS = {
     year:       histYear,
@@ -240,6 +482,34 @@ export async function fetchLiveConfig(ticker: string): Promise<FetchResult> {
     bvps:       histBvps,
   }
 
+  // Series provenance cites the latest fiscal year's fact (same concept chain throughout)
+  const series = (field: keyof XbrlSources, what: string) => xbrlOr(xbrl?.sources, field, missing(what), fxNote)
+  const historicalProvenance: FieldProvenance<HistoricalIS> = {
+    year:       series("revenue", "fiscal years"),
+    revenue:    series("revenue", "revenue"),
+    ebitda:     derived("EBIT + D&A per year (D&A at 3% of revenue where not reported)"),
+    net_income: series("net_income", "net income"),
+    eps:        series("eps_diluted", "diluted EPS"),
+    dps:        series("dps", "dividends per share"),
+    ocf:        series("ocf", "operating cash flow"),
+    capex:      series("capex", "capex"),
+    bvps:       derived("Total equity ÷ diluted shares per year"),
+  }
+
+  // ── Assemble QuarterlyIS (same D&A fallback as the annual EBITDA) ───────────
+  const q = xbrl?.quarterly
+  const quarterly_is: QuarterlyIS | undefined = q && q.end.length > 0
+    ? {
+        period_end: q.end,
+        revenue:    q.revenue,
+        ebitda:     q.ebit.map((e, i) => e + ((q.da[i] ?? 0) > 0 ? q.da[i] : (q.revenue[i] ?? 0) * 0.03)),
+        net_income: q.net_income,
+        eps:        q.eps_diluted,
+        ocf:        q.ocf,
+        capex:      q.capex,
+      }
+    : undefined
+
   // ── Assemble ValuationConfig ──────────────────────────────────────────────
   const config: ValuationConfig = {
     ticker: T,
@@ -248,16 +518,38 @@ export async function fetchLiveConfig(ticker: string): Promise<FetchResult> {
     fiscal_year: xbrl?.fiscalYearEnd
       ? `FY${new Date(xbrl.fiscalYearEnd).getFullYear()}`
       : `FY${new Date().getFullYear() - 1}`,
-    currency:    String(price.currency ?? "USD"),
+    currency,
     units:       "millions",
     sources:     sec
-      ? `SEC EDGAR XBRL (${xbrl?.filedDate ?? sec.date}) · Yahoo Finance (market data)`
+      ? `SEC EDGAR XBRL${xbrl?.taxonomy === "ifrs-full" ? " (IFRS)" : ""} (${xbrl?.filedDate ?? sec.date})`
+        + (fx ? ` · FX ${fx.from}→${fx.to} ${(fx.rates[fx.from] ?? 1).toFixed(4)} (${fx.source})` : "")
+        + (fx && fx.adrRatio !== 1 ? ` · ADR = ${fx.adrRatio} ord. shares` : "")
+        + " · Yahoo Finance (market data)"
       : "Yahoo Finance live (no SEC XBRL data)",
     disclaimer: sec
-      ? `Latest 10-K: ${sec.url}`
+      ? `Latest ${sec.form ?? "10-K"}: ${sec.url}`
       : "Live data from Yahoo Finance. For informational purposes only.",
     baseline,
+    baseline_ttm,
+    ttm_period_end: xbrl?.ttm?.periodEnd,
+    fx: fx
+      ? {
+          reporting_currency: fx.from,
+          rate:               fx.rates[fx.from] ?? 1,
+          source:             fx.source,
+          adr_ratio:          fx.adrRatio,
+        }
+      : undefined,
+    data_warnings: warnings.length > 0 ? warnings : undefined,
+    provenance: {
+      baseline:      fy.provenance,
+      baseline_ttm:  ttm?.provenance,
+      historical_is: historicalProvenance,
+    },
     historical_is,
+    quarterly_is,
+    sector:    sector || undefined,
+    model_set: selectModelSet(sector),
     segments: {
       [String(ap.industry ?? "Core Business")]: {
         revenue,
@@ -276,6 +568,9 @@ export async function fetchLiveConfig(ticker: string): Promise<FetchResult> {
       beta,
       capex_pct: revenue > 0 ? capex / revenue : 0.03,
       tax_rate: taxRate,
+      // rf restated to the trading currency; CRP from the domicile until revenue by country is entered
+      currency,
+      ...(ap.country ? { country_exposure: [{ country: ap.country, weight: 1 }] } : {}),
     },
     overview_metrics: {
       revenue_growth: histRevenue.length >= 2 && histRevenue[histRevenue.length - 2] > 0
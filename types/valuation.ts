@@ -37,6 +37,50 @@ export interface Baseline {
   shares_basic: number  // basic shares outstanding (millions)
   capex: number         // capital expenditures as positive (millions)
   net_borrowing: number // net new debt issued − repaid (millions)
+  // Working capital and fixed assets — drive the three-statement projection when reported
+  receivables?: number  // accounts receivable (millions)
+  inventory?: number    // millions
+  payables?: number     // accounts payable (millions)
+  ppe?: number          // net property, plant & equipment (millions)
+  // Financial institutions — set when tangible equity is positive / the filer reports them
+  tbvps?: number                  // tangible book value per share (equity − goodwill − intangibles)
+  rote?: number                   // return on tangible equity
+  net_interest_income?: number    // millions
+  credit_loss_provision?: number  // millions
+  deposits?: number               // millions
+  cet1_ratio?: number             // fraction
+  // REITs — set when the filer reports rental / real estate figures
+  ffo?: number                    // funds from operations: NI + real estate D&A − property-sale gains (millions)
+  affo?: number                   // adjusted FFO: FFO − recurring capex (millions)
+  ffo_ps?: number
+  affo_ps?: number
+  noi?: number                    // net operating income: rental revenue − property opex (millions)
+  investment_property?: number    // real estate investment property, net (millions)
+  period_end?: string             // ISO end date of the baseline period (fiscal year end, or TTM quarter end)
+  reporting_standard?: "us-gaap" | "ifrs"  // filer's accounting standard; US GAAP when absent
+  // Debt schedule — when absent, existing debt is one tranche at the implied interest rate
+  debt_tranches?: DebtTranche[]
+  revolver_limit?: number         // committed revolver capacity (millions); uncapped when absent
+  // Share-based compensation — when options / RSUs are reported, per-share values use the TSM share count
+  sbc?: number                    // share-based compensation expense (millions)
+  options_outstanding?: number    // millions
+  options_strike?: number         // weighted-average exercise price (per share)
+  rsus_outstanding?: number       // unvested RSUs (millions)
+  // EV-to-equity bridge items beyond debt and cash (millions)
+  operating_leases?: number
+  minority_interest?: number
+  preferred_stock?: number
+  pension_deficit?: number
+  equity_investments?: number
+}
+
+/** One borrowing in the projection debt schedule. */
+export interface DebtTranche {
+  name: string
+  balance: number          // opening principal (millions)
+  rate: number             // all-in interest rate
+  maturity_year?: number   // remaining principal is repaid in this year
+  amortization?: number    // mandatory annual repayment (millions)
 }
 
 export interface HistoricalIS {
@@ -52,6 +96,19 @@ export interface HistoricalIS {
   bvps: number[]
 }
 
+export interface QuarterlyIS {
+  period_end: string[]  // fiscal quarter end dates (oldest → newest)
+  revenue: number[]
+  ebitda: number[]
+  net_income: number[]
+  eps: number[]
+  ocf: number[]
+  capex: number[]
+}
+
+/** Which reporting period the active Baseline reflects. */
+export type ValuationBasis = "FY" | "TTM"
+
 export interface Segment {
   revenue: number
   adj_op_margin: number
@@ -64,6 +121,48 @@ export interface Comp {
   peg: number
   pb: number
   pcf: number  // P/CF multiple
+  ptbv?: number  // price / tangible book from XBRL (financials)
+  rote?: number  // return on tangible equity from XBRL (financials)
+  pffo?: number  // price / FFO (REITs)
+  pffo_basis?: "ffo" | "ocf"  // "ocf": pffo is price / operating cash flow standing in for FFO (default "ffo")
+  paffo?: number // price / AFFO (REITs)
+  beta?: number     // levered regression beta
+  de_ratio?: number // market debt / equity
+}
+
+// ── Data provenance ───────────────────────────────────────────────────────────
+
+export type ProvenanceKind =
+  | "xbrl"       // read from an SEC filing
+  | "yahoo"      // Yahoo Finance quoteSummary
+  | "derived"    // computed from other fields
+  | "heuristic"  // named rule-of-thumb fallback (e.g. D&A = 3% of revenue)
+  | "missing"    // no source had data; value defaulted to 0
+
+export interface Provenance {
+  kind: ProvenanceKind
+  detail: string          // one-line description shown on hover
+  concept?: string        // XBRL concept, e.g. "us-gaap:Revenues"
+  accession?: string      // SEC accession number of the filing
+  filed?: string          // filing date
+  form?: string           // "10-K", "10-Q", "20-F"…
+  period_end?: string
+  module?: string         // Yahoo module.field, e.g. "defaultKeyStatistics.trailingEps"
+}
+
+export type FieldProvenance<T> = Partial<Record<keyof T, Provenance>>
+
+export interface ProvenanceMap {
+  baseline: FieldProvenance<Baseline>
+  baseline_ttm?: FieldProvenance<Baseline>
+  historical_is: FieldProvenance<HistoricalIS>
+}
+
+export interface FxInfo {
+  reporting_currency: string   // XBRL reporting currency before conversion
+  rate: number                 // trading-currency units per reporting-currency unit
+  source: string               // rate source name
+  adr_ratio: number            // ordinary shares per traded share
 }
 
 export interface CAPMData {
@@ -81,7 +180,15 @@ export interface ValuationConfig {
   currency: string
   units: string
   baseline: Baseline
+  baseline_ttm?: Baseline      // trailing twelve months from 10-Q facts, when newer than the 10-K
+  ttm_period_end?: string      // end date of the latest quarter in the TTM window
+  fx?: FxInfo                  // set when XBRL figures were converted to the trading currency
+  data_warnings?: string[]     // sources that failed or were missing (e.g. EDGAR rate-limited)
+  provenance?: ProvenanceMap   // where each Baseline / HistoricalIS field came from
+  sector?: string              // Yahoo assetProfile.sector
+  model_set?: ModelSet         // "financial" for banks, "reit" for real estate (see selectModelSet)
   historical_is: HistoricalIS
+  quarterly_is?: QuarterlyIS
   segments: Record<string, Segment>
   acquisitions: Record<string, { rev: number; margin: number; mult: number; seg?: string }>
   comps: Record<string, Comp>
@@ -94,6 +201,12 @@ export interface ValuationConfig {
   ev_chart_current_multiple?: number
 }
 
+/**
+ * Which valuation models apply: banks and other financials skip EBITDA/FCFF-based
+ * models; REITs swap EPS-based multiples for FFO/AFFO and NAV.
+ */
+export type ModelSet = "standard" | "financial" | "reit"
+
 export interface Assumptions {
   scenario: "Base" | "Bull" | "Bear"
   yr1_g: number
@@ -118,8 +231,108 @@ export interface Assumptions {
   cost_of_debt: number  // pre-tax cost of debt (e.g. 0.045)
   hl: number            // H-Model DDM half-life (e.g. 2.5 years)
   nwc_pct_rev?: number  // % of incremental revenue invested in NWC (default 0.03)
+  cap_rate?: number     // REIT NAV: capitalisation rate applied to forward NOI (default 0.055)
+  // Debt schedule policy
+  min_cash_pct_rev?: number  // minimum cash as % of revenue; shortfalls draw the revolver (default 0.02)
+  cash_sweep_pct?: number    // % of cash above the minimum used to prepay term debt (default 0)
+  // Discounting
+  valuation_date?: string        // ISO date cash flows are discounted to (default today)
+  mid_year_convention?: boolean  // discount flows at mid-period instead of period end (default false)
+  // DCF terminal value
+  tv_method?: TerminalValueMethod  // default "blend"
+  tv_blend_weight?: number         // weight on the perpetuity-growth TV in a blend (default 0.5)
+  // Dilution & SBC
+  tsm_dilution?: boolean   // per-share values on the treasury-stock-method share count (default true)
+  sbc_as_cash?: boolean    // treat SBC as a cash cost in FCFF (default true)
+  // EV-to-equity bridge: items set to false are left out (all reported items are included by default)
+  ev_bridge?: Partial<Record<EVBridgeItem, boolean>>
+  // Bottom-up beta
+  target_de?: number  // target debt / equity for relevering peer betas (default: current market D/E)
+  // Synthetic rating
+  synthetic_kd?: boolean        // cost of debt = rf + synthetic-rating spread instead of cost_of_debt (default true)
+  spread_table?: RatingBand[]   // rating bands, strongest first (default DEFAULT_SPREAD_TABLE)
+  // Country risk — ke = rf (in `currency`) + β × ERP + λ × revenue-weighted CRP
+  currency?: string                     // cash-flow currency; rf is restated to it from USD (default "USD")
+  country_exposure?: CountryExposure[]  // revenue weights by country (default: none, no CRP)
+  crp_table?: Record<string, number>    // per-country CRP overrides of COUNTRY_RISK_PREMIUMS
+  crp_lambda?: number                   // exposure relative to the average local company (default 1)
+}
+
+/** Share of revenue earned in one country (weights are normalised). */
+export interface CountryExposure {
+  country: string   // Yahoo assetProfile.country name, e.g. "Brazil"
+  weight: number
+}
+
+/** One synthetic-rating band; a ratio meets the band when it clears the threshold. */
+export interface RatingBand {
+  rating: string
+  min_coverage: number          // EBIT / interest
+  max_net_debt_ebitda: number
+  min_ffo_debt: number          // (EBITDA − interest − tax) / total debt
+  spread: number                // default spread over rf
+}
+
+/** Optional EV-to-equity bridge items; debt and cash are always in the bridge. */
+export type EVBridgeItem =
+  | "operating_leases"
+  | "minority_interest"
+  | "preferred_stock"
+  | "pension_deficit"
+  | "equity_investments"
+
+export interface EVBridgeLine {
+  key: "total_debt" | "cash" | EVBridgeItem
+  label: string
+  amount: number      // signed effect on equity value: claims negative, cash and investments positive
+  included: boolean
+}
+
+/** Enterprise value → equity value. Equity = EV − net_claims. */
+export interface EVBridge {
+  lines: EVBridgeLine[]
+  net_claims: number  // −Σ amount over included lines; equals net debt when only debt and cash are present
+}
+
+// ── Monte Carlo simulation spec ──────────────────────────────────────────────
+
+/** Numeric Assumptions fields — the ones a simulation can sample. */
+export type SimField = {
+  [K in keyof Assumptions]-?: NonNullable<Assumptions[K]> extends number ? K : never
+}[keyof Assumptions]
+
+/**
+ * Sampling distribution for one input. `mean` / `mode` default to the
+ * assumption's current value, so a spec follows the active scenario.
+ */
+export type Distribution =
+  | { kind: "normal"; mean?: number; sd: number }
+  | { kind: "lognormal"; mean?: number; sd: number }    // moments of the variable itself (mean > 0)
+  | { kind: "uniform"; min: number; max: number }
+  | { kind: "triangular"; min: number; mode?: number; max: number }
+  | { kind: "truncated"; mean?: number; sd: number; min: number; max: number }  // truncated normal
+
+export interface SimVariable {
+  field: SimField
+  dist: Distribution
+}
+
+/** Correlation between two sampled fields' normal scores (Gaussian copula). */
+export interface SimCorrelation {
+  a: SimField
+  b: SimField
+  rho: number
 }
 
+export interface SimulationSpec {
+  name: string
+  variables: SimVariable[]
+  correlations: SimCorrelation[]
+}
+
+/** How the FCFF DCF terminal value is formed. */
+export type TerminalValueMethod = "perpetuity" | "exit_multiple" | "blend"
+
 export type Signal = "BUY" | "HOLD" | "SELL" | "N/A"
 
 export interface SignalRow {
@@ -127,6 +340,22 @@ export interface SignalRow {
   intrinsicValue: number
   vsMarket: string
   signal: Signal
+  blockedBy?: string[]   // error-level data issues that forced the signal to N/A
+}
+
+// ── Data quality ──────────────────────────────────────────────────────────────
+
+export type IssueSeverity =
+  | "error"    // inputs unusable: affected models are marked N/A
+  | "warning"  // suspicious but plausible; models still run
+  | "info"
+
+export interface ValidationIssue {
+  code: string           // stable id, e.g. "shares_nonpositive"
+  severity: IssueSeverity
+  message: string
+  fields: string[]       // Baseline / HistoricalIS fields involved
+  models: string[]       // signal-table methods the issue affects
 }
 
 export interface ProFormaRow {
@@ -144,10 +373,86 @@ export interface ProFormaRow {
   ebitda: number
   capex: number
   delta_nwc: number     // change in net working capital (positive = cash outflow)
+  sbc: number           // projected share-based compensation (added back to FCFF when not a cash cost)
   fcff: number
   fcfe: number
   dividends: number
   ebitda_margin: number
+  net_borrowing: number // debt drawn − repaid, from the debt schedule
+  debt: DebtScheduleRow
+  rating: string        // synthetic rating from the prior year's projected figures
+  kd: number            // pre-tax cost of new (revolver) borrowing this year
+}
+
+export interface DebtTrancheRow {
+  name: string
+  opening: number
+  repayment: number     // scheduled amortization and maturities
+  sweep: number         // optional prepayment from excess cash
+  closing: number
+  interest: number      // on the average balance
+}
+
+export interface DebtScheduleRow {
+  year: number
+  tranches: DebtTrancheRow[]
+  revolver_opening: number
+  revolver_draw: number  // negative = repayment
+  revolver_closing: number
+  revolver_interest: number
+  opening_debt: number
+  closing_debt: number
+  net_borrowing: number
+  interest: number       // total interest expense
+  cash_opening: number
+  cash_closing: number
+  min_cash: number
+  iterations: number     // fixed-point iterations to resolve the interest circularity
+}
+
+/** Days of revenue (receivables) or COGS (inventory, payables) held on the balance sheet. */
+export interface WorkingCapitalDays {
+  dso: number
+  dio: number
+  dpo: number
+}
+
+export interface BalanceSheetRow {
+  year: number
+  cash: number
+  receivables: number
+  inventory: number
+  ppe: number
+  other_assets: number        // held flat; absorbs ΔNWC when working capital days are unavailable
+  total_assets: number
+  payables: number
+  debt: number
+  other_liabilities: number   // held flat
+  total_liabilities: number
+  equity: number              // opening equity + net income − dividends
+  balance_check: number       // total assets − (liabilities + equity); 0 when the model balances
+}
+
+export interface CashFlowRow {
+  year: number
+  net_income: number
+  da: number
+  sbc: number           // non-cash SBC added back (0 when SBC is treated as a cash cost)
+  delta_nwc: number
+  cfo: number
+  capex: number
+  cfi: number
+  net_borrowing: number
+  dividends: number
+  cff: number
+  net_change_cash: number
+}
+
+export interface ThreeStatementProjection {
+  days: WorkingCapitalDays | null   // null when no receivables / inventory / payables were reported
+  opening: BalanceSheetRow          // last reported balance sheet, rearranged into the projection's lines
+  balance: BalanceSheetRow[]
+  cashflow: CashFlowRow[]
 }
 
 export interface RIProjectionRow {
@@ -159,6 +464,14 @@ export interface RIProjectionRow {
   pv_ri: number
 }
 
+export interface ExcessReturnRow {
+  year: number
+  tbvps_start: number
+  rote: number
+  excess_return: number   // (ROTE − ke) × opening TBVPS
+  pv: number
+}
+
 export interface NewsArticle {
   title: string
   summary?: string